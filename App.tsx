@@ -3,10 +3,10 @@ import { Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-
 import { ClientInterface } from './components/ClientInterface';
 import { SellerInterface } from './components/SellerInterface';
 import { AdminInterface } from './components/AdminInterface';
-import { Users, ShoppingBag, ShieldCheck, Phone, Send } from 'lucide-react';
-
-// Хардкодим URL по умолчанию
-const DEFAULT_API_URL = 'https://script.google.com/macros/s/AKfycbxooqVnUce3SIllt2RUtG-KJ5EzNswyHqrTpdsTGhc6XOKW6qaUdlr6ld77LR2KQz0-/exec';
+import { RequireRole } from './components/AuthGate';
+import { DEFAULT_API_URL } from './services/gasBackend';
+import { getBackendKind } from './services/dataBackend';
+import { Users, ShoppingBag, ShieldCheck, Phone, Send, HardDrive } from 'lucide-react';
 
 const App: React.FC = () => {
   const navigate = useNavigate();
@@ -17,6 +17,10 @@ const App: React.FC = () => {
      if (!localStorage.getItem('GAS_API_URL')) {
          localStorage.setItem('GAS_API_URL', DEFAULT_API_URL);
      }
+     // Параметр ?backend= уже применён в dataBackend, убираем его из адресной строки
+     if (new URLSearchParams(location.search).has('backend')) {
+         navigate(location.pathname, { replace: true });
+     }
   }, []);
 
   const isActive = (path: string) => location.pathname.startsWith(path);
@@ -31,6 +35,11 @@ const App: React.FC = () => {
              <span className="font-black tracking-tight uppercase hidden sm:inline text-[11px]">
                autoparts market | <span className="text-indigo-600">china-nai</span>
              </span>
+             {getBackendKind() === 'local' && (
+               <span className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[8px] font-black uppercase" title="Данные хранятся локально в браузере">
+                 <HardDrive size={10}/> Local
+               </span>
+             )}
           </div>
 
           <div className="flex-grow flex justify-center overflow-x-auto no-scrollbar">
@@ -71,9 +80,9 @@ const App: React.FC = () => {
 
       <main>
         <Routes>
-          <Route path="/client" element={<ClientInterface />} />
-          <Route path="/supplier" element={<SellerInterface />} />
-          <Route path="/admin" element={<AdminInterface />} />
+          <Route path="/client" element={<RequireRole role="client"><ClientInterface /></RequireRole>} />
+          <Route path="/supplier" element={<RequireRole role="supplier"><SellerInterface /></RequireRole>} />
+          <Route path="/admin" element={<RequireRole role="admin"><AdminInterface /></RequireRole>} />
           {/* Default redirect */}
           <Route path="/" element={<Navigate to="/client" replace />} />
           {/* Catch all redirect */}
@@ -1,12 +1,38 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { SheetService } from '../services/sheetService';
-import { Order, OrderStatus, Currency, RankType, OrderItem } from '../types';
+import { AuthService } from '../services/authService';
+import { DataIssue, OrderEvent, ExchangeRate, PricingRules, AutoRankRules, PriceHintRules, VERSION_CONFLICT_ERROR } from '../services/contract';
+import { useAuthSession } from './AuthGate';
+import { OrderTimeline, EVENT_LABELS, formatEventTime } from './OrderTimeline';
+import { Order, OrderStatus, Currency, RankType, OrderItem, WorkflowStatus, PriceBreakdown } from '../types';
+import { canTransition, nextStatuses, isCpEditable } from '../services/workflow';
+import { describeShortfall, itemCoverage, requiredQuantity, leaderQuantity } from '../services/fulfilment';
+import { ratesOn, RateMap } from '../services/exchangeRates';
+import { DEFAULT_PRICING_RULES, calculatePrice, matchesCalculated } from '../services/pricing';
+import { RatesPanel } from './RatesPanel';
+import { PricingRulesPanel } from './PricingRulesPanel';
+import { OfferMatrix } from './OfferMatrix';
+import { RevisedBadge, PriceHistory } from './OfferRevisionBadge';
+import { AutoRankRulesPanel } from './AutoRankRulesPanel';
+import { AutoRankProposal } from './AutoRankProposal';
+import { CpDocuments } from './CpDocuments';
+import { ExportMenu } from './ExportMenu';
+import { ImportPanel } from './ImportPanel';
+import { BiddingControls, BiddingDashboard } from './BiddingPanel';
+import { closedWithoutCoverage } from '../services/bidding';
+import { PriceHintRulesPanel, PriceHintToggle } from './PriceHintsPanel';
+import { DEFAULT_PRICE_HINT_RULES } from '../services/priceHints';
+import { carBrand, carModelLabel, carTitle } from '../services/carCatalogue';
+import { describeArticle, isSameArticle } from '../services/partsCatalogue';
+import { buildOfferMatrix, pickBest, offersForItem, BestCriterion, ItemOffer } from '../services/offerMatrix';
+import { DEFAULT_AUTO_RANK_RULES, proposeRanks } from '../services/autoRank';
+import { EditForm, EditFieldDiff, EditChoice, editFormFor, diffEdits, mergeEdits, describeOfferChanges } from '../services/orderConflict';
 import { Pagination } from './Pagination';
 import { 
   Search, RefreshCw, ChevronRight, FileText, 
   History, X, CheckCircle2, Ban, Loader2,
-  ArrowUp, ArrowDown, ArrowUpDown, Edit2, Check, AlertCircle
+  ArrowUp, ArrowDown, ArrowUpDown, Edit2, Check, AlertCircle, AlertTriangle, LogOut, Coins, Percent, Wand2, Upload, Timer, Lightbulb, Phone
 } from 'lucide-react';
 
 interface ActionLog {
@@ -16,10 +42,41 @@ interface ActionLog {
   type: 'info' | 'success' | 'error';
 }
 
+// Выбор лидера, ожидающий причины ручной цены
+interface PendingRank {
+  offerId: string;
+  itemId: string;
+  orderId: string;
+  vin: string;
+  adminPrice?: number;
+  adminCurrency?: Currency;
+  adminComment?: string;
+  deliveryRate?: number;
+  quantity?: number;
+  calculatedPrice: number;
+}
+
+// Форма правки заказа и версия, с которой её начали
+interface EditBase {
+  form: EditForm;
+  version?: number;
+}
+
+// Запись отклонена: заказ успели изменить. Правка формы — слияние по полям, выбор лидера — повтор поверх свежих данных
+interface ConflictState {
+  order: Order;        // свежая версия с бэкенда
+  changes: string[];   // выбор лидера: что изменилось в офферах
+  fields?: EditFieldDiff[];
+  mine?: EditForm;
+  retry?: () => void;
+}
+
 interface AdminModalState {
-  type: 'ANNUL' | 'VALIDATION';
+  type: 'ANNUL' | 'VALIDATION' | 'PRICE_OVERRIDE' | 'CONFLICT';
   orderId?: string;
   missingItems?: string[];
+  pendingRank?: PendingRank;
+  conflict?: ConflictState;
 }
 
 // UNIFIED GRID COLUMNS DEFINITION
@@ -37,6 +94,7 @@ type AdminTab =
   | 'refused';
 
 export const AdminInterface: React.FC = () => {
+  const adminAuth = useAuthSession('admin');
   const [orders, setOrders] = useState<Order[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
@@ -46,26 +104,47 @@ export const AdminInterface: React.FC = () => {
   const [expandedId, setExpandedId] = useState<string | null>(null);
   const [logs, setLogs] = useState<ActionLog[]>([]);
   const [showLogs, setShowLogs] = useState(false);
+  const [recentEvents, setRecentEvents] = useState<OrderEvent[]>([]);
+  const [dataIssues, setDataIssues] = useState<DataIssue[]>([]);
+  const [showIssues, setShowIssues] = useState(false);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [showRates, setShowRates] = useState(false);
+  const [pricingRules, setPricingRules] = useState<PricingRules>(DEFAULT_PRICING_RULES);
+  const [showPricing, setShowPricing] = useState(false);
+  const [autoRankRules, setAutoRankRules] = useState<AutoRankRules>(DEFAULT_AUTO_RANK_RULES);
+  const [showAutoRank, setShowAutoRank] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showBidding, setShowBidding] = useState(false);
+  const [priceHintRules, setPriceHintRules] = useState<PriceHintRules>(DEFAULT_PRICE_HINT_RULES);
+  const [showPriceHints, setShowPriceHints] = useState(false);
+  // Текущее время для окон приёма: закрывшиеся окна попадают в сводку без перезагрузки
+  const [now, setNow] = useState(Date.now());
+  const [proposalOrderId, setProposalOrderId] = useState<string | null>(null);
+  const [, setDraftVersion] = useState(0); // перерисовка расчёта при смене тарифа доставки
   const [isSubmitting, setIsSubmitting] = useState<string | null>(null);
   
   // Edit Mode State
   const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
-  const [editForm, setEditForm] = useState<{ [key: string]: string }>({}); 
+  const [editForm, setEditForm] = useState<EditForm>({}); 
+  const [editBase, setEditBase] = useState<EditBase | null>(null);
+  const [conflictChoices, setConflictChoices] = useState<Record<string, EditChoice>>({});
   
   const [successToast, setSuccessToast] = useState<{message: string, id: string} | null>(null);
   const [vanishingIds, setVanishingIds] = useState<Set<string>>(new Set());
 
   const [adminModal, setAdminModal] = useState<AdminModalState | null>(null);
   const [refusalReason, setRefusalReason] = useState("");
+  const [overrideReason, setOverrideReason] = useState("");
 
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
   
   const [sortConfig, setSortConfig] = useState<{ key: string, direction: 'asc' | 'desc' } | null>({ key: 'id', direction: 'desc' });
 
-  const interactionLock = useRef<number>(0);
+  const showLogsRef = useRef(false);
 
   // --- HELPER FOR LOGS ---
+  // Локальный лог — только ошибки текущей сессии; успешные действия пишутся в журнал бэкенда
   const addLog = (text: string, type: 'info' | 'success' | 'error') => {
       const log: ActionLog = {
           id: Date.now().toString() + Math.random(),
@@ -76,14 +155,26 @@ export const AdminInterface: React.FC = () => {
       setLogs(prev => [log, ...prev].slice(0, 50));
   };
 
+  const handleImported = (createdIds: string[]) => {
+      setSuccessToast({ message: `Импортировано: ${createdIds.length}`, id: Date.now().toString() });
+      setTimeout(() => setSuccessToast(null), 3000);
+      fetchData(true);
+  };
+
+  const toggleLogs = () => {
+      showLogsRef.current = !showLogs;
+      setShowLogs(!showLogs);
+      if (!showLogs) SheetService.getRecentEvents().then(setRecentEvents).catch(() => addLog("Ошибка загрузки журнала", "error"));
+  };
+
   const fetchData = async (silent = false) => {
-    if (silent && Date.now() - interactionLock.current < 10000) return;
-    if (silent && SheetService.isLocked()) return;
     if (!silent) setLoading(true);
     setIsSyncing(true);
     try {
       const data = await SheetService.getOrders(true);
       setOrders(data);
+      setDataIssues(SheetService.getDataIssues());
+      if (showLogsRef.current) SheetService.getRecentEvents().then(setRecentEvents).catch(console.error);
       setError(null);
     } catch(e: any) { 
       addLog("Ошибка загрузки данных", "error");
@@ -94,12 +185,52 @@ export const AdminInterface: React.FC = () => {
     }
   };
 
+  const loadRates = () => SheetService.getRates().then(setRates);
+  const loadPricingRules = () => SheetService.getPricingRules().then(setPricingRules);
+
+  const loadAutoRankRules = () => SheetService.getAutoRankRules().then(setAutoRankRules);
+  const loadPriceHintRules = () => SheetService.getPriceHintRules().then(setPriceHintRules);
+
+  useEffect(() => {
+      const timer = setInterval(() => setNow(Date.now()), 60000);
+      return () => clearInterval(timer);
+  }, []);
+
+  const uncoveredCount = useMemo(() => closedWithoutCoverage(orders, now).length, [orders, now]);
+
+  // Из сводки — к карточке заказа на вкладке «Новые»
+  const openBiddingOrder = (orderId: string) => {
+      setActiveTab('new');
+      setSearchQuery(orderId);
+      setExpandedId(orderId);
+  };
+
   useEffect(() => {
       fetchData();
-      const interval = setInterval(() => fetchData(true), 30000);
-      return () => clearInterval(interval);
+      loadRates();
+      loadPricingRules();
+      loadAutoRankRules();
+      loadPriceHintRules();
+      // Изменения приходят по push-каналу; заказы с оптимистичной правкой SheetService не перетирает
+      return SheetService.subscribe(data => {
+          setOrders(data);
+          setDataIssues(SheetService.getDataIssues());
+          if (showLogsRef.current) SheetService.getRecentEvents().then(setRecentEvents).catch(console.error);
+      });
   }, []);
 
+  const currentRates = useMemo(() => ratesOn(rates), [rates]);
+
+  // Для заказа с отправленным КП — курсы, зафиксированные на дату КП
+  const rateMapFor = (order: Order): RateMap => order.rateSnapshot?.rates || currentRates;
+
+  // Цена для клиента по умолчанию — расчётная (закупка в ₽ + доставка + пошлина + сбор + наценка).
+  // Без курса валюты поставщика расчёт невозможен — подставляется цена поставщика как есть
+  const defaultAdminPrice = (item: OrderItem, order: Order): { price?: number; currency?: Currency; breakdown?: PriceBreakdown } => {
+      const breakdown = calculatePrice(item, carBrand(order.car), pricingRules, rateMapFor(order));
+      return breakdown ? { price: breakdown.total, currency: 'RUB', breakdown } : { price: item.sellerPrice, currency: item.sellerCurrency };
+  };
+
   useEffect(() => {
     setCurrentPage(1);
   }, [activeTab, searchQuery, sortConfig]);
@@ -194,64 +325,119 @@ export const AdminInterface: React.FC = () => {
 
   // --- ACTIONS ---
 
-  const handleUpdateRank = async (offerId: string, itemName: string, currentRank: RankType, vin: string, adminPrice?: number, adminCurrency?: Currency, adminComment?: string, deliveryRate?: number) => {
-      interactionLock.current = Date.now();
+  // Выбор лидера: цена, отличающаяся от расчётной, требует причины (бэкенд проверяет то же самое)
+  // quantity — доля поставщика: оффер добавляется к уже выбранным лидерам позиции
+  const selectLeader = (order: Order, offerId: string, itemId: string, item: OrderItem, quantity?: number) => {
+      const auto = defaultAdminPrice(item, order);
+      const adminPrice = item.adminPrice ?? auto.price;
+      const adminCurrency = item.adminCurrency ?? auto.currency;
+      const isLeader = item.rank === 'ЛИДЕР' || item.rank === 'LEADER';
+      if (!isLeader && auto.breakdown && adminPrice !== undefined && !matchesCalculated(adminPrice, adminCurrency || 'RUB', auto.breakdown, rateMapFor(order))) {
+          setOverrideReason(item.priceOverrideReason || "");
+          setAdminModal({
+              type: 'PRICE_OVERRIDE',
+              orderId: order.id,
+              pendingRank: { offerId, itemId, orderId: order.id, vin: order.vin, adminPrice, adminCurrency, adminComment: item.adminComment, deliveryRate: item.deliveryRate, quantity, calculatedPrice: auto.breakdown.total }
+          });
+          return;
+      }
+      handleUpdateRank(order.id, order.vin, offerId, itemId, item.rank || '', adminPrice, adminCurrency, item.adminComment, item.deliveryRate, undefined, quantity);
+  };
+
+  const confirmPriceOverride = () => {
+      const pending = adminModal?.pendingRank;
+      if (!pending || !overrideReason.trim()) return;
+      setAdminModal(null);
+      handleUpdateRank(pending.orderId, pending.vin, pending.offerId, pending.itemId, '', pending.adminPrice, pending.adminCurrency, pending.adminComment, pending.deliveryRate, overrideReason.trim(), pending.quantity);
+      setOverrideReason("");
+  };
+
+  // true — бэкенд принял выбор; при ошибке и конфликте версий — false (ошибка уже в журнале, конфликт — в окне)
+  const handleUpdateRank = async (orderId: string, vin: string, offerId: string, itemId: string, currentRank: RankType, adminPrice?: number, adminCurrency?: Currency, adminComment?: string, deliveryRate?: number, priceOverrideReason?: string, quantity?: number): Promise<boolean> => {
       const newAction = currentRank === 'ЛИДЕР' || currentRank === 'LEADER' ? 'RESET' : undefined;
+      const seen = orders.find(o => o.id === orderId);
       
       // Optimistic update
-      setOrders(prev => prev.map(o => {
-          if (o.vin !== vin) return o;
+      const optimistic = (o: Order): Order => {
+          const orderItem = o.items.find(x => x.id === itemId);
           return {
               ...o,
               offers: o.offers?.map(off => ({
                   ...off,
                   items: off.items.map(i => {
-                      if (i.name === itemName) {
+                      if (i.id === itemId) {
                           if (off.id === offerId) {
-                              return { ...i, rank: newAction === 'RESET' ? 'РЕЗЕРВ' : 'ЛИДЕР' as RankType, adminPrice, adminCurrency, adminComment, deliveryRate };
+                              if (newAction === 'RESET') return { ...i, rank: 'РЕЗЕРВ' as RankType, allocatedQuantity: undefined, adminComment };
+                              const required = requiredQuantity(orderItem || i);
+                              const allocatedQuantity = quantity ?? Math.min(i.offeredQuantity || required, required);
+                              return { ...i, rank: 'ЛИДЕР' as RankType, allocatedQuantity, adminPrice, adminCurrency, adminComment, deliveryRate, priceOverrideReason };
                           } else {
-                              // If setting leader, reset others
-                              if (!newAction) return { ...i, rank: 'РЕЗЕРВ' as RankType };
+                              // Единственный лидер заменяет остальных; доля добавляется к ним
+                              if (!newAction && quantity === undefined) return { ...i, rank: 'РЕЗЕРВ' as RankType, allocatedQuantity: undefined };
                           }
                       }
                       return i;
                   })
               }))
           };
-      }));
+      };
 
       try {
-          await SheetService.updateRank(vin, itemName, offerId, adminPrice, adminCurrency, newAction, adminComment, deliveryRate);
-          addLog(`Обновлен ранг для ${itemName}`, 'success');
-      } catch (e) {
-          addLog("Ошибка обновления ранга", "error");
+          await SheetService.withOptimistic(orderId, optimistic, () =>
+              SheetService.updateRank(vin, itemId, offerId, adminPrice, adminCurrency, newAction, adminComment, deliveryRate, priceOverrideReason, newAction ? undefined : quantity));
+          return true;
+      } catch (e: any) {
+          if (e?.message === VERSION_CONFLICT_ERROR && seen) {
+              const fresh = (await SheetService.getOrders(true)).find(o => o.id === orderId);
+              if (fresh) {
+                  const retry = () => handleUpdateRank(orderId, vin, offerId, itemId, currentRank, adminPrice, adminCurrency, adminComment, deliveryRate, priceOverrideReason, quantity);
+                  setAdminModal({ type: 'CONFLICT', orderId, conflict: { order: fresh, changes: describeOfferChanges(seen, fresh), retry } });
+                  return false;
+              }
+          }
+          addLog(`Ошибка обновления ранга: ${e?.message || e}`, "error");
           fetchData(true); // Revert on error
+          return false;
+      }
+  };
+
+  // Массовый выбор лидеров (матрица, автовыбор): цена для клиента — расчётная, поэтому причина не нужна
+  const applyLeaders = async (order: Order, picks: { itemId: string; offer: ItemOffer }[]) => {
+      if (picks.length === 0) {
+          addLog(`Заказ ${order.id}: лидеры уже выбраны`, "info");
+          return;
+      }
+      let failed = 0;
+      for (const { itemId, offer } of picks) {
+          const auto = defaultAdminPrice(offer.item, order);
+          if (!await handleUpdateRank(order.id, order.vin, offer.offerId, itemId, '', auto.price, auto.currency, offer.item.adminComment, offer.item.deliveryRate)) failed++;
       }
+      if (failed === 0) addLog(`Заказ ${order.id}: выбрано лидеров — ${picks.length}`, "success");
+      else addLog(`Заказ ${order.id}: выбрано лидеров — ${picks.length - failed} из ${picks.length}, не удалось — ${failed}`, "error");
+      fetchData(true);
+  };
+
+  const pickBestLeaders = (order: Order, criterion: BestCriterion) =>
+      applyLeaders(order, pickBest(buildOfferMatrix(order, item => defaultAdminPrice(item, order).breakdown), criterion).map(p => ({ itemId: p.item.id, offer: p.offer })));
+
+  const openAutoRank = (orderId: string) => {
+      setAdminModal(null);
+      setExpandedId(orderId);
+      setProposalOrderId(orderId);
   };
 
   const handleFormCP = async (orderId: string) => {
       const order = orders.find(o => o.id === orderId);
       if (!order) return;
 
-      // VALIDATION: Check if every item has a Leader
-      const itemNames = order.items.map(i => (i.AdminName || i.name).trim().toLowerCase());
-      const coveredItems = new Set<string>();
-      
-      order.offers?.forEach(off => {
-          off.items.forEach(i => {
-              if (i.rank === 'ЛИДЕР' || i.rank === 'LEADER') {
-                  coveredItems.add(i.name.trim().toLowerCase());
-              }
-          });
-      });
-
-      const missing = order.items.filter(i => !coveredItems.has((i.AdminName || i.name).trim().toLowerCase()));
+      // Каждая позиция должна быть покрыта долями лидеров целиком; бэкенд отклоняет только КП без единого лидера
+      const missing = describeShortfall(order.items, order.offers || []);
 
       if (missing.length > 0) {
           setAdminModal({
               type: 'VALIDATION',
               orderId: orderId,
-              missingItems: missing.map(i => i.AdminName || i.name)
+              missingItems: missing
           });
           return;
       }
@@ -267,17 +453,14 @@ export const AdminInterface: React.FC = () => {
       setVanishingIds(prev => new Set(prev).add(orderId));
       setSuccessToast({ message: "КП Утверждено!", id: Date.now().toString() });
 
-      // Optimistic Update - INSTANT REACTION
-      setOrders(prev => prev.map(o => o.id === orderId ? { 
-          ...o, 
-          isProcessed: true, 
-          status: OrderStatus.CLOSED, 
-          workflowStatus: 'КП отправлено' 
-      } : o));
-
       try {
-          await SheetService.formCP(orderId);
-          addLog(`КП сформировано для ${orderId}`, 'success');
+          // Optimistic Update - INSTANT REACTION
+          await SheetService.withOptimistic(orderId, o => ({ 
+              ...o, 
+              isProcessed: true, 
+              status: OrderStatus.CLOSED, 
+              workflowStatus: 'КП отправлено' 
+          }), () => SheetService.formCP(orderId));
           
           setTimeout(() => {
               setVanishingIds(prev => { const n = new Set(prev); n.delete(orderId); return n; });
@@ -295,12 +478,26 @@ export const AdminInterface: React.FC = () => {
       }
   };
 
+  // Повторное формирование: статус не меняется, клиент получает новую версию документа
+  const handleReformCP = async (orderId: string) => {
+      setIsSubmitting(orderId);
+      try {
+          await SheetService.formCP(orderId);
+          setSuccessToast({ message: "КП переформировано", id: Date.now().toString() });
+          setTimeout(() => setSuccessToast(null), 1500);
+      } catch (e: any) {
+          addLog(`Ошибка формирования КП: ${e?.message || e}`, "error");
+      } finally {
+          setIsSubmitting(null);
+          fetchData(true);
+      }
+  };
+
   const handleRefuse = async () => {
       if (!adminModal?.orderId) return;
       setIsSubmitting(adminModal.orderId);
       try {
           await SheetService.refuseOrder(adminModal.orderId, refusalReason, 'ADMIN');
-          addLog(`Заказ ${adminModal.orderId} аннулирован`, 'success');
           setAdminModal(null);
           setRefusalReason("");
           
@@ -313,62 +510,68 @@ export const AdminInterface: React.FC = () => {
       }
   };
 
+  const changeWorkflowStatus = async (orderId: string, status: WorkflowStatus) => {
+      try {
+          await SheetService.updateWorkflowStatus(orderId, status);
+      } catch (e: any) {
+          addLog(`Ошибка смены статуса: ${e?.message || e}`, "error");
+      } finally {
+          fetchData(true);
+      }
+  };
+
   const startEditing = (order: Order) => {
       setEditingOrderId(order.id);
-      const form: any = {};
-      
-      // Car fields
-      form[`car_model`] = order.car?.AdminModel || order.car?.model || '';
-      form[`car_year`] = order.car?.AdminYear || order.car?.year || '';
-      form[`car_body`] = order.car?.AdminBodyType || order.car?.bodyType || '';
-      
-      // Items fields
-      order.items.forEach((item, idx) => {
-          form[`item_${idx}_name`] = item.AdminName || item.name;
-          form[`item_${idx}_qty`] = item.AdminQuantity || item.quantity;
-      });
-      
+      const form = editFormFor(order);
       setEditForm(form);
+      setEditBase({ form, version: order.version });
   };
 
-  const saveEditing = async (order: Order) => {
+  // Сохранение уходит с версией заказа на момент начала правки — чужие изменения за это время не перетираются
+  const saveEditing = async (order: Order, form: EditForm = editForm, base: EditBase | null = editBase) => {
       setIsSubmitting(order.id);
-      const newItems = order.items.map((item, idx) => ({
+      const car = { ...order.car, AdminModel: form[`car_model`], AdminYear: form[`car_year`], AdminBodyType: form[`car_body`] } as any;
+      const newItems = order.items.map(item => ({
           ...item,
-          AdminName: editForm[`item_${idx}_name`],
-          AdminQuantity: Number(editForm[`item_${idx}_qty`]),
-          car: {
-              ...order.car,
-              AdminModel: editForm[`car_model`],
-              AdminYear: editForm[`car_year`],
-              AdminBodyType: editForm[`car_body`]
-          }
-      }));
-
-      // Optimistic Update
-      setOrders(prev => prev.map(o => {
-          if (o.id === order.id) {
-              return {
-                  ...o,
-                  car: { ...o.car, AdminModel: editForm[`car_model`], AdminYear: editForm[`car_year`], AdminBodyType: editForm[`car_body`] } as any,
-                  items: newItems
-              };
-          }
-          return o;
+          AdminName: form[`item_${item.id}_name`] ?? item.AdminName,
+          AdminQuantity: Number(form[`item_${item.id}_qty`] ?? (item.AdminQuantity || item.quantity)),
+          car
       }));
 
       try {
-          await SheetService.updateOrderJson(order.id, newItems);
-          addLog(`Заказ ${order.id} обновлен`, 'success');
+          // Optimistic Update
+          await SheetService.withOptimistic(order.id, o => ({ ...o, car, items: newItems }), () => SheetService.updateOrderJson(order.id, newItems, base?.version));
           setEditingOrderId(null);
-      } catch (e) {
-          addLog("Ошибка сохранения", "error");
-          fetchData(true);
+      } catch (e: any) {
+          const fresh = e?.message === VERSION_CONFLICT_ERROR && base ? (await SheetService.getOrders(true)).find(o => o.id === order.id) : undefined;
+          if (fresh && base) {
+              setConflictChoices({});
+              setAdminModal({ type: 'CONFLICT', orderId: order.id, conflict: { order: fresh, changes: [], fields: diffEdits(fresh, base.form, form), mine: form } });
+          } else {
+              addLog("Ошибка сохранения", "error");
+              fetchData(true);
+          }
       } finally {
           setIsSubmitting(null);
       }
   };
 
+  // Слияние правки с чужими изменениями и повторное сохранение от свежей версии
+  const resolveEditConflict = (conflict: ConflictState) => {
+      setAdminModal(null);
+      if (!conflict.fields || !conflict.mine) return;
+      const merged = mergeEdits(conflict.fields, conflict.mine, conflictChoices);
+      const base = { form: editFormFor(conflict.order), version: conflict.order.version };
+      setEditForm(merged);
+      setEditBase(base);
+      saveEditing(conflict.order, merged, base);
+  };
+
+  const discardEdits = () => {
+      setAdminModal(null);
+      setEditingOrderId(null);
+  };
+
   // Helper for Sort Icons
   const SortIcon = ({ column }: { column: string }) => {
       if (sortConfig?.key !== column) return <ArrowUpDown size={10} className="text-slate-300 ml-1 opacity-50 group-hover:opacity-100 transition-opacity" />;
@@ -386,12 +589,69 @@ export const AdminInterface: React.FC = () => {
           <div className="flex justify-between items-center bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
               <div className="flex items-center gap-4">
                   <h1 className="text-lg font-black uppercase text-slate-800">Панель Администратора</h1>
-                  <button onClick={() => setShowLogs(!showLogs)} className={`p-2 rounded-lg ${showLogs ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors`}>
+                  <button onClick={toggleLogs} className={`p-2 rounded-lg ${showLogs ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors`}>
                       <History size={18} className="text-slate-600"/>
                   </button>
+                  <button onClick={() => setShowPricing(!showPricing)} className={`p-2 rounded-lg ${showPricing ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors`} title="Расчёт цены">
+                      <Percent size={18} className="text-slate-600"/>
+                  </button>
+                  <button onClick={() => setShowAutoRank(!showAutoRank)} className={`p-2 rounded-lg ${showAutoRank ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors`} title="Автовыбор лидеров">
+                      <Wand2 size={18} className="text-slate-600"/>
+                  </button>
+                  <button onClick={() => setShowPriceHints(!showPriceHints)} className={`p-2 rounded-lg ${showPriceHints ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors`} title="Подсказка лучшей цены">
+                      <Lightbulb size={18} className="text-slate-600"/>
+                  </button>
+                  <button onClick={() => setShowRates(!showRates)} className={`p-2 rounded-lg ${showRates ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors`} title="Курсы валют">
+                      <Coins size={18} className="text-slate-600"/>
+                  </button>
+                  <button onClick={() => setShowImport(!showImport)} className={`p-2 rounded-lg ${showImport ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors`} title="Импорт CSV">
+                      <Upload size={18} className="text-slate-600"/>
+                  </button>
+                  <button onClick={() => setShowBidding(!showBidding)} className={`p-2 rounded-lg flex items-center gap-1.5 ${showBidding ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors`} title="Приём закрыт, предложений не хватает">
+                      <Timer size={18} className={uncoveredCount > 0 ? 'text-amber-600' : 'text-slate-600'}/>
+                      {uncoveredCount > 0 && <span className="text-[10px] font-black text-amber-700">{uncoveredCount}</span>}
+                  </button>
+                  <ExportMenu orders={filteredOrders} viewer={{ role: 'admin' }} fileName="orders"/>
+                  {dataIssues.length > 0 && (
+                      <button onClick={() => setShowIssues(!showIssues)} className={`p-2 rounded-lg flex items-center gap-1.5 ${showIssues ? 'bg-red-100' : 'bg-red-50'} hover:bg-red-100 transition-colors`} title="Повреждённые данные в таблице">
+                          <AlertTriangle size={18} className="text-red-500"/>
+                          <span className="text-[10px] font-black text-red-600">{dataIssues.length}</span>
+                      </button>
+                  )}
+              </div>
+              <div className="flex items-center gap-3">
+                  <span className="text-[10px] font-bold text-slate-400">{adminAuth?.phone}</span>
+                  <button onClick={() => AuthService.logout('admin')} className="p-2 bg-slate-50 hover:bg-red-50 text-slate-400 hover:text-red-500 rounded-lg transition-colors border border-transparent hover:border-red-100" title="Выход">
+                      <LogOut size={18}/>
+                  </button>
               </div>
           </div>
 
+          {showIssues && dataIssues.length > 0 && (
+              <div className="bg-white border border-red-200 rounded-xl overflow-hidden shadow-sm">
+                  <div className="px-4 py-2 bg-red-50 border-b border-red-100 text-[10px] font-black uppercase text-red-600 flex items-center gap-2">
+                      <AlertTriangle size={12}/> Повреждённые строки ({new Set(dataIssues.map(i => i.rowId)).size})
+                  </div>
+                  <div className="max-h-48 overflow-y-auto divide-y divide-slate-50">
+                      {dataIssues.map((issue, idx) => (
+                          <div key={idx} className="px-4 py-2 grid grid-cols-[60px_90px_140px_1fr] gap-3 text-[10px] items-center">
+                              <span className="font-black uppercase text-slate-400">{issue.rowType}</span>
+                              <span className="font-mono font-bold text-slate-700">{issue.rowId}</span>
+                              <span className="font-mono text-slate-500 truncate" title={issue.field}>{issue.field}</span>
+                              <span className="font-bold text-red-600">{issue.message}</span>
+                          </div>
+                      ))}
+                  </div>
+              </div>
+          )}
+
+          {showRates && <RatesPanel rates={rates} onChanged={loadRates} />}
+          {showPricing && <PricingRulesPanel rules={pricingRules} onChanged={loadPricingRules} />}
+          {showAutoRank && <AutoRankRulesPanel rules={autoRankRules} onChanged={loadAutoRankRules} />}
+          {showPriceHints && <PriceHintRulesPanel rules={priceHintRules} ratings={autoRankRules.supplierRatings} onChanged={loadPriceHintRules} />}
+          {showImport && <ImportPanel orders={orders} onImported={handleImported} />}
+          {showBidding && <BiddingDashboard orders={orders} now={now} onOpen={openBiddingOrder} onChanged={() => fetchData(true)} />}
+
           {showLogs && (
               <div className="bg-slate-900 text-slate-300 p-4 rounded-xl max-h-40 overflow-y-auto text-xs font-mono">
                   {logs.map(log => (
@@ -399,7 +659,13 @@ export const AdminInterface: React.FC = () => {
                           [{log.time}] {log.text}
                       </div>
                   ))}
-                  {logs.length === 0 && <div className="text-slate-600 italic">Логов пока нет...</div>}
+                  {recentEvents.map(event => (
+                      <div key={event.seq} className="mb-1">
+                          [{formatEventTime(event.at)}] #{event.orderId} {event.actor.name}: {EVENT_LABELS[event.action] || event.action}
+                          <span className="text-slate-500"> ({event.changes.length} изм.)</span>
+                      </div>
+                  ))}
+                  {logs.length === 0 && recentEvents.length === 0 && <div className="text-slate-600 italic">Логов пока нет...</div>}
               </div>
           )}
 
@@ -479,10 +745,11 @@ export const AdminInterface: React.FC = () => {
                  const hasOffers = offersCount > 0;
                  
                  // Parsing Car Data
-                 const carBrand = (order.car?.AdminModel || order.car?.model || '').split(' ')[0];
-                 const carModel = (order.car?.AdminModel || order.car?.model || '').split(' ').slice(1).join(' ');
+                 const brandName = carBrand(order.car);
+                 const modelName = carModelLabel(order.car);
                  const carYear = order.car?.AdminYear || order.car?.year;
                  const isVanishing = vanishingIds.has(order.id);
+                 const cpEditable = isCpEditable(order.workflowStatus || 'В обработке');
 
                  return (
                  <div key={order.id} className={`transition-all duration-500 border-l-4 ${isVanishing ? 'opacity-0 scale-95 h-0 overflow-hidden' : isExpanded ? 'border-l-indigo-600 ring-1 ring-indigo-600 shadow-xl bg-white relative z-10 rounded-xl my-4' : 'border-l-transparent border-b-4 md:border-b border-slate-100 hover:bg-slate-50'}`}>
@@ -514,13 +781,13 @@ export const AdminInterface: React.FC = () => {
                          {/* BRAND */}
                          <div className="font-bold text-slate-900 uppercase truncate flex items-center gap-2">
                             <span className="md:hidden text-slate-400 w-12 shrink-0">Марка:</span>
-                            {carBrand}
+                            {brandName}
                          </div>
 
                          {/* MODEL */}
                          <div className="font-bold text-slate-700 uppercase truncate flex items-center gap-2">
                             <span className="md:hidden text-slate-400 w-12 shrink-0">Модель:</span>
-                            {carModel}
+                            {modelName}
                          </div>
 
                          {/* YEAR */}
@@ -587,31 +854,52 @@ export const AdminInterface: React.FC = () => {
                                 ) : (
                                     <div className="grid grid-cols-2 md:grid-cols-7 gap-3 md:gap-6 text-[10px]">
                                         <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">Клиент</span><span className="font-black text-indigo-600 uppercase text-sm">{order.clientName}</span></div>
-                                        <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">Телефон</span><span className="font-bold text-slate-700">{order.clientPhone || "-"}</span></div>
+                                        <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">Телефон</span>{order.clientPhone ? <span className="font-bold text-slate-700">{order.clientPhone}</span> : <LinkClientPhoneField orderId={order.id} onLinked={() => fetchData(true)}/>}</div>
                                         <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">VIN</span><span className="font-mono font-bold text-slate-600">{order.vin}</span></div>
-                                        <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">Модель</span><span className="font-black text-slate-800 uppercase">{order.car?.AdminModel || order.car?.model}</span></div>
-                                        <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">Марка</span><span className="font-bold text-slate-700 uppercase">{carBrand}</span></div>
+                                        <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">Модель</span><span className="font-black text-slate-800 uppercase">{carTitle(order.car)}</span></div>
+                                        <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">Марка</span><span className="font-bold text-slate-700 uppercase">{brandName}</span></div>
                                         <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">Год</span><span className="font-bold text-slate-700">{order.car?.AdminYear || order.car?.year}</span></div>
                                         <div><span className="block text-[8px] font-bold text-slate-400 uppercase mb-1">Кузов</span><span className="font-bold text-slate-700 uppercase">{order.car?.AdminBodyType || order.car?.bodyType || '-'}</span></div>
                                     </div>
                                 )}
                              </div>
 
+                             {/* BIDDING WINDOW */}
+                             {(order.workflowStatus || 'В обработке') === 'В обработке' && !order.isRefused && (
+                                 <>
+                                     <BiddingControls key={order.id} order={order} now={now} onChanged={() => fetchData(true)} />
+                                     <PriceHintToggle order={order} onChanged={() => fetchData(true)} />
+                                 </>
+                             )}
+
+                             {/* AUTO RANK PROPOSAL */}
+                             {proposalOrderId === order.id && cpEditable && (
+                                 <AutoRankProposal
+                                    order={order}
+                                    proposals={proposeRanks(order, autoRankRules, item => defaultAdminPrice(item, order).breakdown)}
+                                    priceOf={item => defaultAdminPrice(item, order).breakdown}
+                                    onApply={picks => applyLeaders(order, picks)}
+                                    onClose={() => setProposalOrderId(null)}
+                                 />
+                             )}
+
+                             {/* OFFER MATRIX */}
+                             <OfferMatrix
+                                order={order}
+                                readOnly={!cpEditable}
+                                priceOf={item => defaultAdminPrice(item, order).breakdown}
+                                onSelect={(itemId, off) => selectLeader(order, off.offerId, itemId, off.item)}
+                                onPickBest={criterion => pickBestLeaders(order, criterion)}
+                                onAutoRank={() => setProposalOrderId(order.id)}
+                             />
+
                              {/* ITEMS & OFFERS LIST */}
                              <div className="space-y-4">
                                  {order.items.map((item, idx) => {
                                      // Find offers for this item
-                                     const itemOffers: { offerId: string, clientName: string, item: OrderItem }[] = [];
-                                     order.offers?.forEach(off => {
-                                         const matchingItem = off.items.find(i => i.name === item.name);
-                                         if (matchingItem && (matchingItem.offeredQuantity || 0) > 0) {
-                                             itemOffers.push({
-                                                 offerId: off.id,
-                                                 clientName: off.clientName,
-                                                 item: matchingItem
-                                             });
-                                         }
-                                     });
+                                     const itemOffers = offersForItem(order, item);
+                                     const coverage = itemCoverage(item, order.offers || []);
+                                     const remaining = Math.max(0, coverage.required - coverage.allocated);
 
                                      return (
                                          <div key={idx} className="bg-slate-900 rounded-xl overflow-hidden shadow-md">
@@ -620,14 +908,20 @@ export const AdminInterface: React.FC = () => {
                                                  <div className="flex items-center gap-3">
                                                      {isEditing ? (
                                                          <div className="flex gap-2">
-                                                             <input value={editForm[`item_${idx}_name`]} onChange={e => setEditForm({...editForm, [`item_${idx}_name`]: e.target.value})} className="bg-slate-800 text-white px-2 py-1 rounded border border-slate-600 text-xs font-bold uppercase w-64"/>
-                                                             <input type="number" value={editForm[`item_${idx}_qty`]} onChange={e => setEditForm({...editForm, [`item_${idx}_qty`]: e.target.value})} className="bg-slate-800 text-white px-2 py-1 rounded border border-slate-600 text-xs font-bold w-16 text-center"/>
+                                                             <input value={editForm[`item_${item.id}_name`] ?? ''} onChange={e => setEditForm({...editForm, [`item_${item.id}_name`]: e.target.value})} className="bg-slate-800 text-white px-2 py-1 rounded border border-slate-600 text-xs font-bold uppercase w-64"/>
+                                                             <input type="number" value={editForm[`item_${item.id}_qty`] ?? ''} onChange={e => setEditForm({...editForm, [`item_${item.id}_qty`]: e.target.value})} className="bg-slate-800 text-white px-2 py-1 rounded border border-slate-600 text-xs font-bold w-16 text-center"/>
                                                          </div>
                                                      ) : (
                                                          <>
                                                             <span className="font-black text-sm uppercase tracking-wide">{item.AdminName || item.name}</span>
                                                             {item.category && <span className="ml-2 bg-blue-600 text-white px-1.5 py-0.5 rounded text-[9px] font-bold uppercase">{item.category}</span>}
+                                                            {item.article && <span className="ml-2 text-[10px] font-mono font-bold opacity-80" title={describeArticle(item.article)}>{item.article}</span>}
                                                             <span className="text-[10px] font-bold opacity-60 ml-2">({item.AdminQuantity || item.quantity} ШТ)</span>
+                                                            {coverage.leaders > 0 && (
+                                                                <span className={`ml-2 px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${remaining > 0 ? 'bg-amber-500 text-white' : 'bg-emerald-600 text-white'}`} title={coverage.leaders > 1 ? `Разделено между поставщиками: ${coverage.leaders}` : undefined}>
+                                                                    Покрыто {coverage.allocated} из {coverage.required}
+                                                                </span>
+                                                            )}
                                                          </>
                                                      )}
                                                  </div>
@@ -650,24 +944,48 @@ export const AdminInterface: React.FC = () => {
                                              {/* OFFERS FOR THIS ITEM */}
                                              <div className="bg-white p-2 space-y-1">
                                                  {itemOffers.length > 0 ? (
-                                                     itemOffers.map((off, oIdx) => {
+                                                     itemOffers.map(off => {
                                                          const isLeader = off.item.rank === 'ЛИДЕР' || off.item.rank === 'LEADER';
+                                                         const offerRow = order.offers?.find(o => o.id === off.offerId);
+                                                         // Добавить долю можно, когда у позиции уже есть лидер, но он покрывает не всё
+                                                         const canShare = cpEditable && !isLeader && coverage.leaders > 0 && remaining > 0;
                                                          return (
-                                                             <div key={oIdx} className={`flex flex-col md:grid md:grid-cols-[2fr_1fr_0.5fr_0.5fr_0.5fr_0.5fr_1.5fr_1fr_0.8fr_1fr] gap-2 p-2 rounded-lg border items-center text-[10px] text-center ${isLeader ? 'bg-emerald-50 border-emerald-200' : 'bg-white border-slate-100'}`}>
+                                                             <div key={off.offerId} className={`flex flex-col md:grid md:grid-cols-[2fr_1fr_0.5fr_0.5fr_0.5fr_0.5fr_1.5fr_1fr_0.8fr_1fr] gap-2 p-2 rounded-lg border items-center text-[10px] text-center ${isLeader ? 'bg-emerald-50 border-emerald-200' : 'bg-white border-slate-100'}`}>
                                                                  
                                                                  {/* 1. SUPPLIER */}
                                                                  <div className="font-black uppercase text-slate-800 truncate text-left" title={off.clientName}>
-                                                                     {off.clientName}
+                                                                     {off.clientName} <RevisedBadge offer={offerRow}/>
+                                                                     {off.sellerId && <span className="block text-[8px] font-bold text-slate-400 normal-case">{off.sellerId}</span>}
+                                                                     {off.item.article && off.item.article !== item.article && (
+                                                                         <span className={`block text-[8px] font-mono font-bold normal-case ${!item.article || isSameArticle(item.article, off.item.article) ? 'text-slate-500' : 'text-amber-600'}`} title={describeArticle(off.item.article) || 'Нет в справочнике кросс-номеров'}>{off.item.article}</span>
+                                                                     )}
                                                                  </div>
 
-                                                                 {/* 2. PRICE */}
+                                                                 {/* 2. PRICE (original + converted) */}
                                                                  <div className="font-bold text-slate-600">
                                                                      {off.item.sellerPrice} {off.item.sellerCurrency}
+                                                                     <PriceHistory offer={offerRow} itemId={item.id}/>
+                                                                     {off.item.sellerCurrency !== 'RUB' && defaultAdminPrice(off.item, order).breakdown && (
+                                                                         <span className="block text-[8px] text-slate-400" title={order.rateSnapshot ? `Курс на ${order.rateSnapshot.date}` : 'Текущий курс'}>≈ {defaultAdminPrice(off.item, order).breakdown!.supplierRub.toLocaleString()} ₽</span>
+                                                                     )}
                                                                  </div>
 
-                                                                 {/* 3. QTY */}
+                                                                 {/* 3. QTY (у лидера — его доля; у остальных — доля для «+ ДОЛЯ», если позицию можно разделить) */}
                                                                  <div className="font-bold text-slate-500">
                                                                      {off.item.offeredQuantity} шт
+                                                                     {isLeader && leaderQuantity(off.item) !== off.item.offeredQuantity && <span className="block text-[8px] text-emerald-600">в КП {leaderQuantity(off.item)}</span>}
+                                                                     {canShare && (
+                                                                         <input
+                                                                            key={`share-${remaining}`}
+                                                                            type="number"
+                                                                            min={1}
+                                                                            max={Math.min(remaining, off.item.offeredQuantity || remaining)}
+                                                                            className="w-full mt-0.5 px-1 py-0.5 border border-slate-200 rounded text-center text-[9px] font-bold outline-none focus:border-indigo-500 bg-white"
+                                                                            defaultValue={Math.min(remaining, off.item.offeredQuantity || remaining)}
+                                                                            onChange={(e) => off.item.allocatedQuantity = Number(e.target.value)}
+                                                                            title="Доля этого поставщика"
+                                                                         />
+                                                                     )}
                                                                  </div>
 
                                                                  {/* 4. WEIGHT */}
@@ -694,24 +1012,25 @@ export const AdminInterface: React.FC = () => {
                                                                      <select
                                                                         className="w-full px-1 py-1 border border-slate-200 rounded text-[9px] font-bold outline-none bg-white text-slate-900 truncate"
                                                                         defaultValue={off.item.deliveryRate || 0}
-                                                                        onChange={(e) => off.item.deliveryRate = Number(e.target.value)}
-                                                                        disabled={order.isProcessed}
+                                                                        onChange={(e) => { off.item.deliveryRate = Number(e.target.value); setDraftVersion(v => v + 1); }}
+                                                                        disabled={!cpEditable}
                                                                      >
                                                                          <option value="0">---</option>
-                                                                         <option value="10">10 ₽</option>
-                                                                         <option value="100">100 ₽</option>
-                                                                         <option value="1000">1000 ₽</option>
+                                                                         <option value="10">10 ₽/кг</option>
+                                                                         <option value="100">100 ₽/кг</option>
+                                                                         <option value="1000">1000 ₽/кг</option>
                                                                      </select>
                                                                  </div>
 
                                                                  {/* 8. ADMIN PRICE */}
                                                                  <div>
                                                                      <input 
+                                                                        key={`price-${off.item.deliveryRate || 0}`}
                                                                         type="number" 
                                                                         className="w-full px-1 py-1 border border-slate-200 rounded text-center font-bold outline-none focus:border-indigo-500 bg-white"
                                                                         onChange={(e) => off.item.adminPrice = Number(e.target.value)}
-                                                                        defaultValue={off.item.adminPrice || off.item.sellerPrice}
-                                                                        disabled={order.isProcessed}
+                                                                        defaultValue={off.item.adminPrice || defaultAdminPrice(off.item, order).price}
+                                                                        disabled={!cpEditable}
                                                                      />
                                                                  </div>
 
@@ -719,9 +1038,9 @@ export const AdminInterface: React.FC = () => {
                                                                  <div>
                                                                      <select 
                                                                         className="w-full px-1 py-1 border border-slate-200 rounded font-bold outline-none bg-white"
-                                                                        defaultValue={off.item.adminCurrency || off.item.sellerCurrency}
+                                                                        defaultValue={off.item.adminCurrency || defaultAdminPrice(off.item, order).currency}
                                                                         onChange={(e) => off.item.adminCurrency = e.target.value as Currency}
-                                                                        disabled={order.isProcessed}
+                                                                        disabled={!cpEditable}
                                                                      >
                                                                          <option value="CNY">CNY</option>
                                                                          <option value="RUB">RUB</option>
@@ -731,18 +1050,32 @@ export const AdminInterface: React.FC = () => {
 
                                                                  {/* 10. BUTTON */}
                                                                  <div>
-                                                                     {order.isProcessed ? (
+                                                                     {!cpEditable ? (
                                                                          isLeader ? <Check size={16} className="text-emerald-500 mx-auto"/> : <span className="text-slate-200">-</span>
                                                                      ) : (
-                                                                         <button 
-                                                                            onClick={() => handleUpdateRank(off.offerId, item.name, off.item.rank || '', order.vin, off.item.adminPrice, off.item.adminCurrency, off.item.adminComment, off.item.deliveryRate)}
-                                                                            className={`w-full py-1.5 rounded text-[8px] font-black uppercase transition-all ${isLeader ? 'bg-emerald-500 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
-                                                                         >
-                                                                             {isLeader ? 'ЛИДЕР' : 'ВЫБРАТЬ'}
-                                                                         </button>
+                                                                         <div className="flex flex-col gap-1">
+                                                                             <button 
+                                                                                onClick={() => selectLeader(order, off.offerId, item.id, off.item)}
+                                                                                className={`w-full py-1.5 rounded text-[8px] font-black uppercase transition-all ${isLeader ? 'bg-emerald-500 text-white shadow-md' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                                                                             >
+                                                                                 {isLeader ? 'ЛИДЕР' : 'ВЫБРАТЬ'}
+                                                                             </button>
+                                                                             {canShare && (
+                                                                                 <button
+                                                                                    onClick={() => selectLeader(order, off.offerId, item.id, off.item, off.item.allocatedQuantity || Math.min(remaining, off.item.offeredQuantity || remaining))}
+                                                                                    className="w-full py-1 rounded text-[8px] font-black uppercase bg-indigo-50 text-indigo-600 hover:bg-indigo-100"
+                                                                                    title="Добавить поставщика к текущим лидерам на указанное количество"
+                                                                                 >
+                                                                                     + Доля
+                                                                                 </button>
+                                                                             )}
+                                                                         </div>
                                                                      )}
                                                                  </div>
 
+                                                                 {/* PRICE BREAKDOWN (Full width below) */}
+                                                                 <PriceBreakdownRow breakdown={(isLeader && off.item.pricing) || defaultAdminPrice(off.item, order).breakdown} overrideReason={isLeader ? off.item.priceOverrideReason : undefined} />
+
                                                                  {/* COMMENT ROW (Full width below) */}
                                                                  <div className="col-span-full md:col-span-full mt-1">
                                                                      <input 
@@ -766,6 +1099,18 @@ export const AdminInterface: React.FC = () => {
                                  })}
                              </div>
 
+                             {/* КП DOCUMENTS */}
+                             {order.cpDocuments && order.cpDocuments.length > 0 && (
+                                 <div className="mt-4 md:mt-6">
+                                     <CpDocuments documents={order.cpDocuments} />
+                                 </div>
+                             )}
+
+                             {/* AUDIT TRAIL */}
+                             <div className="mt-4 md:mt-6">
+                                 <OrderTimeline orderId={order.id} role="admin" />
+                             </div>
+
                              {/* FOOTER ACTIONS & WORKFLOW */}
                              <div className="flex flex-wrap md:flex-nowrap justify-between items-center gap-4 mt-4 md:mt-6 pt-4 border-t border-slate-200">
                                  {/* WORKFLOW STATUS CONTROL */}
@@ -773,18 +1118,13 @@ export const AdminInterface: React.FC = () => {
                                      <span className="text-[8px] font-black uppercase text-slate-400 ml-2">Статус:</span>
                                      <select 
                                         value={order.workflowStatus || 'В обработке'}
-                                        onChange={(e) => SheetService.updateWorkflowStatus(order.id, e.target.value).then(() => fetchData(true))}
-                                        className="bg-slate-50 border-none text-[10px] font-black uppercase text-indigo-600 outline-none focus:ring-0 cursor-pointer rounded-lg px-2 py-1"
+                                        onChange={(e) => changeWorkflowStatus(order.id, e.target.value as WorkflowStatus)}
+                                        disabled={nextStatuses(order.workflowStatus || 'В обработке', 'admin').length === 0}
+                                        className="bg-slate-50 border-none text-[10px] font-black uppercase text-indigo-600 outline-none focus:ring-0 cursor-pointer rounded-lg px-2 py-1 disabled:cursor-default disabled:text-slate-400"
                                      >
-                                         <option value="В обработке">Новый / В обработке</option>
-                                         <option value="КП отправлено">КП отправлено</option>
-                                         <option value="Готов купить">Готов купить</option>
-                                         <option value="Подтверждение от поставщика">Подтверждение от поставщика</option>
-                                         <option value="Ожидает оплаты">Ожидает оплаты</option>
-                                         <option value="В пути">В пути</option>
-                                         <option value="Выполнен">Выполнен</option>
-                                         <option value="Аннулирован">Аннулирован</option>
-                                         <option value="Отказ">Отказ</option>
+                                         {[order.workflowStatus || 'В обработке', ...nextStatuses(order.workflowStatus || 'В обработке', 'admin')].map(status => (
+                                             <option key={status} value={status}>{status === 'В обработке' ? 'Новый / В обработке' : status}</option>
+                                         ))}
                                      </select>
                                  </div>
 
@@ -799,12 +1139,15 @@ export const AdminInterface: React.FC = () => {
                                             {!order.isRefused && !order.isProcessed && (
                                                 <button onClick={() => startEditing(order)} className="px-3 py-2 md:px-4 md:py-3 rounded-xl border border-indigo-100 text-indigo-600 bg-indigo-50 font-black text-[10px] uppercase hover:bg-indigo-100 flex items-center justify-center gap-2 flex-grow md:flex-grow-0"><Edit2 size={14}/> Изменить</button>
                                             )}
-                                            {!order.isRefused && (
+                                            {canTransition(order.workflowStatus || 'В обработке', 'Аннулирован', 'admin') && (
                                                 <button onClick={() => setAdminModal({ type: 'ANNUL', orderId: order.id })} className="px-3 py-2 md:px-4 md:py-3 rounded-xl border border-red-100 text-red-500 bg-red-50 font-black text-[10px] uppercase hover:bg-red-100 flex items-center justify-center gap-2 flex-grow md:flex-grow-0"><Ban size={14}/> Аннулировать</button>
                                             )}
-                                            {!order.isRefused && !order.isProcessed && (
+                                            {canTransition(order.workflowStatus || 'В обработке', 'КП отправлено', 'admin') && (
                                                 <button onClick={() => handleFormCP(order.id)} className="px-4 py-2 md:px-8 md:py-3 rounded-xl bg-slate-900 text-white font-black text-[10px] uppercase shadow-xl hover:bg-slate-800 transition-all active:scale-95 flex-grow md:flex-grow-0 w-full md:w-auto text-center justify-center">Утвердить КП</button>
                                             )}
+                                            {order.workflowStatus === 'КП отправлено' && (
+                                                <button onClick={() => handleReformCP(order.id)} disabled={isSubmitting === order.id} className="px-4 py-2 md:px-6 md:py-3 rounded-xl border border-slate-200 text-slate-700 font-black text-[10px] uppercase hover:bg-slate-50 flex items-center justify-center gap-2 flex-grow md:flex-grow-0 disabled:opacity-50">{isSubmitting === order.id ? <Loader2 size={14} className="animate-spin"/> : <FileText size={14}/>} Переформировать КП</button>
+                                            )}
                                          </>
                                      )}
                                  </div>
@@ -820,18 +1163,97 @@ export const AdminInterface: React.FC = () => {
           {/* MODALS */}
           {adminModal && (
               <div className="fixed inset-0 z-[100] flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4 animate-in fade-in duration-200">
-                  <div className="bg-white rounded-2xl shadow-2xl w-full max-w-sm p-6 animate-in zoom-in-95 duration-200">
-                      {adminModal.type === 'VALIDATION' ? (
+                  <div className={`bg-white rounded-2xl shadow-2xl w-full ${adminModal.type === 'CONFLICT' ? 'max-w-lg' : 'max-w-sm'} p-6 animate-in zoom-in-95 duration-200`}>
+                      {adminModal.type === 'CONFLICT' && adminModal.conflict ? (
+                          <div className="space-y-4">
+                              <div className="flex items-center gap-3">
+                                  <div className="w-10 h-10 bg-amber-100 text-amber-600 rounded-full flex items-center justify-center shrink-0"><AlertCircle size={20}/></div>
+                                  <div>
+                                      <h3 className="text-lg font-black uppercase text-slate-800">Конфликт изменений</h3>
+                                      <p className="text-xs text-slate-500 font-bold">Заказ {adminModal.orderId} изменили, пока вы работали с ним.</p>
+                                  </div>
+                              </div>
+                              {adminModal.conflict.fields ? (
+                                  <>
+                                      {adminModal.conflict.fields.length === 0 ? (
+                                          <p className="text-[10px] font-bold text-slate-500 bg-slate-50 p-2 rounded-lg">Ваши поля не затронуты — изменилось другое (статус или офферы). Правку можно сохранить поверх.</p>
+                                      ) : (
+                                          <div className="max-h-64 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+                                              <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 px-2 py-1.5 bg-slate-50 text-[8px] font-black uppercase text-slate-400">
+                                                  <span>Поле</span><span>Ваше</span><span>Их</span>
+                                              </div>
+                                              {adminModal.conflict.fields.map(f => {
+                                                  const choice = conflictChoices[f.key] || 'mine';
+                                                  return (
+                                                      <div key={f.key} className={`grid grid-cols-[1fr_1fr_1fr] gap-2 px-2 py-1.5 text-[10px] font-bold items-center ${f.collision ? 'bg-amber-50/50' : ''}`}>
+                                                          <span className="text-slate-500 uppercase truncate" title={`Было: ${f.base || '—'}`}>{f.label}</span>
+                                                          {f.collision ? (
+                                                              <>
+                                                                  <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={choice === 'mine'} onChange={() => setConflictChoices(prev => ({ ...prev, [f.key]: 'mine' }))}/>{f.mine || '—'}</label>
+                                                                  <label className="flex items-center gap-1 cursor-pointer"><input type="radio" checked={choice === 'theirs'} onChange={() => setConflictChoices(prev => ({ ...prev, [f.key]: 'theirs' }))}/>{f.theirs || '—'}</label>
+                                                              </>
+                                                          ) : (
+                                                              <>
+                                                                  <span className={f.mine !== f.base ? 'text-indigo-700' : 'text-slate-300'}>{f.mine || '—'}</span>
+                                                                  <span className={f.theirs !== f.base ? 'text-indigo-700' : 'text-slate-300'}>{f.theirs || '—'}</span>
+                                                              </>
+                                                          )}
+                                                      </div>
+                                                  );
+                                              })}
+                                          </div>
+                                      )}
+                                      <p className="text-[9px] text-slate-400">Поле, изменённое одним из вас, берётся у него; для полей, изменённых обоими, выберите значение.</p>
+                                      <div className="flex gap-2 justify-end">
+                                          <button onClick={discardEdits} className="px-4 py-2 text-xs font-bold text-slate-500 uppercase hover:bg-slate-100 rounded-lg">Отменить мои правки</button>
+                                          <button onClick={() => resolveEditConflict(adminModal.conflict!)} className="px-4 py-2 text-xs font-bold text-white bg-indigo-600 uppercase rounded-lg hover:bg-indigo-700 shadow-lg shadow-indigo-200">Объединить и сохранить</button>
+                                      </div>
+                                  </>
+                              ) : (
+                                  <>
+                                      {adminModal.conflict.changes.length > 0 ? (
+                                          <ul className="max-h-64 overflow-y-auto text-[10px] font-bold text-slate-600 bg-slate-50 p-2 rounded-lg space-y-1">
+                                              {adminModal.conflict.changes.map((c, i) => <li key={i}>• {c}</li>)}
+                                          </ul>
+                                      ) : (
+                                          <p className="text-[10px] font-bold text-slate-500 bg-slate-50 p-2 rounded-lg">Изменения не затрагивают офферы.</p>
+                                      )}
+                                      <div className="flex gap-2 justify-end">
+                                          <button onClick={() => setAdminModal(null)} className="px-4 py-2 text-xs font-bold text-slate-500 uppercase hover:bg-slate-100 rounded-lg">Оставить как есть</button>
+                                          <button onClick={() => { setAdminModal(null); adminModal.conflict?.retry?.(); }} className="px-4 py-2 text-xs font-bold text-white bg-indigo-600 uppercase rounded-lg hover:bg-indigo-700 shadow-lg shadow-indigo-200">Применить поверх</button>
+                                      </div>
+                                  </>
+                              )}
+                          </div>
+                      ) : adminModal.type === 'PRICE_OVERRIDE' ? (
+                          <div className="space-y-4">
+                              <h3 className="text-lg font-black uppercase text-slate-800">Ручная цена</h3>
+                              <p className="text-xs text-slate-500 font-bold">
+                                  Цена {adminModal.pendingRank?.adminPrice} {adminModal.pendingRank?.adminCurrency} отличается от расчётной {adminModal.pendingRank?.calculatedPrice} ₽. Укажите причину — она сохранится в истории заказа.
+                              </p>
+                              <textarea 
+                                  value={overrideReason}
+                                  onChange={e => setOverrideReason(e.target.value)}
+                                  className="w-full h-24 p-3 border border-slate-200 rounded-xl text-xs font-bold outline-none focus:border-indigo-500 bg-slate-50"
+                                  placeholder="Причина..."
+                              />
+                              <div className="flex gap-2 justify-end">
+                                  <button onClick={() => setAdminModal(null)} className="px-4 py-2 text-xs font-bold text-slate-500 uppercase hover:bg-slate-100 rounded-lg">Отмена</button>
+                                  <button onClick={confirmPriceOverride} disabled={!overrideReason.trim()} className="px-4 py-2 text-xs font-bold text-white bg-indigo-600 uppercase rounded-lg hover:bg-indigo-700 shadow-lg shadow-indigo-200 disabled:opacity-50">Выбрать лидером</button>
+                              </div>
+                          </div>
+                      ) : adminModal.type === 'VALIDATION' ? (
                           <div className="text-center space-y-4">
                               <div className="w-12 h-12 bg-amber-100 text-amber-600 rounded-full flex items-center justify-center mx-auto"><AlertCircle size={24}/></div>
                               <div>
                                   <h3 className="text-lg font-black uppercase text-slate-800">Внимание!</h3>
-                                  <p className="text-xs font-bold text-slate-500 mt-2">Не выбраны поставщики для позиций:</p>
+                                  <p className="text-xs font-bold text-slate-500 mt-2">Лидеры не покрывают нужное количество:</p>
                                   <ul className="mt-2 text-[10px] font-bold text-red-500 uppercase bg-red-50 p-2 rounded-lg text-left">
                                       {adminModal.missingItems?.map(i => <li key={i}>• {i}</li>)}
                                   </ul>
                                   <p className="text-[10px] text-slate-400 mt-2">Вы уверены, что хотите утвердить неполное КП?</p>
                               </div>
+                              <button onClick={() => openAutoRank(adminModal.orderId!)} className="w-full py-3 rounded-xl bg-indigo-50 text-indigo-700 font-black text-xs uppercase hover:bg-indigo-100 flex items-center justify-center gap-2"><Wand2 size={14}/> Подобрать по правилам</button>
                               <div className="grid grid-cols-2 gap-3">
                                   <button onClick={() => setAdminModal(null)} className="py-3 rounded-xl bg-slate-100 text-slate-600 font-bold text-xs uppercase hover:bg-slate-200">Отмена</button>
                                   <button onClick={() => executeApproval(adminModal.orderId!)} className="py-3 rounded-xl bg-indigo-600 text-white font-black text-xs uppercase hover:bg-indigo-700 shadow-lg shadow-indigo-200">Всё равно утвердить</button>
@@ -859,3 +1281,49 @@ export const AdminInterface: React.FC = () => {
       </div>
   );
 };
+
+// Заказ без телефона клиента не виден ни одному клиенту: номер владельца указывает администратор
+const LinkClientPhoneField: React.FC<{ orderId: string; onLinked: () => void }> = ({ orderId, onLinked }) => {
+    const [phone, setPhone] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleLink = async () => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            await SheetService.linkClientPhone(orderId, phone);
+            onLinked();
+        } catch (e: any) {
+            setError(e?.message || 'Не удалось привязать телефон');
+        } finally {
+            setIsBusy(false);
+        }
+    };
+
+    return (
+        <span className="flex items-center gap-1" title={error || 'Без телефона: клиент не видит этот заказ'}>
+            <input value={phone} onChange={e => setPhone(e.target.value)} placeholder="телефон" className={`w-28 px-2 py-1 border rounded-lg text-[9px] font-bold outline-none ${error ? 'border-red-300 text-red-600' : 'border-slate-200 focus:border-indigo-500'}`}/>
+            <button onClick={handleLink} disabled={isBusy || phone.replace(/\D/g, '').length < 10} className="p-1 rounded-lg bg-slate-50 text-slate-500 hover:bg-slate-100 disabled:opacity-50">
+                {isBusy ? <Loader2 size={10} className="animate-spin"/> : <Phone size={10}/>}
+            </button>
+        </span>
+    );
+};
+
+// Строка расчёта цены под оффером: из чего сложилась цена для клиента (₽ за 1 шт)
+const PriceBreakdownRow: React.FC<{ breakdown?: PriceBreakdown; overrideReason?: string }> = ({ breakdown, overrideReason }) => {
+    if (!breakdown) return null;
+    const b = breakdown;
+    return (
+        <div className="col-span-full md:col-span-full mt-1 flex flex-wrap items-center gap-x-2 gap-y-0.5 px-2 text-[8px] font-bold text-slate-400 text-left">
+            <span>{b.supplierCurrency !== 'RUB' ? `${b.supplierPrice} ${b.supplierCurrency} × ${b.rate} = ` : ''}{b.supplierRub} ₽</span>
+            <span>+ доставка {b.delivery} ₽</span>
+            <span>+ пошлина {b.customs} ₽</span>
+            {b.fee > 0 && <span>+ сбор {b.fee} ₽</span>}
+            <span>+ наценка {b.markupPercent}% ({b.markupRule}) {b.markup} ₽</span>
+            <span className="text-slate-700">= {b.total.toLocaleString()} ₽</span>
+            {overrideReason && <span className="text-amber-600">Ручная цена: {overrideReason}</span>}
+        </div>
+    );
+};
@@ -0,0 +1,211 @@
+import React, { useState, useEffect } from 'react';
+import { UserRole } from '../types';
+import { AuthService, AuthSession } from '../services/authService';
+import { getBackend } from '../services/dataBackend';
+import { ShieldCheck, UserCircle2, Loader2, ArrowLeft, KeyRound } from 'lucide-react';
+
+// Российский формат: +7 (XXX) XXX-XX-XX
+const formatRuPhone = (value: string) => {
+  let digits = value.replace(/\D/g, '').slice(0, 11);
+  if (!digits) return '';
+  if (digits[0] === '8') digits = '7' + digits.slice(1);
+  else if (digits[0] !== '7') digits = '7' + digits;
+  const match = digits.match(/^(\d{1})(\d{0,3})(\d{0,3})(\d{0,2})(\d{0,2})$/);
+  if (!match) return '+7';
+  let formatted = `+${match[1]}`;
+  if (match[2]) formatted += ` (${match[2]}`;
+  if (match[3]) formatted += `) ${match[3]}`;
+  if (match[4]) formatted += `-${match[4]}`;
+  if (match[5]) formatted += `-${match[5]}`;
+  return formatted;
+};
+
+// Китайский формат: +86 1XX XXXX XXXX
+const formatCnPhone = (value: string) => {
+  let digits = value.replace(/\D/g, '');
+  if (!digits.startsWith('86') && digits.length > 0) digits = '86' + digits;
+  digits = digits.slice(0, 13);
+  const match = digits.match(/^(\d{2})(\d{0,3})(\d{0,4})(\d{0,4})$/);
+  if (!match) return '+86';
+  let formatted = `+${match[1]}`;
+  if (match[2]) formatted += ` ${match[2]}`;
+  if (match[3]) formatted += ` ${match[3]}`;
+  if (match[4]) formatted += ` ${match[4]}`;
+  return formatted;
+};
+
+interface RoleLoginConfig {
+  title: string;
+  subtitle: string;
+  nameLabel?: string; // нет у администратора — имя закреплено на бэкенде
+  namePlaceholder?: string;
+  phonePlaceholder: string;
+  maxDigits: number;
+  formatPhone: (value: string) => string;
+  isPhoneValid: (phone: string) => boolean;
+  demo: { label: string; name: string; phone: string }[];
+}
+
+const LOGIN_CONFIG: Record<UserRole, RoleLoginConfig> = {
+  client: {
+    title: 'Вход клиента',
+    subtitle: 'Авторизуйтесь для работы с заказами',
+    nameLabel: 'Имя',
+    namePlaceholder: 'ИМЯ',
+    phonePlaceholder: '+7 (XXX) XXX-XX-XX',
+    maxDigits: 11,
+    formatPhone: formatRuPhone,
+    isPhoneValid: phone => phone.length === 18,
+    demo: [
+      { label: 'Демо Клиент 1', name: 'КЛИЕНТ № 1', phone: '+7 (999) 111-22-33' },
+      { label: 'Демо Клиент 2', name: 'КЛИЕНТ № 2', phone: '+7 (999) 444-55-66' }
+    ]
+  },
+  supplier: {
+    title: 'Вход поставщика',
+    subtitle: 'Авторизуйтесь для работы',
+    nameLabel: 'Название Компании',
+    namePlaceholder: 'ООО АВТО',
+    phonePlaceholder: '+86 1XX XXXX XXXX',
+    maxDigits: 13,
+    formatPhone: formatCnPhone,
+    isPhoneValid: phone => phone.length >= 15,
+    demo: [
+      { label: 'Демо Поставщик 1', name: 'ПОСТАВЩИК 1', phone: '+86 138 0013 8000' },
+      { label: 'Демо Поставщик 2', name: 'ПОСТАВЩИК 2', phone: '+86 139 8888 2222' }
+    ]
+  },
+  admin: {
+    title: 'Вход администратора',
+    subtitle: 'Доступ только для сотрудников',
+    phonePlaceholder: '+7 (XXX) XXX-XX-XX',
+    maxDigits: 11,
+    formatPhone: formatRuPhone,
+    isPhoneValid: phone => phone.length === 18,
+    demo: []
+  }
+};
+
+export const useAuthSession = (role: UserRole): AuthSession | null => {
+  const [session, setSession] = useState(() => AuthService.getSession(role));
+  useEffect(() => {
+    setSession(AuthService.getSession(role));
+    return AuthService.subscribe(() => setSession(AuthService.getSession(role)));
+  }, [role]);
+  return session;
+};
+
+// Гард маршрута: без действующей сессии нужной роли вместо страницы показывается вход по коду
+export const RequireRole: React.FC<{ role: UserRole; children: React.ReactNode }> = ({ role, children }) => {
+  const session = useAuthSession(role);
+  if (!session) return <LoginModal role={role} />;
+  return <>{children}</>;
+};
+
+const LoginModal: React.FC<{ role: UserRole }> = ({ role }) => {
+  const config = LOGIN_CONFIG[role];
+  const [step, setStep] = useState<'phone' | 'code'>('phone');
+  const [form, setForm] = useState({ name: '', phone: '', code: '' });
+  const [devCode, setDevCode] = useState<string | null>(null);
+  const [phoneFlash, setPhoneFlash] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const needsName = !!config.nameLabel;
+  // Бэкенд без входа по коду: шаг с кодом пропускается, сессия без токена. Администратору такой вход закрыт
+  const withoutCode = AuthService.canSignInWithoutCode(role);
+  const isLocked = !withoutCode && !getBackend().supportsAuth;
+  const canRequest = !isLocked && (!needsName || form.name.trim().length > 0) && config.isPhoneValid(form.phone);
+
+  const handlePhoneChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const val = e.target.value;
+    if (val.replace(/\D/g, '').length > config.maxDigits) {
+      setPhoneFlash(true);
+      setTimeout(() => setPhoneFlash(false), 300);
+      return;
+    }
+    setForm({ ...form, phone: config.formatPhone(val) });
+  };
+
+  const requestCode = async (name: string, phone: string) => {
+    if (withoutCode) {
+      AuthService.signInWithoutCode(phone, role, name);
+      return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+      const result = await AuthService.requestCode(phone, role);
+      setForm({ name, phone, code: result.devCode || '' });
+      setDevCode(result.devCode || null);
+      setStep('code');
+    } catch (e: any) {
+      setError(e?.message || 'Не удалось отправить код');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRequest = (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!canRequest) return;
+    requestCode(form.name.trim().toUpperCase(), form.phone.trim());
+  };
+
+  const handleVerify = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!form.code.trim()) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      // После входа гард перерисуется через AuthService.subscribe
+      await AuthService.verifyCode(form.phone, role, form.code.trim(), form.name || undefined);
+    } catch (e: any) {
+      setError(e?.message || 'Не удалось войти');
+      setIsBusy(false);
+    }
+  };
+
+  // Шапка с навигацией (top-14) остаётся доступной — можно уйти в другой раздел
+  return (
+    <div className="fixed inset-x-0 bottom-0 top-14 z-[300] flex items-center justify-center bg-slate-900/70 backdrop-blur-md p-4 animate-in fade-in duration-300">
+      <div className="bg-white rounded-[2.5rem] p-8 w-full max-w-[400px] shadow-2xl flex flex-col items-center gap-6 animate-in zoom-in-95 duration-300">
+         <div className="w-20 h-20 bg-indigo-600 rounded-3xl flex items-center justify-center text-white shadow-xl shadow-indigo-100">{step === 'phone' ? <ShieldCheck size={40} /> : <KeyRound size={40} />}</div>
+         <div className="text-center space-y-1"><h2 className="text-xl font-black uppercase text-slate-900 tracking-tight">{config.title}</h2><p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{step === 'phone' ? config.subtitle : `Код отправлен на ${form.phone}`}</p></div>
+
+         {step === 'phone' && (
+           <>
+             {config.demo.length > 0 && (
+               <>
+                 <div className="grid grid-cols-2 gap-3 w-full">
+                    {config.demo.map(d => (
+                      <button key={d.phone} disabled={isBusy} onClick={() => requestCode(d.name, d.phone)} className="py-3 bg-slate-50 border border-slate-200 rounded-2xl text-[10px] font-black uppercase text-slate-600 hover:bg-indigo-50 hover:border-indigo-200 hover:text-indigo-600 transition-all flex flex-col items-center gap-1 disabled:opacity-50"><UserCircle2 size={16}/> {d.label}</button>
+                    ))}
+                 </div>
+                 <div className="w-full flex items-center gap-4 py-2"><div className="flex-grow h-px bg-slate-100"></div><span className="text-[9px] font-bold text-slate-300 uppercase">или</span><div className="flex-grow h-px bg-slate-100"></div></div>
+               </>
+             )}
+             <form onSubmit={handleRequest} className="w-full space-y-3">
+                 {needsName && <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">{config.nameLabel}</label><input autoFocus value={form.name} onChange={e => setForm({...form, name: e.target.value})} className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl font-bold text-sm outline-none focus:border-indigo-600 uppercase" placeholder={config.namePlaceholder} /></div>}
+                 <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">Номер телефона</label><input autoFocus={!needsName} value={form.phone} onChange={handlePhoneChange} className={`w-full px-4 py-3 bg-slate-50 border rounded-xl font-bold text-sm outline-none transition-all duration-300 ${phoneFlash ? 'border-red-500 bg-red-50' : 'border-slate-200 focus:border-indigo-600'}`} placeholder={config.phonePlaceholder} /></div>
+                 {error && <p className="text-[10px] font-bold text-red-500 text-center">{error}</p>}
+                 <button type="submit" disabled={!canRequest || isBusy} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-xl hover:bg-indigo-700 active:scale-95 transition-all mt-4 disabled:opacity-50 disabled:active:scale-100 flex items-center justify-center gap-2">{isBusy && <Loader2 size={14} className="animate-spin"/>} {withoutCode ? 'Войти' : 'Получить код'}</button>
+                 {withoutCode && <p className="text-[9px] font-bold text-amber-600 text-center uppercase">Вход без кода: бэкенд не поддерживает авторизацию</p>}
+                 {isLocked && <p className="text-[9px] font-bold text-red-500 text-center uppercase">Бэкенд не поддерживает вход по коду — панель администратора недоступна</p>}
+             </form>
+           </>
+         )}
+
+         {step === 'code' && (
+           <form onSubmit={handleVerify} className="w-full space-y-3">
+               <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">Код из сообщения</label><input autoFocus inputMode="numeric" maxLength={6} value={form.code} onChange={e => setForm({...form, code: e.target.value.replace(/\D/g, '')})} className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl font-black text-lg tracking-[0.5em] text-center outline-none focus:border-indigo-600" placeholder="••••••" /></div>
+               {devCode && <p className="text-[9px] font-bold text-amber-600 text-center uppercase">Тестовый режим: код {devCode} подставлен автоматически</p>}
+               {error && <p className="text-[10px] font-bold text-red-500 text-center">{error}</p>}
+               <button type="submit" disabled={form.code.length < 6 || isBusy} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-xl hover:bg-indigo-700 active:scale-95 transition-all mt-4 disabled:opacity-50 disabled:active:scale-100 flex items-center justify-center gap-2">{isBusy && <Loader2 size={14} className="animate-spin"/>} Войти</button>
+               <button type="button" onClick={() => { setStep('phone'); setError(null); setDevCode(null); }} className="w-full py-2 text-[10px] font-bold uppercase text-slate-400 hover:text-indigo-600 flex items-center justify-center gap-1"><ArrowLeft size={12}/> Изменить номер</button>
+           </form>
+         )}
+      </div>
+    </div>
+  );
+};
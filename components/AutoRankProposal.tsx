@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Order, OrderItem, PriceBreakdown } from '../types';
+import { RankProposal } from '../services/autoRank';
+import { ItemOffer, offersForItem } from '../services/offerMatrix';
+import { Wand2, Loader2, Check, X } from 'lucide-react';
+
+interface AutoRankProposalProps {
+  order: Order;
+  proposals: RankProposal[];
+  priceOf: (item: OrderItem) => PriceBreakdown | undefined;
+  onApply: (picks: { itemId: string; offer: ItemOffer }[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const isLeaderRank = (item: OrderItem) => item.rank === 'ЛИДЕР' || item.rank === 'LEADER';
+
+/**
+ * Предложенные правилами лидеры по всем позициям заказа.
+ * Администратор может заменить лидера в любой строке и применить всё одним нажатием; остальные офферы уходят в резерв.
+ */
+export const AutoRankProposal: React.FC<AutoRankProposalProps> = ({ order, proposals, priceOf, onApply, onClose }) => {
+  const [choice, setChoice] = useState<Record<string, string>>(() =>
+    Object.fromEntries(proposals.map(p => [p.item.id, p.leader?.offerId || ''])));
+  const [isApplying, setIsApplying] = useState(false);
+
+  const offerLabel = (off: ItemOffer) => {
+    const breakdown = priceOf(off.item);
+    const price = breakdown ? `${breakdown.total.toLocaleString()} ₽` : `${off.item.sellerPrice} ${off.item.sellerCurrency}`;
+    return `${off.clientName} · ${price}${off.item.deliveryWeeks ? ` · ${off.item.deliveryWeeks} н.` : ''}`;
+  };
+
+  // Применяются только строки, где выбранный лидер отличается от текущего; разделённая позиция переходит к одному лидеру
+  const picks = proposals.flatMap(p => {
+    const offers = offersForItem(order, p.item);
+    const offer = offers.find(o => o.offerId === choice[p.item.id]);
+    const isSoleLeader = !!offer && isLeaderRank(offer.item) && offers.filter(o => isLeaderRank(o.item)).length === 1;
+    return offer && !isSoleLeader ? [{ itemId: p.item.id, offer }] : [];
+  });
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    try {
+      await onApply(picks);
+      onClose();
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-indigo-50 border border-indigo-200 rounded-xl overflow-hidden mb-6">
+      <div className="px-4 py-2 border-b border-indigo-100 text-[10px] font-black uppercase text-indigo-700 flex items-center gap-2">
+        <Wand2 size={12}/> Предложение лидеров
+        <button onClick={onClose} className="ml-auto p-1 text-indigo-300 hover:text-indigo-600 rounded" title="Закрыть"><X size={14}/></button>
+      </div>
+      <div className="divide-y divide-indigo-100/60">
+        {proposals.map(p => {
+          const offers = offersForItem(order, p.item);
+          return (
+            <div key={p.item.id} className="px-4 py-2 grid grid-cols-1 md:grid-cols-[1.2fr_1.5fr_1fr] gap-2 items-center text-[10px]">
+              <span className="font-black uppercase text-slate-800 truncate">{p.item.AdminName || p.item.name}</span>
+              <select
+                value={choice[p.item.id] || ''}
+                onChange={e => setChoice(prev => ({ ...prev, [p.item.id]: e.target.value }))}
+                disabled={offers.length === 0}
+                className="px-2 py-1.5 border border-indigo-200 rounded-lg text-[10px] font-bold outline-none bg-white disabled:opacity-50"
+              >
+                <option value="">Не выбирать</option>
+                {offers.map(off => <option key={off.offerId} value={off.offerId}>{offerLabel(off)}</option>)}
+              </select>
+              <span className={`text-[9px] font-bold ${p.leader ? 'text-indigo-500' : 'text-red-500'}`}>
+                {p.leader && choice[p.item.id] !== p.leader.offerId ? 'Изменено вручную' : p.reason}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="px-4 py-2 flex justify-end gap-2 border-t border-indigo-100">
+        <button onClick={onClose} className="px-3 py-1.5 text-[10px] font-bold text-slate-500 uppercase hover:bg-white rounded-lg">Отмена</button>
+        <button onClick={handleApply} disabled={isApplying || picks.length === 0} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50">
+          {isApplying ? <Loader2 size={12} className="animate-spin"/> : <Check size={12}/>} Принять ({picks.length})
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState, useEffect } from 'react';
+import { SheetService } from '../services/sheetService';
+import { AutoRankRules, autoRankRulesErrors } from '../services/contract';
+import { Wand2, Star, Loader2, Check, AlertCircle, Phone } from 'lucide-react';
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const toOptionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value.replace(',', '.'));
+
+// Запись из офферов до реестра без телефона: войти в неё поставщик сможет после того, как администратор укажет номер
+const LinkPhoneField: React.FC<{ supplierId: string }> = ({ supplierId }) => {
+  const [phone, setPhone] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLink = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await SheetService.linkSupplierPhone(supplierId, phone);
+      await SheetService.getOrders(true);
+    } catch (e: any) {
+      setError(e?.message || 'Не удалось привязать телефон');
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <span className="flex items-center gap-1 normal-case" title={error || 'Без телефона: поставщик не может войти в эту запись'}>
+      <input value={phone} onChange={e => setPhone(e.target.value)} placeholder="телефон" className={`w-28 px-2 py-1 border rounded-lg text-[9px] font-bold outline-none ${error ? 'border-red-300 text-red-600' : 'border-slate-200 focus:border-indigo-500'}`}/>
+      <button onClick={handleLink} disabled={isBusy || phone.replace(/\D/g, '').length < 10} className="p-1 rounded-lg bg-slate-50 text-slate-500 hover:bg-slate-100 disabled:opacity-50">
+        {isBusy ? <Loader2 size={10} className="animate-spin"/> : <Phone size={10}/>}
+      </button>
+    </span>
+  );
+};
+
+/**
+ * Правила автовыбора лидеров: стратегия, потолок цены для «самого быстрого», минимальная оценка
+ * и список поставщиков с оценкой и отметкой «предпочтительный».
+ */
+export const AutoRankRulesPanel: React.FC<{ rules: AutoRankRules; onChanged: () => void }> = ({ rules, onChanged }) => {
+  const [draft, setDraft] = useState<AutoRankRules>(rules);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const suppliers = SheetService.getSuppliers();
+
+  useEffect(() => setDraft(rules), [rules]);
+
+  const togglePreferred = (id: string) =>
+    setDraft(prev => ({
+      ...prev,
+      preferredSuppliers: prev.preferredSuppliers.includes(id) ? prev.preferredSuppliers.filter(s => s !== id) : [...prev.preferredSuppliers, id]
+    }));
+
+  const setRating = (id: string, rating: number | undefined) =>
+    setDraft(prev => {
+      const supplierRatings = { ...prev.supplierRatings };
+      if (rating === undefined) delete supplierRatings[id];
+      else supplierRatings[id] = rating;
+      return { ...prev, supplierRatings };
+    });
+
+  const handleSave = async () => {
+    const validation = autoRankRulesErrors(draft);
+    setErrors(validation);
+    if (validation.length > 0) return;
+    setIsSaving(true);
+    try {
+      await SheetService.setAutoRankRules(draft);
+      onChanged();
+    } catch (e: any) {
+      setErrors([e?.message || 'Ошибка сохранения правил']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold outline-none focus:border-indigo-500 bg-white";
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 text-[10px] font-black uppercase text-slate-600 flex items-center gap-2">
+        <Wand2 size={12}/> Автовыбор лидеров
+        {rules.updatedAt && <span className="ml-auto normal-case font-bold text-slate-400">изменено {new Date(rules.updatedAt).toLocaleString('ru-RU')}</span>}
+      </div>
+
+      <div className="p-3 flex flex-wrap items-center gap-3 border-b border-slate-100 text-[9px] font-black uppercase text-slate-400">
+        <label className="flex items-center gap-1">Стратегия
+          <select value={draft.strategy} onChange={e => setDraft({ ...draft, strategy: e.target.value as AutoRankRules['strategy'] })} className={inputClass}>
+            <option value="landed">Минимальная итоговая цена</option>
+            <option value="fastest">Самый быстрый</option>
+          </select>
+        </label>
+        {draft.strategy === 'fastest' && (
+          <label className="flex items-center gap-1">Не дороже, ₽/шт
+            <input type="number" value={draft.priceCeiling ?? ''} onChange={e => setDraft({ ...draft, priceCeiling: toOptionalNumber(e.target.value) })} placeholder="без ограничения" className={`${inputClass} w-28`}/>
+          </label>
+        )}
+        <label className="flex items-center gap-1">Мин. оценка поставщика
+          <select value={draft.minRating ?? ''} onChange={e => setDraft({ ...draft, minRating: toOptionalNumber(e.target.value) })} className={inputClass}>
+            <option value="">Любая</option>
+            {RATINGS.map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="max-h-48 overflow-y-auto divide-y divide-slate-50">
+        {suppliers.map(s => {
+          const rating = draft.supplierRatings[s.id];
+          const isPreferred = draft.preferredSuppliers.includes(s.id);
+          return (
+            <div key={s.id} className="px-4 py-1.5 grid grid-cols-[70px_1fr_90px_120px] gap-3 text-[10px] items-center">
+              <span className="font-mono font-bold text-slate-400">{s.id}</span>
+              <span className="font-black uppercase text-slate-700 truncate flex items-center gap-2">{s.name}{!s.phone && <LinkPhoneField supplierId={s.id}/>}</span>
+              <select value={rating ?? ''} onChange={e => setRating(s.id, toOptionalNumber(e.target.value))} className={`${inputClass} ${draft.minRating && rating !== undefined && rating < draft.minRating ? 'text-red-600' : ''}`}>
+                <option value="">Без оценки</option>
+                {RATINGS.map(r => <option key={r} value={r}>{'★'.repeat(r)}</option>)}
+              </select>
+              <button onClick={() => togglePreferred(s.id)} className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase flex items-center gap-1 justify-center ${isPreferred ? 'bg-amber-100 text-amber-700' : 'bg-slate-50 text-slate-400 hover:bg-slate-100'}`}>
+                <Star size={10}/> {isPreferred ? 'Предпочтительный' : 'Обычный'}
+              </button>
+            </div>
+          );
+        })}
+        {suppliers.length === 0 && <div className="px-4 py-3 text-[10px] text-slate-400 italic">Поставщики ещё не зарегистрированы</div>}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="px-4 py-2 bg-red-50 border-t border-red-100 space-y-0.5">
+          {errors.map((err, idx) => <div key={idx} className="text-[10px] font-bold text-red-600 flex items-center gap-1"><AlertCircle size={10}/> {err}</div>)}
+        </div>
+      )}
+
+      <div className="p-3 flex justify-end border-t border-slate-100">
+        <button onClick={handleSave} disabled={isSaving} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50">
+          {isSaving ? <Loader2 size={12} className="animate-spin"/> : <Check size={12}/>} Сохранить
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+export interface AutocompleteOption<T> {
+  key: string;
+  label: string;
+  hint?: string;
+  value: T;
+}
+
+/**
+ * Поле ввода с выпадающими подсказками: ввод фильтрует варианты снаружи, свободный текст допускается.
+ * Список закрывается кликом вне поля и после выбора варианта.
+ */
+export const Autocomplete = <T,>({ value, options, onInput, onPick, className, placeholder, maxLength, icon }: {
+  value: string;
+  options: AutocompleteOption<T>[];
+  onInput: (value: string) => void;
+  onPick: (option: AutocompleteOption<T>) => void;
+  className: string;
+  placeholder?: string;
+  maxLength?: number;
+  icon?: React.ReactNode; // справа в поле, когда есть варианты
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const wrapRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (wrapRef.current && !wrapRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div ref={wrapRef} className="relative">
+      <input value={value} maxLength={maxLength} onChange={e => { onInput(e.target.value); setIsOpen(true); }} onFocus={() => setIsOpen(true)} className={className} placeholder={placeholder} />
+      {icon && options.length > 0 && <span className="absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400">{icon}</span>}
+      {isOpen && options.length > 0 && (
+        <div className="absolute z-50 left-0 right-0 top-full mt-1 max-h-48 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-xl divide-y divide-slate-50 animate-in fade-in zoom-in-95 duration-100">
+          {options.map(option => (
+            <div key={option.key} onClick={() => { onPick(option); setIsOpen(false); }} className="px-3 py-2 text-[10px] font-bold text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 cursor-pointer flex justify-between gap-2">
+              <span className="uppercase">{option.label}</span>
+              {option.hint && <span className="text-slate-400 text-right">{option.hint}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
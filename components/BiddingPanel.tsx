@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Order } from '../types';
+import { SheetService } from '../services/sheetService';
+import { DEFAULT_BIDDING_HOURS, BIDDING_HOURS_OPTIONS, isBiddingOpen, formatTimeLeft, offerShortfall, closedWithoutCoverage } from '../services/bidding';
+import { Timer, Lock, Play, TrendingDown, Loader2, ChevronRight } from 'lucide-react';
+
+const formatDeadline = (iso: string) => new Date(iso).toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+// Запрос к бэкенду с индикатором и текстом ошибки — общий для панели заказа и сводки
+const useBiddingAction = (onChanged: () => void) => {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const run = async (key: string, orderId: string, hours: number, round?: 1 | 2) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await SheetService.setBiddingWindow(orderId, hours, round);
+      onChanged();
+    } catch (e: any) {
+      setError(e?.message || 'Не удалось изменить приём предложений');
+    } finally {
+      setBusy(null);
+    }
+  };
+  return { busy, error, run };
+};
+
+/**
+ * Окно приёма предложений в карточке заказа: срок, продление, досрочное закрытие и второй раунд.
+ * Новая длительность считается от текущего момента.
+ */
+export const BiddingControls: React.FC<{ order: Order; now: number; onChanged: () => void }> = ({ order, now, onChanged }) => {
+  const [hours, setHours] = useState(order.bidding?.hours || DEFAULT_BIDDING_HOURS);
+  const { busy, error, run } = useBiddingAction(onChanged);
+  const bidding = order.bidding;
+  const isOpen = isBiddingOpen(bidding, now);
+  const hasOffers = (order.offers || []).length > 0;
+  const key = (action: string) => `${order.id}:${action}`;
+
+  return (
+    <div className="bg-white p-3 rounded-xl border border-slate-200 mb-6 shadow-sm flex flex-wrap items-center gap-3 text-[10px]">
+      <span className="font-black uppercase text-slate-500 flex items-center gap-1.5"><Timer size={12}/> Приём предложений</span>
+      {!bidding ? (
+        <span className="font-bold text-slate-400">без срока</span>
+      ) : isOpen ? (
+        <span className={`font-bold ${bidding.round === 2 ? 'text-violet-600' : 'text-emerald-600'}`}>
+          {bidding.round === 2 ? 'Второй раунд' : 'Открыт'} до {formatDeadline(bidding.deadline)} · осталось {formatTimeLeft(bidding.deadline, now)}
+        </span>
+      ) : (
+        <span className="font-bold text-slate-500">{bidding.round === 2 ? 'Второй раунд закрыт' : 'Закрыт'} {formatDeadline(bidding.deadline)}</span>
+      )}
+
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <select value={hours} onChange={e => setHours(Number(e.target.value))} className="px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold outline-none bg-white">
+          {BIDDING_HOURS_OPTIONS.map(h => <option key={h} value={h}>{h} ч</option>)}
+        </select>
+        <button onClick={() => run(key('open'), order.id, hours)} disabled={!!busy} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white font-black uppercase hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50">
+          {busy === key('open') ? <Loader2 size={12} className="animate-spin"/> : <Play size={12}/>} {isOpen ? 'Продлить' : 'Открыть'}
+        </button>
+        <button onClick={() => run(key('round'), order.id, hours, 2)} disabled={!!busy || !hasOffers} className="px-3 py-1.5 rounded-lg border border-violet-200 text-violet-600 font-black uppercase hover:bg-violet-50 flex items-center gap-1 disabled:opacity-50" title={hasOffers ? 'Поставщики с предложением увидят лучшую цену и смогут её снизить' : 'Нет предложений'}>
+          {busy === key('round') ? <Loader2 size={12} className="animate-spin"/> : <TrendingDown size={12}/>} Второй раунд
+        </button>
+        {isOpen && (
+          <button onClick={() => run(key('close'), order.id, 0)} disabled={!!busy} className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 font-black uppercase hover:bg-slate-50 flex items-center gap-1 disabled:opacity-50">
+            {busy === key('close') ? <Loader2 size={12} className="animate-spin"/> : <Lock size={12}/>} Закрыть сейчас
+          </button>
+        )}
+      </div>
+      {error && <div className="w-full text-red-600 font-bold">{error}</div>}
+    </div>
+  );
+};
+
+/**
+ * Сводка для администратора: приём закрыт, КП не сформировано, а предложений хватает не на все позиции.
+ * По каждому заказу — чего не хватает и быстрые действия: продлить приём или позвать во второй раунд.
+ */
+export const BiddingDashboard: React.FC<{ orders: Order[]; now: number; onOpen: (orderId: string) => void; onChanged: () => void }> = ({ orders, now, onOpen, onChanged }) => {
+  const { busy, error, run } = useBiddingAction(onChanged);
+  const uncovered = closedWithoutCoverage(orders, now);
+
+  return (
+    <div className="bg-white border border-amber-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="px-4 py-2 bg-amber-50 border-b border-amber-100 text-[10px] font-black uppercase text-amber-700 flex items-center gap-2">
+        <Timer size={12}/> Приём закрыт, предложений не хватает ({uncovered.length})
+      </div>
+      {uncovered.length === 0 && <div className="px-4 py-3 text-[10px] text-slate-400 italic">Все заказы с закрытым приёмом покрыты предложениями</div>}
+      <div className="max-h-64 overflow-y-auto divide-y divide-slate-50">
+        {uncovered.map(order => {
+          const hasOffers = (order.offers || []).length > 0;
+          return (
+            <div key={order.id} className="px-4 py-2 grid grid-cols-[60px_140px_1fr_auto] gap-3 text-[10px] items-center">
+              <button onClick={() => onOpen(order.id)} className="font-mono font-bold text-indigo-600 hover:underline text-left flex items-center gap-1">{order.id}<ChevronRight size={10}/></button>
+              <span className="font-bold text-slate-400">закрыт {formatDeadline(order.bidding!.deadline)}{order.bidding!.round === 2 ? ' · 2 раунд' : ''}</span>
+              <span className="font-bold text-slate-700">
+                {offerShortfall(order).join('; ')}
+                <span className="text-slate-400"> · предложений: {(order.offers || []).length}</span>
+              </span>
+              <span className="flex gap-2">
+                <button onClick={() => run(`${order.id}:open`, order.id, DEFAULT_BIDDING_HOURS, 1)} disabled={!!busy} className="px-2 py-1 rounded-lg border border-slate-200 text-slate-600 font-black uppercase hover:bg-slate-50 flex items-center gap-1 disabled:opacity-50">
+                  {busy === `${order.id}:open` ? <Loader2 size={10} className="animate-spin"/> : <Play size={10}/>} Ещё {DEFAULT_BIDDING_HOURS} ч
+                </button>
+                {hasOffers && (
+                  <button onClick={() => run(`${order.id}:round`, order.id, DEFAULT_BIDDING_HOURS, 2)} disabled={!!busy} className="px-2 py-1 rounded-lg border border-violet-200 text-violet-600 font-black uppercase hover:bg-violet-50 flex items-center gap-1 disabled:opacity-50">
+                    {busy === `${order.id}:round` ? <Loader2 size={10} className="animate-spin"/> : <TrendingDown size={10}/>} Второй раунд
+                  </button>
+                )}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {error && <div className="px-4 py-2 border-t border-red-100 text-[10px] font-bold text-red-600">{error}</div>}
+    </div>
+  );
+};
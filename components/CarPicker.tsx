@@ -0,0 +1,122 @@
+import React from 'react';
+import { Autocomplete } from './Autocomplete';
+import { BODY_TYPES } from '../constants/cars';
+import { findBrand, findGeneration, findModel, generationLabel, generationYears, generationsFor, isYearInGeneration, searchBrands, searchModels } from '../services/carCatalogue';
+import { ChevronDown } from 'lucide-react';
+
+export interface CarForm {
+  brand: string;
+  model: string;
+  generation: string;
+  bodyType: string;
+  year: string;
+  engine: string;
+  transmission: string;
+}
+
+export const EMPTY_CAR: CarForm = { brand: '', model: '', generation: '', bodyType: '', year: '', engine: '', transmission: '' };
+
+const labelClass = "text-[8px] font-bold text-slate-400 uppercase ml-1";
+const inputClass = "w-full px-3 py-1.5 bg-white border rounded-md text-[10px] font-bold uppercase outline-none focus:border-indigo-500 transition-colors";
+
+// Поле справочника с подписью: ввод фильтрует варианты, свободный текст допускается
+const SearchInput: React.FC<{
+  label: string;
+  value: string;
+  options: { value: string; hint?: string }[];
+  placeholder: string;
+  hasError?: boolean;
+  onInput: (value: string) => void;
+  onPick: (value: string) => void;
+}> = ({ label, value, options, placeholder, hasError, onInput, onPick }) => (
+  <div className="space-y-1 relative">
+    <label className={labelClass}>{label}</label>
+    <Autocomplete
+      value={value}
+      options={options.map(o => ({ key: o.value, label: o.value, hint: o.hint, value: o.value }))}
+      onInput={onInput}
+      onPick={option => onPick(option.value)}
+      className={`${inputClass} ${hasError ? 'border-red-400 bg-red-50/30 ring-1 ring-red-100' : 'border-slate-300'}`}
+      placeholder={placeholder}
+      icon={<ChevronDown size={12} />}
+    />
+  </div>
+);
+
+/**
+ * Каскадный выбор авто по справочнику: марка → модель → поколение → двигатель.
+ * Для марок без моделей в справочнике модель и двигатель вводятся вручную.
+ */
+export const CarPicker: React.FC<{ car: CarForm; onChange: (car: CarForm) => void; brandError: boolean }> = ({ car, onChange, brandError }) => {
+  const brand = findBrand(car.brand);
+  const model = findModel(car.brand, car.model);
+  const generation = findGeneration(car.brand, car.model, car.generation);
+  const allGenerations = generationsFor(car.brand, car.model);
+  const byYear = generationsFor(car.brand, car.model, car.year);
+  const engines = generation ? generation.engines : Array.from(new Set(allGenerations.flatMap(g => g.engines)));
+  const bodyTypes = generation ? generation.bodyTypes : BODY_TYPES;
+  const year = parseInt(car.year);
+  const yearMismatch = generation && !isNaN(year) && car.year.length === 4 && !isYearInGeneration(generation, year);
+
+  const brandOptions = searchBrands(car.brand).map(b => ({ value: b.name, hint: b.models.length > 0 ? `${b.models.length} мод.` : undefined }));
+  const modelOptions = searchModels(car.brand, model ? '' : car.model).map(m => ({ value: m.name, hint: generationLabel(m.generations[m.generations.length - 1]) }));
+  const engineOptions = engines.filter(e => !car.engine || e.toLowerCase().includes(car.engine.toLowerCase()) || e === car.engine).map(e => ({ value: e }));
+
+  // Смена марки или модели сбрасывает зависимые поля
+  const setBrand = (value: string) => onChange(value === car.brand ? car : { ...car, brand: value, model: '', generation: '', engine: '' });
+  const setModel = (value: string) => onChange(value === car.model ? car : { ...car, model: value, generation: '', engine: '' });
+
+  // Год однозначно указывает на поколение — выбираем его сами
+  const setYear = (value: string) => {
+    const candidates = generationsFor(car.brand, car.model, value);
+    const autoGeneration = !car.generation && value.length === 4 && candidates.length === 1 ? candidates[0].name : car.generation;
+    onChange({ ...car, year: value, generation: autoGeneration });
+  };
+
+  const setGeneration = (value: string) => {
+    const next = findGeneration(car.brand, car.model, value);
+    const keepBody = !next || next.bodyTypes.includes(car.bodyType);
+    const keepEngine = !next || next.engines.includes(car.engine);
+    onChange({ ...car, generation: value, bodyType: keepBody ? car.bodyType : '', engine: keepEngine ? car.engine : '' });
+  };
+
+  return (
+    <div className="md:col-span-2 grid grid-cols-1 sm:grid-cols-3 gap-3">
+      <div className="relative">
+        <SearchInput label="Марка (Бренд)" value={car.brand} options={brandOptions} placeholder="Введите марку..." hasError={brandError} onInput={setBrand} onPick={setBrand} />
+        {!brand && car.brand.length > 0 && (<div className="text-[8px] font-bold text-red-500 mt-1 absolute -bottom-4 left-0">Выберите марку из списка</div>)}
+      </div>
+      <div className="relative">
+        <SearchInput label="Модель" value={car.model} options={modelOptions} placeholder={brand && brand.models.length > 0 ? 'Выберите модель...' : 'Напишите модель (X5, Camry...)'} onInput={setModel} onPick={setModel} />
+        {brand && brand.models.length > 0 && car.model && !model && (<div className="text-[8px] font-bold text-slate-400 mt-1 absolute -bottom-4 left-0">Нет в справочнике — уйдёт как написано</div>)}
+      </div>
+      <div className="space-y-1 relative">
+        <label className={labelClass}>Поколение</label>
+        <div className="relative">
+          <select value={car.generation} onChange={e => setGeneration(e.target.value)} disabled={allGenerations.length === 0} className={`${inputClass} appearance-none pr-8 border-slate-300 disabled:bg-slate-50 disabled:text-slate-300`}>
+            <option value="">{allGenerations.length === 0 ? '—' : 'Не выбрано'}</option>
+            {allGenerations.map(g => <option key={g.name} value={g.name}>{generationLabel(g)}{byYear.length > 0 && !byYear.includes(g) ? ' · не тот год' : ''}</option>)}
+          </select>
+          <ChevronDown size={12} className="absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400" />
+        </div>
+      </div>
+      <div className="space-y-1 relative">
+        <label className={labelClass}>Год выпуска</label>
+        <input value={car.year} onChange={e => setYear(e.target.value)} className={`${inputClass} text-center ${yearMismatch ? 'border-amber-400' : 'border-slate-300'}`} placeholder="202X" />
+        {yearMismatch && generation && (<div className="text-[8px] font-bold text-amber-600 absolute -bottom-4 left-0">{generation.name}: {generationYears(generation)}</div>)}
+      </div>
+      <SearchInput label="Двигатель" value={car.engine} options={engineOptions} placeholder={engines.length > 0 ? 'Выберите двигатель...' : '2.0, 1.6 T...'} onInput={value => onChange({ ...car, engine: value })} onPick={value => onChange({ ...car, engine: value })} />
+      <div className="space-y-1 relative">
+        <label className={labelClass}>Кузов</label>
+        <div className="relative">
+          <select value={car.bodyType} onChange={e => onChange({ ...car, bodyType: e.target.value })} className={`${inputClass} appearance-none pr-8 border-slate-300`}>
+            <option value="">Не выбрано</option>
+            {!bodyTypes.includes(car.bodyType) && car.bodyType && <option value={car.bodyType}>{car.bodyType}</option>}
+            {bodyTypes.map(b => <option key={b} value={b}>{b}</option>)}
+          </select>
+          <ChevronDown size={12} className="absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400" />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,26 +1,30 @@
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { SheetService } from '../services/sheetService';
-import { Order, OrderStatus, PartCategory } from '../types';
+import { AuthService } from '../services/authService';
+import { useAuthSession } from './AuthGate';
+import { OrderTimeline } from './OrderTimeline';
+import { CpDocuments } from './CpDocuments';
+import { ExportMenu } from './ExportMenu';
+import { CarPicker, CarForm, EMPTY_CAR } from './CarPicker';
+import { canTransition } from '../services/workflow';
+import { convertAmount } from '../services/exchangeRates';
+import { normalizePhone } from '../services/contract';
+import { decodeVin, fillCarFromVin, vinMismatches, vinCheckDigit, vinYearCode } from '../services/vinDecoder';
+import { findBrand, findModel, normalizeCar, carBrand, carTitle } from '../services/carCatalogue';
+import { searchParts, findArticle, describeArticle, normalizePartName, isSamePart, PartSuggestion } from '../services/partsCatalogue';
+import { Autocomplete } from './Autocomplete';
+import { leaderQuantity, requiredQuantity } from '../services/fulfilment';
+import { Order, OrderStatus, PartCategory, Currency } from '../types';
 import { Pagination } from './Pagination';
+import { SyncStatus, PendingSyncBadge, useOutbox } from './SyncStatus';
+import { queuedOrder } from '../services/outbox';
 import { 
-  Send, Plus, Trash2, Zap, CheckCircle2, Car, MoreHorizontal, Calculator, Search, Loader2, ChevronDown, ShoppingCart, Archive, UserCircle2, LogOut, ShieldCheck, Phone, X, Calendar, Clock, Hash, Package, Ban, RefreshCw, AlertCircle, ArrowUp, ArrowDown, ArrowUpDown, FileText
+  Send, Plus, Trash2, Zap, CheckCircle2, Car, MoreHorizontal, Calculator, Search, Loader2, ChevronDown, ShoppingCart, Archive, UserCircle2, LogOut, Phone, X, Calendar, Clock, Hash, Package, Ban, RefreshCw, AlertCircle, ArrowUp, ArrowDown, ArrowUpDown
 } from 'lucide-react';
 
 // --- DATA CONSTANTS ---
 
-const POPULAR_BRANDS_LIST = [
-  "Lada (ВАЗ)", "Audi", "BMW", "Changan", "Chery", "Chevrolet", "Daewoo", "Ford", "Geely", "Haval", "Honda", "Hyundai", 
-  "Jaecoo", "JETOUR", "Kia", "Land Rover", "Lexus", "Mazda", "Mercedes-Benz", "Mitsubishi", "Nissan", "Omoda", "Opel", 
-  "Peugeot", "Renault", "Skoda", "Subaru", "TENET", "Toyota", "Volkswagen"
-];
-
-const ALL_BRANDS_LIST = [
-  "Abarth", "AC", "Acura", "Adam", "Adler", "Aito", "Aiways", "Aixam", "Alfa Romeo", "Alpina", "Alpine", "AM General", "Ambertruck", "AMC", "Apal", "Arcfox", "Ariel", "Aro", "Asia", "Aston Martin", "Auburn", "Audi", "Aurus", "Austin", "Austin Healey", "Auto Union", "Autobianchi", "Avatr", "BAIC", "Bajaj", "Baltijas Dzips", "Baojun", "Batmobile", "BAW", "Belgee", "Bentley", "Bertone", "Bestune", "Bilenkin", "Bio Auto", "Bitter", "Blaval", "BMW", "Borgward", "Brabus", "Brilliance", "Bristol", "Bufori", "Bugatti", "Buick", "BYD", "Byvin", "Cadillac", "Callaway", "Carbodies", "Caterham", "Chana", "Changan", "Changfeng", "Changhe", "Chery", "Chevrolet", "Chrysler", "Ciimo (Dongfeng-Honda)", "Citroen", "Cizeta", "Coda", "Coggiola", "Cord", "Cowin", "Cupra", "Dacia", "Dadi", "Daewoo", "Daihatsu", "Daimler", "Dallara", "Datsun", "Dayun", "De Tomaso", "Deco Rides", "Delage", "DeLorean", "Denza", "Derways", "DeSoto", "DKW", "Dodge", "Dongfeng", "Doninvest", "Donkervoort", "DR", "DS", "DW Hower", "E-Car", "Eagle", "Eagle Cars", "Enovate (Enoreve)", "Eonyx", "Everus", "Evolute", "Excalibur", "Exeed", "Facel Vega", "FAW", "Ferrari", "Fiat", "Fisker", "Flanker", "Ford", "Forthing", "Foton", "Franklin", "FSO", "FSR", "Fuqi", "GAC", "GAC Aion", "GAC Trumpchi", "Geely", "Genesis", "Geo", "GMA", "GMC", "Goggomobil", "Gonow", "Gordon", "GP", "Great Wall", "Hafei", "Haima", "Hanomag", "Hanteng", "Haval", "Hawtai", "Hedmos", "Heinkel", "Hennessey", "Hindustan", "HiPhi", "Hispano-Suiza", "Holden", "Honda", "Hongqi", "Horch", "Hozon", "HSV", "Huaihai (Hoann)", "HuangHai", "Huazi", "Hudson", "Humber", "Hummer", "Hycan", "Hyperion", "Hyundai", "iCar", "iCaur", "IM Motors (Zhiji)", "Ineos", "Infiniti", "Innocenti", "International Harvester", "Invicta", "Iran Khodro", "Isdera", "Isuzu", "Iveco", "JAC", "Jaecoo", "Jaguar", "Jeep", "Jensen", "JETOUR", "Jetta", "Jiangnan", "Jidu", "Jinbei", "JMC", "JMEV", "Jonway", "Kaiyi", "Karma", "Kawei", "KGM", "Kia", "Knewstar", "Koenigsegg", "KTM AG", "KYC", "Lada (ВАЗ)", "Lamborghini", "Lancia", "Land Rover", "Landwind", "Leapmotor", "Letin", "LEVC", "Lexus", "Li Auto (Lixiang)", "Liebao Motor", "Lifan", "Ligier", "Lincoln", "Lingxi", "Livan", "Logem", "Lotus", "LTI", "Lucid", "Luxeed", "Luxgen", "Lynk & Co", "M-Hero", "Maextro", "Mahindra", "Maple", "Marcos", "Marlin", "Marussia", "Maruti", "Maserati", "Matra", "Maxus", "Maybach", "Mazda", "McLaren", "Mega", "Mercedes-Benz", "Mercury", "Merkur", "Messerschmitt", "Metrocab", "MG", "Micro", "Microcar", "Minelli", "Mini", "Mitsubishi", "Mitsuoka", "Mobilize", "Morgan", "Morris", "Nash", "Nio", "Nissan", "Noble", "Nordcross", "Oldsmobile", "Oltcit", "Omoda", "Opel", "Ora", "Orange", "Osca", "Oshan", "Oting", "Overland", "Packard", "Pagani", "Panoz", "Perodua", "Peugeot", "PGO", "Piaggio", "Pierce-Arrow", "Plymouth", "Polar Stone (Jishi)", "Polestar", "Pontiac", "Porsche", "Premier", "Proton", "Puch", "Puma", "Punk", "Qiantu", "Qingling", "Qoros", "Qvale", "Radar", "Radford", "Ram", "Ravon", "Rayton Fissore", "Reliant", "Renaissance", "Renault", "Renault Samsung", "Rezvani", "Rimac", "Rinspeed", "Rising Auto", "Rivian", "Roewe", "Rolls-Royce", "Ronart", "Rossa", "Rover", "Rox", "Saab", "SAIC", "Saipa", "Saleen", "Sandstorm", "Santana", "Saturn", "Scion", "Scout", "Sears", "SEAT", "Seres", "Shanghai Maple", "ShuangHuan", "Simca", "Skoda", "Skywell", "Skyworth", "Smart", "Solaris", "Sollers", "Soueast", "Spectre", "Spyker", "SsangYong", "Stelato", "Steyr", "Studebaker", "Subaru", "Suzuki", "SWM", "Talbot", "Tank", "Tata", "Tatra", "Tazzari", "TENET", "Tesla", "Thairung", "Think", "Tianma", "Tianye", "Tofas", "Toyota", "Trabant", "Tramontana", "Triumph", "TVR", "Ultima", "Vauxhall", "Vector", "Venturi", "Venucia", "VGV", "VinFast", "Volga", "Volkswagen", "Volvo", "Vortex", "Voyah", "VUHL", "W Motors", "Wanderer", "Wartburg", "Weltmeister", "Westfield", "Wey", "Wiesmann", "Willys", "Wuling", "Xcite", "XEV", "Xiaomi", "Xin Kai", "Xpeng", "Yema", "Yipai", "Yudo", "Yulon", "Zastava", "Zeekr", "Zenos", "Zenvo", "Zhido", "Zibar", "Zotye", "Zubr", "ZX", "Автокам", "Амберавто", "Атом", "ГАЗ", "ЗАЗ", "ЗИЛ", "ЗиС", "Иж", "Канонир", "Комбат", "ЛуАЗ", "Москвич", "Руссо-Балт", "СМЗ", "Спортивные авто и реплики", "ТагАЗ", "УАЗ", "Яндекс Ровер", "Ё-мобиль"
-];
-
-const FULL_BRAND_SET = new Set([...POPULAR_BRANDS_LIST, ...ALL_BRANDS_LIST]);
-
 // Demo Data
 const DEMO_ITEMS_POOL = [
     { name: "Фильтр масляный", category: "Оригинал" },
@@ -35,45 +39,43 @@ const DEMO_ITEMS_POOL = [
     { name: "Стойка стабилизатора", category: "Оригинал" }
 ];
 
-// Helper to generate full VIN
-const generateVin = (prefix: string) => {
+// Helper to generate full VIN: год в 10-м символе и верная контрольная цифра, чтобы демо-VIN проходил расшифровку
+const generateVin = (prefix: string, year: number) => {
     const chars = "ABCDEFGHJKLMNPRSTUVWXYZ0123456789";
     let result = prefix;
     while (result.length < 17) {
         result += chars.charAt(Math.floor(Math.random() * chars.length));
     }
-    return result;
+    result = result.slice(0, 9) + vinYearCode(year) + result.slice(10);
+    return result.slice(0, 8) + vinCheckDigit(result) + result.slice(9);
 };
 
+// Модели — из справочника: поколение, год, двигатель и кузов демо-заказа берутся оттуда
 const DEMO_CARS = [
-    { brand: "BMW", model: "X5 G05", prefix: "WBA" },
-    { brand: "Toyota", model: "Camry V70", prefix: "JT1" },
-    { brand: "Kia", model: "Rio 4", prefix: "Z94" },
-    { brand: "Mercedes-Benz", model: "E-Class W213", prefix: "WDB" },
-    { brand: "Volkswagen", model: "Tiguan II", prefix: "XW8" },
+    { brand: "BMW", model: "X5", prefix: "WBA" },
+    { brand: "Toyota", model: "Camry", prefix: "JT1" },
+    { brand: "Kia", model: "Rio", prefix: "Z94" },
+    { brand: "Mercedes-Benz", model: "E-Class", prefix: "WDB" },
+    { brand: "Volkswagen", model: "Tiguan", prefix: "XW8" },
     { brand: "Hyundai", model: "Solaris", prefix: "X7M" },
-    { brand: "Lexus", model: "RX 350", prefix: "JTJ" },
-    { brand: "Skoda", model: "Octavia A7", prefix: "TMB" }
+    { brand: "Lexus", model: "RX", prefix: "JTJ" },
+    { brand: "Skoda", model: "Octavia", prefix: "TMB" }
 ];
 
+const pickRandom = <T,>(list: T[]): T => list[Math.floor(Math.random() * list.length)];
+
+const EMPTY_ITEM = { name: '', article: '', quantity: 1, color: '', category: 'Оригинал' as PartCategory, refImage: '' };
+
 export const ClientInterface: React.FC = () => {
-  const [clientAuth, setClientAuth] = useState(() => {
-    const saved = localStorage.getItem('client_auth');
-    return saved ? JSON.parse(saved) : null;
-  });
-  const [showAuthModal, setShowAuthModal] = useState(!localStorage.getItem('client_auth'));
-  const [tempAuth, setTempAuth] = useState({ name: '', phone: '' });
-  const [phoneFlash, setPhoneFlash] = useState(false);
+  const clientAuth = useAuthSession('client');
   const [isSyncing, setIsSyncing] = useState(false);
+  const [isStale, setIsStale] = useState(false);
+  const outbox = useOutbox('client');
   
   const [vin, setVin] = useState('');
-  const [car, setCar] = useState({ brand: '', model: '', bodyType: '', year: '', engine: '', transmission: '' });
-  const [items, setItems] = useState([{ name: '', quantity: 1, color: '', category: 'Оригинал' as PartCategory, refImage: '' }]);
+  const [car, setCar] = useState<CarForm>(EMPTY_CAR);
+  const [items, setItems] = useState([EMPTY_ITEM]);
   
-  const [isBrandOpen, setIsBrandOpen] = useState(false);
-  const brandListRef = useRef<HTMLDivElement>(null);
-  const brandInputRef = useRef<HTMLInputElement>(null);
-
   const [orders, setOrders] = useState<Order[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [activeTab, setActiveTab] = useState<'processed' | 'archive'>('processed');
@@ -96,28 +98,32 @@ export const ClientInterface: React.FC = () => {
   // Sorting State
   const [sortConfig, setSortConfig] = useState<{ key: string, direction: 'asc' | 'desc' } | null>({ key: 'id', direction: 'desc' });
 
+  // Свои заказы — по номеру телефона: имя может совпасть у разных клиентов
+  const isMine = (o: Order) => !!clientAuth?.phone && normalizePhone(o.clientPhone || '') === normalizePhone(clientAuth.phone);
+
+  const showOrders = (data: Order[]) => {
+    const myOrders = data.filter(isMine);
+
+    setOrders(prev => {
+       const optimisticPending = prev.filter(o => o.id.startsWith('temp-'));
+       return [...optimisticPending, ...myOrders];
+    });
+    setIsStale(SheetService.isFromSnapshot());
+  };
+
   const fetchOrders = async () => {
     setIsSyncing(true);
     try {
-      const data = await SheetService.getOrders(true);
-      
-      const myOrders = clientAuth?.name 
-        ? data.filter(o => o.clientName === clientAuth.name)
-        : [];
-
-      setOrders(prev => {
-         const optimisticPending = prev.filter(o => o.id.startsWith('temp-'));
-         return [...optimisticPending, ...myOrders];
-      });
+      showOrders(await SheetService.getOrders(true));
     } catch (e) { console.error(e); }
     finally { setIsSyncing(false); }
   };
 
+  // Ответы поставщиков и КП приходят по push-каналу (или опросом, если бэкенд его не поддерживает)
   useEffect(() => { 
     if (clientAuth) {
-        fetchOrders(); 
-        const interval = setInterval(() => fetchOrders(), 15000);
-        return () => clearInterval(interval);
+        fetchOrders();
+        return SheetService.subscribe(showOrders);
     }
   }, [clientAuth]);
 
@@ -125,72 +131,10 @@ export const ClientInterface: React.FC = () => {
     setCurrentPage(1);
   }, [activeTab, searchQuery, sortConfig]);
 
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-        if (brandListRef.current && !brandListRef.current.contains(event.target as Node) && 
-            brandInputRef.current && !brandInputRef.current.contains(event.target as Node)) {
-            setIsBrandOpen(false);
-        }
-    };
-    document.addEventListener('mousedown', handleClickOutside);
-    return () => document.removeEventListener('mousedown', handleClickOutside);
-  }, []);
-
-  const formatPhoneNumber = (value: string) => {
-    let digits = value.replace(/\D/g, '').slice(0, 11);
-    if (!digits) return '';
-    if (digits[0] === '8') digits = '7' + digits.slice(1);
-    else if (digits[0] !== '7') digits = '7' + digits;
-    const match = digits.match(/^(\d{1})(\d{0,3})(\d{0,3})(\d{0,2})(\d{0,2})$/);
-    if (!match) return '+7'; 
-    let formatted = `+${match[1]}`;
-    if (match[2]) formatted += ` (${match[2]}`;
-    if (match[3]) formatted += `) ${match[3]}`;
-    if (match[4]) formatted += `-${match[4]}`;
-    if (match[5]) formatted += `-${match[5]}`;
-    return formatted;
-  };
-
-  const handlePhoneChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = e.target.value;
-    const digitsOnly = val.replace(/\D/g, '');
-    if (digitsOnly.length > 11) {
-        setPhoneFlash(true);
-        setTimeout(() => setPhoneFlash(false), 300); 
-        return; 
-    }
-    setTempAuth({...tempAuth, phone: formatPhoneNumber(val)});
-  };
-
-  const isPhoneValid = (phone: string) => phone.length === 18;
-
-  const handleLogin = (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!tempAuth.name.trim()) return;
-    if (!isPhoneValid(tempAuth.phone)) return;
-    const authData = { name: tempAuth.name.trim().toUpperCase(), phone: tempAuth.phone.trim() };
-    setClientAuth(authData);
-    localStorage.setItem('client_auth', JSON.stringify(authData));
-    setShowAuthModal(false);
-  };
-
-  const handleDemoLogin = (num: 1 | 2) => {
-    const demo = num === 1 
-      ? { name: 'КЛИЕНТ № 1', phone: '+7 (999) 111-22-33' }
-      : { name: 'КЛИЕНТ № 2', phone: '+7 (999) 444-55-66' };
-    setClientAuth(demo);
-    localStorage.setItem('client_auth', JSON.stringify(demo));
-    setShowAuthModal(false);
-  };
 
+  // Гард маршрута размонтирует кабинет вместе со всем локальным состоянием
   const handleLogout = () => {
-    localStorage.removeItem('client_auth');
-    setClientAuth(null);
-    setOrders([]); 
-    setShowAuthModal(true);
-    setVin('');
-    setCar({ brand: '', model: '', bodyType: '', year: '', engine: '', transmission: '' });
-    setItems([{ name: '', quantity: 1, color: '', category: 'Оригинал' as PartCategory, refImage: '' }]);
+    AuthService.logout('client');
   };
 
   const updateItem = (index: number, field: string, value: any) => {
@@ -200,10 +144,36 @@ export const ClientInterface: React.FC = () => {
     setItems(newItems);
   };
 
+  // Выбор детали из справочника: название в написании справочника, оригинальный номер для марки авто
+  const pickPart = (index: number, suggestion: PartSuggestion) => {
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, name: suggestion.part.name, article: suggestion.number?.number || item.article } : item));
+  };
+
+  // Известный артикул при пустом названии подставляет деталь
+  const updateArticle = (index: number, article: string) => {
+    const part = findArticle(article)?.part;
+    setItems(prev => prev.map((item, i) => i === index ? { ...item, article, name: item.name.trim() || !part ? item.name : part.name } : item));
+  };
+
+  // Повтор позиции: тот же артикул (с учётом аналогов) или то же название без артикула
+  const duplicateOf = (index: number) => items.findIndex((other, i) => i < index && !!other.name.trim() && isSamePart(other, items[index]));
+
   const isValidBrand = useMemo(() => {
-      return !!car.brand && FULL_BRAND_SET.has(car.brand);
+      return !!findBrand(car.brand);
   }, [car.brand]);
 
+  // Расшифровка VIN: подсказки и расхождения с маркой/годом; отправку не блокирует
+  const vinInfo = useMemo(() => vin.trim() ? decodeVin(vin) : null, [vin]);
+  const vinIssues = vinInfo ? vinMismatches(vinInfo, car) : [];
+  const isTypingVin = vinInfo?.kind === 'invalid' && vinInfo.vin.length < 17 && !validationAttempted;
+
+  const handleVinChange = (value: string) => {
+    const next = value.toUpperCase();
+    setVin(next);
+    const decoded = decodeVin(next);
+    if (decoded.kind === 'vin') setCar(prev => fillCarFromVin(prev, decoded));
+  };
+
   const showBrandError = (validationAttempted || showValidationHighlight) && !car.brand;
   const showItemNameError = (validationAttempted || showValidationHighlight) && items.some(i => !i.name.trim());
 
@@ -232,7 +202,8 @@ export const ClientInterface: React.FC = () => {
 
     setIsSubmitting(true);
 
-    const finalCar = { ...car, model: `${car.brand} ${car.model}`.trim() };
+    const finalCar = normalizeCar(car);
+    const finalItems = items.map(i => ({ ...i, name: normalizePartName(i.name), article: i.article.trim() }));
     const tempId = `temp-${Date.now()}`;
     const finalVin = vin || 'N/A'; 
 
@@ -241,7 +212,7 @@ export const ClientInterface: React.FC = () => {
         vin: finalVin,
         clientName: clientAuth.name,
         car: finalCar,
-        items,
+        items: finalItems,
         status: OrderStatus.OPEN,
         createdAt: new Date().toLocaleString('ru-RU'),
         offers: [],
@@ -250,11 +221,18 @@ export const ClientInterface: React.FC = () => {
 
     setOrders(prev => [optimisticOrder, ...prev]);
     setVin('');
-    setCar({ brand: '', model: '', bodyType: '', year: '', engine: '', transmission: '' });
-    setItems([{ name: '', quantity: 1, color: '', category: 'Оригинал', refImage: '' }]);
+    setCar(EMPTY_CAR);
+    setItems([EMPTY_ITEM]);
 
     try {
-        const realId = await SheetService.createOrder(finalVin, items, clientAuth.name, finalCar, clientAuth.phone);
+        const realId = await SheetService.createOrder(finalVin, finalItems, clientAuth.name, finalCar, clientAuth.phone, tempId);
+        if (!realId) {
+          // Заказ остался в офлайн-очереди — дальше его показывает список очереди
+          setOrders(prev => prev.filter(o => o.id !== tempId));
+          setSuccessToast({ message: 'Нет сети — заказ отправится автоматически', id: Date.now().toString() });
+          setTimeout(() => setSuccessToast(null), 3000);
+          return;
+        }
         setOrders(prev => prev.map(o => o.id === tempId ? { ...o, id: realId } : o));
         setHighlightedId(realId); 
         setSuccessToast({ message: `Заказ ${realId} успешно создан`, id: Date.now().toString() });
@@ -272,7 +250,11 @@ export const ClientInterface: React.FC = () => {
   const handleConfirmPurchase = async (orderId: string) => {
     setIsConfirming(orderId);
     try {
-      await SheetService.confirmPurchase(orderId);
+      if (!await SheetService.confirmPurchase(orderId)) {
+        setSuccessToast({ message: 'Нет сети — подтверждение отправится автоматически', id: Date.now().toString() });
+        setTimeout(() => setSuccessToast(null), 3000);
+        return;
+      }
       setVanishingIds(prev => new Set(prev).add(orderId));
       setSuccessToast({ message: `Заявка на покупку отправлена! Перемещено в архив.`, id: Date.now().toString() });
       setTimeout(() => setSuccessToast(null), 4000);
@@ -302,7 +284,11 @@ export const ClientInterface: React.FC = () => {
     setRefuseModalOrder(null);
     
     try {
-      await SheetService.refuseOrder(orderId, "Отмена клиентом", 'CLIENT'); 
+      if (!await SheetService.refuseOrder(orderId, "Отмена клиентом", 'CLIENT')) {
+        setSuccessToast({ message: 'Нет сети — отказ отправится автоматически', id: Date.now().toString() });
+        setTimeout(() => setSuccessToast(null), 3000);
+        return;
+      }
       setVanishingIds(prev => new Set(prev).add(orderId));
       setSuccessToast({ message: `Заказ ${orderId} аннулирован`, id: Date.now().toString() });
       setTimeout(() => setSuccessToast(null), 3000);
@@ -322,28 +308,36 @@ export const ClientInterface: React.FC = () => {
 
   const handleDemoForm = () => {
     // Random Car
-    const randomCar = DEMO_CARS[Math.floor(Math.random() * DEMO_CARS.length)];
+    const randomCar = pickRandom(DEMO_CARS);
+    const generation = pickRandom(findModel(randomCar.brand, randomCar.model)?.generations || []);
+    const lastYear = Math.min(generation?.to || new Date().getFullYear(), new Date().getFullYear());
+    const firstYear = generation?.from || 2000;
+    const randomYear = Math.floor(Math.random() * (lastYear - firstYear + 1) + firstYear).toString();
     // GENERATE FULL VIN
-    const randomVin = generateVin(randomCar.prefix);
-    const randomYear = Math.floor(Math.random() * (2026 - 2000 + 1) + 2000).toString();
+    const randomVin = generateVin(randomCar.prefix, Number(randomYear));
     
     // Random Items (1 to 4)
     const itemCount = Math.floor(Math.random() * 4) + 1;
     const shuffledItems = [...DEMO_ITEMS_POOL].sort(() => 0.5 - Math.random());
-    const selectedItems = shuffledItems.slice(0, itemCount).map(i => ({
-        ...i,
+    const selectedItems = shuffledItems.slice(0, itemCount).map(i => {
+        const suggestion = searchParts(i.name, randomCar.brand)[0];
+        return {
+        ...EMPTY_ITEM,
+        name: suggestion?.part.name || i.name,
+        article: suggestion?.number?.number || '',
+        category: i.category as PartCategory,
         quantity: Math.floor(Math.random() * 2) + 1,
-        color: '',
-        refImage: ''
-    }));
+        };
+    });
 
     setVin(randomVin);
     setCar({ 
         brand: randomCar.brand, 
         model: randomCar.model, 
-        bodyType: 'Седан', 
+        generation: generation?.name || '',
+        bodyType: generation ? pickRandom(generation.bodyTypes) : 'Седан', 
         year: randomYear, 
-        engine: '2.0L', 
+        engine: generation ? pickRandom(generation.engines) : '2.0', 
         transmission: 'Auto' 
     });
     setItems(selectedItems);
@@ -358,14 +352,22 @@ export const ClientInterface: React.FC = () => {
       });
   };
 
+  // Заказы из офлайн-очереди показываются в списке до отправки — с временным ID и отметкой «Ожидает отправки»
+  const listedOrders = useMemo(() => {
+    const queued = outbox
+      .map(queuedOrder)
+      .filter((o): o is Order => !!o && isMine(o) && !orders.some(x => x.id === o.id));
+    return [...queued, ...orders];
+  }, [orders, outbox, clientAuth]);
+
   const counts = useMemo(() => {
-    const processed = orders.filter(o => o.status === OrderStatus.OPEN && !o.readyToBuy && !o.isRefused).length;
-    const archive = orders.filter(o => o.status === OrderStatus.CLOSED || o.readyToBuy || o.isRefused).length;
+    const processed = listedOrders.filter(o => o.status === OrderStatus.OPEN && !o.readyToBuy && !o.isRefused).length;
+    const archive = listedOrders.filter(o => o.status === OrderStatus.CLOSED || o.readyToBuy || o.isRefused).length;
     return { processed, archive };
-  }, [orders]);
+  }, [listedOrders]);
 
   const filteredOrders = useMemo(() => {
-    let result = orders.filter(o => {
+    let result = listedOrders.filter(o => {
         let inTab = false;
         if (activeTab === 'archive') inTab = o.status === OrderStatus.CLOSED || o.readyToBuy || o.isRefused;
         else inTab = o.status === OrderStatus.OPEN && !o.readyToBuy && !o.isRefused;
@@ -375,8 +377,8 @@ export const ClientInterface: React.FC = () => {
         const q = searchQuery.toLowerCase();
         if (String(o.id).toLowerCase().includes(q)) return true;
         if (o.vin.toLowerCase().includes(q)) return true;
-        if (o.car?.model?.toLowerCase().includes(q)) return true;
-        if (o.items.some(i => i.name.toLowerCase().includes(q))) return true;
+        if (carTitle(o.car).toLowerCase().includes(q)) return true;
+        if (o.items.some(i => i.name.toLowerCase().includes(q) || (i.article || '').toLowerCase().includes(q))) return true;
         return false;
     });
 
@@ -390,7 +392,7 @@ export const ClientInterface: React.FC = () => {
                     aVal = Number(a.id); bVal = Number(b.id);
                     break;
                 case 'model':
-                    aVal = a.car?.model || ''; bVal = b.car?.model || '';
+                    aVal = carTitle(a.car); bVal = carTitle(b.car);
                     break;
                 case 'items':
                     aVal = a.items.length; bVal = b.items.length;
@@ -425,7 +427,7 @@ export const ClientInterface: React.FC = () => {
     }
 
     return result;
-  }, [orders, activeTab, searchQuery, sortConfig]);
+  }, [listedOrders, activeTab, searchQuery, sortConfig]);
 
   const paginatedOrders = useMemo(() => {
     const start = (currentPage - 1) * itemsPerPage;
@@ -440,12 +442,6 @@ export const ClientInterface: React.FC = () => {
       }
   };
 
-  const filteredBrands = useMemo(() => {
-      const q = car.brand.toLowerCase();
-      if (!q) return POPULAR_BRANDS_LIST;
-      return ALL_BRANDS_LIST.filter(b => b.toLowerCase().includes(q));
-  }, [car.brand]);
-
   // Helper for Sort Icons
   const SortIcon = ({ column }: { column: string }) => {
       if (sortConfig?.key !== column) return <ArrowUpDown size={10} className="text-slate-300 ml-1 opacity-50 group-hover:opacity-100 transition-opacity" />;
@@ -483,25 +479,6 @@ export const ClientInterface: React.FC = () => {
           </div>
       )}
 
-      {showAuthModal && (
-        <div className="fixed inset-0 z-[300] flex items-center justify-center bg-slate-900/70 backdrop-blur-md p-4 animate-in fade-in duration-300">
-          <div className="bg-white rounded-[2.5rem] p-8 w-full max-w-[400px] shadow-2xl flex flex-col items-center gap-6 animate-in zoom-in-95 duration-300">
-             <div className="w-20 h-20 bg-indigo-600 rounded-3xl flex items-center justify-center text-white shadow-xl shadow-indigo-100"><ShieldCheck size={40} /></div>
-             <div className="text-center space-y-1"><h2 className="text-xl font-black uppercase text-slate-900 tracking-tight">Вход клиента</h2><p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Авторизуйтесь для работы с заказами</p></div>
-             <div className="grid grid-cols-2 gap-3 w-full">
-                <button onClick={() => handleDemoLogin(1)} className="py-3 bg-slate-50 border border-slate-200 rounded-2xl text-[10px] font-black uppercase text-slate-600 hover:bg-indigo-50 hover:border-indigo-200 hover:text-indigo-600 transition-all flex flex-col items-center gap-1"><UserCircle2 size={16}/> Демо Клиент 1</button>
-                <button onClick={() => handleDemoLogin(2)} className="py-3 bg-slate-50 border border-slate-200 rounded-2xl text-[10px] font-black uppercase text-slate-600 hover:bg-indigo-50 hover:border-indigo-200 hover:text-indigo-600 transition-all flex flex-col items-center gap-1"><UserCircle2 size={16}/> Демо Клиент 2</button>
-             </div>
-             <div className="w-full flex items-center gap-4 py-2"><div className="flex-grow h-px bg-slate-100"></div><span className="text-[9px] font-bold text-slate-300 uppercase">или создайте новый</span><div className="flex-grow h-px bg-slate-100"></div></div>
-             <form onSubmit={handleLogin} className="w-full space-y-3">
-                 <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">Имя</label><input autoFocus value={tempAuth.name} onChange={e => setTempAuth({...tempAuth, name: e.target.value})} className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl font-bold text-sm outline-none focus:border-indigo-600 uppercase" placeholder="ИМЯ" /></div>
-                 <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">Номер телефона</label><input value={tempAuth.phone} onChange={handlePhoneChange} className={`w-full px-4 py-3 bg-slate-50 border rounded-xl font-bold text-sm outline-none transition-all duration-300 ${phoneFlash ? 'border-red-500 bg-red-50' : 'border-slate-200 focus:border-indigo-600'}`} placeholder="+7 (XXX) XXX-XX-XX" /></div>
-                 <button type="submit" disabled={!tempAuth.name || !isPhoneValid(tempAuth.phone)} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-xl hover:bg-indigo-700 active:scale-95 transition-all mt-4 disabled:opacity-50 disabled:active:scale-100">Создать аккаунт</button>
-             </form>
-          </div>
-        </div>
-      )}
-
       <div className="bg-white p-3 md:p-4 rounded-2xl border border-slate-200 shadow-sm flex flex-row justify-between items-center gap-3">
          <div className="flex items-center gap-3 md:gap-4 overflow-hidden">
             <div className="w-10 h-10 md:w-12 md:h-12 bg-indigo-50 rounded-2xl flex items-center justify-center text-indigo-600 border border-indigo-100 shadow-inner shrink-0"><UserCircle2 size={20} className="md:w-6 md:h-6"/></div>
@@ -526,38 +503,41 @@ export const ClientInterface: React.FC = () => {
         </div>
         <form onSubmit={handleSubmit} className="p-4 space-y-6">
           <div className="bg-slate-50/50 p-4 rounded-xl border border-slate-100 grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">VIN / Шасси</label><input value={vin} onChange={e => setVin(e.target.value.toUpperCase())} className="w-full px-3 py-1.5 bg-white border border-slate-300 rounded-md font-mono text-[10px] outline-none focus:border-indigo-500 transition-colors" placeholder="WBA..." /></div>
-              <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">Имя Клиента</label><input value={clientAuth?.name || ''} readOnly className="w-full px-3 py-1.5 bg-slate-100 border border-slate-200 rounded-md text-[10px] font-bold uppercase text-slate-400 outline-none cursor-not-allowed" /></div>
-              <div className="md:col-span-2 grid grid-cols-1 sm:grid-cols-3 gap-3">
-                  <div className="space-y-1 relative">
-                      <label className="text-[8px] font-bold text-slate-400 uppercase ml-1">Марка (Бренд)</label>
-                      <div className="relative">
-                          <input ref={brandInputRef} value={car.brand} onChange={(e) => { setCar({...car, brand: e.target.value}); setIsBrandOpen(true); }} onFocus={() => setIsBrandOpen(true)} className={`w-full px-3 py-1.5 bg-white border rounded-md text-[10px] font-bold uppercase outline-none focus:border-indigo-500 transition-colors ${showBrandError ? 'border-red-400 bg-red-50/30 ring-1 ring-red-100' : 'border-slate-300'}`} placeholder="Введите марку..." />
-                          <ChevronDown size={12} className="absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400" />
-                      </div>
-                      {isBrandOpen && (<div ref={brandListRef} className="absolute z-50 left-0 right-0 top-full mt-1 max-h-48 overflow-y-auto bg-white border border-slate-200 rounded-lg shadow-xl divide-y divide-slate-50 animate-in fade-in zoom-in-95 duration-100">{filteredBrands.length > 0 ? (filteredBrands.map((brand, idx) => (<div key={brand} onClick={() => { setCar({...car, brand}); setIsBrandOpen(false); }} className="px-3 py-2 text-[10px] font-bold text-slate-700 hover:bg-indigo-50 hover:text-indigo-700 cursor-pointer uppercase">{brand}</div>))) : (<div className="px-3 py-2 text-[10px] text-slate-400 italic">Ничего не найдено</div>)}</div>)}
-                      {/* Only show explicit error text if dropdown isn't open and brand is NOT valid but present (invalid input) */}
-                      {!isValidBrand && car.brand.length > 0 && !isBrandOpen && (<div className="text-[8px] font-bold text-red-500 mt-1 absolute -bottom-4 left-0">Выберите марку из списка</div>)}
+              <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">VIN / Шасси</label><input value={vin} onChange={e => handleVinChange(e.target.value)} className={`w-full px-3 py-1.5 bg-white border rounded-md font-mono text-[10px] outline-none focus:border-indigo-500 transition-colors ${vinInfo && !isTypingVin && vinInfo.errors.length > 0 ? 'border-amber-400' : 'border-slate-300'}`} placeholder="WBA..." />
+                {vinInfo && !isTypingVin && (
+                  <div className="ml-1 space-y-0.5 text-[8px] font-bold">
+                    {vinInfo.kind === 'vin' && vinInfo.errors.length === 0 && (
+                      <div className="text-emerald-600">{[vinInfo.manufacturer || 'Производитель не определён', vinInfo.region, vinInfo.details.model, vinInfo.yearCandidates.length > 0 ? `${vinInfo.yearCandidates.join(' / ')} г.` : ''].filter(Boolean).join(' · ')}</div>
+                    )}
+                    {[...vinInfo.errors, ...vinInfo.warnings, ...vinIssues].map(msg => <div key={msg} className="text-amber-600 flex items-center gap-1"><AlertCircle size={9}/> {msg}</div>)}
                   </div>
-                  <div className="space-y-1"><label className="text-[8px] font-bold text-slate-400 uppercase ml-1">Модель</label><input value={car.model} onChange={e => setCar({...car, model: e.target.value})} className="w-full px-3 py-1.5 bg-white border border-slate-300 rounded-md text-[10px] font-bold outline-none uppercase focus:border-indigo-500" placeholder="Напишите модель (X5, Camry...)" /></div>
-                  <div className="space-y-1"><label className="text-[8px] font-bold text-slate-400 uppercase ml-1">Год выпуска</label><input value={car.year} onChange={e => setCar({...car, year: e.target.value})} className="w-full px-2 py-1.5 bg-white border border-slate-300 rounded-md text-[10px] font-bold text-center focus:border-indigo-500" placeholder="202X" /></div>
+                )}
               </div>
+              <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">Имя Клиента</label><input value={clientAuth?.name || ''} readOnly className="w-full px-3 py-1.5 bg-slate-100 border border-slate-200 rounded-md text-[10px] font-bold uppercase text-slate-400 outline-none cursor-not-allowed" /></div>
+              <CarPicker car={car} onChange={setCar} brandError={showBrandError} />
           </div>
           <div className="space-y-3">
             <label className="text-[9px] font-black uppercase tracking-widest text-slate-950 ml-1">Позиции заказа</label>
             {items.map((item, idx) => (
               <div key={idx} className="flex gap-2 items-start group">
                 <div className="flex-grow bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-3">
-                  <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
-                    <div className="md:col-span-2"><input value={item.name} maxLength={90} onChange={e => updateItem(idx, 'name', e.target.value)} className={`w-full px-2 py-1 bg-slate-50 border rounded text-[10px] font-bold outline-none focus:border-indigo-300 transition-colors ${showItemNameError && !item.name.trim() ? 'border-red-300 bg-red-50' : 'border-slate-100'}`} placeholder="Название детали (макс. 90 симв.)" /></div>
+                  <div className="grid grid-cols-1 md:grid-cols-6 gap-2">
+                    <div className="md:col-span-3"><Autocomplete value={item.name} maxLength={90} options={searchParts(item.name, carBrand(car)).map(sug => ({ key: sug.key, label: sug.part.name, hint: sug.number ? `${sug.number.maker} ${sug.number.number}` : sug.part.group, value: sug }))} onInput={value => updateItem(idx, 'name', value)} onPick={option => pickPart(idx, option.value)} className={`w-full px-2 py-1 bg-slate-50 border rounded text-[10px] font-bold outline-none focus:border-indigo-300 transition-colors ${showItemNameError && !item.name.trim() ? 'border-red-300 bg-red-50' : 'border-slate-100'}`} placeholder="Название детали (макс. 90 симв.)" /></div>
+                    <div><input value={item.article} maxLength={40} onChange={e => updateArticle(idx, e.target.value)} className="w-full px-2 py-1 bg-slate-50 border border-slate-100 rounded text-[10px] font-mono font-bold outline-none focus:border-indigo-300" placeholder="Артикул / OEM" /></div>
                     <div className="relative"><select value={item.category} onChange={e => updateItem(idx, 'category', e.target.value as PartCategory)} className="w-full appearance-none px-2 py-1 bg-slate-50 border border-slate-100 rounded text-[9px] font-black uppercase pr-8 outline-none"><option>Оригинал</option><option>Б/У</option><option>Аналог</option></select><ChevronDown size={14} className="absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none text-slate-400" /></div>
                     <div className="flex items-center gap-1"><input type="number" value={item.quantity} onChange={e => updateItem(idx, 'quantity', parseInt(e.target.value))} className="w-full px-1 py-1 bg-slate-50 border border-slate-100 rounded text-[10px] text-center font-black" /></div>
                   </div>
+                  {(describeArticle(item.article) || duplicateOf(idx) >= 0) && (
+                    <div className="flex flex-wrap gap-3 text-[8px] font-bold">
+                      {describeArticle(item.article) && <span className="text-emerald-600">{describeArticle(item.article)}</span>}
+                      {duplicateOf(idx) >= 0 && <span className="text-amber-600 flex items-center gap-1"><AlertCircle size={9}/> Повторяет позицию {duplicateOf(idx) + 1} — увеличьте количество там</span>}
+                    </div>
+                  )}
                 </div>
                 <button type="button" onClick={() => items.length > 1 && setItems(items.filter((_, i) => i !== idx))} className="mt-4 p-2 text-slate-300 hover:text-red-500 rounded-lg"><Trash2 size={14}/></button>
               </div>
             ))}
-            <button type="button" onClick={() => setItems([...items, { name: '', quantity: 1, color: '', category: 'Оригинал', refImage: '' }])} className="text-[9px] font-bold text-indigo-600 uppercase hover:underline flex items-center gap-1"><Plus size={10}/> Добавить деталь</button>
+            <button type="button" onClick={() => setItems([...items, EMPTY_ITEM])} className="text-[9px] font-bold text-indigo-600 uppercase hover:underline flex items-center gap-1"><Plus size={10}/> Добавить деталь</button>
           </div>
           <div onMouseEnter={handleButtonHover} onMouseLeave={handleButtonLeave}>
             <button type="submit" disabled={!isFormValid || isSubmitting} className={`w-full py-3 rounded-xl font-black uppercase text-[11px] tracking-widest shadow-xl transition-all flex items-center justify-center gap-3 ${isFormValid && !isSubmitting ? 'bg-slate-900 text-white hover:bg-slate-800 active:scale-95' : 'bg-slate-300 text-slate-500'}`}>
@@ -575,7 +555,11 @@ export const ClientInterface: React.FC = () => {
               <button onClick={() => setActiveTab('processed')} className={`px-2 py-1 text-[10px] font-black uppercase transition-all ${activeTab === 'processed' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-slate-400'}`}>В обработке {counts.processed > 0 && <span className="ml-1 bg-indigo-50 text-indigo-700 px-1.5 rounded-sm">({counts.processed})</span>}</button>
               <button onClick={() => setActiveTab('archive')} className={`px-2 py-1 text-[10px] font-black uppercase transition-all ${activeTab === 'archive' ? 'text-slate-900 border-b-2 border-slate-900' : 'text-slate-400'}`}>Архив {counts.archive > 0 && <span className="ml-1 opacity-40">({counts.archive})</span>}</button>
             </div>
-            <button onClick={() => fetchOrders()} className="mb-1.5 p-1.5 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-all"><RefreshCw size={14} className={isSyncing ? 'animate-spin' : ''}/></button>
+            <div className="mb-1.5 flex items-center gap-2">
+              <SyncStatus role="client" stale={isStale}/>
+              <ExportMenu orders={filteredOrders} viewer={{ role: 'client' }} fileName="my-orders" align="right"/>
+              <button onClick={() => fetchOrders()} className="p-1.5 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-all"><RefreshCw size={14} className={isSyncing ? 'animate-spin' : ''}/></button>
+            </div>
         </div>
 
         <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
@@ -597,18 +581,28 @@ export const ClientInterface: React.FC = () => {
             const isExpanded = expandedId === order.id;
             const isVanishing = vanishingIds.has(order.id);
             const isOptimistic = order.id.startsWith('temp-');
+            const queued = outbox.find(e => e.orderId === order.id);
             const isHighlighted = highlightedId === order.id;
             
             const visibleOffers = (order.offers || []).filter(off => off.visibleToClient === 'Y');
             const winningItems = visibleOffers.flatMap(off => off.items.filter(i => i.rank === 'ЛИДЕР' || i.rank === 'LEADER'));
             const hasWinning = winningItems.length > 0;
-            const totalSum = winningItems.reduce((acc, item) => acc + ((item.adminPrice ?? item.sellerPrice ?? 0) * (item.offeredQuantity || item.quantity)), 0);
-            const totalDelivery = winningItems.reduce((acc, item) => acc + ((item.deliveryRate || 0) * (item.offeredQuantity || item.quantity)), 0);
-            const symbol = getCurrencySymbol(winningItems[0]?.adminCurrency || winningItems[0]?.sellerCurrency || 'RUB');
+            // Бэкенд отдаёт клиенту только цену администратора — условия поставщика сюда не доходят
+            const totalSum = winningItems.reduce((acc, item) => acc + ((item.adminPrice ?? 0) * leaderQuantity(item)), 0);
+            const symbol = getCurrencySymbol(winningItems[0]?.adminCurrency || 'RUB');
+            // Пересчёт в рубли по курсу, зафиксированному в момент КП
+            const snapshotRates = order.rateSnapshot?.rates;
+            const toRub = (amount: number, currency: string = 'RUB') => snapshotRates && currency !== 'RUB' ? convertAmount(amount, currency as Currency, 'RUB', snapshotRates) : null;
+            const totalRub = snapshotRates ? winningItems.reduce((acc: number | null, item: any) => {
+                const sum = (item.adminPrice ?? 0) * leaderQuantity(item);
+                const currency = item.adminCurrency ?? 'RUB';
+                const rub = currency === 'RUB' ? sum : toRub(sum, currency);
+                return acc === null || rub === null ? null : acc + rub;
+            }, 0 as number | null) : null;
 
             const orderDate = order.createdAt ? order.createdAt.split(/[\n,]/)[0] : '';
             const itemsCount = order.items.length;
-            const displayModel = order.car?.AdminModel || order.car?.model || 'БЕЗ МОДЕЛИ';
+            const displayModel = carTitle(order.car) || 'БЕЗ МОДЕЛИ';
             
             const containerStyle = isVanishing ? "opacity-0 max-h-0 py-0 overflow-hidden" : isHighlighted ? "bg-emerald-50 border-emerald-200 ring-1 ring-emerald-200" : order.isRefused ? "bg-red-50 border-red-200 opacity-60 grayscale-[0.5] border-b-4 md:border-b border-slate-300 last:border-0" : isExpanded ? 'border-l-indigo-600 ring-1 ring-indigo-600 shadow-xl bg-white relative z-10 rounded-xl my-3' : 'hover:bg-slate-50/30 border-l-transparent border-b-4 md:border-b border-slate-100 last:border-0';
 
@@ -619,7 +613,7 @@ export const ClientInterface: React.FC = () => {
                     
                     {/* ID */}
                     <div className="flex items-center justify-between md:justify-start">
-                        {isOptimistic ? (<div className="flex items-center gap-1.5 text-indigo-500"><Loader2 size={12} className="animate-spin"/><span className="text-[9px] font-bold uppercase tracking-wider">Создание</span></div>) : (<span className="font-mono font-bold text-[10px] text-slate-900 truncate block">{order.id}</span>)}
+                        {queued && isOptimistic ? (<PendingSyncBadge failed={!!queued.error}/>) : isOptimistic ? (<div className="flex items-center gap-1.5 text-indigo-500"><Loader2 size={12} className="animate-spin"/><span className="text-[9px] font-bold uppercase tracking-wider">Создание</span></div>) : (<div className="flex items-center gap-1.5 min-w-0"><span className="font-mono font-bold text-[10px] text-slate-900 truncate block">{order.id}</span>{queued && <PendingSyncBadge failed={!!queued.error}/>}</div>)}
                         <div className="md:hidden flex items-center gap-2">
                              {/* Mobile Status */}
                              {(() => {
@@ -703,11 +697,12 @@ export const ClientInterface: React.FC = () => {
                               {hasWinning && (
                                   <div className="divide-y divide-slate-100">
                                     {winningItems.map((item, idx) => {
-                                         const finalPrice = item.adminPrice ?? item.sellerPrice ?? 0;
-                                         const curSymbol = getCurrencySymbol(item.adminCurrency ?? item.sellerCurrency ?? 'RUB');
+                                         const finalPrice = item.adminPrice ?? 0;
+                                         const curSymbol = getCurrencySymbol(item.adminCurrency ?? 'RUB');
                                          const displayName = item.AdminName || item.name;
-                                         const displayQty = item.AdminQuantity || item.offeredQuantity || item.quantity;
-                                         const deliveryCost = (item.deliveryRate || 0) * displayQty;
+                                         const displayQty = leaderQuantity(item);
+                                         const orderItem = order.items.find(i => i.id === item.id);
+                                         const splitOf = orderItem && displayQty < requiredQuantity(orderItem) ? requiredQuantity(orderItem) : null;
                                          
                                          return (
                                             <div key={idx} className="bg-white border-b border-slate-50 last:border-0 hover:bg-slate-50 transition-colors">
@@ -720,45 +715,28 @@ export const ClientInterface: React.FC = () => {
                                                             <div className="mt-1 flex items-center gap-2">
                                                                 <span className="text-[10px] font-bold text-slate-500 uppercase bg-slate-100 px-2 py-0.5 rounded">{item.category}</span>
                                                                 <span className="text-[10px] font-black text-slate-700 uppercase bg-slate-100 px-2 py-0.5 rounded">{displayQty} шт</span>
+                                                                {splitOf && <span className="text-[9px] font-bold text-amber-600 uppercase">часть поставки из {splitOf} шт</span>}
                                                             </div>
                                                         </div>
                                                     </div>
                                                     <div className="flex flex-col items-end gap-2">
-                                                        {item.photoUrl && (
-                                                            <a href={item.photoUrl} target="_blank" rel="noreferrer" className="px-3 py-1.5 bg-blue-50 text-blue-600 rounded-lg text-[9px] font-black uppercase hover:bg-blue-100 transition-colors flex items-center gap-1">
-                                                                <FileText size={10}/> Фото
-                                                            </a>
-                                                        )}
                                                         <div className="text-right">
                                                             <div className="text-sm font-black text-slate-900">{(finalPrice * displayQty).toLocaleString()} {curSymbol}</div>
                                                             <div className="text-[9px] text-slate-400 font-bold">{finalPrice} {curSymbol}/шт</div>
+                                                            {toRub(finalPrice * displayQty, item.adminCurrency) !== null && (
+                                                                <div className="text-[9px] text-slate-400 font-bold">≈ {toRub(finalPrice * displayQty, item.adminCurrency)!.toLocaleString()} ₽</div>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 </div>
 
-                                                {/* BOTTOM ROW: Delivery & Terms */}
-                                                <div className="px-4 pb-4 pt-2 grid grid-cols-2 gap-4">
-                                                    <div className="bg-slate-50 rounded-lg p-2 border border-slate-100">
-                                                        <span className="text-[8px] font-bold text-slate-400 uppercase block mb-0.5">Доставка (Тариф)</span>
-                                                        <div className="flex justify-between items-baseline">
-                                                            <span className="text-[10px] font-black text-slate-700 uppercase">
-                                                                {item.deliveryRate === 10 ? 'Стандарт' : item.deliveryRate === 100 ? 'Экспресс' : item.deliveryRate === 1000 ? 'VIP' : 'Базовый'}
-                                                            </span>
-                                                            <span className="text-[10px] font-black text-slate-900">{deliveryCost} ₽</span>
-                                                        </div>
-                                                    </div>
+                                                {/* BOTTOM ROW: Terms — доставка уже в цене администратора */}
+                                                <div className="px-4 pb-4 pt-2">
                                                     <div className="bg-slate-50 rounded-lg p-2 border border-slate-100">
                                                         <span className="text-[8px] font-bold text-slate-400 uppercase block mb-0.5">Срок поставки</span>
                                                         <span className="text-[10px] font-black text-slate-900 uppercase">{item.deliveryWeeks || '-'} недель</span>
                                                     </div>
                                                 </div>
-
-                                                {item.adminComment && (
-                                                    <div className="mx-4 mb-4 p-3 bg-amber-50 border border-amber-100 rounded-xl text-[10px] text-amber-800 flex items-start gap-2 italic">
-                                                        <AlertCircle size={14} className="mt-0.5 shrink-0" />
-                                                        <span><span className="font-black not-italic block mb-0.5">Комментарий менеджера:</span>{item.adminComment}</span>
-                                                    </div>
-                                                )}
                                             </div>
                                          );
                                     })}
@@ -772,8 +750,8 @@ export const ClientInterface: React.FC = () => {
                                               <div className="flex items-center gap-2"><Calculator size={14} className="text-emerald-400"/><span className="font-black text-[10px] uppercase tracking-widest">Итого к оплате:</span></div>
                                               <div className="flex items-baseline gap-2">
                                                   <span className="text-lg font-black tracking-tight">{totalSum.toLocaleString()} {symbol}</span>
-                                                  {totalDelivery > 0 && (
-                                                      <span className="text-xs font-bold text-slate-400 uppercase">+ {totalDelivery.toLocaleString()} ₽ (Доставка)</span>
+                                                  {symbol !== '₽' && totalRub !== null && (
+                                                      <span className="text-xs font-bold text-slate-400" title={`Курс на ${order.rateSnapshot?.date}`}>≈ {totalRub.toLocaleString()} ₽</span>
                                                   )}
                                               </div>
                                           </div>
@@ -789,7 +767,7 @@ export const ClientInterface: React.FC = () => {
                                       )}
                                   </div>
                                   
-                                  {!order.readyToBuy && !order.isRefused ? (
+                                  {canTransition(order.workflowStatus || 'В обработке', 'Готов купить', 'client') ? (
                                     <div className="flex gap-2 w-full md:w-auto shrink-0">
                                         <button 
                                             type="button" 
@@ -812,6 +790,8 @@ export const ClientInterface: React.FC = () => {
                            </div>
                         </div>
                       )}
+                      {order.cpDocuments && order.cpDocuments.length > 0 && <div className="mt-3"><CpDocuments documents={order.cpDocuments} /></div>}
+                      <div className="mt-3"><OrderTimeline orderId={order.id} role="client" /></div>
                    </div>
                  )}
               </div>
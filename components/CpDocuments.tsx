@@ -0,0 +1,54 @@
+import React from 'react';
+import { CpDocument } from '../types';
+import { renderCpHtml, cpFileName } from '../services/cpDocument';
+import { FileText, Download, Printer } from 'lucide-react';
+
+// Открыть в новой вкладке — оттуда документ печатается или сохраняется в PDF
+const openDocument = (doc: CpDocument) => {
+  const win = window.open('', '_blank');
+  if (!win) return;
+  win.document.write(renderCpHtml(doc));
+  win.document.close();
+};
+
+const downloadDocument = (doc: CpDocument) => {
+  const url = URL.createObjectURL(new Blob([renderCpHtml(doc)], { type: 'text/html;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = cpFileName(doc);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Версии КП по заказу: последняя — действующая, предыдущие остаются для истории.
+ */
+export const CpDocuments: React.FC<{ documents?: CpDocument[] }> = ({ documents }) => {
+  if (!documents || documents.length === 0) return null;
+  const sorted = [...documents].sort((a, b) => b.version - a.version);
+
+  return (
+    <div className="border border-slate-200 rounded-xl overflow-hidden bg-white shadow-sm">
+      <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 text-[10px] font-black uppercase text-slate-600 flex items-center gap-2">
+        <FileText size={12}/> Коммерческое предложение
+      </div>
+      <div className="divide-y divide-slate-50">
+        {sorted.map((doc, idx) => (
+          <div key={doc.number} className={`px-4 py-2 flex flex-wrap items-center gap-3 text-[10px] ${idx > 0 ? 'opacity-60' : ''}`}>
+            <span className="font-mono font-black text-slate-800">№ {doc.number}</span>
+            <span className="font-bold text-slate-500">от {new Date(doc.createdAt).toLocaleDateString('ru-RU')}</span>
+            <span className="font-bold text-slate-400">{idx === 0 ? `действует до ${new Date(doc.validUntil).toLocaleDateString('ru-RU')}` : 'заменено новой версией'}</span>
+            <span className="ml-auto flex gap-1">
+              <button onClick={() => openDocument(doc)} className="px-2 py-1 rounded-lg bg-indigo-50 text-indigo-700 text-[9px] font-black uppercase hover:bg-indigo-100 flex items-center gap-1" title="Открыть для печати / сохранения в PDF">
+                <Printer size={12}/> PDF
+              </button>
+              <button onClick={() => downloadDocument(doc)} className="px-2 py-1 rounded-lg bg-slate-50 text-slate-600 text-[9px] font-black uppercase hover:bg-slate-100 flex items-center gap-1" title="Скачать HTML">
+                <Download size={12}/> HTML
+              </button>
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Order } from '../types';
+import { buildExportTables, ExportViewer } from '../services/dataExport';
+import { buildXlsx } from '../services/xlsx';
+import { toCsv } from '../services/csv';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+
+const download = (fileName: string, data: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const stamp = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Выгрузка того, что сейчас отфильтровано в списке: Excel — все таблицы листами, CSV — одна таблица.
+ */
+export const ExportMenu: React.FC<{ orders: Order[]; viewer: ExportViewer; fileName: string; align?: 'left' | 'right' }> = ({ orders, viewer, fileName, align = 'left' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const exportXlsx = () => {
+    download(`${fileName}-${stamp()}.xlsx`, buildXlsx(buildExportTables(orders, viewer)), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    setIsOpen(false);
+  };
+
+  const exportCsv = (key: string) => {
+    const table = buildExportTables(orders, viewer).find(t => t.key === key);
+    if (table) download(`${fileName}-${table.key}-${stamp()}.csv`, toCsv(table.rows), 'text/csv;charset=utf-8');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} disabled={orders.length === 0} className={`p-2 rounded-lg ${isOpen ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors disabled:opacity-40`} title={`Экспорт списка (${orders.length})`}>
+        <Download size={18} className="text-slate-600"/>
+      </button>
+      {isOpen && (
+        <div className={`absolute ${align === 'left' ? 'left-0' : 'right-0'} top-full mt-1 z-50 w-52 bg-white border border-slate-200 rounded-xl shadow-xl overflow-hidden text-[10px] font-bold`}>
+          <div className="px-3 py-1.5 bg-slate-50 text-[8px] font-black uppercase text-slate-400">Отфильтровано: {orders.length}</div>
+          <button onClick={exportXlsx} className="w-full px-3 py-2 text-left hover:bg-indigo-50 flex items-center gap-2 text-slate-700">
+            <FileSpreadsheet size={14} className="text-emerald-600"/> Excel (все таблицы)
+          </button>
+          {buildExportTables([], viewer).map(t => (
+            <button key={t.key} onClick={() => exportCsv(t.key)} className="w-full px-3 py-2 text-left hover:bg-indigo-50 flex items-center gap-2 text-slate-700">
+              <FileText size={14} className="text-slate-400"/> CSV: {t.name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
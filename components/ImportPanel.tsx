@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Order } from '../types';
+import { SheetService } from '../services/sheetService';
+import { newRequestId } from '../services/contract';
+import { IMPORT_SCHEMAS, ImportKind, ColumnMapping, autoMap, planImport, readTableFile } from '../services/dataImport';
+import { Upload, Loader2, Check, AlertCircle } from 'lucide-react';
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  orders: 'Заказы клиентов',
+  pricelist: 'Прайс-лист поставщика'
+};
+
+/**
+ * Загрузка CSV: выбор типа файла, сопоставление колонок, предпросмотр с ошибками по строкам.
+ * Импортируются только строки без ошибок — одним запросом bulk_create.
+ */
+export const ImportPanel: React.FC<{ orders: Order[]; onImported: (createdIds: string[]) => void }> = ({ orders, onImported }) => {
+  const [kind, setKind] = useState<ImportKind>('pricelist');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  // Ключ идемпотентности импорта: новый на каждый файл, повторная попытка с тем же файлом идёт с тем же ключом
+  const [requestId, setRequestId] = useState(newRequestId);
+
+  const headers = table[0] || [];
+  const plan = table.length > 1 ? planImport(kind, table, mapping, { orders, suppliers: SheetService.getSuppliers() }) : null;
+  const validRows = plan ? plan.rows.filter(r => r.errors.length === 0).length : 0;
+
+  const changeKind = (next: ImportKind) => {
+    setKind(next);
+    setMapping(autoMap(next, headers));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    let rows: string[][];
+    try {
+      rows = await readTableFile(file);
+    } catch (err: any) {
+      setError(err?.message || 'Не удалось прочитать файл');
+      return;
+    }
+    setFileName(file.name);
+    setRequestId(newRequestId());
+    setTable(rows);
+    setMapping(autoMap(kind, rows[0] || []));
+    setError('');
+  };
+
+  const handleImport = async () => {
+    if (!plan || plan.orders.length === 0) return;
+    setIsSaving(true);
+    setError('');
+    try {
+      const createdIds = await SheetService.bulkCreate(plan.orders, requestId);
+      setTable([]);
+      setFileName('');
+      onImported(createdIds);
+    } catch (e: any) {
+      setError(e?.message || 'Ошибка импорта');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold outline-none focus:border-indigo-500 bg-white";
+  const fields = IMPORT_SCHEMAS[kind];
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 text-[10px] font-black uppercase text-slate-600 flex items-center gap-2">
+        <Upload size={12}/> Импорт CSV
+        {fileName && <span className="ml-auto normal-case font-bold text-slate-400">{fileName}: {table.length - 1} строк</span>}
+      </div>
+
+      <div className="p-3 flex flex-wrap items-center gap-3 border-b border-slate-100 text-[9px] font-black uppercase text-slate-400">
+        <label className="flex items-center gap-1">Тип
+          <select value={kind} onChange={e => changeKind(e.target.value as ImportKind)} className={inputClass}>
+            {(Object.keys(KIND_LABELS) as ImportKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+          </select>
+        </label>
+        <label className="px-3 py-1.5 rounded-lg bg-indigo-50 text-indigo-700 hover:bg-indigo-100 cursor-pointer">
+          Выбрать файл
+          <input type="file" accept=".csv,.xlsx,text/csv,text/plain" onChange={handleFile} className="hidden"/>
+        </label>
+        <span className="normal-case font-bold">CSV (разделитель «;», «,» или табуляция) или XLSX; первая строка — заголовки</span>
+      </div>
+
+      {headers.length > 0 && (
+        <div className="p-3 grid grid-cols-2 md:grid-cols-4 gap-2 border-b border-slate-100">
+          {fields.map(field => (
+            <label key={field.key} className="flex flex-col gap-1 text-[9px] font-black uppercase text-slate-400">
+              <span>{field.label}{field.required && <span className="text-red-500"> *</span>}</span>
+              <select value={mapping[field.key] ?? -1} onChange={e => setMapping({ ...mapping, [field.key]: Number(e.target.value) })} className={inputClass}>
+                <option value={-1}>— не импортировать —</option>
+                {headers.map((h, idx) => <option key={idx} value={idx}>{h || `Колонка ${idx + 1}`}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {plan && (
+        <div className="max-h-72 overflow-auto">
+          <table className="w-full text-[10px]">
+            <thead className="sticky top-0 bg-slate-50 text-[8px] font-black uppercase text-slate-400">
+              <tr>
+                <th className="px-2 py-1.5 text-left">Стр.</th>
+                {fields.map(f => <th key={f.key} className="px-2 py-1.5 text-left">{f.label}</th>)}
+                <th className="px-2 py-1.5 text-left">Проверка</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {plan.rows.map(row => (
+                <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50/50' : ''}>
+                  <td className="px-2 py-1 font-mono text-slate-400">{row.line}</td>
+                  {fields.map(f => <td key={f.key} className="px-2 py-1 font-bold text-slate-700">{row.values[f.key]}</td>)}
+                  <td className="px-2 py-1">
+                    {row.errors.length > 0
+                      ? <span className="font-bold text-red-600">{row.errors.join('; ')}</span>
+                      : <Check size={12} className="text-emerald-500"/>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {(plan || error) && (
+        <div className="p-3 flex items-center gap-3 border-t border-slate-100">
+          {error && <span className="text-[10px] font-bold text-red-600 flex items-center gap-1"><AlertCircle size={12}/> {error}</span>}
+          {plan && (
+            <>
+              <span className="text-[10px] font-bold text-slate-500">
+                Без ошибок: {validRows} из {plan.rows.length} → {kind === 'orders' ? 'заказов' : 'офферов'}: {plan.orders.length}
+              </span>
+              <button onClick={handleImport} disabled={isSaving || plan.orders.length === 0} className="ml-auto px-4 py-2 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase hover:bg-indigo-700 disabled:opacity-40 flex items-center gap-2">
+                {isSaving ? <Loader2 size={12} className="animate-spin"/> : <Upload size={12}/>} Импортировать
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { Order, OrderItem, PriceBreakdown } from '../types';
+import { buildOfferMatrix, BestCriterion, ItemOffer } from '../services/offerMatrix';
+import { RevisedBadge, PriceHistory } from './OfferRevisionBadge';
+import { FileText, Loader2, TrendingDown, Zap, Calculator, Wand2 } from 'lucide-react';
+
+const BEST_LABELS: Record<BestCriterion, string> = {
+  price: 'По цене',
+  delivery: 'По сроку',
+  landed: 'По итоговой цене'
+};
+
+const BEST_ICONS: Record<BestCriterion, React.ReactNode> = {
+  price: <TrendingDown size={12}/>,
+  delivery: <Zap size={12}/>,
+  landed: <Calculator size={12}/>
+};
+
+interface OfferMatrixProps {
+  order: Order;
+  readOnly: boolean; // лидеров уже нельзя менять (покупка подтверждена)
+  priceOf: (item: OrderItem) => PriceBreakdown | undefined;
+  onSelect: (itemId: string, offer: ItemOffer) => void;
+  onPickBest: (criterion: BestCriterion) => Promise<void>;
+  onAutoRank?: () => void; // предложение лидеров по правилам автовыбора
+}
+
+/**
+ * Сравнение офферов по заказу: позиции — строки, поставщики — колонки.
+ * Подсвечиваются самое дешёвое, самое быстрое и самое выгодное по итоговой цене предложение; клик по ячейке выбирает лидера,
+ * кнопки сверху выбирают лучших сразу по всем позициям.
+ */
+export const OfferMatrix: React.FC<OfferMatrixProps> = ({ order, readOnly, priceOf, onSelect, onPickBest, onAutoRank }) => {
+  const [pending, setPending] = useState<BestCriterion | null>(null);
+  const matrix = buildOfferMatrix(order, priceOf);
+
+  if (matrix.columns.length === 0) return null;
+
+  const handlePick = async (criterion: BestCriterion) => {
+    setPending(criterion);
+    try {
+      await onPickBest(criterion);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm mb-6">
+      <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-black uppercase text-slate-600">Сравнение предложений</span>
+        <span className="flex items-center gap-2 text-[8px] font-bold uppercase text-slate-400">
+          <span className="px-1.5 py-0.5 rounded bg-emerald-100 text-emerald-700">дешевле</span>
+          <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">быстрее</span>
+          <span className="text-indigo-600">итого ниже</span>
+        </span>
+        {!readOnly && (
+          <span className="ml-auto flex flex-wrap gap-1">
+            {(Object.keys(BEST_LABELS) as BestCriterion[]).map(criterion => (
+              <button
+                key={criterion}
+                onClick={() => handlePick(criterion)}
+                disabled={pending !== null}
+                className="px-2 py-1 rounded-lg border border-slate-200 text-slate-600 text-[9px] font-black uppercase hover:bg-white flex items-center gap-1 disabled:opacity-50"
+                title="Выбрать лидеров по всем позициям"
+              >
+                {pending === criterion ? <Loader2 size={12} className="animate-spin"/> : BEST_ICONS[criterion]} {BEST_LABELS[criterion]}
+              </button>
+            ))}
+            {onAutoRank && (
+              <button onClick={onAutoRank} disabled={pending !== null} className="px-2 py-1 rounded-lg bg-indigo-600 text-white text-[9px] font-black uppercase hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50" title="Предложить лидеров по правилам">
+                <Wand2 size={12}/> Автовыбор
+              </button>
+            )}
+          </span>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-[10px] border-collapse">
+          <thead>
+            <tr className="text-[8px] font-bold text-slate-400 uppercase tracking-wider">
+              <th className="px-3 py-2 text-left border-b border-slate-100 min-w-[160px]">Позиция</th>
+              {matrix.columns.map(col => (
+                <th key={col.offerId} className="px-2 py-2 text-left border-b border-l border-slate-100 min-w-[120px]">
+                  <span className="block font-black text-slate-700 truncate" title={col.clientName}>{col.clientName}</span>
+                  {col.sellerId && <span className="block normal-case text-slate-400">{col.sellerId}</span>}
+                  <RevisedBadge offer={order.offers?.find(o => o.id === col.offerId)}/>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {matrix.rows.map((row, idx) => (
+              <tr key={row.item.id || idx} className="align-top">
+                <td className="px-3 py-2 border-b border-slate-50">
+                  <span className="block font-black uppercase text-slate-800">{row.item.AdminName || row.item.name}</span>
+                  <span className="text-[8px] font-bold text-slate-400">{row.item.AdminQuantity || row.item.quantity} шт{row.item.category ? ` · ${row.item.category}` : ''}</span>
+                </td>
+                {matrix.columns.map(col => {
+                  const cell = row.cells[col.offerId];
+                  if (!cell) return <td key={col.offerId} className="px-2 py-2 border-b border-l border-slate-50 text-slate-200 text-center">—</td>;
+                  const isLeader = row.leaderOfferIds.includes(col.offerId);
+                  const isCheapest = row.best.price === col.offerId;
+                  const isFastest = row.best.delivery === col.offerId;
+                  const breakdown = priceOf(cell.item);
+                  return (
+                    <td
+                      key={col.offerId}
+                      onClick={() => !readOnly && !isLeader && onSelect(row.item.id, cell)}
+                      className={`px-2 py-2 border-b border-l border-slate-50 transition-colors ${isLeader ? 'bg-emerald-50 ring-2 ring-inset ring-emerald-400' : readOnly ? '' : 'cursor-pointer hover:bg-indigo-50'}`}
+                      title={readOnly ? undefined : isLeader ? 'Лидер' : 'Выбрать лидером'}
+                    >
+                      <div className={`font-black inline-block px-1 rounded ${isCheapest ? 'bg-emerald-100 text-emerald-700' : 'text-slate-800'}`}>
+                        {cell.item.sellerPrice} {cell.item.sellerCurrency}
+                      </div>
+                      <PriceHistory offer={order.offers?.find(o => o.id === col.offerId)} itemId={row.item.id}/>
+                      {breakdown && (
+                        <div className="text-[8px] font-bold text-slate-400">
+                          {cell.item.sellerCurrency !== 'RUB' && <>≈ {breakdown.supplierRub.toLocaleString()} ₽ · </>}
+                          <span className={row.best.landed === col.offerId ? 'text-indigo-600' : ''}>итого {breakdown.total.toLocaleString()} ₽</span>
+                        </div>
+                      )}
+                      <div className="mt-1 flex flex-wrap items-center gap-x-2 text-[9px] font-bold text-slate-500">
+                        <span>{cell.item.offeredQuantity} шт</span>
+                        <span className="text-indigo-600">{cell.item.weight ? `${cell.item.weight} кг` : '-'}</span>
+                        <span className={`px-1 rounded ${isFastest ? 'bg-amber-100 text-amber-700' : 'text-amber-600'}`}>{cell.item.deliveryWeeks ? `${cell.item.deliveryWeeks} н.` : '-'}</span>
+                        {cell.item.photoUrl && (
+                          <a href={cell.item.photoUrl} target="_blank" rel="noreferrer" onClick={e => e.stopPropagation()} className="text-blue-600 hover:text-blue-800"><FileText size={12}/></a>
+                        )}
+                      </div>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { Order } from '../types';
+import { isRevised, priceHistory } from '../services/offerRevision';
+
+type RevisedOffer = Pick<Order, 'offerRevision' | 'offerHistory' | 'items'>;
+
+// Отметка «изменено» у оффера, который поставщик правил после первой отправки
+export const RevisedBadge: React.FC<{ offer?: RevisedOffer }> = ({ offer }) => {
+  if (!offer || !isRevised(offer)) return null;
+  return (
+    <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 text-[7px] font-black uppercase normal-case whitespace-nowrap" title={`Редакция ${offer.offerRevision}`}>
+      <History size={9}/> Изменено · ред. {offer.offerRevision}
+    </span>
+  );
+};
+
+// История цены поставщика по позиции: «было 120 → 100 CNY»; без изменений цены не показывается
+export const PriceHistory: React.FC<{ offer?: RevisedOffer; itemId: string }> = ({ offer, itemId }) => {
+  if (!offer || !isRevised(offer)) return null;
+  const points = priceHistory(offer, itemId);
+  if (points.length < 2) return null;
+  const label = (p: typeof points[number]) => p.price === undefined ? '—' : `${p.price}${p.currency && p.currency !== points[points.length - 1].currency ? ` ${p.currency}` : ''}`;
+  return (
+    <span className="block text-[8px] font-bold text-amber-600" title={points.map(p => `ред. ${p.revision}: ${p.price ?? '—'} ${p.currency || ''}`).join('\n')}>
+      было {points.slice(0, -1).map(label).join(' → ')}
+    </span>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { Order, UserRole } from '../types';
+import { SheetService } from '../services/sheetService';
+import { OrderEvent, EventChange, MutationActionName } from '../services/contract';
+import { History, Loader2 } from 'lucide-react';
+
+export const EVENT_LABELS: Record<MutationActionName, string> = {
+  create: 'Создание',
+  bulk_create: 'Импорт CSV',
+  update_rank: 'Выбор лидера',
+  form_cp: 'КП отправлено',
+  confirm_purchase: 'Подтверждение покупки',
+  refuse_order: 'Отказ',
+  withdraw_offer: 'Отзыв предложения',
+  set_bidding_window: 'Приём предложений',
+  set_price_hints: 'Подсказка цены',
+  update_json: 'Редактирование',
+  update_workflow_status: 'Смена статуса',
+  set_rates: 'Курсы валют',
+  set_pricing_rules: 'Правила наценки',
+  set_auto_rank_rules: 'Правила автовыбора',
+  set_price_hint_rules: 'Правила подсказки цены',
+  link_supplier_phone: 'Телефон поставщика',
+  link_client_phone: 'Телефон клиента'
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  created: 'Создано',
+  status: 'Статус',
+  workflowStatus: 'Этап',
+  processed: 'КП',
+  readyToBuy: 'Готов купить',
+  refusal: 'Отказ',
+  rank: 'Ранг',
+  sellerPrice: 'Цена поставщика',
+  adminPrice: 'Цена для клиента',
+  adminCurrency: 'Валюта',
+  deliveryRate: 'Тариф доставки',
+  adminComment: 'Комментарий',
+  AdminName: 'Название',
+  AdminQuantity: 'Кол-во',
+  refusalReason: 'Причина отказа',
+  rateSnapshot: 'Курсы на дату КП',
+  cpDocuments: 'Документ КП',
+  pricing: 'Расчёт цены',
+  priceOverrideReason: 'Причина ручной цены',
+  offerRevision: 'Редакция предложения',
+  offerHistory: 'Прежние редакции',
+  bidding: 'Окно приёма предложений',
+  priceHints: 'Подсказка лучшей цены'
+};
+
+const ROLE_LABELS: Record<UserRole, string> = { admin: 'Админ', client: 'Клиент', supplier: 'Поставщик' };
+
+// Поле позиции: `<ID>.<поле>`; показывается название позиции и её ID (в старых событиях вместо ID — название)
+const fieldLabel = (change: EventChange) => {
+  const dot = change.field.lastIndexOf('.');
+  if (dot === -1) return FIELD_LABELS[change.field] || change.field;
+  const item = change.field.slice(0, dot);
+  const key = change.field.slice(dot + 1);
+  return `${change.itemName ? `${change.itemName} (${item})` : item}: ${FIELD_LABELS[key] || key}`;
+};
+
+export const formatEventTime = (iso: string) => {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? iso : d.toLocaleString('ru-RU', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Хронология заказа из журнала бэкенда. Состав событий уже отфильтрован сервером по роли.
+ * Перечитывается, когда меняется сам заказ или его офферы (push-канал SheetService).
+ */
+export const OrderTimeline: React.FC<{ orderId: string; role: UserRole }> = ({ orderId, role }) => {
+  const [events, setEvents] = useState<OrderEvent[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => SheetService.getOrderEvents(orderId, role)
+      .then(list => { if (!cancelled) setEvents(list); })
+      .catch(e => { console.error(e); if (!cancelled) setEvents(prev => prev || []); });
+    load();
+    // Неизменённый заказ SheetService отдаёт тем же объектом; первая выдача списка — точка отсчёта
+    let last: Order | undefined | null = null;
+    const unsubscribe = SheetService.subscribe(orders => {
+      const order = orders.find(o => o.id === orderId);
+      if (last !== null && order !== last) load();
+      last = order;
+    });
+    return () => { cancelled = true; unsubscribe(); };
+  }, [orderId, role]);
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 p-3 space-y-2">
+      <div className="flex items-center gap-2 text-[9px] font-black uppercase text-slate-400 tracking-wider"><History size={12}/> История заказа</div>
+      {events === null && <div className="flex items-center gap-2 text-[10px] text-slate-400"><Loader2 size={12} className="animate-spin"/> Загрузка...</div>}
+      {events !== null && events.length === 0 && <div className="text-[10px] text-slate-400 italic">Событий пока нет</div>}
+      {events !== null && events.length > 0 && (
+        <ol className="relative border-l border-slate-200 ml-1.5 space-y-3">
+          {events.map(event => (
+            <li key={event.seq} className="relative ml-3">
+              <span className="absolute -left-[16px] top-1 w-2 h-2 rounded-full bg-indigo-500"></span>
+              <div className="flex flex-wrap items-center gap-x-2 text-[10px]">
+                <span className="font-black uppercase text-slate-800">{EVENT_LABELS[event.action] || event.action}</span>
+                <span className="font-bold text-slate-400">{formatEventTime(event.at)}</span>
+                <span className="font-bold text-indigo-600">{ROLE_LABELS[event.actor.role]}: {event.actor.name}</span>
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {event.changes.map((c, idx) => (
+                  <li key={idx} className="text-[9px] text-slate-500">
+                    {c.rowId !== event.orderId && <span className="font-mono text-slate-400 mr-1">[{c.rowId}]</span>}
+                    <span className="font-bold">{fieldLabel(c)}:</span>{' '}
+                    {c.before && <span className="line-through text-slate-400">{c.before}</span>}
+                    {c.before && ' → '}
+                    <span className="font-bold text-slate-700">{c.after || '—'}</span>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
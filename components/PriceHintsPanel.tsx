@@ -0,0 +1,126 @@
+import React, { useState, useEffect } from 'react';
+import { Order, PriceHintMode } from '../types';
+import { SheetService } from '../services/sheetService';
+import { PriceHintRules, priceHintRulesErrors } from '../services/contract';
+import { hintsAllowed } from '../services/priceHints';
+import { isBiddingOpen } from '../services/bidding';
+import { Lightbulb, Loader2, Check, AlertCircle } from 'lucide-react';
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+/**
+ * Правила подсказки лучшей цены: включены ли подсказки на заказах без своей настройки и каким поставщикам —
+ * по оценке из правил автовыбора. Ниже — кто из поставщиков сейчас их получит.
+ */
+export const PriceHintRulesPanel: React.FC<{ rules: PriceHintRules; ratings: Record<string, number>; onChanged: () => void }> = ({ rules, ratings, onChanged }) => {
+  const [draft, setDraft] = useState<PriceHintRules>(rules);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const suppliers = SheetService.getSuppliers();
+
+  useEffect(() => setDraft(rules), [rules]);
+
+  const handleSave = async () => {
+    const validation = priceHintRulesErrors(draft);
+    setErrors(validation);
+    if (validation.length > 0) return;
+    setIsSaving(true);
+    try {
+      await SheetService.setPriceHintRules(draft);
+      onChanged();
+    } catch (e: any) {
+      setErrors([e?.message || 'Ошибка сохранения правил']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold outline-none focus:border-indigo-500 bg-white";
+  const hinted = suppliers.filter(s => hintsAllowed({}, ratings[s.id], draft));
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 text-[10px] font-black uppercase text-slate-600 flex items-center gap-2">
+        <Lightbulb size={12}/> Подсказка лучшей цены поставщикам
+        {rules.updatedAt && <span className="ml-auto normal-case font-bold text-slate-400">изменено {new Date(rules.updatedAt).toLocaleString('ru-RU')}</span>}
+      </div>
+
+      <div className="p-3 flex flex-wrap items-center gap-3 border-b border-slate-100 text-[9px] font-black uppercase text-slate-400">
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={draft.enabled} onChange={e => setDraft({ ...draft, enabled: e.target.checked })}/> Показывать на всех заказах
+        </label>
+        <label className="flex items-center gap-1">Поставщикам с оценкой от
+          <select value={draft.minRating ?? ''} disabled={!draft.enabled} onChange={e => setDraft({ ...draft, minRating: e.target.value ? Number(e.target.value) : undefined })} className={inputClass}>
+            <option value="">Любой</option>
+            {RATINGS.map(r => <option key={r} value={r}>{'★'.repeat(r)}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          <input type="checkbox" checked={draft.unrated} disabled={!draft.enabled} onChange={e => setDraft({ ...draft, unrated: e.target.checked })}/> и без оценки
+        </label>
+      </div>
+
+      <div className="px-4 py-2 text-[10px] text-slate-500 border-b border-slate-100">
+        {draft.enabled
+          ? <>Получат подсказку: <span className="font-black text-slate-700">{hinted.length} из {suppliers.length}</span>{hinted.length > 0 && ` — ${hinted.map(s => s.name).join(', ')}`}</>
+          : 'Подсказка только на заказах, где она включена вручную, и во втором раунде.'}
+        <div className="text-slate-400 mt-0.5">Поставщик видит лишь цену и число предложений — без названий конкурентов. Оценки задаются в правилах автовыбора.</div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="px-4 py-2 bg-red-50 border-t border-red-100 space-y-0.5">
+          {errors.map((err, idx) => <div key={idx} className="text-[10px] font-bold text-red-600 flex items-center gap-1"><AlertCircle size={10}/> {err}</div>)}
+        </div>
+      )}
+
+      <div className="p-3 flex justify-end">
+        <button onClick={handleSave} disabled={isSaving} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50">
+          {isSaving ? <Loader2 size={12} className="animate-spin"/> : <Check size={12}/>} Сохранить
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const MODES: { value: PriceHintMode | 'default'; label: string }[] = [
+  { value: 'default', label: 'По правилам' },
+  { value: 'on', label: 'Всем' },
+  { value: 'off', label: 'Никому' }
+];
+
+// Настройка подсказки на заказе: своя для всех его поставщиков или по общим правилам
+export const PriceHintToggle: React.FC<{ order: Order; onChanged: () => void }> = ({ order, onChanged }) => {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const current = order.priceHints || 'default';
+  const isSecondRound = order.bidding?.round === 2 && isBiddingOpen(order.bidding);
+
+  const change = async (mode: PriceHintMode | 'default') => {
+    if (mode === current) return;
+    setBusy(mode);
+    setError(null);
+    try {
+      await SheetService.setPriceHints(order.id, mode);
+      onChanged();
+    } catch (e: any) {
+      setError(e?.message || 'Не удалось изменить подсказку');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-3 rounded-xl border border-slate-200 mb-6 shadow-sm flex flex-wrap items-center gap-3 text-[10px]">
+      <span className="font-black uppercase text-slate-500 flex items-center gap-1.5"><Lightbulb size={12}/> Подсказка лучшей цены</span>
+      {isSecondRound && <span className="font-bold text-violet-600">во втором раунде видна всем приславшим оффер</span>}
+      <div className="ml-auto flex items-center gap-1">
+        {MODES.map(m => (
+          <button key={m.value} onClick={() => change(m.value)} disabled={!!busy} className={`px-3 py-1.5 rounded-lg font-black uppercase flex items-center gap-1 disabled:opacity-50 ${current === m.value ? 'bg-indigo-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}>
+            {busy === m.value && <Loader2 size={12} className="animate-spin"/>} {m.label}
+          </button>
+        ))}
+      </div>
+      {error && <div className="w-full text-red-600 font-bold">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Order } from '../types';
+import { ColumnMapping, mapColumns, readTableFile } from '../services/dataImport';
+import { PRICE_LIST_FIELDS, PriceListMatch, matchPriceList } from '../services/priceList';
+import { carTitle } from '../services/carCatalogue';
+import { Upload, Loader2, Send, AlertCircle, ClipboardCheck } from 'lucide-react';
+
+/**
+ * Загрузка прайс-листа поставщиком: сопоставление колонок, предпросмотр совпадений по открытым заказам,
+ * заполнение форм офферов и отправка всех заполненных заказов разом.
+ */
+export const PriceListUpload: React.FC<{
+  orders: Order[];                                   // открытые заказы без оффера поставщика
+  onApply: (matches: PriceListMatch[]) => void;
+  onSubmitAll: (orderIds: string[]) => Promise<void>;
+}> = ({ orders, onApply, onSubmitAll }) => {
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [appliedIds, setAppliedIds] = useState<string[]>([]);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const headers = table[0] || [];
+  const plan = table.length > 1 ? matchPriceList(table, mapping, orders) : null;
+  const byOrder = plan ? Array.from(new Set(plan.matches.map(m => m.order))).map(order => ({ order, matches: plan.matches.filter(m => m.order === order) })) : [];
+  const rowErrors = plan ? plan.rows.filter(r => r.errors.length > 0) : [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const rows = await readTableFile(file);
+      setFileName(file.name);
+      setTable(rows);
+      setMapping(mapColumns(PRICE_LIST_FIELDS, rows[0] || []));
+      setAppliedIds([]);
+      setError('');
+    } catch (err: any) {
+      setError(err?.message || 'Не удалось прочитать файл');
+    }
+  };
+
+  const handleApply = () => {
+    if (!plan) return;
+    onApply(plan.matches);
+    setAppliedIds(byOrder.map(g => g.order.id));
+  };
+
+  const handleSubmitAll = async () => {
+    setIsSending(true);
+    try {
+      await onSubmitAll(appliedIds);
+      setTable([]);
+      setFileName('');
+      setAppliedIds([]);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const inputClass = "px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold outline-none focus:border-indigo-500 bg-white";
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-2xl overflow-hidden shadow-sm">
+      <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 text-[10px] font-black uppercase text-slate-600 flex items-center gap-2">
+        <Upload size={12}/> Прайс-лист
+        {fileName && <span className="ml-auto normal-case font-bold text-slate-400">{fileName}: {table.length - 1} строк</span>}
+      </div>
+
+      <div className="p-3 flex flex-wrap items-center gap-3 border-b border-slate-100 text-[9px] font-black uppercase text-slate-400">
+        <label className="px-3 py-1.5 rounded-lg bg-indigo-50 text-indigo-700 hover:bg-indigo-100 cursor-pointer">
+          Выбрать файл
+          <input type="file" accept=".csv,.xlsx,text/csv,text/plain" onChange={handleFile} className="hidden"/>
+        </label>
+        <span className="normal-case font-bold">CSV или XLSX: название или OEM, цена в ¥, вес, срок, остаток. Совпадения ищутся в {orders.length} открытых заказах</span>
+      </div>
+
+      {headers.length > 0 && (
+        <div className="p-3 grid grid-cols-2 md:grid-cols-6 gap-2 border-b border-slate-100">
+          {PRICE_LIST_FIELDS.map(field => (
+            <label key={field.key} className="flex flex-col gap-1 text-[9px] font-black uppercase text-slate-400">
+              <span>{field.label}{field.required && <span className="text-red-500"> *</span>}</span>
+              <select value={mapping[field.key] ?? -1} onChange={e => { setMapping({ ...mapping, [field.key]: Number(e.target.value) }); setAppliedIds([]); }} className={inputClass}>
+                <option value={-1}>—</option>
+                {headers.map((h, idx) => <option key={idx} value={idx}>{h || `Колонка ${idx + 1}`}</option>)}
+              </select>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {plan && (
+        <div className="max-h-80 overflow-auto divide-y divide-slate-100">
+          {byOrder.length === 0 && <div className="p-4 text-center text-[10px] font-bold text-slate-400 uppercase">Совпадений с открытыми заказами нет</div>}
+          {byOrder.map(({ order, matches }) => (
+            <div key={order.id} className="p-3">
+              <div className="flex items-center gap-2 mb-1 text-[10px] font-black uppercase text-slate-700">
+                Заказ {order.id}
+                <span className="font-bold normal-case text-slate-400">{carTitle(order.car)} · {order.vin}</span>
+                {appliedIds.includes(order.id) && <ClipboardCheck size={12} className="text-emerald-500"/>}
+              </div>
+              {matches.map(m => (
+                <div key={m.item.id} className="grid grid-cols-[1fr_80px_70px_60px_60px_1fr] gap-2 text-[10px] py-0.5">
+                  <span className="font-bold text-slate-700 truncate">{m.item.AdminName || m.item.name}</span>
+                  {m.row ? (
+                    <>
+                      <span className="font-mono">{m.values.price} ¥</span>
+                      <span className={m.values.offeredQty === 0 ? 'text-red-500 font-bold' : ''}>{m.values.offeredQty} шт</span>
+                      <span className={m.values.weight === 0 ? 'text-red-500 font-bold' : ''}>{m.values.weight} кг</span>
+                      <span className={m.values.deliveryWeeks === 0 ? 'text-red-500 font-bold' : ''}>{m.values.deliveryWeeks} нед.</span>
+                      <span className="text-slate-400">стр. {m.row.line}, {m.matchedBy === 'oem' ? `OEM ${m.row.values.oem}` : 'по названию'}</span>
+                    </>
+                  ) : (
+                    <span className="col-span-5 text-slate-400 italic">нет в прайсе — уйдёт отказ по позиции</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+          {rowErrors.length > 0 && (
+            <div className="p-3 bg-red-50/50 text-[10px]">
+              {rowErrors.map(r => <div key={r.line} className="font-bold text-red-600">Стр. {r.line}: {r.errors.join('; ')}</div>)}
+            </div>
+          )}
+          {plan.unusedRows.length > 0 && (
+            <div className="p-3 text-[10px] text-slate-400 font-bold">Не подошли ни к одному заказу: {plan.unusedRows.length} строк</div>
+          )}
+        </div>
+      )}
+
+      {(plan || error) && (
+        <div className="p-3 flex items-center gap-3 border-t border-slate-100">
+          {error && <span className="text-[10px] font-bold text-red-600 flex items-center gap-1"><AlertCircle size={12}/> {error}</span>}
+          {plan && (
+            <>
+              <span className="text-[10px] font-bold text-slate-500">Заказов с совпадениями: {byOrder.length}</span>
+              <button onClick={handleApply} disabled={byOrder.length === 0} className="ml-auto px-4 py-2 rounded-lg bg-slate-100 text-slate-700 text-[10px] font-black uppercase hover:bg-slate-200 disabled:opacity-40 flex items-center gap-2">
+                <ClipboardCheck size={12}/> Заполнить формы
+              </button>
+              <button onClick={handleSubmitAll} disabled={isSending || appliedIds.length === 0} className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase hover:bg-indigo-700 disabled:opacity-40 flex items-center gap-2">
+                {isSending ? <Loader2 size={12} className="animate-spin"/> : <Send size={12}/>} Отправить все ({appliedIds.length})
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState, useEffect } from 'react';
+import { PartCategory } from '../types';
+import { SheetService } from '../services/sheetService';
+import { PricingRules, MarkupRule, pricingRulesErrors } from '../services/contract';
+import { describeRule } from '../services/pricing';
+import { Percent, Plus, Trash2, Loader2, Check, AlertCircle } from 'lucide-react';
+
+const CATEGORIES: PartCategory[] = ['Оригинал', 'Б/У', 'Аналог'];
+
+const toOptionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value.replace(',', '.'));
+
+/**
+ * Настройки расчёта цены для клиента: пошлина, сбор за штуку, наценка по умолчанию
+ * и правила наценки по категории / марке / ценовому диапазону закупки.
+ */
+export const PricingRulesPanel: React.FC<{ rules: PricingRules; onChanged: () => void }> = ({ rules, onChanged }) => {
+  const [draft, setDraft] = useState<PricingRules>(rules);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useEffect(() => setDraft(rules), [rules]);
+
+  const updateRule = (id: string, patch: Partial<MarkupRule>) =>
+    setDraft(prev => ({ ...prev, markups: prev.markups.map(m => m.id === id ? { ...m, ...patch } : m) }));
+
+  const addRule = () =>
+    setDraft(prev => ({ ...prev, markups: [...prev.markups, { id: `R${Date.now()}`, percent: prev.defaultMarkup }] }));
+
+  const removeRule = (id: string) =>
+    setDraft(prev => ({ ...prev, markups: prev.markups.filter(m => m.id !== id) }));
+
+  const handleSave = async () => {
+    const validation = pricingRulesErrors(draft);
+    setErrors(validation);
+    if (validation.length > 0) return;
+    setIsSaving(true);
+    try {
+      await SheetService.setPricingRules(draft);
+      onChanged();
+    } catch (e: any) {
+      setErrors([e?.message || 'Ошибка сохранения правил']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold outline-none focus:border-indigo-500 bg-white";
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 text-[10px] font-black uppercase text-slate-600 flex items-center gap-2">
+        <Percent size={12}/> Расчёт цены для клиента
+        {rules.updatedAt && <span className="ml-auto normal-case font-bold text-slate-400">изменено {new Date(rules.updatedAt).toLocaleString('ru-RU')}</span>}
+      </div>
+
+      <div className="p-3 flex flex-wrap items-center gap-3 border-b border-slate-100 text-[9px] font-black uppercase text-slate-400">
+        <label className="flex items-center gap-1">Пошлина, %
+          <input type="number" value={draft.customsPercent} onChange={e => setDraft({ ...draft, customsPercent: Number(e.target.value) })} className={`${inputClass} w-16`}/>
+        </label>
+        <label className="flex items-center gap-1">Сбор, ₽/шт
+          <input type="number" value={draft.feePerItem} onChange={e => setDraft({ ...draft, feePerItem: Number(e.target.value) })} className={`${inputClass} w-20`}/>
+        </label>
+        <label className="flex items-center gap-1">Наценка по умолчанию, %
+          <input type="number" value={draft.defaultMarkup} onChange={e => setDraft({ ...draft, defaultMarkup: Number(e.target.value) })} className={`${inputClass} w-16`}/>
+        </label>
+      </div>
+
+      <div className="divide-y divide-slate-50">
+        {draft.markups.map(rule => (
+          <div key={rule.id} className="px-3 py-1.5 flex flex-wrap items-center gap-2">
+            <select value={rule.category || ''} onChange={e => updateRule(rule.id, { category: (e.target.value || undefined) as PartCategory | undefined })} className={inputClass}>
+              <option value="">Любая категория</option>
+              {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <input value={rule.brand || ''} onChange={e => updateRule(rule.id, { brand: e.target.value || undefined })} placeholder="Марка (любая)" className={`${inputClass} w-28 uppercase`}/>
+            <input type="number" value={rule.minPrice ?? ''} onChange={e => updateRule(rule.id, { minPrice: toOptionalNumber(e.target.value) })} placeholder="от ₽" className={`${inputClass} w-20`}/>
+            <input type="number" value={rule.maxPrice ?? ''} onChange={e => updateRule(rule.id, { maxPrice: toOptionalNumber(e.target.value) })} placeholder="до ₽" className={`${inputClass} w-20`}/>
+            <input type="number" value={rule.percent} onChange={e => updateRule(rule.id, { percent: Number(e.target.value) })} className={`${inputClass} w-16`}/>
+            <span className="text-[10px] font-bold text-slate-400">%</span>
+            <span className="text-[9px] text-slate-400 italic truncate">{describeRule(rule)}</span>
+            <button onClick={() => removeRule(rule.id)} className="ml-auto p-1.5 text-slate-300 hover:text-red-500 rounded-lg hover:bg-red-50" title="Удалить правило"><Trash2 size={12}/></button>
+          </div>
+        ))}
+        {draft.markups.length === 0 && <div className="px-4 py-3 text-[10px] text-slate-400 italic">Правил нет — ко всем позициям применяется наценка по умолчанию</div>}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="px-4 py-2 bg-red-50 border-t border-red-100 space-y-0.5">
+          {errors.map((err, idx) => <div key={idx} className="text-[10px] font-bold text-red-600 flex items-center gap-1"><AlertCircle size={10}/> {err}</div>)}
+        </div>
+      )}
+
+      <div className="p-3 flex justify-between border-t border-slate-100">
+        <button onClick={addRule} className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 text-[10px] font-black uppercase hover:bg-slate-50 flex items-center gap-1"><Plus size={12}/> Правило</button>
+        <button onClick={handleSave} disabled={isSaving} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50">
+          {isSaving ? <Loader2 size={12} className="animate-spin"/> : <Check size={12}/>} Сохранить
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Currency } from '../types';
+import { SheetService } from '../services/sheetService';
+import { ExchangeRate, RateEntry, rateEntryError } from '../services/contract';
+import { ratesOn, parseRatesFile, todayIso } from '../services/exchangeRates';
+import { Coins, Upload, Plus, Loader2, AlertCircle } from 'lucide-react';
+
+const RATE_CURRENCIES: Currency[] = ['CNY', 'USD'];
+
+/**
+ * Таблица курсов для администратора: действующие курсы, ручной ввод и импорт из локального файла (CSV / JSON).
+ * Записи только добавляются — новый курс действует с указанной даты.
+ */
+export const RatesPanel: React.FC<{ rates: ExchangeRate[]; onChanged: () => void }> = ({ rates, onChanged }) => {
+  const [currency, setCurrency] = useState<Currency>('CNY');
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(todayIso());
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const current = useMemo(() => ratesOn(rates), [rates]);
+  const history = useMemo(() => [...rates].sort((a, b) => b.effectiveDate.localeCompare(a.effectiveDate) || b.createdAt.localeCompare(a.createdAt)), [rates]);
+
+  const save = async (entries: RateEntry[], source: ExchangeRate['source']) => {
+    setIsSaving(true);
+    try {
+      await SheetService.setRates(entries, source);
+      onChanged();
+      return true;
+    } catch (e: any) {
+      setErrors([e?.message || 'Ошибка сохранения курсов']);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const entry = { currency, rate: Number(rate.replace(',', '.')), effectiveDate };
+    const error = rateEntryError(entry);
+    if (error) { setErrors([error]); return; }
+    setErrors([]);
+    if (await save([entry], 'manual')) setRate('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const { entries, errors: parseErrors } = parseRatesFile(await file.text());
+    setErrors(parseErrors);
+    if (entries.length > 0) await save(entries, 'import');
+    else if (parseErrors.length === 0) setErrors(['В файле нет записей']);
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl overflow-hidden shadow-sm">
+      <div className="px-4 py-2 bg-slate-50 border-b border-slate-100 text-[10px] font-black uppercase text-slate-600 flex items-center gap-2">
+        <Coins size={12}/> Курсы валют
+        <span className="ml-auto flex gap-3 normal-case">
+          {RATE_CURRENCIES.map(c => (
+            <span key={c} className="font-bold text-slate-500">1 {c} = <span className="font-black text-slate-900">{current[c] ?? '—'}</span> ₽</span>
+          ))}
+        </span>
+      </div>
+
+      <div className="p-3 flex flex-wrap items-center gap-2 border-b border-slate-100">
+        <select value={currency} onChange={e => setCurrency(e.target.value as Currency)} className="px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold outline-none bg-white">
+          {RATE_CURRENCIES.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <input value={rate} onChange={e => setRate(e.target.value)} placeholder="₽ за 1 ед." className="w-24 px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold outline-none focus:border-indigo-500"/>
+        <input type="date" value={effectiveDate} onChange={e => setEffectiveDate(e.target.value)} className="px-2 py-1.5 border border-slate-200 rounded-lg text-[10px] font-bold outline-none focus:border-indigo-500"/>
+        <button onClick={handleAdd} disabled={isSaving} className="px-3 py-1.5 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase hover:bg-indigo-700 flex items-center gap-1 disabled:opacity-50">
+          {isSaving ? <Loader2 size={12} className="animate-spin"/> : <Plus size={12}/>} Добавить
+        </button>
+        <button onClick={() => fileInput.current?.click()} disabled={isSaving} className="px-3 py-1.5 rounded-lg border border-slate-200 text-slate-600 text-[10px] font-black uppercase hover:bg-slate-50 flex items-center gap-1 disabled:opacity-50" title="CSV: дата;валюта;курс или JSON-массив">
+          <Upload size={12}/> Импорт из файла
+        </button>
+        <input ref={fileInput} type="file" accept=".csv,.txt,.json" className="hidden" onChange={handleFile}/>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="px-4 py-2 bg-red-50 border-b border-red-100 space-y-0.5">
+          {errors.map((err, idx) => <div key={idx} className="text-[10px] font-bold text-red-600 flex items-center gap-1"><AlertCircle size={10}/> {err}</div>)}
+        </div>
+      )}
+
+      <div className="max-h-40 overflow-y-auto divide-y divide-slate-50">
+        {history.map((r, idx) => (
+          <div key={idx} className="px-4 py-1.5 grid grid-cols-[90px_50px_1fr_70px] gap-3 text-[10px] items-center">
+            <span className="font-mono font-bold text-slate-700">{r.effectiveDate}</span>
+            <span className="font-black text-slate-500">{r.currency}</span>
+            <span className="font-bold text-slate-900">{r.rate} ₽</span>
+            <span className="text-slate-400 uppercase text-[8px] font-bold">{r.source === 'import' ? 'Импорт' : 'Вручную'}</span>
+          </div>
+        ))}
+        {history.length === 0 && <div className="px-4 py-3 text-[10px] text-slate-400 italic">Курсы ещё не заданы — цены поставщиков не пересчитываются</div>}
+      </div>
+    </div>
+  );
+};
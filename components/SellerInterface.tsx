@@ -1,11 +1,26 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { SheetService } from '../services/sheetService';
+import { AuthService } from '../services/authService';
+import { useAuthSession } from './AuthGate';
+import { OrderTimeline } from './OrderTimeline';
+import { ExportMenu } from './ExportMenu';
+import { PriceListUpload } from './PriceListUpload';
+import { PriceListMatch } from '../services/priceList';
+import { carBrand, carModelLabel, carTitle } from '../services/carCatalogue';
+import { articleOptions, describeArticle, findArticle, isSameArticle } from '../services/partsCatalogue';
+import { Autocomplete } from './Autocomplete';
+import { isSameItem } from '../services/itemIdentity';
+import { leaderQuantity, requiredQuantity } from '../services/fulfilment';
+import { isRevised } from '../services/offerRevision';
+import { isBiddingOpen, formatTimeLeft } from '../services/bidding';
+import { withoutHint } from '../services/priceHints';
 import { Order, OrderStatus, Currency, RowType } from '../types';
 import { Pagination } from './Pagination';
+import { SyncStatus, useOutbox } from './SyncStatus';
 import { 
   User, CheckCircle, Search, RefreshCw, Edit2, LogOut, ShieldCheck, AlertCircle,
-  BarChart3, Calendar, TrendingUp, Clock, Car, ChevronDown, ChevronRight, Loader2, CheckCircle2, UserCircle2, AlertTriangle, XCircle, FileText, Ban, Copy, ArrowUp, ArrowDown, ArrowUpDown
+  BarChart3, Calendar, TrendingUp, Clock, Car, ChevronDown, ChevronRight, Loader2, CheckCircle2, UserCircle2, AlertTriangle, XCircle, FileText, Ban, Copy, ArrowUp, ArrowDown, ArrowUpDown, Upload, CloudUpload, Undo2, Timer, Lock, TrendingDown
 } from 'lucide-react';
 
 export const SellerInterface: React.FC = () => {
@@ -14,14 +29,7 @@ export const SellerInterface: React.FC = () => {
   const [activeBrandFilter, setActiveBrandFilter] = useState<string | null>(null);
   const [expandedId, setExpandedId] = useState<string | null>(null);
   
-  // New Auth State
-  const [sellerAuth, setSellerAuth] = useState(() => {
-    const saved = localStorage.getItem('seller_auth_data');
-    return saved ? JSON.parse(saved) : null;
-  });
-  const [showAuthModal, setShowAuthModal] = useState(!localStorage.getItem('seller_auth_data'));
-  const [tempAuth, setTempAuth] = useState({ name: '', phone: '' });
-  const [phoneFlash, setPhoneFlash] = useState(false);
+  const sellerAuth = useAuthSession('supplier');
 
   const [editingItems, setEditingItems] = useState<Record<string, { 
     price: number; 
@@ -31,14 +39,26 @@ export const SellerInterface: React.FC = () => {
     weight: number;
     deliveryWeeks: number;
     photoUrl: string;
+    article: string;
   }>>({});
   const [loading, setLoading] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
   const [activeTab, setActiveTab] = useState<'new' | 'processed'>('new');
   
   const [optimisticSentIds, setOptimisticSentIds] = useState<Set<string>>(new Set());
+  const [isStale, setIsStale] = useState(false);
+  // Отправленные офферы, которые поставщик сейчас правит; withdrawingId — ждёт подтверждения отзыва
+  const [revisingIds, setRevisingIds] = useState<Set<string>>(new Set());
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  // Офферы из офлайн-очереди: заказ уже считается отправленным, отметка — «Ожидает отправки»
+  const outbox = useOutbox('supplier');
+  const queuedOfferIds = useMemo(() => new Map(outbox.filter(e => e.payload.action === 'create').map(e => [e.orderId, e])), [outbox]);
   const [vanishingIds, setVanishingIds] = useState<Set<string>>(new Set());
   const [successToast, setSuccessToast] = useState<{message: string, id: string} | null>(null);
+  const [showPriceList, setShowPriceList] = useState(false);
+  // Текущее время для обратного отсчёта окон приёма; окно закрывается в интерфейсе без перезагрузки
+  const [now, setNow] = useState(Date.now());
 
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(10);
@@ -54,6 +74,7 @@ export const SellerInterface: React.FC = () => {
     try {
       const data = await SheetService.getOrders(true);
       setRawOrders(data);
+      setIsStale(SheetService.isFromSnapshot());
     } catch (e) { console.error(e); }
     finally {
       if (!silent) setLoading(false);
@@ -61,108 +82,56 @@ export const SellerInterface: React.FC = () => {
     }
   };
 
+  // Новые заказы и выбор лидеров приходят по push-каналу (или опросом, если бэкенд его не поддерживает)
   useEffect(() => {
-    if (sellerAuth) fetchData();
-    const interval = setInterval(() => sellerAuth && fetchData(true), 20000);
-    return () => clearInterval(interval);
+    if (!sellerAuth) return;
+    fetchData();
+    return SheetService.subscribe(data => {
+      setRawOrders(data);
+      setIsStale(SheetService.isFromSnapshot());
+    });
   }, [sellerAuth]);
 
-  // Auth Handlers for Seller (Chinese +86 format)
-  const formatChinesePhoneNumber = (value: string) => {
-    // Remove all non-digit chars
-    let digits = value.replace(/\D/g, '');
-    
-    // Auto-add 86 prefix if not present or just starting
-    if (!digits.startsWith('86')) {
-        // If user typed '1', assume they mean +86 1...
-        // But to be safe, if we force Chinese, we just prepend 86 if missing
-        // However, standard logic:
-        if (digits.length > 0) digits = '86' + digits;
-    }
-    
-    // Limit to 86 + 11 digits = 13 digits total
-    digits = digits.slice(0, 13);
-    
-    // Format: +86 1XX XXXX XXXX
-    // Regex groups: (86) (3) (4) (4)
-    const match = digits.match(/^(\d{2})(\d{0,3})(\d{0,4})(\d{0,4})$/);
-    if (!match) return '+86';
-    
-    let formatted = `+${match[1]}`;
-    if (match[2]) formatted += ` ${match[2]}`;
-    if (match[3]) formatted += ` ${match[3]}`;
-    if (match[4]) formatted += ` ${match[4]}`;
-    
-    return formatted;
-  };
-
-  const handlePhoneChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = e.target.value;
-    const digitsOnly = val.replace(/\D/g, '');
-    // 86 + 11 digits = 13 max digits
-    if (digitsOnly.length > 13) {
-        setPhoneFlash(true);
-        setTimeout(() => setPhoneFlash(false), 300); 
-        return; 
-    }
-    setTempAuth({...tempAuth, phone: formatChinesePhoneNumber(val)});
-  };
-
-  const isPhoneValid = (phone: string) => {
-      // "+86 1XX XXXX XXXX" is 15 chars length including spaces
-      return phone.length >= 15; 
-  };
-
-  const handleLogin = (e?: React.FormEvent) => {
-    if (e) e.preventDefault();
-    if (!tempAuth.name.trim()) return;
-    if (!isPhoneValid(tempAuth.phone)) return;
-    const authData = { name: tempAuth.name.trim().toUpperCase(), phone: tempAuth.phone.trim() };
-    setSellerAuth(authData);
-    localStorage.setItem('seller_auth_data', JSON.stringify(authData));
-    setShowAuthModal(false);
-    fetchData(false);
-  };
-
-  const handleDemoLogin = (num: 1 | 2) => {
-    const demo = num === 1 
-      ? { name: 'ПОСТАВЩИК 1', phone: '+86 138 0013 8000' }
-      : { name: 'ПОСТАВЩИК 2', phone: '+86 139 8888 2222' };
-    setSellerAuth(demo);
-    localStorage.setItem('seller_auth_data', JSON.stringify(demo));
-    setShowAuthModal(false);
-    fetchData(false);
-  };
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
 
+  // Гард маршрута размонтирует кабинет вместе со всем локальным состоянием
   const handleLogout = () => {
-    localStorage.removeItem('seller_auth_data');
-    setSellerAuth(null);
-    setShowAuthModal(true);
-    setRawOrders([]);
-    setOptimisticSentIds(new Set());
-    setEditingItems({});
-    setActiveBrandFilter(null);
-    setSearchQuery('');
+    AuthService.logout('supplier');
   };
 
 
 
+  // Свой оффер ищем по ID из реестра, а не по названию компании; по названию — только на бэкенде без входа по коду
   const getMyOffer = (order: Order) => {
-    if (!sellerAuth?.name) return null;
-    const nameToMatch = sellerAuth.name.trim().toUpperCase();
-    return order.offers?.find(off => 
-      String(off.clientName || '').trim().toUpperCase() === nameToMatch
-    ) || null;
+    if (!sellerAuth) return null;
+    if (!sellerAuth.sellerId) return order.offers?.find(off => !off.sellerId && off.clientName.trim().toUpperCase() === sellerAuth.name.trim().toUpperCase()) || null;
+    return order.offers?.find(off => off.sellerId === sellerAuth.sellerId) || null;
   };
 
   const hasSentOfferByMe = (order: Order) => {
     if (!sellerAuth) return false;
-    return optimisticSentIds.has(order.id) || !!getMyOffer(order);
+    return optimisticSentIds.has(order.id) || queuedOfferIds.has(order.id) || !!getMyOffer(order);
   };
 
+  // Новый оффер можно прислать, пока открыто окно первого раунда; во второй раунд зовут только ответивших
+  const isOpenForNewOffers = (order: Order) => isBiddingOpen(order.bidding, now) && order.bidding?.round !== 2;
+
+  const isNewForMe = (order: Order) =>
+    order.status === OrderStatus.OPEN && !order.isProcessed && !order.isRefused && !hasSentOfferByMe(order) && isOpenForNewOffers(order);
+
   const getOfferStatus = (order: Order) => {
     const myOffer = getMyOffer(order);
+    const queued = queuedOfferIds.get(order.id);
+    if (!myOffer && queued) {
+        return queued.error
+          ? { label: 'Не отправлено', color: 'bg-red-50 text-red-600 border-red-100', icon: <CloudUpload size={10}/> }
+          : { label: 'Ожидает отправки', color: 'bg-amber-50 text-amber-700 border-amber-100', icon: <CloudUpload size={10}/> };
+    }
     // CHANGED: Status "Ожидание" -> "Сбор офферов" (Yellow)
+    if (!myOffer && !order.isProcessed && !isOpenForNewOffers(order)) return { label: 'Приём закрыт', color: 'bg-slate-100 text-slate-500 border-slate-200', icon: <Lock size={10}/> };
     if (!myOffer) return { label: 'Сбор офферов', color: 'bg-amber-100 text-amber-700 border-amber-200', icon: <Clock size={10}/> };
 
     const isRefusal = myOffer.items.every(item => (item.offeredQuantity || 0) === 0);
@@ -170,14 +139,25 @@ export const SellerInterface: React.FC = () => {
         return { label: 'ОТКАЗ', color: 'bg-slate-200 text-slate-500 border-slate-300', icon: <Ban size={10}/> };
     }
 
+    if (!order.isProcessed && !isBiddingOpen(order.bidding, now)) {
+        return { label: 'Приём закрыт', color: 'bg-slate-100 text-slate-500 border-slate-200', icon: <Lock size={10}/> };
+    }
+    if (!order.isProcessed && order.bidding?.round === 2) {
+        return { label: 'Второй раунд', color: 'bg-violet-50 text-violet-600 border-violet-100', icon: <TrendingDown size={10}/> };
+    }
     if (!order.isProcessed) {
         return { label: 'Идут торги', color: 'bg-blue-50 text-blue-600 border-blue-100', icon: <Loader2 size={10} className="animate-spin"/> };
     }
 
     const winningItems = myOffer.items.filter(i => i.rank === 'ЛИДЕР' || i.rank === 'LEADER');
     const totalItems = myOffer.items.length;
+    // Доля в разделённой позиции — не полная победа
+    const wonInFull = winningItems.every(i => {
+        const orderItem = order.items.find(o => isSameItem(o, i));
+        return !orderItem || leaderQuantity(i) >= requiredQuantity(orderItem);
+    });
 
-    if (winningItems.length === totalItems) {
+    if (winningItems.length === totalItems && wonInFull) {
         return { label: 'ВЫИГРАЛ', color: 'bg-emerald-100 text-emerald-700 border-emerald-200', icon: <CheckCircle2 size={10}/> };
     } else if (winningItems.length === 0) {
         return { label: 'ПРОИГРАЛ', color: 'bg-red-50 text-red-600 border-red-100', icon: <XCircle size={10}/> };
@@ -215,8 +195,8 @@ export const SellerInterface: React.FC = () => {
       if (d >= startOfWeek && d <= endOfToday) week++;
       if (d >= startOfMonth && d <= endOfToday) month++;
       
-      const brand = o.car?.model?.split(' ')[0]?.toUpperCase();
-      if (brand && brand.length > 2) brandCounts[brand] = (brandCounts[brand] || 0) + 1;
+      const brand = carBrand(o.car).toUpperCase();
+      if (brand) brandCounts[brand] = (brandCounts[brand] || 0) + 1;
     });
 
     let leader = "N/A";
@@ -239,21 +219,17 @@ export const SellerInterface: React.FC = () => {
   const filteredOrders = useMemo(() => {
     if (!sellerAuth) return [];
     let result = rawOrders.filter(o => {
-      const isSentByMe = hasSentOfferByMe(o);
-      const isRelevant = activeTab === 'new' 
-        ? (o.status === OrderStatus.OPEN && !o.isProcessed && !isSentByMe && !o.isRefused)
-        : isSentByMe;
+      const isRelevant = activeTab === 'new' ? isNewForMe(o) : hasSentOfferByMe(o);
       
       if (!isRelevant) return false;
       
       if (searchQuery) {
           const q = searchQuery.toLowerCase().trim();
-          const searchableBuffer = [o.id, o.vin, o.car?.model].join(' ').toLowerCase();
+          const searchableBuffer = [o.id, o.vin, carTitle(o.car)].join(' ').toLowerCase();
           if (!searchableBuffer.includes(q)) return false;
       }
       if (activeBrandFilter) {
-          const brand = o.car?.model?.split(' ')[0].toUpperCase() || '';
-          if (brand !== activeBrandFilter) return false;
+          if (carBrand(o.car).toUpperCase() !== activeBrandFilter) return false;
       }
       return true;
     });
@@ -268,17 +244,10 @@ export const SellerInterface: React.FC = () => {
                     aVal = Number(a.id); bVal = Number(b.id);
                     break;
                 case 'brand':
-                    // Extract Brand
-                    const getBrand = (order: Order) => (order.car?.AdminModel || order.car?.model || '').split(' ')[0];
-                    aVal = getBrand(a); bVal = getBrand(b);
+                    aVal = carBrand(a.car); bVal = carBrand(b.car);
                     break;
                 case 'model':
-                    // Extract Model
-                    const getModel = (order: Order) => {
-                        const full = order.car?.AdminModel || order.car?.model || '';
-                        return full.split(' ').slice(1).join(' ');
-                    }
-                    aVal = getModel(a); bVal = getModel(b);
+                    aVal = carModelLabel(a.car); bVal = carModelLabel(b.car);
                     break;
                 case 'year':
                     aVal = a.car?.AdminYear || a.car?.year || '0'; 
@@ -304,18 +273,18 @@ export const SellerInterface: React.FC = () => {
     }
 
     return result;
-  }, [rawOrders, searchQuery, activeTab, sellerAuth, optimisticSentIds, activeBrandFilter, sortConfig]);
+  }, [rawOrders, searchQuery, activeTab, sellerAuth, optimisticSentIds, queuedOfferIds, activeBrandFilter, sortConfig, now]);
 
   const availableBrands = useMemo(() => {
       const brands = new Set<string>();
       rawOrders.forEach(o => {
-          if (o.status === OrderStatus.OPEN && !o.isProcessed && !hasSentOfferByMe(o) && !o.isRefused) {
-              const brand = o.car?.model?.split(' ')[0].toUpperCase();
+          if (isNewForMe(o)) {
+              const brand = carBrand(o.car).toUpperCase();
               if (brand) brands.add(brand);
           }
       });
       return Array.from(brands).sort();
-  }, [rawOrders, sellerAuth, optimisticSentIds]);
+  }, [rawOrders, sellerAuth, optimisticSentIds, queuedOfferIds, now]);
 
   const paginatedOrders = useMemo(() => {
     const start = (currentPage - 1) * itemsPerPage;
@@ -324,7 +293,7 @@ export const SellerInterface: React.FC = () => {
 
   const isOrderValid = (order: Order) => {
       return order.items.every(item => {
-          const stateKey = `${order.id}-${item.name}`;
+          const stateKey = `${order.id}-${item.id}`;
           const state = editingItems[stateKey];
           const currentPrice = state ? state.price : 0;
           const currentQty = state ? state.offeredQty : item.quantity;
@@ -336,8 +305,77 @@ export const SellerInterface: React.FC = () => {
       });
   };
 
+  const buildOfferItems = (order: Order) => order.items.map(withoutHint).map(item => {
+    const stateKey = `${order.id}-${item.id}`;
+    const state = editingItems[stateKey] || { 
+      price: 0, 
+      currency: 'CNY' as Currency, 
+      offeredQty: item.quantity, 
+      refImage: '',
+      weight: 0,
+      deliveryWeeks: 0,
+      photoUrl: '',
+      article: item.article || ''
+    };
+    return { 
+      ...item, 
+      sellerPrice: state.price, 
+      sellerCurrency: 'CNY' as Currency, // Force CNY
+      offeredQuantity: state.offeredQty, 
+      refImage: state.refImage, 
+      weight: state.weight,
+      deliveryWeeks: state.deliveryWeeks,
+      photoUrl: state.photoUrl,
+      article: state.article.trim(),
+      available: state.offeredQty > 0 
+    };
+  });
+
+  // Открытые заказы без моего оффера — в них ищутся совпадения с прайс-листом
+  const openOrders = useMemo(
+    () => rawOrders.filter(isNewForMe),
+    [rawOrders, sellerAuth, optimisticSentIds, queuedOfferIds, now]
+  );
+
+  // Прайс-лист заполняет формы; фото и ссылки, уже введённые вручную, сохраняются
+  const applyPriceList = (matches: PriceListMatch[]) => {
+    setEditingItems(prev => {
+      const next = { ...prev };
+      matches.forEach(({ order, item, values }) => {
+        const stateKey = `${order.id}-${item.id}`;
+        next[stateKey] = { refImage: '', photoUrl: '', article: item.article || '', ...prev[stateKey], ...values, currency: 'CNY' };
+      });
+      return next;
+    });
+  };
+
+  // Отправка всех заполненных из прайса заказов; неполные остаются в списке для ручной правки
+  const submitAllOffers = async (orderIds: string[]) => {
+    if (!sellerAuth) return;
+    const ready = openOrders.filter(o => orderIds.includes(o.id) && isOrderValid(o));
+    const skipped = orderIds.length - ready.length;
+    setOptimisticSentIds(prev => new Set([...prev, ...ready.map(o => o.id)]));
+    let failed = 0;
+    let queued = 0;
+    for (const order of ready) {
+      try {
+        if (!await SheetService.createOffer(order.id, sellerAuth.name, buildOfferItems(order), order.vin, sellerAuth.phone)) queued++;
+      } catch (err) {
+        failed++;
+        setOptimisticSentIds(prev => { const n = new Set(prev); n.delete(order.id); return n; });
+      }
+    }
+    const parts = [`Отправлено предложений: ${ready.length - failed - queued}`];
+    if (queued > 0) parts.push(`ждут сети: ${queued}`);
+    if (skipped > 0) parts.push(`не заполнены: ${skipped}`);
+    if (failed > 0) parts.push(`ошибок: ${failed}`);
+    setSuccessToast({ message: parts.join(', '), id: Date.now().toString() });
+    setTimeout(() => setSuccessToast(null), 4000);
+    fetchData(true);
+  };
+
   const handleSubmitOffer = async (order: Order, isRefusal: boolean) => {
-    if (order.isProcessed || !sellerAuth) return;
+    if (order.isProcessed || !sellerAuth || !isOpenForNewOffers(order)) return;
 
     if (!isOrderValid(order)) {
         alert("Пожалуйста, заполните Цену, Вес и Срок доставки для всех позиций.");
@@ -352,38 +390,81 @@ export const SellerInterface: React.FC = () => {
         setOptimisticSentIds(prev => new Set(prev).add(order.id));
         setExpandedId(null);
         setVanishingIds(prev => { const n = new Set(prev); n.delete(order.id); return n; });
-        const finalItems = order.items.map(item => {
-          const stateKey = `${order.id}-${item.name}`;
-          const state = editingItems[stateKey] || { 
-            price: 0, 
-            currency: 'CNY' as Currency, 
-            offeredQty: item.quantity, 
-            refImage: '',
-            weight: 0,
-            deliveryWeeks: 0,
-            photoUrl: ''
-          };
-          return { 
-            ...item, 
-            sellerPrice: state.price, 
-            sellerCurrency: 'CNY' as Currency, // Force CNY
-            offeredQuantity: state.offeredQty, 
-            refImage: state.refImage, 
-            weight: state.weight,
-            deliveryWeeks: state.deliveryWeeks,
-            photoUrl: state.photoUrl,
-            available: state.offeredQty > 0 
-          };
-        });
         try {
-          await SheetService.createOffer(order.id, sellerAuth.name, finalItems, order.vin, sellerAuth.phone);
-          fetchData(true);
+          if (await SheetService.createOffer(order.id, sellerAuth.name, buildOfferItems(order), order.vin, sellerAuth.phone)) fetchData(true);
+          else {
+            // Оффер в офлайн-очереди — отметку «отправлено» дальше ведёт очередь
+            setOptimisticSentIds(prev => { const n = new Set(prev); n.delete(order.id); return n; });
+            setSuccessToast({ message: 'Нет сети — предложение отправится автоматически', id: Date.now().toString() });
+            setTimeout(() => setSuccessToast(null), 3000);
+          }
         } catch (err) {
           setOptimisticSentIds(prev => { const n = new Set(prev); n.delete(order.id); return n; });
         }
     }, 600);
   };
   
+  // Правка отправленного оффера: форма заполняется его условиями, отправка записывает новую редакцию
+  const startRevision = (order: Order, offer: Order) => {
+    setEditingItems(prev => {
+      const next = { ...prev };
+      order.items.forEach(item => {
+        const offerItem = offer.items.find(i => isSameItem(i, item));
+        next[`${order.id}-${item.id}`] = {
+          price: offerItem?.sellerPrice || 0,
+          currency: 'CNY',
+          offeredQty: offerItem?.offeredQuantity ?? item.quantity,
+          refImage: offerItem?.refImage || '',
+          weight: offerItem?.weight || 0,
+          deliveryWeeks: offerItem?.deliveryWeeks || 0,
+          photoUrl: offerItem?.photoUrl || '',
+          article: offerItem?.article || item.article || ''
+        };
+      });
+      return next;
+    });
+    setRevisingIds(prev => new Set(prev).add(order.id));
+  };
+
+  const stopRevision = (order: Order) => {
+    setRevisingIds(prev => { const n = new Set(prev); n.delete(order.id); return n; });
+    setEditingItems(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => !key.startsWith(`${order.id}-`))));
+  };
+
+  const handleReviseOffer = async (order: Order) => {
+    if (!sellerAuth || !isOrderValid(order)) return;
+    setSavingId(order.id);
+    try {
+      const sent = await SheetService.createOffer(order.id, sellerAuth.name, buildOfferItems(order), order.vin, sellerAuth.phone);
+      stopRevision(order);
+      setSuccessToast({ message: sent ? `Предложение к заказу ${order.id} обновлено · редакция ${sent}` : 'Нет сети — изменения отправятся автоматически', id: Date.now().toString() });
+      setTimeout(() => setSuccessToast(null), 3000);
+      if (sent) fetchData(true);
+    } catch (err: any) {
+      alert(err?.message || 'Не удалось сохранить изменения');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleWithdrawOffer = async (order: Order, offer: Order) => {
+    setWithdrawingId(null);
+    setSavingId(order.id);
+    try {
+      await SheetService.withdrawOffer(offer.id);
+      stopRevision(order);
+      setOptimisticSentIds(prev => { const n = new Set(prev); n.delete(order.id); return n; });
+      setExpandedId(null);
+      setSuccessToast({ message: `Предложение к заказу ${order.id} отозвано`, id: Date.now().toString() });
+      setTimeout(() => setSuccessToast(null), 3000);
+      fetchData(true);
+    } catch (err: any) {
+      alert(err?.message || 'Не удалось отозвать предложение');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
   const copyToClipboard = (text: string) => {
       navigator.clipboard.writeText(text);
       setSuccessToast({ message: "Скопировано", id: Date.now().toString() });
@@ -407,25 +488,6 @@ export const SellerInterface: React.FC = () => {
           </div>
       )}
 
-      {showAuthModal && (
-        <div className="fixed inset-0 z-[300] flex items-center justify-center bg-slate-900/70 backdrop-blur-md p-4 animate-in fade-in duration-300">
-          <div className="bg-white rounded-[2.5rem] p-8 w-full max-w-[400px] shadow-2xl flex flex-col items-center gap-6 animate-in zoom-in-95 duration-300">
-             <div className="w-20 h-20 bg-indigo-600 rounded-3xl flex items-center justify-center text-white shadow-xl shadow-indigo-100"><ShieldCheck size={40} /></div>
-             <div className="text-center space-y-1"><h2 className="text-xl font-black uppercase text-slate-900 tracking-tight">Вход поставщика</h2><p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Авторизуйтесь для работы</p></div>
-             <div className="grid grid-cols-2 gap-3 w-full">
-                <button onClick={() => handleDemoLogin(1)} className="py-3 bg-slate-50 border border-slate-200 rounded-2xl text-[10px] font-black uppercase text-slate-600 hover:bg-indigo-50 hover:border-indigo-200 hover:text-indigo-600 transition-all flex flex-col items-center gap-1"><UserCircle2 size={16}/> Демо Поставщик 1</button>
-                <button onClick={() => handleDemoLogin(2)} className="py-3 bg-slate-50 border border-slate-200 rounded-2xl text-[10px] font-black uppercase text-slate-600 hover:bg-indigo-50 hover:border-indigo-200 hover:text-indigo-600 transition-all flex flex-col items-center gap-1"><UserCircle2 size={16}/> Демо Поставщик 2</button>
-             </div>
-             <div className="w-full flex items-center gap-4 py-2"><div className="flex-grow h-px bg-slate-100"></div><span className="text-[9px] font-bold text-slate-300 uppercase">или</span><div className="flex-grow h-px bg-slate-100"></div></div>
-             <form onSubmit={handleLogin} className="w-full space-y-3">
-                 <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">Название Компании</label><input autoFocus value={tempAuth.name} onChange={e => setTempAuth({...tempAuth, name: e.target.value})} className="w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl font-bold text-sm outline-none focus:border-indigo-600 uppercase" placeholder="ООО АВТО" /></div>
-                 <div className="space-y-1"><label className="text-[9px] font-bold text-slate-400 uppercase ml-1">Номер телефона</label><input value={tempAuth.phone} onChange={handlePhoneChange} className={`w-full px-4 py-3 bg-slate-50 border rounded-xl font-bold text-sm outline-none transition-all duration-300 ${phoneFlash ? 'border-red-500 bg-red-50' : 'border-slate-200 focus:border-indigo-600'}`} placeholder="+86 1XX XXXX XXXX" /></div>
-                 <button type="submit" disabled={!tempAuth.name || !isPhoneValid(tempAuth.phone)} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-[11px] uppercase tracking-widest shadow-xl hover:bg-indigo-700 active:scale-95 transition-all mt-4 disabled:opacity-50 disabled:active:scale-100">Войти</button>
-             </form>
-          </div>
-        </div>
-      )}
-
       <div className="bg-white p-4 rounded-2xl border border-slate-200 shadow-sm flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
          <div className="flex flex-col">
             <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1">MARKET DASHBOARD</span>
@@ -475,12 +537,21 @@ export const SellerInterface: React.FC = () => {
          </div>
       </div>
 
+      {showPriceList && <PriceListUpload orders={openOrders} onApply={applyPriceList} onSubmitAll={submitAllOffers} />}
+
       <div className="flex justify-between items-end border-b border-slate-200">
          <div className="flex gap-4">
-            <button onClick={() => setActiveTab('new')} className={`pb-2 text-[11px] font-black uppercase transition-all relative ${activeTab === 'new' ? 'text-slate-900' : 'text-slate-400'}`}>Новые <span className="ml-1 bg-slate-900 text-white px-1.5 py-0.5 rounded text-[9px]">{rawOrders.filter(o => !hasSentOfferByMe(o) && o.status === OrderStatus.OPEN && !o.isProcessed && !o.isRefused).length}</span>{activeTab === 'new' && <span className="absolute bottom-[-2px] left-0 right-0 h-1 bg-slate-900 rounded-full"></span>}</button>
+            <button onClick={() => setActiveTab('new')} className={`pb-2 text-[11px] font-black uppercase transition-all relative ${activeTab === 'new' ? 'text-slate-900' : 'text-slate-400'}`}>Новые <span className="ml-1 bg-slate-900 text-white px-1.5 py-0.5 rounded text-[9px]">{rawOrders.filter(isNewForMe).length}</span>{activeTab === 'new' && <span className="absolute bottom-[-2px] left-0 right-0 h-1 bg-slate-900 rounded-full"></span>}</button>
             <button onClick={() => setActiveTab('processed')} className={`pb-2 text-[11px] font-black uppercase transition-all relative ${activeTab === 'processed' ? 'text-indigo-600' : 'text-slate-400'}`}>Отправленные <span className="ml-1 bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded text-[9px]">{rawOrders.filter(o => hasSentOfferByMe(o)).length}</span>{activeTab === 'processed' && <span className="absolute bottom-[-2px] left-0 right-0 h-1 bg-indigo-600 rounded-full"></span>}</button>
          </div>
-         <button onClick={() => fetchData(false)} className="mb-2 p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-all flex items-center gap-2"><RefreshCw size={14} className={isSyncing ? 'animate-spin' : ''}/></button>
+         <div className="mb-2 flex items-center gap-2">
+            <button onClick={() => setShowPriceList(!showPriceList)} className={`p-2 rounded-lg ${showPriceList ? 'bg-slate-200' : 'bg-slate-50'} hover:bg-slate-200 transition-colors`} title="Загрузить прайс-лист">
+               <Upload size={18} className="text-slate-600"/>
+            </button>
+            <SyncStatus role="supplier" stale={isStale}/>
+            <ExportMenu orders={filteredOrders} viewer={{ role: 'supplier', sellerId: sellerAuth?.sellerId }} fileName="offers" align="right"/>
+            <button onClick={() => fetchData(false)} className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-all flex items-center gap-2"><RefreshCw size={14} className={isSyncing ? 'animate-spin' : ''}/></button>
+         </div>
       </div>
 
       <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
@@ -506,18 +577,24 @@ export const SellerInterface: React.FC = () => {
           const isVanishing = vanishingIds.has(order.id);
           const myOffer = getMyOffer(order);
           const isDisabled = order.isProcessed === true;
+          const isRevising = revisingIds.has(order.id);
+          // Окно приёма: после дедлайна форма закрыта; во втором раунде видна лучшая цена конкурентов
+          const isBiddingClosed = !isBiddingOpen(order.bidding, now);
+          const isSecondRound = order.bidding?.round === 2 && !isBiddingClosed;
+          const timeLeft = order.bidding && !isDisabled ? formatTimeLeft(order.bidding.deadline, now) : '';
+          // Отправленный оффер заблокирован, пока поставщик не нажал «Изменить»; после КП и по окончании приёма — совсем
+          const isLocked = isDisabled || isBiddingClosed || (!!myOffer && !isRevising);
           const canSubmit = isOrderValid(order);
           
           const isAllDeclined = order.items.every(item => {
-              const stateKey = `${order.id}-${item.name}`;
+              const stateKey = `${order.id}-${item.id}`;
               const state = editingItems[stateKey];
               const qty = state ? state.offeredQty : item.quantity;
               return qty === 0;
           });
           
-          const fullModel = order.car?.AdminModel || order.car?.model || 'N/A';
-          const brandPart = fullModel.split(' ')[0] || '-';
-          const modelPart = fullModel.split(' ').slice(1).join(' ') || '-';
+          const brandPart = carBrand(order.car) || '-';
+          const modelPart = carModelLabel(order.car) || '-';
           const displayYear = order.car?.AdminYear || order.car?.year;
 
           const containerStyle = isVanishing ? "opacity-0 scale-95 h-0 overflow-hidden" : isExpanded ? "border-l-indigo-600 ring-1 ring-indigo-600 shadow-xl bg-white relative z-10 rounded-xl my-3" : "hover:bg-slate-50 border-l-transparent border-b-4 md:border-b border-slate-100 last:border-0";
@@ -534,6 +611,7 @@ export const SellerInterface: React.FC = () => {
                         {order.id}
                      </div>
                      <div className="md:hidden flex items-center gap-2">
+                        {timeLeft && <span className="text-[8px] font-bold text-slate-400 flex items-center gap-1"><Timer size={9}/>{timeLeft}</span>}
                         <div className={`px-2 py-1 rounded-md font-black text-[8px] uppercase border flex items-center gap-1.5 shadow-sm ${statusInfo.color}`}>
                             {statusInfo.icon}
                             {statusInfo.label}
@@ -573,11 +651,12 @@ export const SellerInterface: React.FC = () => {
                   </div>
 
                   {/* STATUS - FORCED LEFT (Desktop Only) */}
-                  <div className="hidden md:flex justify-start">
+                  <div className="hidden md:flex flex-col items-start gap-1">
                     <div className={`px-2 py-1 rounded-md font-black text-[8px] uppercase border flex items-center gap-1.5 shadow-sm ${statusInfo.color}`}>
                         {statusInfo.icon}
                         {statusInfo.label}
                     </div>
+                    {timeLeft && <span className="text-[8px] font-bold text-slate-400 flex items-center gap-1" title={`Приём до ${new Date(order.bidding!.deadline).toLocaleString('ru-RU')}`}><Timer size={9}/>осталось {timeLeft}</span>}
                   </div>
 
                   {/* CHEVRON (Desktop Only) */}
@@ -622,19 +701,11 @@ export const SellerInterface: React.FC = () => {
 
                   <div className="space-y-3">
                       {order.items.map(item => {
-                        const stateKey = `${order.id}-${item.name}`;
-                        const offerItem = myOffer?.items.find(i => i.name === item.name);
+                        const stateKey = `${order.id}-${item.id}`;
+                        const offerItem = myOffer?.items.find(i => isSameItem(i, item));
                         
-                        // COMPETITIVE PRICING CALCULATION
-                        const otherOffers = (order.offers || []).filter(off => 
-                            String(off.clientName || '').trim().toUpperCase() !== sellerAuth?.name.trim().toUpperCase()
-                        );
-                        const competitorPrices = otherOffers.flatMap(off => 
-                            off.items
-                                .filter(i => i.name === item.name && (i.sellerPrice || 0) > 0)
-                                .map(i => i.sellerPrice || 0)
-                        );
-                        const minCompetitorPrice = competitorPrices.length > 0 ? Math.min(...competitorPrices) : null;
+                        // Лучшую цену конкурентов считает бэкенд и отдаёт, только если подсказка включена (priceHints.ts)
+                        const bestPrice = item.bestPrice;
 
                         const state = editingItems[stateKey] || { 
                           price: offerItem?.sellerPrice || 0, 
@@ -643,10 +714,12 @@ export const SellerInterface: React.FC = () => {
                           refImage: offerItem?.refImage || '',
                           weight: offerItem?.weight || 0,
                           deliveryWeeks: offerItem?.deliveryWeeks || 0,
-                          photoUrl: offerItem?.photoUrl || ''
+                          photoUrl: offerItem?.photoUrl || '',
+                          article: offerItem?.article || item.article || ''
                         };
                         
                         const isWinner = offerItem?.rank === 'ЛИДЕР' || offerItem?.rank === 'LEADER';
+                        const wonQty = offerItem && isWinner ? leaderQuantity(offerItem) : 0;
                         const isPartialWin = statusInfo.label === 'ЧАСТИЧНО';
                         const isUnavailable = state.offeredQty === 0;
                         
@@ -657,9 +730,11 @@ export const SellerInterface: React.FC = () => {
 
                         const displayName = item.AdminName || item.name;
                         const displayQty = item.AdminQuantity || item.quantity;
+                        // Номер не из кросс-таблицы к запрошенному артикулу — администратор проверит вручную
+                        const isUnknownArticle = !!state.article.trim() && !!item.article && !isSameArticle(item.article, state.article);
 
                         const handleNumInput = (raw: string, field: 'price' | 'offeredQty' | 'weight' | 'deliveryWeeks', max?: number) => {
-                            if (isDisabled || !!myOffer) return;
+                            if (isLocked) return;
                             const digits = raw.replace(/[^\d.]/g, ''); // Allow decimal for weight
                             let val = parseFloat(digits) || 0;
                             if (max && val > max) val = max;
@@ -668,35 +743,31 @@ export const SellerInterface: React.FC = () => {
                             setEditingItems(prev => ({ ...prev, [stateKey]: { ...(prev[stateKey] || state), [field]: val } }));
                         };
 
-                        const handleTextInput = (val: string, field: 'photoUrl') => {
-                            if (isDisabled || !!myOffer) return;
+                        const handleTextInput = (val: string, field: 'photoUrl' | 'article') => {
+                            if (isLocked) return;
                             setEditingItems(prev => ({ ...prev, [stateKey]: { ...(prev[stateKey] || state), [field]: val } }));
                         };
 
                         const toggleUnavailable = () => {
-                           if (isDisabled || !!myOffer) return;
+                           if (isLocked) return;
                            const newVal = state.offeredQty === 0 ? displayQty : 0;
                            setEditingItems(prev => ({ ...prev, [stateKey]: { ...(prev[stateKey] || state), offeredQty: newVal } }));
                         };
 
                         return (
-                          <div key={item.name} className={`flex flex-col gap-3 border rounded-xl p-3 transition-all ${isWinner ? 'bg-emerald-50 border-emerald-200 ring-1 ring-emerald-100' : 'bg-slate-50/30'} ${isPriceMissing || isWeightMissing || isDeliveryMissing ? 'border-red-200' : 'border-slate-100'}`}>
+                          <div key={item.id} className={`flex flex-col gap-3 border rounded-xl p-3 transition-all ${isWinner ? 'bg-emerald-50 border-emerald-200 ring-1 ring-emerald-100' : 'bg-slate-50/30'} ${isPriceMissing || isWeightMissing || isDeliveryMissing ? 'border-red-200' : 'border-slate-100'}`}>
                              {/* Item Header */}
                              <div className="flex flex-col md:flex-row justify-between gap-2">
                                 <div className="flex-grow">
                                     <div className="flex items-center gap-2 mb-1 flex-wrap">
                                         <h4 className={`font-black text-[11px] uppercase transition-all ${isUnavailable ? 'line-through text-red-400' : 'text-slate-900'}`}>{displayName}</h4>
-                                        {isWinner && <span className="bg-emerald-600 text-white px-1.5 py-0.5 rounded text-[7px] font-black uppercase shadow-sm">Выбрано</span>}
+                                        {isWinner && <span className="bg-emerald-600 text-white px-1.5 py-0.5 rounded text-[7px] font-black uppercase shadow-sm">{wonQty < requiredQuantity(item) ? `Выбрано: ${wonQty} из ${requiredQuantity(item)} шт` : `Выбрано: ${wonQty} шт`}</span>}
                                         {isUnavailable && <span className="bg-red-100 text-red-600 px-1.5 py-0.5 rounded text-[7px] font-black uppercase">Нет в наличии</span>}
-                                        {!isUnavailable && minCompetitorPrice !== null && (
-                                            <span className="bg-indigo-50 text-indigo-600 px-2 py-0.5 rounded text-[7px] font-bold border border-indigo-100">
-                                                Лучшая цена сейчас: {minCompetitorPrice} ¥
-                                            </span>
-                                        )}
                                     </div>
                                     <div className="flex items-center gap-2">
                                         <span className="text-[8px] font-bold text-slate-400 uppercase">{item.category}</span>
                                         <span className="text-[9px] font-black bg-white/80 px-2 rounded border border-slate-100">Нужно: {displayQty} шт</span>
+                                        {item.article && <span className="text-[9px] font-mono font-bold text-slate-500" title={describeArticle(item.article)}>Арт. {item.article}</span>}
                                     </div>
                                 </div>
 
@@ -710,45 +781,70 @@ export const SellerInterface: React.FC = () => {
                              </div>
 
                              {/* Form Grid */}
-                             <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+                             <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
                                 {/* Qty & Toggle */}
                                 <div className="flex items-end gap-2">
                                     <button 
                                         onClick={toggleUnavailable} 
-                                        disabled={isDisabled || !!myOffer}
+                                        disabled={isLocked}
                                         className={`mb-[1px] p-2 rounded-lg border transition-all ${isUnavailable ? 'bg-red-50 border-red-200 text-red-500' : 'bg-white border-slate-200 text-slate-400 hover:text-red-500 hover:border-red-200'}`}
                                     >
                                         <Ban size={14} />
                                     </button>
                                     <div className="flex-grow space-y-1">
                                         <label className="text-[7px] font-bold text-slate-400 uppercase block">Кол-во</label>
-                                        <input type="text" disabled={isDisabled || !!myOffer} value={state.offeredQty || 0} onChange={e => handleNumInput(e.target.value, 'offeredQty', displayQty)} className="w-full text-center font-bold text-[10px] border border-slate-200 rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none" />
+                                        <input type="text" disabled={isLocked} value={state.offeredQty || 0} onChange={e => handleNumInput(e.target.value, 'offeredQty', displayQty)} className="w-full text-center font-bold text-[10px] border border-slate-200 rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none" />
                                     </div>
                                 </div>
 
                                 {/* Price CNY */}
-                                <div className="space-y-1">
+                                <div className="space-y-1 relative">
                                     <label className="text-[7px] font-bold text-slate-400 uppercase block">Цена (¥)</label>
-                                    <input type="text" disabled={isDisabled || !!myOffer || isUnavailable} value={isUnavailable ? 0 : state.price || ''} onChange={e => handleNumInput(e.target.value, 'price')} className={`w-full text-center font-black text-[10px] border rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none focus:border-indigo-500 ${isPriceMissing ? 'border-red-300 bg-red-50/30' : 'border-slate-200'}`} placeholder="0" />
+                                    <input type="text" disabled={isLocked || isUnavailable} value={isUnavailable ? 0 : state.price || ''} onChange={e => handleNumInput(e.target.value, 'price')} className={`w-full text-center font-black text-[10px] border rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none focus:border-indigo-500 ${isPriceMissing ? 'border-red-300 bg-red-50/30' : 'border-slate-200'}`} placeholder="0" />
+                                    {bestPrice && !isUnavailable && (
+                                        <div className={`text-[7px] font-bold absolute -bottom-3 left-0 whitespace-nowrap ${state.price > 0 && state.price <= bestPrice.price ? 'text-emerald-600' : 'text-indigo-600'}`} title={`Других предложений с ценой: ${bestPrice.offers}`}>
+                                            Лучшая сейчас: {bestPrice.price} ¥
+                                        </div>
+                                    )}
                                 </div>
 
                                 {/* Weight */}
                                 <div className="space-y-1">
                                     <label className="text-[7px] font-bold text-slate-400 uppercase block">Вес (кг)</label>
-                                    <input type="text" disabled={isDisabled || !!myOffer || isUnavailable} value={isUnavailable ? 0 : state.weight || ''} onChange={e => handleNumInput(e.target.value, 'weight')} className={`w-full text-center font-bold text-[10px] border rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none focus:border-indigo-500 ${isWeightMissing ? 'border-red-300 bg-red-50/30' : 'border-slate-200'}`} placeholder="0.0" />
+                                    <input type="text" disabled={isLocked || isUnavailable} value={isUnavailable ? 0 : state.weight || ''} onChange={e => handleNumInput(e.target.value, 'weight')} className={`w-full text-center font-bold text-[10px] border rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none focus:border-indigo-500 ${isWeightMissing ? 'border-red-300 bg-red-50/30' : 'border-slate-200'}`} placeholder="0.0" />
                                 </div>
 
                                 {/* Term */}
                                 <div className="space-y-1">
                                     <label className="text-[7px] font-bold text-slate-400 uppercase block">Срок (нед)</label>
-                                    <input type="text" disabled={isDisabled || !!myOffer || isUnavailable} value={isUnavailable ? 0 : state.deliveryWeeks || ''} onChange={e => handleNumInput(e.target.value, 'deliveryWeeks')} className={`w-full text-center font-bold text-[10px] border rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none focus:border-indigo-500 ${isDeliveryMissing ? 'border-red-300 bg-red-50/30' : 'border-slate-200'}`} placeholder="1" />
+                                    <input type="text" disabled={isLocked || isUnavailable} value={isUnavailable ? 0 : state.deliveryWeeks || ''} onChange={e => handleNumInput(e.target.value, 'deliveryWeeks')} className={`w-full text-center font-bold text-[10px] border rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none focus:border-indigo-500 ${isDeliveryMissing ? 'border-red-300 bg-red-50/30' : 'border-slate-200'}`} placeholder="1" />
+                                </div>
+
+                                {/* Article */}
+                                <div className="space-y-1 relative">
+                                    <label className="text-[7px] font-bold text-slate-400 uppercase block">Артикул</label>
+                                    {isLocked || isUnavailable ? (
+                                        <input type="text" disabled value={isUnavailable ? '' : state.article} className="w-full px-2 font-mono font-bold text-[10px] border border-slate-200 rounded-lg py-1.5 bg-slate-50 outline-none" />
+                                    ) : (
+                                        <Autocomplete
+                                            value={state.article}
+                                            maxLength={40}
+                                            options={articleOptions(item, carBrand(order.car)).filter(n => !state.article || n.number !== state.article).map(n => ({ key: n.number, label: n.number, hint: `${n.maker}${findArticle(n.number)?.original ? ' · оригинал' : ''}`, value: n.number }))}
+                                            onInput={value => handleTextInput(value, 'article')}
+                                            onPick={option => handleTextInput(option.value, 'article')}
+                                            className={`w-full px-2 font-mono font-bold text-[10px] border rounded-lg py-1.5 bg-white outline-none focus:border-indigo-500 ${isUnknownArticle ? 'border-amber-300' : 'border-slate-200'}`}
+                                            placeholder="OEM / аналог"
+                                        />
+                                    )}
+                                    {isUnknownArticle && <div className="text-[7px] font-bold text-amber-600 absolute -bottom-3 left-0 whitespace-nowrap">Не найден в кроссах к {item.article}</div>}
+                                    {!isUnknownArticle && !isUnavailable && describeArticle(state.article) && <div className="text-[7px] font-bold text-emerald-600 absolute -bottom-3 left-0 whitespace-nowrap truncate max-w-full">{describeArticle(state.article)}</div>}
                                 </div>
 
                                 {/* Photo URL */}
                                 <div className="col-span-2 md:col-span-1 space-y-1">
                                     <label className="text-[7px] font-bold text-slate-400 uppercase block">Ссылка на фото (URL)</label>
                                     <div className="relative">
-                                        <input type="text" disabled={isDisabled || !!myOffer || isUnavailable} value={isUnavailable ? '' : state.photoUrl || ''} onChange={e => handleTextInput(e.target.value, 'photoUrl')} className="w-full pl-7 pr-2 font-bold text-[10px] border border-slate-200 rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none focus:border-indigo-500" placeholder="http..." />
+                                        <input type="text" disabled={isLocked || isUnavailable} value={isUnavailable ? '' : state.photoUrl || ''} onChange={e => handleTextInput(e.target.value, 'photoUrl')} className="w-full pl-7 pr-2 font-bold text-[10px] border border-slate-200 rounded-lg py-1.5 bg-white disabled:bg-slate-50 outline-none focus:border-indigo-500" placeholder="http..." />
                                         <Copy size={10} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-300" />
                                     </div>
                                 </div>
@@ -756,7 +852,7 @@ export const SellerInterface: React.FC = () => {
                           </div>
                         );
                       })}
-                      {!myOffer && !isDisabled && (
+                      {!myOffer && !isDisabled && !isBiddingClosed && (
                         <div className="flex justify-end pt-3 border-t border-slate-100">
                           <button 
                             disabled={!canSubmit}
@@ -768,6 +864,49 @@ export const SellerInterface: React.FC = () => {
                           </button>
                         </div>
                       )}
+                      {myOffer && !isDisabled && !isBiddingClosed && (
+                        <div className="flex flex-wrap justify-between items-center gap-2 pt-3 border-t border-slate-100">
+                          <span className={`text-[9px] font-bold uppercase ${isSecondRound ? 'text-violet-600' : 'text-slate-400'}`}>
+                            {isRevised(myOffer) ? `Редакция ${myOffer.offerRevision}` : 'Предложение отправлено'} · {isSecondRound
+                              ? 'второй раунд: цену можно только снизить'
+                              : 'изменить или отозвать можно до формирования КП'}{timeLeft && ` · осталось ${timeLeft}`}
+                          </span>
+                          <div className="flex items-center gap-2">
+                            {isRevising ? (
+                              <>
+                                <button onClick={() => stopRevision(order)} className="px-4 py-2 rounded-xl font-black text-[10px] uppercase bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Отмена</button>
+                                <button
+                                  disabled={!canSubmit || savingId === order.id}
+                                  onClick={() => handleReviseOffer(order)}
+                                  className={`px-6 py-2 rounded-xl font-black text-[10px] uppercase shadow-lg transition-all flex items-center gap-2 ${canSubmit ? 'bg-slate-900 text-white hover:bg-slate-800' : 'bg-slate-300 text-slate-500 cursor-not-allowed shadow-none'}`}
+                                >
+                                  {savingId === order.id ? <Loader2 size={14} className="animate-spin"/> : <CheckCircle size={14}/>}
+                                  {canSubmit ? 'Сохранить изменения' : 'Заполните цены'}
+                                </button>
+                              </>
+                            ) : withdrawingId === order.id ? (
+                              <>
+                                <span className="text-[9px] font-black uppercase text-red-600">Отозвать предложение?</span>
+                                <button onClick={() => setWithdrawingId(null)} className="px-4 py-2 rounded-xl font-black text-[10px] uppercase bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all">Нет</button>
+                                <button onClick={() => handleWithdrawOffer(order, myOffer)} className="px-4 py-2 rounded-xl font-black text-[10px] uppercase bg-red-600 text-white hover:bg-red-700 transition-all">Да, отозвать</button>
+                              </>
+                            ) : (
+                              <>
+                                <button disabled={savingId === order.id} onClick={() => setWithdrawingId(order.id)} className="px-4 py-2 rounded-xl font-black text-[10px] uppercase bg-white border border-red-200 text-red-600 hover:bg-red-50 transition-all flex items-center gap-2"><Undo2 size={14}/> Отозвать</button>
+                                <button disabled={savingId === order.id} onClick={() => startRevision(order, myOffer)} className="px-4 py-2 rounded-xl font-black text-[10px] uppercase bg-slate-900 text-white hover:bg-slate-800 transition-all flex items-center gap-2"><Edit2 size={14}/> Изменить</button>
+                              </>
+                            )}
+                          </div>
+                        </div>
+                      )}
+                      {!isDisabled && isBiddingClosed && (
+                        <div className="flex items-center gap-2 justify-center py-3 bg-slate-50 rounded-lg border border-slate-200 border-dashed text-center">
+                           <Lock size={14} className="text-slate-400"/>
+                           <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest leading-relaxed">
+                               {myOffer ? 'ПРИЁМ ПРЕДЛОЖЕНИЙ ЗАКРЫТ. ВАШЕ ПРЕДЛОЖЕНИЕ НА РАССМОТРЕНИИ У МЕНЕДЖЕРА.' : 'ПРИЁМ ПРЕДЛОЖЕНИЙ ПО ЗАКАЗУ ЗАКРЫТ.'}
+                           </span>
+                        </div>
+                      )}
                       {isDisabled && (
                         <div className="flex items-center gap-2 justify-center py-3 bg-slate-50 rounded-lg border border-slate-200 border-dashed text-center">
                            <ShieldCheck size={14} className="text-slate-400"/>
@@ -780,6 +919,7 @@ export const SellerInterface: React.FC = () => {
                         </div>
                       )}
                   </div>
+                  <div className="mt-4"><OrderTimeline orderId={order.id} role="supplier" /></div>
                 </div>
               )}
             </div>
@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { CloudOff, CloudUpload, RefreshCw, X } from 'lucide-react';
+import { UserRole } from '../types';
+import { Outbox, OutboxEntry } from '../services/outbox';
+
+// Неотправленные действия роли; список обновляется при каждом изменении очереди
+export const useOutbox = (role: UserRole): OutboxEntry[] => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  useEffect(() => Outbox.subscribe(all => setEntries(all.filter(e => e.role === role))), [role]);
+  return entries;
+};
+
+const useOnline = () => {
+  const [online, setOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+  return online;
+};
+
+const describe = (entry: OutboxEntry) => {
+  const { payload } = entry;
+  if (payload.action === 'create') return payload.order.type === 'OFFER' ? `Предложение к заказу ${entry.orderId}` : 'Новый заказ';
+  if (payload.action === 'confirm_purchase') return `Покупка по заказу ${entry.orderId}`;
+  return `Отказ от заказа ${entry.orderId}`;
+};
+
+export const PendingSyncBadge: React.FC<{ failed?: boolean }> = ({ failed }) => (
+  <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[8px] font-black uppercase whitespace-nowrap border ${failed ? 'bg-red-50 text-red-600 border-red-100' : 'bg-amber-50 text-amber-700 border-amber-100'}`}>
+    <CloudUpload size={10}/>{failed ? 'Не отправлено' : 'Ожидает отправки'}
+  </span>
+);
+
+/**
+ * Индикатор синхронизации для шапки кабинета: нет сети, сколько действий ждёт отправки,
+ * какие бэкенд отклонил при фоновой отправке (их можно убрать из очереди).
+ */
+export const SyncStatus: React.FC<{ role: UserRole; stale?: boolean }> = ({ role, stale }) => {
+  const entries = useOutbox(role);
+  const online = useOnline();
+  const [open, setOpen] = useState(false);
+  if (online && !stale && entries.length === 0) return null;
+
+  const failed = entries.filter(e => e.error);
+  const label = !online ? 'Нет сети' : stale ? 'Данные из кэша' : 'Синхронизация';
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(!open)} className={`px-2 py-1.5 rounded-lg flex items-center gap-1.5 text-[9px] font-black uppercase border transition-all ${failed.length > 0 ? 'bg-red-50 text-red-600 border-red-100' : 'bg-amber-50 text-amber-700 border-amber-100'}`}>
+        {online ? <CloudUpload size={12}/> : <CloudOff size={12}/>}
+        {label}{entries.length > 0 && <span className="bg-white/70 px-1 rounded">{entries.length}</span>}
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-white border border-slate-200 rounded-xl shadow-xl z-50 p-3 space-y-2">
+          <div className="flex justify-between items-center">
+            <span className="text-[9px] font-black uppercase text-slate-400">Ожидают отправки</span>
+            <button onClick={() => Outbox.flush()} className="p-1 rounded hover:bg-slate-100 text-slate-500" title="Отправить сейчас"><RefreshCw size={12}/></button>
+          </div>
+          {entries.length === 0 && <div className="text-[10px] text-slate-400 italic">Очередь пуста{stale ? ' — список заказов показан из последнего снимка' : ''}</div>}
+          {entries.map(entry => (
+            <div key={entry.requestId} className="flex items-start justify-between gap-2 text-[10px]">
+              <div className="min-w-0">
+                <div className="font-bold text-slate-700 truncate">{describe(entry)}</div>
+                {entry.error
+                  ? <div className="text-red-600">{entry.error}</div>
+                  : <div className="text-slate-400">{entry.attempts > 0 ? `Попыток: ${entry.attempts}` : 'Отправляется'}</div>}
+              </div>
+              {entry.error && <button onClick={() => Outbox.discard(entry.requestId)} className="p-1 rounded hover:bg-red-50 text-red-500 shrink-0" title="Убрать из очереди"><X size={12}/></button>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
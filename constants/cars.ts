@@ -1,60 +1,657 @@
-﻿export const BODY_TYPES = [
-  '╨а╨И╨а┬╡╨а╤Ф╨а┬░╨а╨Е', '╨атАе╨бтАж╨бтАЪ╨а┬▒╨а┬╡╨а╤Ъ', '╨атАе╨бтАж╨бтАЪ╨а┬▒╨а┬╡╨а╤Ъ 3 ╨а╤Ф╨а╨Ж.', '╨атАе╨бтАж╨бтАЪ╨а┬▒╨а┬╡╨а╤Ъ 5 ╨а╤Ф╨а╨Ж.', '╨а┬а╨а╤С╨бтАж╨бтАЪ╨а┬▒╨а┬╡╨а╤Ъ', 
-  '╨атАЩ╨а╨Е╨а┬╡╨а╤Ф╨а╤Х╨б╨В╨а╤Х╨а┬╢╨а╨Е╨а╤С╨а╤Ъ', '╨атАЩ╨а╨Е╨а┬╡╨а╤Ф╨а╤Х╨б╨В╨а╤Х╨а┬╢╨а╨Е╨а╤С╨а╤Ъ 3 ╨а╤Ф╨а╨Ж.', '╨атАЩ╨а╨Е╨а┬╡╨а╤Ф╨а╤Х╨б╨В╨а╤Х╨а┬╢╨а╨Е╨а╤С╨а╤Ъ 5 ╨а╤Ф╨а╨Ж.', '╨атАУ╨а╨Е╨а╤С╨а╨Ж╨а┬╡╨б╨В╨б╨Г╨а┬░╨а┬╗', 
-  '╨а╤Ъ╨б╤У╨а╤Ч╨а┬╡', '╨а╤Ь╨а╤С╨а╨Е╨а╤С╨а╨Ж╨бтАж╨а╨Е', '╨а╤Я╨а╤С╨а╤Ъ╨а┬░╨а╤Ч', '╨а┬а╨а╤С╨а╤Ш╨б╤У╨а┬╖╨а╤С╨а╨Е', '╨атАж╨б╤У╨б╨В╨а┬╢╨а╤Х╨а╨Е', '╨а╤Ъ╨а┬░╨а┬▒╨б╨В╨а╤С╨а╤Х╨а┬╗╨а┬╡╨бтАЪ'
+import type { CarBrandEntry, CarGeneration } from '../types';
+
+/**
+ * Справочник авто для формы заказа: популярные марки с моделями, поколениями и двигателями,
+ * остальные марки — только названием (модель вводится вручную).
+ * Данные локальные: форма и фильтры работают без запросов к бэкенду.
+ */
+
+const SEDAN = 'Седан';
+const HATCH = 'Хэтчбек';
+const HATCH3 = 'Хэтчбек 3 дв.';
+const HATCH5 = 'Хэтчбек 5 дв.';
+const LIFTBACK = 'Лифтбек';
+const SUV = 'Внедорожник';
+const SUV3 = 'Внедорожник 3 дв.';
+const SUV5 = 'Внедорожник 5 дв.';
+const WAGON = 'Универсал';
+const COUPE = 'Купе';
+const MINIVAN = 'Минивэн';
+const PICKUP = 'Пикап';
+const VAN = 'Фургон';
+
+export const BODY_TYPES = [
+  SEDAN, HATCH, HATCH3, HATCH5, LIFTBACK, SUV, SUV3, SUV5, WAGON, COUPE, MINIVAN, PICKUP, 'Лимузин', VAN, 'Кабриолет'
 ];
 
-export const POPULAR_BRANDS = [
-  'Lada (╨атАЩ╨а╤Т╨атАФ)', 'Audi', 'BMW', 'Changan', 'Chery', 'Chevrolet', 'Daewoo', 
-  'Ford', 'Geely', 'Haval', 'Honda', 'Hyundai', 'Jaecoo', 'JETOUR', 'Kia', 
-  'Land Rover', 'Lexus', 'Mazda', 'Mercedes-Benz', 'Mitsubishi', 'Nissan', 
-  'Omoda', 'Opel', 'Peugeot', 'Renault', 'Skoda', 'Subaru', 'TENET', 
-  'Toyota', 'Volkswagen'
+// to = null — поколение выпускается
+const g = (name: string, from: number, to: number | null, bodyTypes: string[], engines: string[]): CarGeneration =>
+  to === null ? { name, from, bodyTypes, engines } : { name, from, to, bodyTypes, engines };
+
+export const CAR_CATALOGUE: CarBrandEntry[] = [
+  {
+    name: 'Lada (ВАЗ)', aliases: ['Lada', 'Лада', 'ВАЗ', 'VAZ', 'АвтоВАЗ'], models: [
+      { name: 'Granta', generations: [
+        g('I', 2011, 2018, [SEDAN, LIFTBACK, HATCH, WAGON], ['1.6 8V 87 л.с.', '1.6 16V 98 л.с.', '1.6 16V 106 л.с.']),
+        g('FL', 2018, null, [SEDAN, LIFTBACK, HATCH, WAGON], ['1.6 8V 90 л.с.', '1.6 16V 98 л.с.', '1.6 16V 106 л.с.'])
+      ] },
+      { name: 'Vesta', generations: [
+        g('I', 2015, 2022, [SEDAN, WAGON], ['1.6 16V 106 л.с.', '1.8 16V 122 л.с.']),
+        g('NG', 2023, null, [SEDAN, WAGON], ['1.6 16V 106 л.с.', '1.8 16V 122 л.с.'])
+      ] },
+      { name: 'Largus', generations: [
+        g('I', 2012, null, [WAGON, VAN], ['1.6 8V 90 л.с.', '1.6 16V 106 л.с.'])
+      ] },
+      { name: 'XRAY', generations: [
+        g('I', 2015, 2022, [HATCH], ['1.6 16V 106 л.с.', '1.8 16V 122 л.с.'])
+      ] },
+      { name: 'Niva Legend', generations: [
+        g('2121 / 2131', 1977, null, [SUV3, SUV5], ['1.7 83 л.с.'])
+      ] },
+      { name: 'Niva Travel', generations: [
+        g('2123', 2002, null, [SUV5], ['1.7 80 л.с.'])
+      ] },
+      { name: 'Priora', generations: [
+        g('I', 2007, 2018, [SEDAN, HATCH, WAGON], ['1.6 16V 98 л.с.', '1.6 16V 106 л.с.'])
+      ] },
+      { name: 'Kalina', generations: [
+        g('I', 2004, 2013, [SEDAN, HATCH, WAGON], ['1.4 16V 89 л.с.', '1.6 8V 81 л.с.']),
+        g('II', 2013, 2018, [HATCH, WAGON], ['1.6 8V 87 л.с.', '1.6 16V 106 л.с.'])
+      ] }
+    ]
+  },
+  {
+    name: 'Audi', models: [
+      { name: 'A3', generations: [
+        g('8P', 2003, 2012, [HATCH3, HATCH5], ['1.4 TFSI', '1.8 TFSI', '2.0 TDI']),
+        g('8V', 2012, 2020, [HATCH5, SEDAN], ['1.4 TFSI', '1.8 TFSI', '2.0 TDI']),
+        g('8Y', 2020, null, [HATCH5, SEDAN], ['1.4 TFSI', '2.0 TFSI'])
+      ] },
+      { name: 'A4', generations: [
+        g('B6/B7', 2000, 2008, [SEDAN, WAGON], ['1.8 T', '2.0 TFSI', '2.5 TDI']),
+        g('B8', 2007, 2015, [SEDAN, WAGON], ['1.8 TFSI', '2.0 TFSI', '2.0 TDI']),
+        g('B9', 2015, null, [SEDAN, WAGON], ['1.4 TFSI', '2.0 TFSI', '2.0 TDI'])
+      ] },
+      { name: 'A6', generations: [
+        g('C6', 2004, 2011, [SEDAN, WAGON], ['2.4', '2.8 FSI', '3.0 TDI']),
+        g('C7', 2011, 2018, [SEDAN, WAGON], ['2.0 TFSI', '3.0 TFSI', '3.0 TDI']),
+        g('C8', 2018, null, [SEDAN, WAGON], ['2.0 TFSI', '3.0 TFSI', '3.0 TDI'])
+      ] },
+      { name: 'Q3', generations: [
+        g('I', 2011, 2018, [SUV], ['1.4 TFSI', '2.0 TFSI']),
+        g('II', 2018, null, [SUV], ['1.4 TFSI', '2.0 TFSI'])
+      ] },
+      { name: 'Q5', generations: [
+        g('I', 2008, 2017, [SUV], ['2.0 TFSI', '2.0 TDI', '3.0 TDI']),
+        g('II', 2017, null, [SUV], ['2.0 TFSI', '2.0 TDI', '3.0 TDI'])
+      ] },
+      { name: 'Q7', generations: [
+        g('I', 2005, 2015, [SUV], ['3.6 FSI', '3.0 TDI', '4.2 FSI']),
+        g('II', 2015, null, [SUV], ['2.0 TFSI', '3.0 TFSI', '3.0 TDI'])
+      ] }
+    ]
+  },
+  {
+    name: 'BMW', models: [
+      { name: '3 Series', generations: [
+        g('E90', 2005, 2012, [SEDAN, WAGON, COUPE], ['2.0 (N46)', '2.5 (N52)', '3.0 (N54)', '2.0d (N47)']),
+        g('F30', 2011, 2019, [SEDAN, WAGON], ['2.0 (N20)', '2.0 (B48)', '3.0 (N55)', '2.0d (B47)']),
+        g('G20', 2018, null, [SEDAN, WAGON], ['2.0 (B48)', '3.0 (B58)', '2.0d (B47)'])
+      ] },
+      { name: '5 Series', generations: [
+        g('E60', 2003, 2010, [SEDAN, WAGON], ['2.5 (N52)', '3.0 (N52)', '3.0d (M57)']),
+        g('F10', 2009, 2017, [SEDAN, WAGON], ['2.0 (N20)', '3.0 (N55)', '4.4 (N63)', '3.0d (N57)']),
+        g('G30', 2016, 2023, [SEDAN, WAGON], ['2.0 (B48)', '3.0 (B58)', '3.0d (B57)'])
+      ] },
+      { name: 'X3', generations: [
+        g('F25', 2010, 2017, [SUV], ['2.0 (N20)', '3.0 (N55)', '2.0d (N47)']),
+        g('G01', 2017, null, [SUV], ['2.0 (B48)', '3.0 (B58)', '2.0d (B47)'])
+      ] },
+      { name: 'X5', generations: [
+        g('E70', 2006, 2013, [SUV], ['3.0 (N52)', '4.8 (N62)', '3.0d (M57)']),
+        g('F15', 2013, 2018, [SUV], ['3.0 (N55)', '4.4 (N63)', '3.0d (N57)']),
+        g('G05', 2018, null, [SUV], ['3.0 (B58)', '4.4 (N63)', '3.0d (B57)'])
+      ] },
+      { name: 'X6', generations: [
+        g('E71', 2008, 2014, [SUV], ['3.0 (N54)', '4.4 (N63)', '3.0d (M57)']),
+        g('F16', 2014, 2019, [SUV], ['3.0 (N55)', '4.4 (N63)', '3.0d (N57)']),
+        g('G06', 2019, null, [SUV], ['3.0 (B58)', '4.4 (N63)', '3.0d (B57)'])
+      ] }
+    ]
+  },
+  {
+    name: 'Changan', models: [
+      { name: 'CS35 Plus', generations: [g('I', 2018, null, [SUV], ['1.4 T', '1.6'])] },
+      { name: 'CS55 Plus', generations: [g('I', 2019, null, [SUV], ['1.5 T'])] },
+      { name: 'CS75 Plus', generations: [g('I', 2019, null, [SUV], ['1.5 T', '2.0 T'])] },
+      { name: 'UNI-K', generations: [g('I', 2020, null, [SUV], ['2.0 T'])] },
+      { name: 'UNI-V', generations: [g('I', 2022, null, [LIFTBACK], ['1.5 T'])] }
+    ]
+  },
+  {
+    name: 'Chery', models: [
+      { name: 'Tiggo 4 Pro', generations: [g('I', 2020, null, [SUV], ['1.5', '1.5 T'])] },
+      { name: 'Tiggo 7 Pro', generations: [g('I', 2020, null, [SUV], ['1.5 T'])] },
+      { name: 'Tiggo 8 Pro', generations: [g('I', 2021, null, [SUV], ['1.6 T', '2.0 T'])] },
+      { name: 'Arrizo 8', generations: [g('I', 2022, null, [SEDAN], ['1.6 T'])] }
+    ]
+  },
+  {
+    name: 'Chevrolet', models: [
+      { name: 'Cruze', generations: [g('J300', 2008, 2016, [SEDAN, HATCH, WAGON], ['1.6', '1.8', '1.4 T'])] },
+      { name: 'Niva', generations: [g('2123', 2002, 2020, [SUV5], ['1.7 80 л.с.'])] },
+      { name: 'Lacetti', generations: [g('J200', 2004, 2013, [SEDAN, HATCH, WAGON], ['1.4', '1.6', '1.8'])] },
+      { name: 'Aveo', generations: [
+        g('T250', 2006, 2011, [SEDAN, HATCH], ['1.2', '1.4']),
+        g('T300', 2011, 2015, [SEDAN, HATCH], ['1.6'])
+      ] },
+      { name: 'Captiva', generations: [g('C100/C140', 2006, 2016, [SUV], ['2.4', '3.0 V6', '2.2 D'])] }
+    ]
+  },
+  {
+    name: 'Daewoo', models: [
+      { name: 'Nexia', generations: [
+        g('N100', 1995, 2008, [SEDAN], ['1.5 8V', '1.5 16V']),
+        g('N150', 2008, 2016, [SEDAN], ['1.5 8V', '1.6 16V'])
+      ] },
+      { name: 'Matiz', generations: [g('M100/M150', 1998, 2015, [HATCH5], ['0.8', '1.0'])] },
+      { name: 'Gentra', generations: [g('I', 2013, 2016, [SEDAN], ['1.5'])] }
+    ]
+  },
+  {
+    name: 'Ford', models: [
+      { name: 'Focus', generations: [
+        g('II', 2004, 2011, [SEDAN, HATCH, WAGON], ['1.6', '1.8', '2.0']),
+        g('III', 2010, 2019, [SEDAN, HATCH, WAGON], ['1.6', '2.0', '1.5 EcoBoost']),
+        g('IV', 2018, null, [HATCH, WAGON], ['1.5 EcoBoost', '2.0 EcoBlue'])
+      ] },
+      { name: 'Mondeo', generations: [
+        g('IV', 2007, 2014, [SEDAN, LIFTBACK, WAGON], ['2.0', '2.3', '2.0 TDCi']),
+        g('V', 2014, 2022, [SEDAN, LIFTBACK, WAGON], ['2.5', '2.0 EcoBoost'])
+      ] },
+      { name: 'Kuga', generations: [
+        g('I', 2008, 2012, [SUV], ['2.5 T', '2.0 TDCi']),
+        g('II', 2012, 2019, [SUV], ['1.6 EcoBoost', '2.5', '2.0 TDCi'])
+      ] },
+      { name: 'Transit', generations: [g('VII', 2013, null, [VAN, MINIVAN], ['2.2 TDCi', '2.0 EcoBlue'])] },
+      { name: 'Explorer', generations: [
+        g('V', 2010, 2019, [SUV], ['3.5 V6', '2.0 EcoBoost']),
+        g('VI', 2019, null, [SUV], ['2.3 EcoBoost', '3.0 EcoBoost'])
+      ] }
+    ]
+  },
+  {
+    name: 'Geely', models: [
+      { name: 'Coolray', generations: [g('SX11', 2019, null, [SUV], ['1.5 T'])] },
+      { name: 'Atlas', generations: [
+        g('NL-3', 2016, 2022, [SUV], ['1.8 T', '2.4']),
+        g('FX11', 2023, null, [SUV], ['2.0 T'])
+      ] },
+      { name: 'Monjaro', generations: [g('KX11', 2021, null, [SUV], ['2.0 T'])] },
+      { name: 'Tugella', generations: [g('FY11', 2019, null, [SUV], ['2.0 T'])] },
+      { name: 'Emgrand', generations: [g('SS11', 2021, null, [SEDAN], ['1.5'])] }
+    ]
+  },
+  {
+    name: 'Haval', models: [
+      { name: 'Jolion', generations: [g('I', 2020, null, [SUV], ['1.5 T'])] },
+      { name: 'F7', generations: [g('I', 2018, null, [SUV], ['1.5 T', '2.0 T'])] },
+      { name: 'H6', generations: [
+        g('II', 2017, 2021, [SUV], ['1.5 T', '2.0 T']),
+        g('III', 2021, null, [SUV], ['1.5 T', '2.0 T'])
+      ] },
+      { name: 'Dargo', generations: [g('I', 2022, null, [SUV], ['2.0 T'])] },
+      { name: 'H9', generations: [g('I', 2014, null, [SUV], ['2.0 T', '2.0 TD'])] }
+    ]
+  },
+  {
+    name: 'Honda', models: [
+      { name: 'CR-V', generations: [
+        g('III', 2006, 2012, [SUV], ['2.0', '2.4']),
+        g('IV', 2012, 2018, [SUV], ['2.0', '2.4']),
+        g('V', 2016, 2022, [SUV], ['1.5 T', '2.0', '2.4'])
+      ] },
+      { name: 'Civic', generations: [
+        g('VIII', 2005, 2011, [SEDAN, HATCH5], ['1.8', '2.0']),
+        g('IX', 2011, 2016, [SEDAN, HATCH5], ['1.8']),
+        g('X', 2015, 2021, [SEDAN, HATCH5], ['1.5 T', '2.0'])
+      ] },
+      { name: 'Accord', generations: [
+        g('VIII', 2007, 2013, [SEDAN], ['2.0', '2.4', '3.5 V6']),
+        g('IX', 2012, 2017, [SEDAN], ['2.4', '3.5 V6'])
+      ] },
+      { name: 'Pilot', generations: [g('III', 2015, 2022, [SUV], ['3.0 V6', '3.5 V6'])] }
+    ]
+  },
+  {
+    name: 'Hyundai', models: [
+      { name: 'Solaris', generations: [
+        g('I', 2010, 2017, [SEDAN, HATCH], ['1.4', '1.6']),
+        g('II', 2017, 2022, [SEDAN], ['1.4', '1.6'])
+      ] },
+      { name: 'Creta', generations: [
+        g('I', 2016, 2021, [SUV], ['1.6', '2.0']),
+        g('II', 2021, null, [SUV], ['1.6', '2.0'])
+      ] },
+      { name: 'Tucson', generations: [
+        g('III', 2015, 2021, [SUV], ['2.0', '1.6 T', '2.0 CRDi']),
+        g('IV', 2020, null, [SUV], ['2.0', '2.5'])
+      ] },
+      { name: 'Santa Fe', generations: [
+        g('III', 2012, 2018, [SUV], ['2.4', '2.2 CRDi']),
+        g('IV', 2018, 2023, [SUV], ['2.4', '3.5 V6', '2.2 CRDi'])
+      ] },
+      { name: 'Elantra', generations: [
+        g('VI', 2015, 2020, [SEDAN], ['1.6', '2.0']),
+        g('VII', 2020, null, [SEDAN], ['1.6', '2.0'])
+      ] }
+    ]
+  },
+  {
+    name: 'Jaecoo', models: [
+      { name: 'J7', generations: [g('I', 2023, null, [SUV], ['1.6 T', '1.5 PHEV'])] },
+      { name: 'J8', generations: [g('I', 2024, null, [SUV], ['2.0 T'])] }
+    ]
+  },
+  {
+    name: 'JETOUR', models: [
+      { name: 'X70', generations: [g('I', 2018, null, [SUV], ['1.5 T', '1.6 T'])] },
+      { name: 'X90 Plus', generations: [g('I', 2021, null, [SUV], ['1.6 T', '2.0 T'])] },
+      { name: 'Dashing', generations: [g('I', 2022, null, [SUV], ['1.5 T', '1.6 T'])] },
+      { name: 'T2', generations: [g('I', 2023, null, [SUV], ['2.0 T'])] }
+    ]
+  },
+  {
+    name: 'Kia', models: [
+      { name: 'Rio', generations: [
+        g('III', 2011, 2017, [SEDAN, HATCH], ['1.4', '1.6']),
+        g('IV', 2017, null, [SEDAN, HATCH], ['1.4', '1.6'])
+      ] },
+      { name: 'Sportage', generations: [
+        g('III', 2010, 2016, [SUV], ['2.0', '2.0 CRDi']),
+        g('IV', 2016, 2022, [SUV], ['2.0', '2.4', '1.6 T']),
+        g('V', 2021, null, [SUV], ['2.0', '2.5'])
+      ] },
+      { name: 'Ceed', generations: [
+        g('I', 2006, 2012, [HATCH, WAGON], ['1.4', '1.6']),
+        g('II', 2012, 2018, [HATCH, WAGON], ['1.4', '1.6']),
+        g('III', 2018, null, [HATCH, WAGON], ['1.6', '1.4 T'])
+      ] },
+      { name: 'K5', generations: [g('DL3', 2020, null, [SEDAN], ['2.0', '2.5'])] },
+      { name: 'Sorento', generations: [
+        g('II', 2009, 2015, [SUV], ['2.4', '2.2 CRDi']),
+        g('III', 2014, 2020, [SUV], ['2.4', '3.5 V6', '2.2 CRDi']),
+        g('IV', 2020, null, [SUV], ['2.5', '2.2 CRDi'])
+      ] }
+    ]
+  },
+  {
+    name: 'Land Rover', models: [
+      { name: 'Range Rover', generations: [
+        g('L322', 2002, 2012, [SUV], ['4.4 V8', '5.0 V8', '3.6 TDV8']),
+        g('L405', 2012, 2022, [SUV], ['3.0 V6', '5.0 V8', '3.0 SDV6', '4.4 SDV8']),
+        g('L460', 2021, null, [SUV], ['3.0 P400', '4.4 P530', '3.0 D350'])
+      ] },
+      { name: 'Range Rover Sport', generations: [
+        g('L320', 2005, 2013, [SUV], ['4.2 V8', '5.0 V8', '3.0 TDV6']),
+        g('L494', 2013, 2022, [SUV], ['3.0 V6', '5.0 V8', '3.0 SDV6']),
+        g('L461', 2022, null, [SUV], ['3.0 P400', '3.0 D300'])
+      ] },
+      { name: 'Range Rover Evoque', generations: [
+        g('L538', 2011, 2018, [SUV], ['2.0 Si4', '2.2 SD4']),
+        g('L551', 2018, null, [SUV], ['2.0 P200', '2.0 D180'])
+      ] },
+      { name: 'Discovery', generations: [
+        g('3', 2004, 2009, [SUV], ['4.4 V8', '2.7 TDV6']),
+        g('4', 2009, 2016, [SUV], ['5.0 V8', '3.0 SDV6']),
+        g('5', 2016, null, [SUV], ['3.0 Si6', '3.0 SDV6'])
+      ] },
+      { name: 'Defender', generations: [g('L663', 2019, null, [SUV3, SUV5], ['2.0 P300', '3.0 P400', '3.0 D300'])] }
+    ]
+  },
+  {
+    name: 'Lexus', models: [
+      { name: 'RX', generations: [
+        g('AL10', 2008, 2015, [SUV], ['2.7', '3.5 V6', '3.5 V6 гибрид']),
+        g('AL20', 2015, 2022, [SUV], ['2.0 T', '3.5 V6', '3.5 V6 гибрид']),
+        g('ALA10', 2022, null, [SUV], ['2.4 T', '2.5 гибрид'])
+      ] },
+      { name: 'NX', generations: [
+        g('AZ10', 2014, 2021, [SUV], ['2.0', '2.0 T', '2.5 гибрид']),
+        g('AZ20', 2021, null, [SUV], ['2.0', '2.4 T', '2.5 гибрид'])
+      ] },
+      { name: 'LX', generations: [
+        g('J200', 2007, 2021, [SUV], ['5.7 V8', '4.5 V8 TD']),
+        g('J310', 2021, null, [SUV], ['3.5 V6 T', '3.3 V6 TD'])
+      ] },
+      { name: 'ES', generations: [g('XZ10', 2018, null, [SEDAN], ['2.0', '2.5', '3.5 V6'])] }
+    ]
+  },
+  {
+    name: 'Mazda', models: [
+      { name: '3', generations: [
+        g('BL', 2009, 2013, [SEDAN, HATCH], ['1.6', '2.0']),
+        g('BM', 2013, 2019, [SEDAN, HATCH], ['1.5', '1.6', '2.0']),
+        g('BP', 2019, null, [SEDAN, HATCH], ['1.5', '2.0'])
+      ] },
+      { name: '6', generations: [
+        g('GH', 2007, 2013, [SEDAN, LIFTBACK, WAGON], ['1.8', '2.0', '2.5']),
+        g('GJ', 2012, null, [SEDAN, WAGON], ['2.0', '2.5', '2.5 T'])
+      ] },
+      { name: 'CX-5', generations: [
+        g('KE', 2011, 2017, [SUV], ['2.0', '2.5', '2.2 D']),
+        g('KF', 2017, null, [SUV], ['2.0', '2.5', '2.5 T'])
+      ] },
+      { name: 'CX-9', generations: [g('TC', 2016, 2023, [SUV], ['2.5 T'])] }
+    ]
+  },
+  {
+    name: 'Mercedes-Benz', aliases: ['Mercedes', 'Мерседес'], models: [
+      { name: 'A-Class', generations: [
+        g('W176', 2012, 2018, [HATCH5], ['1.6', '2.0']),
+        g('W177', 2018, null, [HATCH5, SEDAN], ['1.3', '2.0'])
+      ] },
+      { name: 'C-Class', generations: [
+        g('W203', 2000, 2007, [SEDAN, WAGON, COUPE], ['1.8 K', '2.6', '3.2']),
+        g('W204', 2007, 2014, [SEDAN, WAGON, COUPE], ['1.8', '3.0', '3.5', '2.1 CDI']),
+        g('W205', 2014, 2021, [SEDAN, WAGON, COUPE], ['1.6', '2.0', '3.0', '2.1 CDI']),
+        g('W206', 2021, null, [SEDAN, WAGON], ['1.5', '2.0', '2.0 d'])
+      ] },
+      { name: 'E-Class', generations: [
+        g('W211', 2002, 2009, [SEDAN, WAGON], ['1.8 K', '3.5', '5.0', '3.0 CDI']),
+        g('W212', 2009, 2016, [SEDAN, WAGON], ['1.8', '2.0', '3.5', '2.1 CDI', '3.0 CDI']),
+        g('W213', 2016, 2023, [SEDAN, WAGON], ['2.0', '3.0', '2.0 d', '3.0 d']),
+        g('W214', 2023, null, [SEDAN, WAGON], ['2.0', '3.0', '2.0 d'])
+      ] },
+      { name: 'S-Class', generations: [
+        g('W220', 1998, 2005, [SEDAN], ['3.7', '5.0', '4.0 CDI']),
+        g('W221', 2005, 2013, [SEDAN], ['3.5', '5.5', '3.0 CDI']),
+        g('W222', 2013, 2020, [SEDAN], ['3.0', '4.7', '3.0 d']),
+        g('W223', 2020, null, [SEDAN], ['3.0', '4.0', '3.0 d'])
+      ] },
+      { name: 'ML', generations: [
+        g('W164', 2005, 2011, [SUV], ['3.5', '5.5', '3.0 CDI']),
+        g('W166', 2011, 2015, [SUV], ['3.5', '4.7', '2.1 CDI', '3.0 CDI'])
+      ] },
+      { name: 'GLE', generations: [
+        g('W166', 2015, 2019, [SUV, COUPE], ['3.0', '2.1 d', '3.0 d']),
+        g('W167', 2018, null, [SUV, COUPE], ['2.0', '3.0', '2.0 d', '3.0 d'])
+      ] },
+      { name: 'GLC', generations: [
+        g('X253', 2015, 2022, [SUV, COUPE], ['2.0', '2.1 d', '2.0 d']),
+        g('X254', 2022, null, [SUV, COUPE], ['2.0', '2.0 d'])
+      ] },
+      { name: 'GLA', generations: [
+        g('X156', 2013, 2019, [SUV], ['1.6', '2.0', '2.1 d']),
+        g('H247', 2019, null, [SUV], ['1.3', '2.0'])
+      ] },
+      { name: 'G-Class', generations: [g('W463', 1990, null, [SUV], ['4.0 V8', '5.5 V8', '3.0 d', '3.0 CDI'])] }
+    ]
+  },
+  {
+    name: 'Mitsubishi', models: [
+      { name: 'Outlander', generations: [
+        g('II', 2005, 2012, [SUV], ['2.0', '2.4', '3.0 V6']),
+        g('III', 2012, 2021, [SUV], ['2.0', '2.4', '3.0 V6']),
+        g('IV', 2021, null, [SUV], ['2.5'])
+      ] },
+      { name: 'Pajero', generations: [g('IV', 2006, 2021, [SUV3, SUV5], ['3.0 V6', '3.8 V6', '3.2 DI-D'])] },
+      { name: 'Pajero Sport', generations: [
+        g('II', 2008, 2016, [SUV], ['3.0 V6', '2.5 DI-D']),
+        g('III', 2015, null, [SUV], ['3.0 V6', '2.4 DI-D'])
+      ] },
+      { name: 'ASX', generations: [g('I', 2010, 2023, [SUV], ['1.6', '1.8', '2.0'])] },
+      { name: 'Lancer', generations: [g('X', 2007, 2017, [SEDAN, HATCH], ['1.5', '1.8', '2.0'])] },
+      { name: 'L200', generations: [g('V', 2015, null, [PICKUP], ['2.4 DI-D'])] }
+    ]
+  },
+  {
+    name: 'Nissan', models: [
+      { name: 'Qashqai', generations: [
+        g('J10', 2006, 2013, [SUV], ['1.6', '2.0']),
+        g('J11', 2013, 2021, [SUV], ['1.2 T', '2.0', '1.5 dCi']),
+        g('J12', 2021, null, [SUV], ['1.3 T'])
+      ] },
+      { name: 'X-Trail', generations: [
+        g('T31', 2007, 2014, [SUV], ['2.0', '2.5', '2.0 dCi']),
+        g('T32', 2013, 2022, [SUV], ['2.0', '2.5', '1.6 dCi']),
+        g('T33', 2021, null, [SUV], ['1.5 T', '2.5'])
+      ] },
+      { name: 'Almera', generations: [g('G15', 2012, 2018, [SEDAN], ['1.6'])] },
+      { name: 'Teana', generations: [
+        g('J32', 2008, 2014, [SEDAN], ['2.5', '3.5 V6']),
+        g('L33', 2014, 2020, [SEDAN], ['2.5', '3.5 V6'])
+      ] },
+      { name: 'Juke', generations: [
+        g('F15', 2010, 2019, [SUV], ['1.6', '1.6 T']),
+        g('F16', 2019, null, [SUV], ['1.0 T'])
+      ] }
+    ]
+  },
+  {
+    name: 'Omoda', models: [
+      { name: 'C5', generations: [g('I', 2022, null, [SUV], ['1.5 T', '1.6 T'])] },
+      { name: 'S5', generations: [g('I', 2023, null, [SEDAN], ['1.5', '1.5 T'])] }
+    ]
+  },
+  {
+    name: 'Opel', models: [
+      { name: 'Astra', generations: [
+        g('H', 2004, 2014, [SEDAN, HATCH, WAGON], ['1.4', '1.6', '1.8']),
+        g('J', 2009, 2017, [SEDAN, HATCH, WAGON], ['1.4 T', '1.6', '1.8']),
+        g('K', 2015, 2022, [HATCH, WAGON], ['1.0 T', '1.4 T', '1.6 CDTi'])
+      ] },
+      { name: 'Corsa', generations: [
+        g('D', 2006, 2014, [HATCH3, HATCH5], ['1.2', '1.4']),
+        g('E', 2014, 2019, [HATCH3, HATCH5], ['1.2', '1.4', '1.0 T']),
+        g('F', 2019, null, [HATCH5], ['1.2', '1.2 T'])
+      ] },
+      { name: 'Insignia', generations: [
+        g('A', 2008, 2017, [SEDAN, LIFTBACK, WAGON], ['1.6 T', '1.8', '2.0 T', '2.0 CDTi']),
+        g('B', 2017, 2022, [LIFTBACK, WAGON], ['1.5 T', '2.0 T', '2.0 CDTi'])
+      ] },
+      { name: 'Zafira', generations: [
+        g('B', 2005, 2014, [MINIVAN], ['1.6', '1.8', '1.9 CDTi']),
+        g('C', 2011, 2019, [MINIVAN], ['1.4 T', '1.8', '2.0 CDTi'])
+      ] },
+      { name: 'Mokka', generations: [g('I', 2012, 2019, [SUV], ['1.4 T', '1.8'])] }
+    ]
+  },
+  {
+    name: 'Peugeot', models: [
+      { name: '206', generations: [g('I', 1998, 2012, [HATCH3, HATCH5, SEDAN], ['1.4', '1.6'])] },
+      { name: '308', generations: [
+        g('T7', 2007, 2014, [HATCH, WAGON], ['1.6', '1.6 THP']),
+        g('T9', 2013, 2021, [HATCH, WAGON], ['1.2 PureTech', '1.6 THP', '1.6 BlueHDi'])
+      ] },
+      { name: '408', generations: [g('I', 2010, 2022, [SEDAN], ['1.6', '1.6 THP', '1.6 HDi'])] },
+      { name: '3008', generations: [
+        g('I', 2009, 2016, [SUV], ['1.6', '1.6 THP']),
+        g('II', 2016, null, [SUV], ['1.6 THP', '2.0 BlueHDi'])
+      ] },
+      { name: 'Partner', generations: [
+        g('II', 2008, 2018, [VAN, MINIVAN], ['1.6', '1.6 HDi']),
+        g('III', 2018, null, [VAN, MINIVAN], ['1.6 BlueHDi'])
+      ] }
+    ]
+  },
+  {
+    name: 'Renault', models: [
+      { name: 'Logan', generations: [
+        g('I', 2004, 2015, [SEDAN], ['1.4', '1.6 8V', '1.6 16V']),
+        g('II', 2014, 2022, [SEDAN], ['1.6 8V', '1.6 16V'])
+      ] },
+      { name: 'Sandero', generations: [
+        g('I', 2009, 2014, [HATCH], ['1.4', '1.6 8V', '1.6 16V']),
+        g('II', 2014, 2022, [HATCH], ['1.6 8V', '1.6 16V'])
+      ] },
+      { name: 'Duster', generations: [
+        g('I', 2010, 2021, [SUV], ['1.6', '2.0', '1.5 dCi']),
+        g('II', 2020, null, [SUV], ['1.3 T', '1.6', '1.5 dCi'])
+      ] },
+      { name: 'Kaptur', generations: [g('I', 2016, 2022, [SUV], ['1.6', '2.0', '1.3 T'])] },
+      { name: 'Arkana', generations: [g('I', 2019, 2022, [SUV], ['1.6', '1.3 T'])] }
+    ]
+  },
+  {
+    name: 'Skoda', aliases: ['Škoda', 'Шкода'], models: [
+      { name: 'Octavia', generations: [
+        g('A5', 2004, 2013, [LIFTBACK, WAGON], ['1.4', '1.6', '1.8 TSI', '2.0 TDI']),
+        g('A7', 2012, 2020, [LIFTBACK, WAGON], ['1.4 TSI', '1.6', '1.8 TSI', '2.0 TDI']),
+        g('A8', 2019, null, [LIFTBACK, WAGON], ['1.4 TSI', '1.6', '2.0 TSI'])
+      ] },
+      { name: 'Rapid', generations: [
+        g('I', 2012, 2020, [LIFTBACK], ['1.4 TSI', '1.6']),
+        g('II', 2019, null, [LIFTBACK], ['1.4 TSI', '1.6'])
+      ] },
+      { name: 'Superb', generations: [
+        g('II', 2008, 2015, [LIFTBACK, WAGON], ['1.4 TSI', '1.8 TSI', '3.6 FSI']),
+        g('III', 2015, null, [LIFTBACK, WAGON], ['1.4 TSI', '2.0 TSI', '2.0 TDI'])
+      ] },
+      { name: 'Fabia', generations: [
+        g('II', 2007, 2014, [HATCH, WAGON], ['1.2', '1.4', '1.6']),
+        g('III', 2014, 2021, [HATCH, WAGON], ['1.0', '1.2 TSI', '1.4'])
+      ] },
+      { name: 'Yeti', generations: [g('I', 2009, 2018, [SUV], ['1.2 TSI', '1.4 TSI', '1.8 TSI'])] },
+      { name: 'Kodiaq', generations: [g('I', 2016, null, [SUV], ['1.4 TSI', '2.0 TSI', '2.0 TDI'])] },
+      { name: 'Karoq', generations: [g('I', 2017, null, [SUV], ['1.4 TSI', '1.5 TSI'])] }
+    ]
+  },
+  {
+    name: 'Subaru', models: [
+      { name: 'Forester', generations: [
+        g('SH', 2007, 2013, [SUV], ['2.0', '2.5', '2.5 T']),
+        g('SJ', 2012, 2018, [SUV], ['2.0', '2.5', '2.0 T']),
+        g('SK', 2018, null, [SUV], ['2.0', '2.5'])
+      ] },
+      { name: 'Outback', generations: [
+        g('BR', 2009, 2014, [WAGON], ['2.5', '3.6']),
+        g('BS', 2014, 2020, [WAGON], ['2.5', '3.6']),
+        g('BT', 2019, null, [WAGON], ['2.5', '2.4 T'])
+      ] },
+      { name: 'XV', generations: [
+        g('GP', 2011, 2017, [SUV], ['1.6', '2.0']),
+        g('GT', 2017, 2023, [SUV], ['1.6', '2.0'])
+      ] },
+      { name: 'Impreza', generations: [
+        g('GH/GE', 2007, 2011, [SEDAN, HATCH], ['1.5', '2.0', '2.5 T']),
+        g('GP/GJ', 2011, 2016, [SEDAN, HATCH], ['1.6', '2.0'])
+      ] }
+    ]
+  },
+  {
+    name: 'TENET', models: [
+      { name: 'T4', generations: [g('I', 2024, null, [SUV], ['1.5 T'])] },
+      { name: 'T7', generations: [g('I', 2024, null, [SUV], ['1.6 T'])] },
+      { name: 'T8', generations: [g('I', 2025, null, [SUV], ['2.0 T'])] }
+    ]
+  },
+  {
+    name: 'Toyota', aliases: ['Тойота'], models: [
+      { name: 'Camry', generations: [
+        g('XV40', 2006, 2011, [SEDAN], ['2.4', '3.5 V6']),
+        g('XV50', 2011, 2018, [SEDAN], ['2.0', '2.5', '3.5 V6']),
+        g('XV70', 2017, 2024, [SEDAN], ['2.0', '2.5', '3.5 V6']),
+        g('XV80', 2024, null, [SEDAN], ['2.5 гибрид'])
+      ] },
+      { name: 'Corolla', generations: [
+        g('E150', 2006, 2013, [SEDAN], ['1.4', '1.6', '1.8']),
+        g('E180', 2012, 2019, [SEDAN], ['1.3', '1.6', '1.8']),
+        g('E210', 2018, null, [SEDAN, HATCH, WAGON], ['1.6', '1.8 гибрид', '2.0'])
+      ] },
+      { name: 'RAV4', generations: [
+        g('XA30', 2005, 2012, [SUV], ['2.0', '2.4']),
+        g('XA40', 2012, 2019, [SUV], ['2.0', '2.5', '2.2 D-4D']),
+        g('XA50', 2018, null, [SUV], ['2.0', '2.5', '2.5 гибрид'])
+      ] },
+      { name: 'Land Cruiser', generations: [
+        g('100', 1998, 2007, [SUV], ['4.7 V8', '4.2 TD']),
+        g('200', 2007, 2021, [SUV], ['4.6 V8', '4.7 V8', '4.5 V8 D-4D']),
+        g('300', 2021, null, [SUV], ['3.5 V6 T', '3.3 V6 TD'])
+      ] },
+      { name: 'Land Cruiser Prado', generations: [
+        g('120', 2002, 2009, [SUV3, SUV5], ['2.7', '4.0 V6', '3.0 D-4D']),
+        g('150', 2009, 2024, [SUV3, SUV5], ['2.7', '4.0 V6', '2.8 D-4D', '3.0 D-4D']),
+        g('250', 2024, null, [SUV], ['2.4 T', '2.8 D-4D'])
+      ] }
+    ]
+  },
+  {
+    name: 'Volkswagen', aliases: ['VW', 'Фольксваген'], models: [
+      { name: 'Golf', generations: [
+        g('V', 2003, 2009, [HATCH3, HATCH5, WAGON], ['1.4', '1.6', '1.4 TSI', '1.9 TDI']),
+        g('VI', 2008, 2013, [HATCH3, HATCH5, WAGON], ['1.4', '1.6', '1.4 TSI', '2.0 TDI']),
+        g('VII', 2012, 2020, [HATCH5, WAGON], ['1.2 TSI', '1.4 TSI', '1.6', '2.0 TDI']),
+        g('VIII', 2019, null, [HATCH5, WAGON], ['1.0 TSI', '1.4 TSI', '2.0 TDI'])
+      ] },
+      { name: 'Jetta', generations: [
+        g('V', 2005, 2010, [SEDAN], ['1.6', '1.4 TSI', '1.9 TDI']),
+        g('VI', 2010, 2018, [SEDAN], ['1.4 TSI', '1.6', '2.0']),
+        g('VII', 2018, null, [SEDAN], ['1.4 TSI', '1.6'])
+      ] },
+      { name: 'Polo', generations: [
+        g('V', 2009, 2020, [SEDAN, HATCH], ['1.4 TSI', '1.6']),
+        g('VI', 2020, null, [LIFTBACK, HATCH], ['1.4 TSI', '1.6'])
+      ] },
+      { name: 'Passat', generations: [
+        g('B6/B7', 2005, 2015, [SEDAN, WAGON], ['1.4 TSI', '1.8 TSI', '2.0 TSI', '2.0 TDI']),
+        g('B8', 2014, null, [SEDAN, WAGON], ['1.4 TSI', '1.8 TSI', '2.0 TSI', '2.0 TDI'])
+      ] },
+      { name: 'Tiguan', generations: [
+        g('I', 2007, 2016, [SUV], ['1.4 TSI', '2.0 TSI', '2.0 TDI']),
+        g('II', 2016, 2024, [SUV], ['1.4 TSI', '2.0 TSI', '2.0 TDI'])
+      ] },
+      { name: 'Touareg', generations: [
+        g('I', 2002, 2010, [SUV], ['3.2 V6', '3.6 V6', '2.5 TDI', '3.0 TDI']),
+        g('II', 2010, 2018, [SUV], ['3.6 V6', '3.0 TDI', '4.2 TDI']),
+        g('III', 2018, null, [SUV], ['2.0 TSI', '3.0 TSI', '3.0 TDI'])
+      ] },
+      { name: 'Caddy', generations: [
+        g('III', 2004, 2020, [VAN, MINIVAN], ['1.2 TSI', '1.6', '2.0 TDI']),
+        g('IV', 2020, null, [VAN, MINIVAN], ['1.5 TSI', '2.0 TDI'])
+      ] }
+    ]
+  }
 ];
 
-export const ALL_BRANDS = [
-  'Abarth', 'AC', 'Acura', 'Adam', 'Adler', 'Aito', 'Aiways', 'Aixam', 'Alfa Romeo', 'Alpina', 
-  'Alpine', 'AM General', 'Ambertruck', 'AMC', 'Apal', 'Arcfox', 'Ariel', 'Aro', 'Asia', 'Aston Martin', 
-  'Auburn', 'Audi', 'Aurus', 'Austin', 'Austin Healey', 'Auto Union', 'Autobianchi', 'Avatr', 'BAIC', 
-  'Bajaj', 'Baltijas Dzips', 'Baojun', 'Batmobile', 'BAW', 'Belgee', 'Bentley', 'Bertone', 'Bestune', 
-  'Bilenkin', 'Bio Auto', 'Bitter', 'Blaval', 'BMW', 'Borgward', 'Brabus', 'Brilliance', 'Bristol', 
-  'Bufori', 'Bugatti', 'Buick', 'BYD', 'Byvin', 'Cadillac', 'Callaway', 'Carbodies', 'Caterham', 'Chana', 
-  'Changan', 'Changfeng', 'Changhe', 'Chery', 'Chevrolet', 'Chrysler', 'Ciimo (Dongfeng-Honda)', 
-  'Citroen', 'Cizeta', 'Coda', 'Coggiola', 'Cord', 'Cowin', 'Cupra', 'Dacia', 'Dadi', 'Daewoo', 
-  'Daihatsu', 'Daimler', 'Dallara', 'Datsun', 'Dayun', 'De Tomaso', 'Deco Rides', 'Delage', 'DeLorean', 
-  'Denza', 'Derways', 'DeSoto', 'DKW', 'Dodge', 'Dongfeng', 'Doninvest', 'Donkervoort', 'DR', 'DS', 
-  'DW Hower', 'E-Car', 'Eagle', 'Eagle Cars', 'Enovate (Enoreve)', 'Eonyx', 'Everus', 'Evolute', 
-  'Excalibur', 'Exeed', 'Facel Vega', 'FAW', 'Ferrari', 'Fiat', 'Fisker', 'Flanker', 'Ford', 'Forthing', 
-  'Foton', 'Franklin', 'FSO', 'FSR', 'Fuqi', 'GAC', 'GAC Aion', 'GAC Trumpchi', 'Geely', 'Genesis', 'Geo', 
-  'GMA', 'GMC', 'Goggomobil', 'Gonow', 'Gordon', 'GP', 'Great Wall', 'Hafei', 'Haima', 'Hanomag', 
-  'Hanteng', 'Haval', 'Hawtai', 'Hedmos', 'Heinkel', 'Hennessey', 'Hindustan', 'HiPhi', 'Hispano-Suiza', 
-  'Holden', 'Honda', 'Hongqi', 'Horch', 'Hozon', 'HSV', 'Huaihai (Hoann)', 'HuangHai', 'Huazi', 
-  'Hudson', 'Humber', 'Hummer', 'Hycan', 'Hyperion', 'Hyundai', 'iCar', 'iCaur', 'IM Motors (Zhiji)', 
-  'Ineos', 'Infiniti', 'Innocenti', 'International Harvester', 'Invicta', 'Iran Khodro', 'Isdera', 
-  'Isuzu', 'Iveco', 'JAC', 'Jaecoo', 'Jaguar', 'Jeep', 'Jensen', 'JETOUR', 'Jetta', 'Jiangnan', 'Jidu', 
-  'Jinbei', 'JMC', 'JMEV', 'Jonway', 'Kaiyi', 'Karma', 'Kawei', 'KGM', 'Kia', 'Knewstar', 'Koenigsegg', 
-  'KTM AG', 'KYC', 'Lada (╨атАЩ╨а╤Т╨атАФ)', 'Lamborghini', 'Lancia', 'Land Rover', 'Landwind', 'Leapmotor', 
-  'Letin', 'LEVC', 'Lexus', 'Li Auto (Lixiang)', 'Liebao Motor', 'Lifan', 'Ligier', 'Lincoln', 'Lingxi', 
-  'Livan', 'Logem', 'Lotus', 'LTI', 'Lucid', 'Luxeed', 'Luxgen', 'Lynk & Co', 'M-Hero', 'Maextro', 
-  'Mahindra', 'Maple', 'Marcos', 'Marlin', 'Marussia', 'Maruti', 'Maserati', 'Matra', 'Maxus', 'Maybach', 
-  'Mazda', 'McLaren', 'Mega', 'Mercedes-Benz', 'Mercury', 'Merkur', 'Messerschmitt', 'Metrocab', 'MG', 
-  'Micro', 'Microcar', 'Minelli', 'Mini', 'Mitsubishi', 'Mitsuoka', 'Mobilize', 'Morgan', 'Morris', 
-  'Nash', 'Nio', 'Nissan', 'Noble', 'Nordcross', 'Oldsmobile', 'Oltcit', 'Omoda', 'Opel', 'Ora', 
-  'Orange', 'Osca', 'Oshan', 'Oting', 'Overland', 'Packard', 'Pagani', 'Panoz', 'Perodua', 'Peugeot', 
-  'PGO', 'Piaggio', 'Pierce-Arrow', 'Plymouth', 'Polar Stone (Jishi)', 'Polestar', 'Pontiac', 'Porsche', 
-  'Premier', 'Proton', 'Puch', 'Puma', 'Punk', 'Qiantu', 'Qingling', 'Qoros', 'Qvale', 'Radar', 
-  'Radford', 'Ram', 'Ravon', 'Rayton Fissore', 'Reliant', 'Renaissance', 'Renault', 'Renault Samsung', 
-  'Rezvani', 'Rimac', 'Rinspeed', 'Rising Auto', 'Rivian', 'Roewe', 'Rolls-Royce', 'Ronart', 'Rossa', 
-  'Rover', 'Rox', 'Saab', 'SAIC', 'Saipa', 'Saleen', 'Sandstorm', 'Santana', 'Saturn', 'Scion', 'Scout', 
-  'Sears', 'SEAT', 'Seres', 'Shanghai Maple', 'ShuangHuan', 'Simca', 'Skoda', 'Skywell', 'Skyworth', 
-  'Smart', 'Solaris', 'Sollers', 'Soueast', 'Spectre', 'Spyker', 'SsangYong', 'Stelato', 'Steyr', 
-  'Studebaker', 'Subaru', 'Suzuki', 'SWM', 'Talbot', 'Tank', 'Tata', 'Tatra', 'Tazzari', 'TENET', 
-  'Tesla', 'Thairung', 'Think', 'Tianma', 'Tianye', 'Tofas', 'Toyota', 'Trabant', 'Tramontana', 
-  'Triumph', 'TVR', 'Ultima', 'Vauxhall', 'Vector', 'Venturi', 'Venucia', 'VGV', 'VinFast', 'Volga', 
-  'Volkswagen', 'Volvo', 'Vortex', 'Voyah', 'VUHL', 'W Motors', 'Wanderer', 'Wartburg', 'Weltmeister', 
-  'Westfield', 'Wey', 'Wiesmann', 'Willys', 'Wuling', 'Xcite', 'XEV', 'Xiaomi', 'Xin Kai', 'Xpeng', 
-  'Yema', 'Yipai', 'Yudo', 'Yulon', 'Zastava', 'Zeekr', 'Zenos', 'Zenvo', 'Zhido', 'Zibar', 'Zotye', 
-  'Zubr', 'ZX', '╨а╤Т╨а╨Ж╨бтАЪ╨а╤Х╨а╤Ф╨а┬░╨а╤Ш', '╨а╤Т╨а╤Ш╨а┬▒╨а┬╡╨б╨В╨а┬░╨а╨Ж╨бтАЪ╨а╤Х', '╨а╤Т╨бтАЪ╨а╤Х╨а╤Ш', '╨атАЬ╨а╤Т╨атАФ', '╨атАФ╨а╤Т╨атАФ', '╨атАФ╨а╨атА║', '╨атАФ╨а╤С╨а╨О', '╨а╨а┬╢', '╨а╤Щ╨а┬░╨а╨Е╨а╤Х╨а╨Е╨а╤С╨б╨В', 
-  '╨а╤Щ╨а╤Х╨а╤Ш╨а┬▒╨а┬░╨бтАЪ', '╨атА║╨б╤У╨а╤Т╨атАФ', '╨а╤Ъ╨а╤Х╨б╨Г╨а╤Ф╨а╨Ж╨а╤С╨бтАб', '╨а┬а╨б╤У╨б╨Г╨б╨Г╨а╤Х-╨атАШ╨а┬░╨а┬╗╨бтАЪ', '╨а╨О╨а╤Ъ╨атАФ', '╨а╨О╨а╤Ч╨а╤Х╨б╨В╨бтАЪ╨а╤С╨а╨Ж╨а╨Е╨бтА╣╨а┬╡ ╨а┬░╨а╨Ж╨бтАЪ╨а╤Х ╨а╤С ╨б╨В╨а┬╡╨а╤Ч╨а┬╗╨а╤С╨а╤Ф╨а╤С', 
-  '╨а╤Ю╨а┬░╨а╤Ц╨а╤Т╨атАФ', '╨а╨И╨а╤Т╨атАФ', '╨а╨З╨а╨Е╨а╥С╨а┬╡╨а╤Ф╨б╨Г ╨а┬а╨а╤Х╨а╨Ж╨а┬╡╨б╨В', '╨а╨Г-╨а╤Ш╨а╤Х╨а┬▒╨а╤С╨а┬╗╨б╨К'
+// Остальные марки: модель вводится вручную
+export const OTHER_BRANDS = [
+  'Abarth', 'AC', 'Acura', 'Adam', 'Adler', 'Aito', 'Aiways', 'Aixam', 'Alfa Romeo', 'Alpina',
+  'Alpine', 'AM General', 'Ambertruck', 'AMC', 'Apal', 'Arcfox', 'Ariel', 'Aro', 'Asia', 'Aston Martin',
+  'Auburn', 'Aurus', 'Austin', 'Austin Healey', 'Auto Union', 'Autobianchi', 'Avatr', 'BAIC', 'Bajaj', 'Baltijas Dzips',
+  'Baojun', 'Batmobile', 'BAW', 'Belgee', 'Bentley', 'Bertone', 'Bestune', 'Bilenkin', 'Bio Auto', 'Bitter',
+  'Blaval', 'Borgward', 'Brabus', 'Brilliance', 'Bristol', 'Bufori', 'Bugatti', 'Buick', 'BYD', 'Byvin',
+  'Cadillac', 'Callaway', 'Carbodies', 'Caterham', 'Chana', 'Changfeng', 'Changhe', 'Chrysler', 'Ciimo (Dongfeng-Honda)', 'Citroen',
+  'Cizeta', 'Coda', 'Coggiola', 'Cord', 'Cowin', 'Cupra', 'Dacia', 'Dadi', 'Daihatsu', 'Daimler',
+  'Dallara', 'Datsun', 'Dayun', 'De Tomaso', 'Deco Rides', 'Delage', 'DeLorean', 'Denza', 'Derways', 'DeSoto',
+  'DKW', 'Dodge', 'Dongfeng', 'Doninvest', 'Donkervoort', 'DR', 'DS', 'DW Hower', 'E-Car', 'Eagle',
+  'Eagle Cars', 'Enovate (Enoreve)', 'Eonyx', 'Everus', 'Evolute', 'Excalibur', 'Exeed', 'Facel Vega', 'FAW', 'Ferrari',
+  'Fiat', 'Fisker', 'Flanker', 'Forthing', 'Foton', 'Franklin', 'FSO', 'FSR', 'Fuqi', 'GAC',
+  'GAC Aion', 'GAC Trumpchi', 'Genesis', 'Geo', 'GMA', 'GMC', 'Goggomobil', 'Gonow', 'Gordon', 'GP',
+  'Great Wall', 'Hafei', 'Haima', 'Hanomag', 'Hanteng', 'Hawtai', 'Hedmos', 'Heinkel', 'Hennessey', 'Hindustan',
+  'HiPhi', 'Hispano-Suiza', 'Holden', 'Hongqi', 'Horch', 'Hozon', 'HSV', 'Huaihai (Hoann)', 'HuangHai', 'Huazi',
+  'Hudson', 'Humber', 'Hummer', 'Hycan', 'Hyperion', 'iCar', 'iCaur', 'IM Motors (Zhiji)', 'Ineos', 'Infiniti',
+  'Innocenti', 'International Harvester', 'Invicta', 'Iran Khodro', 'Isdera', 'Isuzu', 'Iveco', 'JAC', 'Jaguar', 'Jeep',
+  'Jensen', 'Jetta', 'Jiangnan', 'Jidu', 'Jinbei', 'JMC', 'JMEV', 'Jonway', 'Kaiyi', 'Karma',
+  'Kawei', 'KGM', 'Knewstar', 'Koenigsegg', 'KTM AG', 'KYC', 'Lamborghini', 'Lancia', 'Landwind', 'Leapmotor',
+  'Letin', 'LEVC', 'Li Auto (Lixiang)', 'Liebao Motor', 'Lifan', 'Ligier', 'Lincoln', 'Lingxi', 'Livan', 'Logem',
+  'Lotus', 'LTI', 'Lucid', 'Luxeed', 'Luxgen', 'Lynk & Co', 'M-Hero', 'Maextro', 'Mahindra', 'Maple',
+  'Marcos', 'Marlin', 'Marussia', 'Maruti', 'Maserati', 'Matra', 'Maxus', 'Maybach', 'McLaren', 'Mega',
+  'Mercury', 'Merkur', 'Messerschmitt', 'Metrocab', 'MG', 'Micro', 'Microcar', 'Minelli', 'Mini', 'Mitsuoka',
+  'Mobilize', 'Morgan', 'Morris', 'Nash', 'Nio', 'Noble', 'Nordcross', 'Oldsmobile', 'Oltcit', 'Ora',
+  'Orange', 'Osca', 'Oshan', 'Oting', 'Overland', 'Packard', 'Pagani', 'Panoz', 'Perodua', 'PGO',
+  'Piaggio', 'Pierce-Arrow', 'Plymouth', 'Polar Stone (Jishi)', 'Polestar', 'Pontiac', 'Porsche', 'Premier', 'Proton', 'Puch',
+  'Puma', 'Punk', 'Qiantu', 'Qingling', 'Qoros', 'Qvale', 'Radar', 'Radford', 'Ram', 'Ravon',
+  'Rayton Fissore', 'Reliant', 'Renaissance', 'Renault Samsung', 'Rezvani', 'Rimac', 'Rinspeed', 'Rising Auto', 'Rivian', 'Roewe',
+  'Rolls-Royce', 'Ronart', 'Rossa', 'Rover', 'Rox', 'Saab', 'SAIC', 'Saipa', 'Saleen', 'Sandstorm',
+  'Santana', 'Saturn', 'Scion', 'Scout', 'Sears', 'SEAT', 'Seres', 'Shanghai Maple', 'ShuangHuan', 'Simca',
+  'Skywell', 'Skyworth', 'Smart', 'Solaris', 'Sollers', 'Soueast', 'Spectre', 'Spyker', 'SsangYong', 'Stelato',
+  'Steyr', 'Studebaker', 'Suzuki', 'SWM', 'Talbot', 'Tank', 'Tata', 'Tatra', 'Tazzari', 'Tesla',
+  'Thairung', 'Think', 'Tianma', 'Tianye', 'Tofas', 'Trabant', 'Tramontana', 'Triumph', 'TVR', 'Ultima',
+  'Vauxhall', 'Vector', 'Venturi', 'Venucia', 'VGV', 'VinFast', 'Volga', 'Volvo', 'Vortex', 'Voyah',
+  'VUHL', 'W Motors', 'Wanderer', 'Wartburg', 'Weltmeister', 'Westfield', 'Wey', 'Wiesmann', 'Willys', 'Wuling',
+  'Xcite', 'XEV', 'Xiaomi', 'Xin Kai', 'Xpeng', 'Yema', 'Yipai', 'Yudo', 'Yulon', 'Zastava',
+  'Zeekr', 'Zenos', 'Zenvo', 'Zhido', 'Zibar', 'Zotye', 'Zubr', 'ZX', 'Автокам', 'Амберавто',
+  'Атом', 'ГАЗ', 'ЗАЗ', 'ЗИЛ', 'ЗиС', 'Иж', 'Канонир', 'Комбат', 'ЛуАЗ', 'Москвич',
+  'Руссо-Балт', 'СМЗ', 'Спортивные авто и реплики', 'ТагАЗ', 'УАЗ', 'Яндекс Ровер', 'Ё-мобиль'
 ];
@@ -0,0 +1,171 @@
+import type { CataloguePart, PartNumber } from '../types';
+
+/**
+ * Справочник запчастей: нормализованные названия с группами и синонимами, оригинальные номера по маркам авто
+ * и кросс-таблица оригинал → аналоги. Стартовый набор частых позиций заказов; данные локальные, как справочник авто.
+ */
+
+export const PART_GROUPS = [
+  'Фильтры', 'Тормозная система', 'Подвеска', 'Двигатель', 'Зажигание', 'Охлаждение', 'Оптика', 'Кузов', 'Масла и жидкости', 'Прочее'
+];
+
+const VAG = ['Volkswagen', 'Skoda', 'Audi'];
+const HYUNDAI_KIA = ['Hyundai', 'Kia'];
+const TOYOTA_LEXUS = ['Toyota', 'Lexus'];
+const LADA = ['Lada (ВАЗ)'];
+
+const oem = (maker: string, number: string, carBrands: string[]): PartNumber => ({ number, maker, carBrands });
+
+export const PARTS_CATALOGUE: CataloguePart[] = [
+  {
+    id: 'oil-filter', name: 'Фильтр масляный', group: 'Фильтры',
+    aliases: ['масляный фильтр', 'фильтр масла', 'фильтр маслянный'],
+    originals: [
+      oem('Toyota', '04152-YZZA1', TOYOTA_LEXUS), oem('Toyota', '90915-YZZD4', TOYOTA_LEXUS),
+      oem('Hyundai / Kia', '26300-35505', HYUNDAI_KIA), oem('VAG', '03C115561H', VAG),
+      oem('BMW', '11427953129', ['BMW']), oem('Mercedes-Benz', 'A2761800009', ['Mercedes-Benz']),
+      oem('Lada', '21080-1012005-08', LADA), oem('Renault', '8200768913', ['Renault', 'Lada (ВАЗ)']),
+      oem('Nissan', '15208-65F0E', ['Nissan'])
+    ]
+  },
+  {
+    id: 'air-filter', name: 'Фильтр воздушный', group: 'Фильтры',
+    aliases: ['воздушный фильтр', 'фильтр воздуха', 'фильтр двигателя'],
+    originals: [
+      oem('Toyota', '17801-0H050', ['Toyota']), oem('Hyundai / Kia', '28113-1R100', HYUNDAI_KIA),
+      oem('VAG', '1K0129620D', VAG), oem('Lada', '21120-1109080', LADA)
+    ]
+  },
+  {
+    id: 'cabin-filter', name: 'Фильтр салона', group: 'Фильтры',
+    aliases: ['салонный фильтр', 'фильтр салонный', 'фильтр кондиционера', 'угольный фильтр'],
+    originals: [
+      oem('Toyota', '87139-50100', TOYOTA_LEXUS), oem('Hyundai / Kia', '97133-4L000', HYUNDAI_KIA),
+      oem('VAG', '1K1819653B', VAG)
+    ]
+  },
+  {
+    id: 'fuel-filter', name: 'Фильтр топливный', group: 'Фильтры',
+    aliases: ['топливный фильтр', 'фильтр топлива'],
+    originals: [oem('Toyota', '23300-31130', ['Toyota']), oem('VAG', '1K0201051K', VAG), oem('Lada', '21230-1117010', LADA)]
+  },
+  {
+    id: 'pads-front', name: 'Колодки тормозные передние', group: 'Тормозная система',
+    aliases: ['колодки передние', 'передние колодки', 'тормозные колодки передние', 'колодки'],
+    originals: [
+      oem('Toyota', '04465-33450', ['Toyota']), oem('Hyundai / Kia', '58101-1RA00', HYUNDAI_KIA),
+      oem('VAG', '1K0698151', VAG), oem('Lada', '21080-3501080-00', LADA)
+    ]
+  },
+  {
+    id: 'pads-rear', name: 'Колодки тормозные задние', group: 'Тормозная система',
+    aliases: ['колодки задние', 'задние колодки', 'тормозные колодки задние'],
+    originals: [oem('Toyota', '04466-33200', ['Toyota']), oem('Hyundai / Kia', '58302-2WA00', HYUNDAI_KIA), oem('VAG', '5K0698451', VAG)]
+  },
+  {
+    id: 'disc-front', name: 'Диск тормозной передний', group: 'Тормозная система',
+    aliases: ['диск тормозной', 'тормозной диск', 'диски передние', 'передний тормозной диск'],
+    originals: [oem('Toyota', '43512-33130', ['Toyota']), oem('Hyundai / Kia', '51712-1R000', HYUNDAI_KIA), oem('VAG', '1K0615301AA', VAG)]
+  },
+  {
+    id: 'spark-plug', name: 'Свеча зажигания', group: 'Зажигание',
+    aliases: ['свечи', 'свечи зажигания', 'свеча'],
+    originals: [
+      oem('Toyota', '90919-01253', TOYOTA_LEXUS), oem('Hyundai / Kia', '18855-10060', HYUNDAI_KIA),
+      oem('VAG', '04C905616', VAG), oem('Lada', '21120-3707010-00', LADA)
+    ]
+  },
+  {
+    id: 'control-arm', name: 'Рычаг передней подвески', group: 'Подвеска',
+    aliases: ['рычаг подвески', 'рычаг передний', 'нижний рычаг', 'рычаг'],
+    originals: [oem('Toyota', '48068-33050', ['Toyota']), oem('Hyundai / Kia', '54500-4L000', HYUNDAI_KIA), oem('VAG', '1K0407151AC', VAG)]
+  },
+  {
+    id: 'stab-link', name: 'Стойка стабилизатора передняя', group: 'Подвеска',
+    aliases: ['стойка стабилизатора', 'линк стабилизатора', 'тяга стабилизатора', 'косточка стабилизатора'],
+    originals: [oem('Toyota', '48820-33050', ['Toyota']), oem('Hyundai / Kia', '54830-1R000', HYUNDAI_KIA), oem('VAG', '1K0411315R', VAG)]
+  },
+  {
+    id: 'shock-front', name: 'Амортизатор передний', group: 'Подвеска',
+    aliases: ['амортизатор', 'стойка амортизатора передняя', 'передний амортизатор'],
+    originals: [oem('Hyundai / Kia', '54651-4L000', HYUNDAI_KIA), oem('VAG', '1K0413031BF', VAG)]
+  },
+  {
+    id: 'wheel-bearing', name: 'Подшипник ступицы передний', group: 'Подвеска',
+    aliases: ['подшипник ступицы', 'ступичный подшипник', 'подшипник передний'],
+    originals: [oem('Toyota', '90369-43009', ['Toyota']), oem('Hyundai / Kia', '51720-1R000', HYUNDAI_KIA)]
+  },
+  {
+    id: 'timing-kit', name: 'Комплект ГРМ', group: 'Двигатель',
+    aliases: ['ремень грм', 'грм', 'ремень газораспределения', 'комплект ремня грм'],
+    originals: [oem('VAG', '04E198119A', VAG), oem('Lada', '21126-1006040', LADA)]
+  },
+  {
+    id: 'water-pump', name: 'Помпа водяная', group: 'Охлаждение',
+    aliases: ['помпа', 'насос охлаждающей жидкости', 'водяной насос'],
+    originals: [oem('Toyota', '16100-39466', ['Toyota']), oem('VAG', '04E121600AD', VAG), oem('Lada', '21080-1307010-82', LADA)]
+  },
+  {
+    id: 'radiator', name: 'Радиатор охлаждения', group: 'Охлаждение',
+    aliases: ['радиатор', 'радиатор двигателя', 'радиатор основной'],
+    originals: [oem('Hyundai / Kia', '25310-4L050', HYUNDAI_KIA), oem('VAG', '5Q0121251EM', VAG), oem('Lada', '21700-1301012', LADA)]
+  },
+  {
+    id: 'headlight-left', name: 'Фара передняя левая', group: 'Оптика',
+    aliases: ['фара левая', 'левая фара', 'фара левая led', 'фара л'],
+    originals: [oem('Toyota', '81150-33D20', ['Toyota']), oem('Hyundai / Kia', '92101-4L000', HYUNDAI_KIA)]
+  },
+  {
+    id: 'headlight-right', name: 'Фара передняя правая', group: 'Оптика',
+    aliases: ['фара правая', 'правая фара', 'фара правая led', 'фара п'],
+    originals: [oem('Toyota', '81110-33D20', ['Toyota']), oem('Hyundai / Kia', '92102-4L000', HYUNDAI_KIA)]
+  },
+  {
+    id: 'bumper-front', name: 'Бампер передний', group: 'Кузов',
+    aliases: ['передний бампер', 'бампер перед'],
+    originals: [oem('Toyota', '52119-33988', ['Toyota']), oem('Hyundai / Kia', '86511-4L000', HYUNDAI_KIA)]
+  },
+  {
+    id: 'wiper-blade', name: 'Щётка стеклоочистителя', group: 'Кузов',
+    aliases: ['дворники', 'щетка стеклоочистителя', 'щётки стеклоочистителя', 'дворник'],
+    originals: [oem('Toyota', '85222-33200', ['Toyota']), oem('VAG', '5G1998002', VAG)]
+  },
+  {
+    id: 'engine-oil-5w30', name: 'Масло моторное 5W-30', group: 'Масла и жидкости',
+    aliases: ['масло 5w30', 'масло 5w-30', 'масло 5w30 5л', 'моторное масло', 'масло'],
+    originals: [
+      oem('Toyota', '08880-80845', TOYOTA_LEXUS), oem('Hyundai / Kia', '05100-00451', HYUNDAI_KIA),
+      oem('VAG', 'GS55545M4', VAG)
+    ]
+  }
+];
+
+// Кросс-таблица: оригинальный номер → взаимозаменяемые аналоги
+export const CROSS_REFERENCES: Record<string, PartNumber[]> = {
+  '04152-YZZA1': [{ maker: 'Mann', number: 'HU 7019 z' }, { maker: 'Bosch', number: 'F 026 407 209' }, { maker: 'Filtron', number: 'OE 685/3' }],
+  '90915-YZZD4': [{ maker: 'Mann', number: 'W 68/3' }, { maker: 'Bosch', number: '0 986 452 058' }, { maker: 'Filtron', number: 'OP 619/6' }],
+  '26300-35505': [{ maker: 'Mann', number: 'W 811/80' }, { maker: 'Bosch', number: '0 986 452 036' }, { maker: 'Filtron', number: 'OP 617/1' }],
+  '03C115561H': [{ maker: 'Mann', number: 'W 719/45' }, { maker: 'Bosch', number: '0 451 103 367' }],
+  '11427953129': [{ maker: 'Mann', number: 'HU 816 x' }, { maker: 'Mahle', number: 'OX 404D' }],
+  'A2761800009': [{ maker: 'Mann', number: 'HU 7010 z' }, { maker: 'Mahle', number: 'OX 814D' }],
+  '21080-1012005-08': [{ maker: 'Mann', number: 'W 914/2' }, { maker: 'Big Filter', number: 'GB-102' }],
+  '8200768913': [{ maker: 'Mann', number: 'W 75/3' }, { maker: 'Filtron', number: 'OP 643/3' }],
+  '17801-0H050': [{ maker: 'Mann', number: 'C 26 003' }, { maker: 'Filtron', number: 'AP 182/5' }],
+  '28113-1R100': [{ maker: 'Mann', number: 'C 26 017' }, { maker: 'Filtron', number: 'AP 108/8' }],
+  '1K0129620D': [{ maker: 'Mann', number: 'C 35 154' }, { maker: 'Bosch', number: 'F 026 400 032' }],
+  '87139-50100': [{ maker: 'Mann', number: 'CU 1828' }, { maker: 'Denso', number: 'DCC-1009' }],
+  '97133-4L000': [{ maker: 'Mann', number: 'CU 2012' }, { maker: 'Filtron', number: 'K 1329' }],
+  '1K1819653B': [{ maker: 'Mann', number: 'CU 2939' }, { maker: 'Bosch', number: '1 987 432 097' }],
+  '04465-33450': [{ maker: 'TRW', number: 'GDB3425' }, { maker: 'Brembo', number: 'P 83 117' }, { maker: 'Sangsin', number: 'SP1376' }],
+  '58101-1RA00': [{ maker: 'TRW', number: 'GDB3450' }, { maker: 'Sangsin', number: 'SP1401' }],
+  '1K0698151': [{ maker: 'TRW', number: 'GDB1550' }, { maker: 'Brembo', number: 'P 85 075' }, { maker: 'Bosch', number: '0 986 494 104' }],
+  '21080-3501080-00': [{ maker: 'Ferodo', number: 'FDB 1374' }, { maker: 'TRW', number: 'GDB1374' }],
+  '43512-33130': [{ maker: 'Brembo', number: '09.A536.11' }, { maker: 'TRW', number: 'DF4865' }],
+  '1K0615301AA': [{ maker: 'Brembo', number: '09.9145.11' }, { maker: 'TRW', number: 'DF4275' }],
+  '90919-01253': [{ maker: 'Denso', number: 'SK20R11' }, { maker: 'NGK', number: 'ILKAR7B11' }],
+  '18855-10060': [{ maker: 'NGK', number: 'BKR5ES-11' }, { maker: 'Denso', number: 'K16PR-U11' }],
+  '1K0411315R': [{ maker: 'Lemförder', number: '31012 01' }, { maker: 'Febi', number: '19518' }],
+  '54830-1R000': [{ maker: 'CTR', number: 'CLKH-44' }, { maker: 'Febi', number: '41198' }],
+  '04E198119A': [{ maker: 'Contitech', number: 'CT1168K1' }, { maker: 'INA', number: '530 0550 10' }],
+  '21126-1006040': [{ maker: 'Gates', number: 'K015603XS' }, { maker: 'Contitech', number: 'CT1164K1' }]
+};
@@ -15,4 +15,11 @@ root.render(
       <App />
     </BrowserRouter>
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Оболочка приложения без сети (public/sw.js). В режиме разработки не регистрируется — кэш мешал бы HMR
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(console.error);
+  });
+}
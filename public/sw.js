@@ -0,0 +1,48 @@
+/**
+ * Service worker: оболочка приложения открывается без сети.
+ * GET-запросы к своему сайту и CDN (esm.sh, tailwind) идут сначала в сеть, ответ кладётся в кэш;
+ * без сети отдаётся кэш, для переходов по страницам — index.html (маршруты SPA).
+ * Данные бэкенда (Apps Script, /local-api) не кэшируются — их снимок хранит IndexedDB (services/offlineStore.ts).
+ */
+const CACHE = 'autoparts-shell-v1';
+const SHELL = ['/', '/index.html', '/favicon.ico'];
+const CDN_HOSTS = ['esm.sh', 'cdn.tailwindcss.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isCacheable = url =>
+  (url.origin === self.location.origin && !url.pathname.startsWith('/local-api')) || CDN_HOSTS.includes(url.hostname);
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (!isCacheable(url)) return;
+
+  event.respondWith(
+    fetch(request)
+      .then(response => {
+        if (response.ok || response.type === 'opaque') {
+          const copy = response.clone();
+          caches.open(CACHE).then(cache => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(async () => {
+        const cached = await caches.match(request);
+        if (cached) return cached;
+        if (request.mode === 'navigate') return caches.match('/index.html');
+        return Response.error();
+      })
+  );
+});
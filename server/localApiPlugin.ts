@@ -0,0 +1,120 @@
+import type { Plugin } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { LocalStore, DEFAULT_ADMIN_PHONES } from '../services/localStore';
+import { CodeSender, FakeCodeSender, SmsCodeSender, TelegramCodeSender } from '../services/codeSender';
+import { normalizePhone } from '../services/contract';
+
+export const LOCAL_API_PATH = '/local-api';
+
+// Комментарий раз в 25 сек не даёт прокси и браузеру закрыть простаивающий поток
+const KEEPALIVE_INTERVAL = 25000;
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let data = '';
+  req.on('data', chunk => { data += chunk; });
+  req.on('end', () => resolve(data));
+  req.on('error', reject);
+});
+
+/**
+ * Push-канал (Server-Sent Events): сначала строки, изменённые после ревизии клиента (since), затем каждое изменение.
+ * Права проверяются на каждой порции — истёкшая сессия закрывает поток событием failure.
+ */
+const streamChanges = async (store: LocalStore, req: IncomingMessage, res: ServerResponse, token: string | undefined, since: number) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.write(': connected\n\n'); // заголовки уходят сразу, не дожидаясь первой порции
+  let revision = since;
+  let unsubscribe = () => {};
+  const keepalive = setInterval(() => res.write(': ping\n\n'), KEEPALIVE_INTERVAL);
+  const close = () => {
+    clearInterval(keepalive);
+    unsubscribe();
+  };
+  const push = async () => {
+    try {
+      const batch = await store.changesSince(token, revision);
+      revision = Math.max(revision, batch.revision);
+      if (batch.rows.length > 0) res.write(`event: changes\ndata: ${JSON.stringify(batch)}\n\n`);
+    } catch (err: any) {
+      res.write(`event: failure\ndata: ${JSON.stringify({ error: String(err?.message || err) })}\n\n`);
+      close();
+      res.end();
+    }
+  };
+  unsubscribe = store.onChange(() => { push(); });
+  req.on('close', close);
+  await push();
+};
+
+/**
+ * Канал доставки кодов входа из .env:
+ *   AUTH_CODE_SENDER=sms      + SMS_GATEWAY_URL, SMS_API_KEY
+ *   AUTH_CODE_SENDER=telegram + TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_IDS=79991112233:123456,...
+ * По умолчанию — заглушка, код возвращается в ответе и печатается в консоль dev-сервера.
+ */
+const createCodeSender = (env: Record<string, string>): CodeSender => {
+  if (env.AUTH_CODE_SENDER === 'sms' && env.SMS_GATEWAY_URL) {
+    return new SmsCodeSender(env.SMS_GATEWAY_URL, env.SMS_API_KEY);
+  }
+  if (env.AUTH_CODE_SENDER === 'telegram' && env.TELEGRAM_BOT_TOKEN) {
+    const chatIds = new Map((env.TELEGRAM_CHAT_IDS || '').split(',').filter(Boolean).map(pair => {
+      const [phone, chatId] = pair.split(':');
+      return [normalizePhone(phone), chatId] as [string, string];
+    }));
+    return new TelegramCodeSender(env.TELEGRAM_BOT_TOKEN, async phone => chatIds.get(phone) || null);
+  }
+  return new FakeCodeSender();
+};
+
+/**
+ * Локальный стенд вместо Google Apps Script: поднимает /local-api на dev-сервере Vite.
+ * Протокол тот же, что у GAS (GET ?action=getData, POST text/plain JSON), поэтому GasBackend
+ * работает с ним без изменений — достаточно указать GAS_API_URL = '/local-api'.
+ * Сверх GAS умеет GET ?action=subscribe — push-канал изменений вместо опроса getData.
+ * Данные живут в памяти Node-процесса и сбрасываются при перезапуске.
+ */
+export const localApiPlugin = (env: Record<string, string> = {}): Plugin => {
+  const store = new LocalStore(undefined, {
+    sender: createCodeSender(env),
+    adminPhones: env.ADMIN_PHONES ? env.ADMIN_PHONES.split(',') : DEFAULT_ADMIN_PHONES
+  });
+
+  return {
+    name: 'local-api',
+    configureServer(server) {
+      server.middlewares.use(LOCAL_API_PATH, async (req, res) => {
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        try {
+          if (req.method === 'GET') {
+            const params = new URL(req.url || '', 'http://localhost').searchParams;
+            const action = params.get('action');
+            const token = params.get('token') || undefined;
+            if (action === 'subscribe') return await streamChanges(store, req, res, token, Number(params.get('since')) || 0);
+            if (action === 'getData') res.end(JSON.stringify(await store.getData(token)));
+            else if (action === 'getSuppliers') res.end(JSON.stringify(await store.getSuppliers(token)));
+            else if (action === 'getPricingRules') res.end(JSON.stringify(await store.getPricingRules(token)));
+            else if (action === 'getAutoRankRules') res.end(JSON.stringify(await store.getAutoRankRules(token)));
+            else if (action === 'getPriceHintRules') res.end(JSON.stringify(await store.getPriceHintRules(token)));
+            else if (action === 'getRates') res.end(JSON.stringify(await store.getRates(token)));
+            else if (action === 'getEvents') res.end(JSON.stringify(await store.getEvents(token, params.get('orderId') || undefined)));
+            else res.end(JSON.stringify({ status: 'alive', version: 'local' }));
+            return;
+          }
+          if (req.method === 'POST') {
+            const body = JSON.parse(await readBody(req));
+            res.end(JSON.stringify(await store.handle(body)));
+            return;
+          }
+          res.statusCode = 405;
+          res.end(JSON.stringify({ error: 'Method not allowed' }));
+        } catch (err: any) {
+          res.end(JSON.stringify({ error: String(err?.message || err) }));
+        }
+      });
+    }
+  };
+};
@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AuthService } from './authService';
+
+// Бэкенд без входа по коду — как опубликованный Apps Script
+const backend = { supportsAuth: false };
+vi.mock('./dataBackend', () => ({ getBackend: () => backend }));
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); }
+});
+
+describe('вход без кода', () => {
+  beforeEach(() => {
+    storage.clear();
+    backend.supportsAuth = false;
+  });
+
+  it('клиент и поставщик входят без кода, пока бэкенд не умеет авторизацию', () => {
+    AuthService.signInWithoutCode('+7 900 111-11-11', 'client', 'ИВАН');
+    expect(AuthService.getSession('client')?.name).toBe('ИВАН');
+    backend.supportsAuth = true;
+    expect(AuthService.getSession('client')).toBeNull();
+  });
+
+  it('администратору вход без кода закрыт', () => {
+    expect(AuthService.canSignInWithoutCode('admin')).toBe(false);
+    expect(() => AuthService.signInWithoutCode('+7 (999) 000-00-00', 'admin', 'АДМИНИСТРАТОР')).toThrow();
+    expect(AuthService.getSession('admin')).toBeNull();
+  });
+
+  it('сохранённая сессия администратора без токена не действует', () => {
+    storage.set('auth_session_admin', JSON.stringify({ token: '', role: 'admin', name: 'АДМИНИСТРАТОР', phone: '', exp: Date.now() + 60_000 }));
+    expect(AuthService.getSession('admin')).toBeNull();
+  });
+});
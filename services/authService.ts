@@ -0,0 +1,107 @@
+import { UserRole } from '../types';
+import { getBackend } from './dataBackend';
+import { ActionResponse } from './contract';
+import { readSession } from './sessionToken';
+
+export interface AuthSession {
+  token: string;
+  role: UserRole;
+  name: string;
+  phone: string; // в том виде, в каком пользователь его ввёл
+  sellerId?: string; // ID в реестре поставщиков
+  exp: number;
+}
+
+const storageKey = (role: UserRole) => `auth_session_${role}`;
+
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Сессии на стороне браузера. У каждой роли своя сессия, чтобы на одном устройстве можно было
+ * работать и клиентом, и поставщиком. Подлинность токена проверяет бэкенд; здесь — только срок действия.
+ * Сессия без токена (signInWithoutCode) действует, только пока бэкенд не поддерживает вход по коду, и никогда — для администратора.
+ */
+export class AuthService {
+  private static listeners = new Set<() => void>();
+
+  static getSession(role: UserRole): AuthSession | null {
+    let session: AuthSession | null = null;
+    try {
+      session = JSON.parse(localStorage.getItem(storageKey(role)) || 'null');
+    } catch (e) {}
+    if (!session || (!session.token && !this.canSignInWithoutCode(role))) return null;
+    if (session.exp <= Date.now()) {
+      localStorage.removeItem(storageKey(role));
+      return null;
+    }
+    return session;
+  }
+
+  static getToken(role: UserRole): string | undefined {
+    return this.getSession(role)?.token;
+  }
+
+  // Для чтения данных подходит любая действующая сессия
+  static getAnySession(): AuthSession | null {
+    return this.getSession('admin') || this.getSession('supplier') || this.getSession('client');
+  }
+
+  static async requestCode(phone: string, role: UserRole): Promise<{ devCode?: string }> {
+    const response = this.assertOk(await getBackend().requestCode({ phone, role }));
+    return { devCode: response.devCode };
+  }
+
+  static async verifyCode(phone: string, role: UserRole, code: string, name?: string): Promise<AuthSession> {
+    const response = this.assertOk(await getBackend().verifyCode({ phone, role, code, name }));
+    const claims = response.token ? readSession(response.token) : null;
+    if (!claims) throw new Error('Сервер не выдал токен сессии');
+
+    const session: AuthSession = { token: response.token!, role: claims.role, name: claims.name, phone, sellerId: claims.sellerId, exp: claims.exp };
+    localStorage.setItem(storageKey(role), JSON.stringify(session));
+    this.notify();
+    return session;
+  }
+
+  // Без кода входят только клиент и поставщик: панель администратора без проверенного номера не открывается
+  static canSignInWithoutCode(role: UserRole): boolean {
+    return role !== 'admin' && !getBackend().supportsAuth;
+  }
+
+  // Бэкенд без входа по коду (опубликованный Apps Script): имя и телефон запоминаются в браузере, как до авторизации.
+  // Это не защита — данные и действия открыты, как раньше; гард лишь спрашивает, кто работает
+  static signInWithoutCode(phone: string, role: UserRole, name: string): AuthSession {
+    if (!this.canSignInWithoutCode(role)) throw new Error('Для этой роли нужен вход по коду');
+    const session: AuthSession = { token: '', role, name, phone, exp: Date.now() + SESSION_TTL };
+    localStorage.setItem(storageKey(role), JSON.stringify(session));
+    this.notify();
+    return session;
+  }
+
+  static logout(role: UserRole) {
+    localStorage.removeItem(storageKey(role));
+    this.notify();
+  }
+
+  // Подписка на вход/выход, в том числе в соседних вкладках
+  static subscribe(listener: () => void): () => void {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key && e.key.startsWith('auth_session_')) listener();
+    };
+    this.listeners.add(listener);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      this.listeners.delete(listener);
+      window.removeEventListener('storage', onStorage);
+    };
+  }
+
+  private static notify() {
+    this.listeners.forEach(l => l());
+  }
+
+  private static assertOk(response: ActionResponse): ActionResponse {
+    if (response && response.error) throw new Error(response.error);
+    return response;
+  }
+}
+
@@ -0,0 +1,75 @@
+import type { Order, OrderItem, PriceBreakdown } from '../types';
+import type { AutoRankRules } from './contract';
+import { ItemOffer, offersForItem } from './offerMatrix';
+
+/**
+ * Автоматический выбор лидеров по правилам администратора.
+ * Результат — только предложение: применяется обычными update_rank (лидер; остальные офферы позиции уходят в резерв).
+ */
+
+export const DEFAULT_AUTO_RANK_RULES: AutoRankRules = {
+  strategy: 'landed',
+  preferredSuppliers: [],
+  supplierRatings: {}
+};
+
+export interface RankProposal {
+  item: OrderItem;
+  leader: ItemOffer | null;
+  reserve: ItemOffer[];
+  reason: string;
+}
+
+// Итоговая цена за 1 шт в ₽; без расчёта — рублёвая цена поставщика, иначе предложение сравнить нельзя
+const landedOf = (offer: ItemOffer, priceOf: (item: OrderItem) => PriceBreakdown | undefined): number => {
+  const breakdown = priceOf(offer.item);
+  if (breakdown) return breakdown.total;
+  return offer.item.sellerCurrency === 'RUB' && offer.item.sellerPrice ? offer.item.sellerPrice : Infinity;
+};
+
+const weeksOf = (offer: ItemOffer) => offer.item.deliveryWeeks && offer.item.deliveryWeeks > 0 ? offer.item.deliveryWeeks : Infinity;
+
+export const isExcludedByRating = (sellerId: string | undefined, rules: AutoRankRules): boolean => {
+  if (!rules.minRating || !sellerId) return false;
+  const rating = rules.supplierRatings[sellerId];
+  return rating !== undefined && rating < rules.minRating;
+};
+
+/**
+ * Порядок кандидатов по позиции:
+ *   1. поставщики с оценкой ниже minRating отбрасываются;
+ *   2. 'fastest' — сначала предложения не дороже priceCeiling (если ни одного — все), по сроку, затем по цене;
+ *      'landed' — по итоговой цене, затем по сроку;
+ *   3. предпочтительные поставщики поднимаются в начало, сохраняя этот порядок.
+ */
+export const proposeRanks = (order: Order, rules: AutoRankRules, priceOf: (item: OrderItem) => PriceBreakdown | undefined): RankProposal[] =>
+  order.items.map(item => {
+    const offers = offersForItem(order, item);
+    const eligible = offers.filter(o => !isExcludedByRating(o.sellerId, rules));
+    if (eligible.length === 0) {
+      return { item, leader: null, reserve: [], reason: offers.length > 0 ? 'Все поставщики ниже минимальной оценки' : 'Нет предложений' };
+    }
+
+    const byPrice = (a: ItemOffer, b: ItemOffer) => landedOf(a, priceOf) - landedOf(b, priceOf);
+    const byWeeks = (a: ItemOffer, b: ItemOffer) => weeksOf(a) - weeksOf(b);
+    let candidates = [...eligible];
+    let reason: string;
+    if (rules.strategy === 'fastest') {
+      const underCeiling = rules.priceCeiling ? candidates.filter(o => landedOf(o, priceOf) <= rules.priceCeiling!) : candidates;
+      candidates = underCeiling.length > 0 ? underCeiling : candidates;
+      candidates.sort((a, b) => byWeeks(a, b) || byPrice(a, b));
+      reason = underCeiling.length > 0 ? 'Самый быстрый' : `Самый быстрый (нет предложений до ${rules.priceCeiling} ₽)`;
+    } else {
+      candidates.sort((a, b) => byPrice(a, b) || byWeeks(a, b));
+      reason = 'Минимальная итоговая цена';
+    }
+
+    const preferred = candidates.filter(o => o.sellerId && rules.preferredSuppliers.includes(o.sellerId));
+    if (preferred.length > 0) {
+      candidates = [...preferred, ...candidates.filter(o => !preferred.includes(o))];
+      reason = `Предпочтительный поставщик · ${reason.toLowerCase()}`;
+    }
+
+    const [leader] = candidates;
+    return { item, leader, reserve: offers.filter(o => o !== leader), reason };
+  });
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { raisedPrices } from './bidding';
+
+const RATES = { RUB: 1, CNY: 12, USD: 90 };
+
+describe('raisedPrices', () => {
+  it('снижение в той же валюте допустимо, повышение — нет', () => {
+    const previous = [{ id: '1-1', name: 'Фара', sellerPrice: 100, sellerCurrency: 'CNY' as const }];
+    expect(raisedPrices(previous, [{ id: '1-1', name: 'Фара', sellerPrice: 90, sellerCurrency: 'CNY' }], RATES)).toEqual([]);
+    expect(raisedPrices(previous, [{ id: '1-1', name: 'Фара', sellerPrice: 110, sellerCurrency: 'CNY' }], RATES)).toHaveLength(1);
+  });
+
+  it('цены в разных валютах сравниваются в рублях', () => {
+    const previous = [{ id: '1-1', name: 'Фара', sellerPrice: 100, sellerCurrency: 'CNY' as const }];
+    // 1000 RUB < 1200 RUB — снижение, хотя число больше
+    expect(raisedPrices(previous, [{ id: '1-1', name: 'Фара', sellerPrice: 1000, sellerCurrency: 'RUB' }], RATES)).toEqual([]);
+    // 20 USD = 1800 RUB > 1200 RUB — повышение, хотя число меньше
+    expect(raisedPrices(previous, [{ id: '1-1', name: 'Фара', sellerPrice: 20, sellerCurrency: 'USD' }], RATES)).toHaveLength(1);
+  });
+
+  it('валюта без курса не сравнивается и считается повышением', () => {
+    const previous = [{ id: '1-1', name: 'Фара', sellerPrice: 100, sellerCurrency: 'CNY' as const }];
+    expect(raisedPrices(previous, [{ id: '1-1', name: 'Фара', sellerPrice: 1, sellerCurrency: 'USD' }], { RUB: 1, CNY: 12 })).toHaveLength(1);
+  });
+
+  it('без валюты цена считается в юанях, как в форме поставщика', () => {
+    const previous = [{ id: '1-1', name: 'Фара', sellerPrice: 100 }];
+    expect(raisedPrices(previous, [{ id: '1-1', name: 'Фара', sellerPrice: 100, sellerCurrency: 'CNY' }], {})).toEqual([]);
+  });
+});
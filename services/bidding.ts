@@ -0,0 +1,73 @@
+import type { BiddingWindow, Order, OrderItem } from '../types';
+import { isSameItem } from './itemIdentity';
+import { requiredQuantity } from './fulfilment';
+import { convertAmount, RateMap } from './exchangeRates';
+
+/**
+ * Окно приёма офферов. Новый заказ открывается на DEFAULT_BIDDING_HOURS часов; по дедлайну окно закрывается само —
+ * бэкенд сверяет время с дедлайном при каждом оффере, отдельного таймера нет.
+ * Администратор продлевает окно, закрывает его досрочно или открывает второй раунд: в нём участвуют только поставщики,
+ * уже приславшие оффер, они видят лучшую текущую цену и могут только снизить свою.
+ * Окно хранится в первой позиции заказа (`bidding`); у заказов, созданных до окон, его нет — приём не ограничен.
+ */
+
+export const DEFAULT_BIDDING_HOURS = 24;
+
+// Длительности окна на выбор администратору, часы
+export const BIDDING_HOURS_OPTIONS = [6, 12, 24, 48, 72];
+
+const HOUR = 60 * 60 * 1000;
+
+export const openBidding = (hours: number, round: BiddingWindow['round'] = 1, now = new Date()): BiddingWindow => ({
+  round,
+  hours,
+  openedAt: now.toISOString(),
+  deadline: new Date(now.getTime() + hours * HOUR).toISOString()
+});
+
+export const isBiddingOpen = (bidding: BiddingWindow | undefined, now = Date.now()) =>
+  !bidding || Date.parse(bidding.deadline) > now;
+
+// «5 ч 20 мин», «2 д 3 ч», «15 мин»; дедлайн прошёл — пустая строка
+export const formatTimeLeft = (deadline: string, now = Date.now()) => {
+  const minutes = Math.ceil((Date.parse(deadline) - now) / 60000);
+  if (!(minutes > 0)) return '';
+  const hours = Math.floor(minutes / 60);
+  if (hours >= 24) return `${Math.floor(hours / 24)} д ${hours % 24} ч`;
+  return hours > 0 ? `${hours} ч ${minutes % 60} мин` : `${minutes} мин`;
+};
+
+// Позиции, на которые поставщики вместе предложили меньше нужного: «Фильтр масляный: 1 из 2 шт»
+export const offerShortfall = (order: Pick<Order, 'items' | 'offers'>): string[] =>
+  order.items.flatMap(item => {
+    const required = requiredQuantity(item);
+    const offered = (order.offers || [])
+      .flatMap(o => o.items)
+      .filter(i => isSameItem(i, item) && (i.sellerPrice || 0) > 0)
+      .reduce((acc, i) => acc + ((i.offeredQuantity ?? i.quantity) || 0), 0);
+    return offered < required ? [`${item.AdminName || item.name}: ${offered} из ${required} шт`] : [];
+  });
+
+// Приём закрыт, КП не сформировано, а предложений не хватает — заказ ждёт решения администратора
+export const closedWithoutCoverage = (orders: Order[], now = Date.now()): Order[] =>
+  orders.filter(o =>
+    o.bidding && !isBiddingOpen(o.bidding, now) &&
+    o.workflowStatus === 'В обработке' && !o.isRefused &&
+    offerShortfall(o).length > 0
+  );
+
+// Второй раунд: цена позиции не может вырасти относительно действующего оффера.
+// Цены сравниваются в рублях по текущим курсам; смена валюты без курса для сравнения считается повышением
+export const raisedPrices = (previous: Partial<OrderItem>[], next: Partial<OrderItem>[], rates: RateMap): string[] =>
+  next.flatMap(item => {
+    const old = previous.find(p => p.id && p.id === item.id);
+    const was = Number(old?.sellerPrice) || 0;
+    const now = Number(item.sellerPrice) || 0;
+    if (!(was > 0 && now > 0)) return [];
+    const wasCurrency = old?.sellerCurrency || 'CNY';
+    const nowCurrency = item.sellerCurrency || 'CNY';
+    const wasRub = convertAmount(was, wasCurrency, 'RUB', rates);
+    const nowRub = convertAmount(now, nowCurrency, 'RUB', rates);
+    const isRaised = wasCurrency === nowCurrency ? now > was : wasRub === null || nowRub === null || nowRub > wasRub;
+    return isRaised ? [`${item.name || item.id}: ${was} ${wasCurrency} → ${now} ${nowCurrency}`] : [];
+  });
@@ -0,0 +1,132 @@
+import type { CarBrandEntry, CarDetails, CarGeneration, CarModelEntry } from '../types';
+import { CAR_CATALOGUE, OTHER_BRANDS } from '../constants/cars';
+
+/**
+ * Справочник авто: поиск марок, моделей и поколений для формы заказа и нормализация данных авто.
+ * В заказ пишутся марка и модель в написании справочника, модель — без марки.
+ * В старых заказах модель хранится как «Марка Модель» — хелперы ниже разбирают оба формата,
+ * поэтому фильтры по марке и аналитика не зависят от того, как заказ был создан.
+ */
+
+export const CAR_BRANDS: CarBrandEntry[] = [
+  ...CAR_CATALOGUE,
+  ...OTHER_BRANDS.map(name => ({ name, models: [] }))
+].sort((a, b) => a.name.localeCompare(b.name));
+
+const key = (value: unknown) => String(value || '').trim().toLowerCase();
+
+const brandNames = (brand: CarBrandEntry) => [brand.name, ...(brand.aliases || [])];
+
+// Длинные названия первыми: «Land Rover» раньше «Land», «GAC Aion» раньше «GAC»
+const PREFIXES = CAR_BRANDS
+  .flatMap(brand => brandNames(brand).map(name => ({ name: key(name), brand })))
+  .sort((a, b) => b.name.length - a.name.length);
+
+// Текст начинается с названия целиком: «BMW X5» — да, «BMWX5» — нет
+const startsWithWord = (text: string, word: string) =>
+  text === word || (text.startsWith(word) && /[\s/,-]/.test(text[word.length]));
+
+export const findBrand = (name: string | undefined): CarBrandEntry | undefined => {
+  const k = key(name);
+  return k ? CAR_BRANDS.find(brand => brandNames(brand).some(n => key(n) === k)) : undefined;
+};
+
+// Пустой запрос — марки с моделями в справочнике (популярные); иначе совпадения с начала названия первыми
+export const searchBrands = (query: string): CarBrandEntry[] => {
+  const q = key(query);
+  if (!q) return CAR_CATALOGUE;
+  const hits = CAR_BRANDS.filter(brand => brandNames(brand).some(n => key(n).includes(q)));
+  const starts = (brand: CarBrandEntry) => brandNames(brand).some(n => key(n).startsWith(q)) ? 0 : 1;
+  return hits.sort((a, b) => starts(a) - starts(b));
+};
+
+export const findModel = (brand: string | undefined, name: string | undefined): CarModelEntry | undefined => {
+  const k = key(name);
+  return k ? findBrand(brand)?.models.find(m => key(m.name) === k) : undefined;
+};
+
+export const searchModels = (brand: string | undefined, query: string): CarModelEntry[] => {
+  const models = findBrand(brand)?.models || [];
+  const q = key(query);
+  return q ? models.filter(m => key(m.name).includes(q)) : models;
+};
+
+export const findGeneration = (brand: string | undefined, model: string | undefined, name: string | undefined): CarGeneration | undefined => {
+  const k = key(name);
+  return k ? findModel(brand, model)?.generations.find(g => key(g.name) === k) : undefined;
+};
+
+export const generationYears = (generation: CarGeneration) => `${generation.from}–${generation.to || 'н.в.'}`;
+
+export const generationLabel = (generation: CarGeneration) => `${generation.name} (${generationYears(generation)})`;
+
+export const isYearInGeneration = (generation: CarGeneration, year: number) =>
+  year >= generation.from && year <= (generation.to || new Date().getFullYear() + 1);
+
+// Поколения, выпускавшиеся в указанном году; год не указан — все
+export const generationsFor = (brand: string | undefined, model: string | undefined, year?: string): CarGeneration[] => {
+  const generations = findModel(brand, model)?.generations || [];
+  const y = parseInt(String(year || ''));
+  return isNaN(y) ? generations : generations.filter(g => isYearInGeneration(g, y));
+};
+
+// Марка из начала строки «Марка Модель»: формат старых заказов и ручной правки администратора
+const splitBrand = (text: string): { brand?: CarBrandEntry; rest: string } => {
+  const k = key(text);
+  const hit = PREFIXES.find(p => startsWithWord(k, p.name));
+  return hit ? { brand: hit.brand, rest: text.trim().slice(hit.name.length).trim() } : { rest: text.trim() };
+};
+
+// Модель и поколение из свободного текста: «X5 G05», «E-Class W213», «ML/GLE W166»
+const matchModel = (brand: CarBrandEntry | undefined, text: string): { model?: CarModelEntry; generation?: CarGeneration } => {
+  const k = key(text);
+  const model = [...(brand?.models || [])]
+    .sort((a, b) => b.name.length - a.name.length)
+    .find(m => startsWithWord(k, key(m.name)));
+  if (!model) return {};
+  const tokens = k.slice(model.name.length).split(/[\s/,]+/).filter(Boolean);
+  const generation = model.generations.find(g => tokens.includes(key(g.name)));
+  return { model, generation };
+};
+
+/**
+ * Приводит авто к написанию справочника: марка — каноническое название, модель — без марки,
+ * поколение — из текста модели, если не выбрано явно. Неизвестные значения остаются как есть.
+ */
+export const normalizeCar = <T extends CarDetails>(car: T): T => {
+  const split = splitBrand(car.model || '');
+  const brand = findBrand(car.brand) || split.brand;
+  const modelText = split.brand && (!findBrand(car.brand) || split.brand === brand) ? split.rest : (car.model || '').trim();
+  const { model, generation } = matchModel(brand, modelText);
+  const explicit = findGeneration(brand?.name, model?.name, car.generation);
+  return {
+    ...car,
+    brand: brand?.name || (car.brand || '').trim(),
+    model: model?.name || modelText,
+    generation: explicit?.name || generation?.name || car.generation || ''
+  };
+};
+
+type CarLike = Partial<CarDetails> | undefined;
+
+// Марка заказа: из правки администратора, затем из поля марки, затем из начала строки модели
+export const carBrand = (car: CarLike): string => {
+  if (!car) return '';
+  const admin = car.AdminModel ? splitBrand(car.AdminModel).brand : undefined;
+  return admin?.name || findBrand(car.brand)?.name || splitBrand(car.model || '').brand?.name || (car.brand || '').trim();
+};
+
+// Модель без марки (с поколением): для колонки «Модель» рядом с колонкой «Марка»
+export const carModelLabel = (car: CarLike): string => {
+  if (!car) return '';
+  if (car.AdminModel) return splitBrand(car.AdminModel).rest;
+  const { model, generation } = normalizeCar({ model: '', bodyType: '', year: '', engine: '', transmission: '', ...car });
+  return [model, generation].filter(Boolean).join(' ');
+};
+
+// Полное название: «Toyota Camry XV70»; правка администратора показывается как есть
+export const carTitle = (car: CarLike): string => {
+  if (!car) return '';
+  if (car.AdminModel) return car.AdminModel.trim();
+  return [carBrand(car), carModelLabel(car)].filter(Boolean).join(' ');
+};
@@ -0,0 +1,63 @@
+/**
+ * Доставка одноразовых кодов входа. Бэкенд (LocalStore / GAS) выбирает реализацию при старте;
+ * для разработки — FakeCodeSender, который ничего не отправляет и отдаёт код в ответе (devCode).
+ */
+export interface CodeSender {
+  readonly channel: 'fake' | 'sms' | 'telegram';
+  send(phone: string, code: string): Promise<void>;
+}
+
+const messageText = (code: string) => `China-NAI: код для входа ${code}. Никому его не сообщайте.`;
+
+export class FakeCodeSender implements CodeSender {
+  readonly channel = 'fake' as const;
+  readonly outbox: { phone: string; code: string; sentAt: number }[] = [];
+
+  async send(phone: string, code: string) {
+    this.outbox.push({ phone, code, sentAt: Date.now() });
+    console.info(`[auth] code for +${phone}: ${code}`);
+  }
+}
+
+/**
+ * SMS через HTTP-шлюз: POST { phone, text } на gatewayUrl.
+ * Формат совпадает с большинством шлюзов-агрегаторов; под конкретного провайдера достаточно поменять тело запроса.
+ */
+export class SmsCodeSender implements CodeSender {
+  readonly channel = 'sms' as const;
+
+  constructor(private gatewayUrl: string, private apiKey?: string) {}
+
+  async send(phone: string, code: string) {
+    const response = await fetch(this.gatewayUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({ phone: `+${phone}`, text: messageText(code) })
+    });
+    if (!response.ok) throw new Error(`SMS gateway error: ${response.status}`);
+  }
+}
+
+/**
+ * Telegram-бот: код уходит в чат, привязанный к номеру телефона.
+ * resolveChatId возвращает chat_id по телефону (например, из листа подписчиков) или null, если пользователь не писал боту.
+ */
+export class TelegramCodeSender implements CodeSender {
+  readonly channel = 'telegram' as const;
+
+  constructor(private botToken: string, private resolveChatId: (phone: string) => Promise<string | null>) {}
+
+  async send(phone: string, code: string) {
+    const chatId = await this.resolveChatId(phone);
+    if (!chatId) throw new Error('Номер не привязан к Telegram-боту');
+    const response = await fetch(`https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ chat_id: chatId, text: messageText(code) })
+    });
+    if (!response.ok) throw new Error(`Telegram error: ${response.status}`);
+  }
+}
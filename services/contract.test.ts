@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { decodeActionPayload, decodeActionResponse, requiredRole } from './contract';
+import { createTestStore, signIn, createOrder, ADMIN_PHONE } from './testStore';
+
+describe('decodeActionPayload', () => {
+  it('принимает корректный create', () => {
+    const decoded = decodeActionPayload({
+      action: 'create', requestId: 'r1',
+      order: { id: '', type: 'ORDER', status: 'Новый', vin: '', clientName: 'Иван', createdAt: '', items: [], visibleToClient: 'Y' }
+    });
+    expect(decoded.errors).toEqual([]);
+    expect(decoded.value?.action).toBe('create');
+  });
+
+  it('перечисляет все проблемы запроса', () => {
+    const decoded = decodeActionPayload({ action: 'create', order: { type: 'OFFER', items: 'x' } });
+    expect(decoded.value).toBeNull();
+    expect(decoded.errors.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('отклоняет неизвестное действие и не-объект', () => {
+    expect(decodeActionPayload({ action: 'drop_table' }).value).toBeNull();
+    expect(decodeActionPayload('create').value).toBeNull();
+  });
+
+  it('проверяет поля update_rank', () => {
+    const decoded = decodeActionPayload({ action: 'update_rank', itemId: '1-1', leadOfferId: '1-1', actionType: 'SET', quantity: 0 });
+    expect(decoded.value).toBeNull();
+    expect(decoded.errors).toContain('Неизвестный actionType "SET"');
+  });
+});
+
+describe('decodeActionResponse', () => {
+  it('берёт номер редакции только целым от 1', () => {
+    expect(decodeActionResponse({ status: 'ok', offerRevision: '2' }).offerRevision).toBe(2);
+    expect(decodeActionResponse({ status: 'ok', offerRevision: 0 }).offerRevision).toBeUndefined();
+    expect(decodeActionResponse({ status: 'ok', offerRevision: 1.5 }).offerRevision).toBeUndefined();
+  });
+
+  it('не-объект — ошибка', () => {
+    expect(decodeActionResponse(null).error).toBeTruthy();
+  });
+});
+
+describe('requiredRole', () => {
+  it('правила и курсы — только администратор, оффер — поставщик', () => {
+    expect(requiredRole({ action: 'set_rates', rates: [], source: 'manual' })).toBe('admin');
+    expect(requiredRole({ action: 'withdraw_offer', offerId: '1-1' })).toBe('supplier');
+  });
+});
+
+describe('LocalStore.handle', () => {
+  it('невалидный запрос отклоняется до проверки токена', async () => {
+    const store = createTestStore();
+    const res = await store.handle({ action: 'form_cp' });
+    expect(res.error).toContain('orderId');
+  });
+
+  it('запрос чужой роли отклоняется', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, '+7 900 111-11-11', 'client', 'Иван');
+    const order = await createOrder(store, client);
+    const res = await store.handle({ action: 'form_cp', token: client, orderId: String(order.orderId) });
+    expect(res.error).toBe('Недостаточно прав для этого действия');
+  });
+
+  it('администратор меняет настройку заказа по своему токену', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, '+7 900 111-11-11', 'client', 'Иван');
+    const admin = await signIn(store, ADMIN_PHONE, 'admin');
+    const order = await createOrder(store, client);
+    const res = await store.handle({ action: 'set_price_hints', token: admin, orderId: String(order.orderId), mode: 'on' });
+    expect(res.error).toBeUndefined();
+  });
+});
@@ -0,0 +1,806 @@
+import { OrderItem, RankType, PartCategory, Currency, UserRole, WorkflowStatus, PriceHintMode } from '../types';
+import { isWorkflowStatus } from './workflow';
+
+/**
+ * Контракт между фронтендом и бэкендом (GAS / локальный стенд).
+ * Типы запросов — дискриминированное объединение по полю `action`;
+ * decode*-функции проверяют данные, пришедшие по сети, и возвращают список проблем вместо молчаливого отбрасывания.
+ */
+
+// --- ROWS ---
+
+// Строка листа MarketData в формате Version 3.0 Backend (одна строка = один ORDER или OFFER)
+export interface SheetRow {
+  id: string;      // Col A (0)
+  parentId: string;// Col B (1)
+  type: string;    // Col C (2)
+  status: string;  // Col D (3)
+  vin: string;     // Col E (4)
+  clientName: string; // Col F (5)
+  summary: string; // Col G (6)
+  json: string;    // Col H (7) - The source of truth for app logic
+  rank: string;    // Col I (8) - Now "Readable Status" string (e.g. "✅ Item | 5000")
+  createdAt: string; // Col J (9)
+  processed: string; // Col K (10) (Y/N)
+  readyToBuy?: string; // Col L (11) (Y/N)
+  refusal?: string; // Col M (12) (Y/N) - Cancellation flag
+  workflowStatus?: string; // Col N (13) - Status String
+  sellerId?: string; // Col O (14) - OFFER: ID поставщика из реестра
+  version?: number; // Ревизия последнего изменения строки (push-канал локального бэкенда; в листе GAS колонки нет)
+}
+
+// Порция изменений push-канала: строки, изменённые после ревизии клиента, и текущая ревизия бэкенда
+export interface ChangeBatch {
+  revision: number;
+  rows: SheetRow[];
+}
+
+// Запись реестра поставщиков (лист Suppliers)
+export interface SupplierRecord {
+  id: string;       // S-0001
+  name: string;     // Текущее название компании
+  phone: string;    // Только цифры; пусто у записей, созданных миграцией без телефона
+  createdAt: string;
+}
+
+// Курс валюты к рублю с датой начала действия (лист Rates)
+export interface ExchangeRate {
+  currency: Currency;
+  rate: number;          // ₽ за 1 единицу валюты
+  effectiveDate: string; // YYYY-MM-DD, курс действует с этой даты до следующей записи
+  source: 'manual' | 'import';
+  createdAt: string;
+}
+
+export type RateEntry = Pick<ExchangeRate, 'currency' | 'rate' | 'effectiveDate'>;
+
+// Правило наценки: пустые условия не проверяются, из подходящих выбирается самое конкретное
+export interface MarkupRule {
+  id: string;
+  category?: PartCategory;
+  brand?: string;     // марка авто из заказа, без учёта регистра
+  minPrice?: number;  // ценовой диапазон по закупке в ₽ (включительно)
+  maxPrice?: number;
+  percent: number;
+}
+
+// Настройки расчёта цены для клиента (лист Pricing)
+export interface PricingRules {
+  defaultMarkup: number;  // %, если не подошло ни одно правило
+  customsPercent: number; // % от закупки с доставкой
+  feePerItem: number;     // ₽ за 1 шт (оформление, банковская комиссия)
+  markups: MarkupRule[];
+  updatedAt?: string;
+}
+
+// Правила автоматического выбора лидеров (лист AutoRank)
+export interface AutoRankRules {
+  strategy: 'landed' | 'fastest'; // минимальная итоговая цена или самый короткий срок
+  priceCeiling?: number;          // для 'fastest': итоговая цена за 1 шт в ₽ не выше
+  preferredSuppliers: string[];   // sellerId; их предложения рассматриваются первыми
+  supplierRatings: Record<string, number>; // sellerId → оценка 1–5, выставляет администратор
+  minRating?: number;             // поставщики с оценкой ниже не предлагаются; без оценки — допускаются
+  updatedAt?: string;
+}
+
+// Подсказка лучшей цены поставщикам на заказах без своей настройки (см. priceHints.ts).
+// Уровень поставщика — его оценка 1–5 в правилах автовыбора (supplierRatings)
+export interface PriceHintRules {
+  enabled: boolean;
+  minRating?: number;   // только поставщикам с оценкой не ниже; без — всем с оценкой
+  unrated: boolean;     // и поставщикам без оценки
+  updatedAt?: string;
+}
+
+// --- REQUESTS ---
+
+// Токен сессии (см. AuthService) прикладывается к каждому запросу, кроме auth_*
+interface AuthorizedAction {
+  token?: string;
+  // Версия, которую видел клиент (SheetRow.version); устаревшая запись отклоняется с VERSION_CONFLICT_ERROR.
+  // Сверяется со строкой заказа, а для update_rank и form_cp — со всем блоком заказа (заказ и офферы)
+  expectedVersion?: number;
+  // Ключ идемпотентности (очередь офлайн-действий): повтор с тем же ключом возвращает первый ответ, не выполняя действие снова
+  requestId?: string;
+}
+
+// Создание всегда несёт ключ идемпотентности: повтор после таймаута не создаёт второй заказ или оффер
+export interface CreateAction extends AuthorizedAction {
+  action: 'create';
+  requestId: string;
+  order: {
+    id: string;
+    parentId?: string;
+    type: 'ORDER' | 'OFFER';
+    status: string;
+    vin: string;
+    clientName: string;
+    createdAt: string;
+    items: any[];
+    visibleToClient: 'Y' | 'N';
+  };
+}
+
+// Импорт CSV администратором: заказы от имени клиентов, офферы — от имени поставщиков из реестра (sellerId обязателен)
+export interface BulkCreateAction extends AuthorizedAction {
+  action: 'bulk_create';
+  requestId: string;
+  orders: (CreateAction['order'] & { sellerId?: string })[];
+}
+
+export interface UpdateRankAction extends AuthorizedAction {
+  action: 'update_rank';
+  vin: string;
+  itemId: string;      // ID позиции заказа (см. itemIdentity.ts); позиция оффера несёт тот же ID
+  detailName: string;  // AdminName || name позиции — по нему ищет позицию GAS-скрипт, пока не перешёл на itemId
+  leadOfferId: string;
+  adminPrice?: number;
+  adminCurrency?: Currency;
+  actionType?: 'RESET';
+  adminComment?: string;
+  deliveryRate?: number;
+  priceOverrideReason?: string; // обязательна, если adminPrice отличается от расчётной
+  quantity?: number;   // доля поставщика: оффер становится ещё одним лидером позиции, доли остальных сохраняются
+}
+
+export interface FormCpAction extends AuthorizedAction {
+  action: 'form_cp';
+  orderId: string;
+}
+
+export interface ConfirmPurchaseAction extends AuthorizedAction {
+  action: 'confirm_purchase';
+  orderId: string;
+}
+
+export interface RefuseOrderAction extends AuthorizedAction {
+  action: 'refuse_order';
+  orderId: string;
+  reason?: string;
+  source: 'ADMIN' | 'CLIENT';
+}
+
+// Поставщик отзывает свой оффер, пока по заказу не сформировано КП (правка — повторный create, см. offerRevision.ts)
+export interface WithdrawOfferAction extends AuthorizedAction {
+  action: 'withdraw_offer';
+  offerId: string;
+}
+
+// Окно приёма офферов (см. bidding.ts): hours > 0 — открыть или продлить от текущего момента, 0 — закрыть сейчас.
+// round: 2 — переторжка среди поставщиков, уже приславших оффер; без round — раунд не меняется
+export interface SetBiddingWindowAction extends AuthorizedAction {
+  action: 'set_bidding_window';
+  orderId: string;
+  hours: number;
+  round?: 1 | 2;
+}
+
+// Подсказка цены на заказе: on / off — для всех его поставщиков, default — снять настройку (действуют правила)
+export interface SetPriceHintsAction extends AuthorizedAction {
+  action: 'set_price_hints';
+  orderId: string;
+  mode: PriceHintMode | 'default';
+}
+
+export interface UpdateJsonAction extends AuthorizedAction {
+  action: 'update_json';
+  orderId: string;
+  items: any[];
+}
+
+export interface UpdateWorkflowStatusAction extends AuthorizedAction {
+  action: 'update_workflow_status';
+  orderId: string;
+  status: WorkflowStatus;
+}
+
+export interface SetPricingRulesAction extends AuthorizedAction {
+  action: 'set_pricing_rules';
+  rules: PricingRules;
+}
+
+export interface SetAutoRankRulesAction extends AuthorizedAction {
+  action: 'set_auto_rank_rules';
+  rules: AutoRankRules;
+}
+
+export interface SetPriceHintRulesAction extends AuthorizedAction {
+  action: 'set_price_hint_rules';
+  rules: PriceHintRules;
+}
+
+// Телефон для записи реестра без телефона — после этого поставщик входит в неё по коду
+export interface LinkSupplierPhoneAction extends AuthorizedAction {
+  action: 'link_supplier_phone';
+  supplierId: string;
+  phone: string;
+}
+
+// Телефон клиента для заказа без него (созданного до привязки по номеру) — после этого заказ видит владелец номера
+export interface LinkClientPhoneAction extends AuthorizedAction {
+  action: 'link_client_phone';
+  orderId: string;
+  phone: string;
+}
+
+export interface SetRatesAction extends AuthorizedAction {
+  action: 'set_rates';
+  rates: RateEntry[];
+  source: ExchangeRate['source'];
+}
+
+// Запрос одноразового кода: бэкенд отправляет его через CodeSender (SMS / Telegram / локальная заглушка)
+export interface AuthRequestCodeAction {
+  action: 'auth_request_code';
+  phone: string;
+  role: UserRole;
+}
+
+// Обмен кода на подписанный токен сессии
+export interface AuthVerifyCodeAction {
+  action: 'auth_verify_code';
+  phone: string;
+  role: UserRole;
+  code: string;
+  name?: string;
+}
+
+export type ActionPayload =
+  | AuthRequestCodeAction
+  | AuthVerifyCodeAction
+  | CreateAction
+  | BulkCreateAction
+  | UpdateRankAction
+  | FormCpAction
+  | ConfirmPurchaseAction
+  | RefuseOrderAction
+  | WithdrawOfferAction
+  | SetBiddingWindowAction
+  | SetPriceHintsAction
+  | UpdateJsonAction
+  | UpdateWorkflowStatusAction
+  | SetRatesAction
+  | SetPricingRulesAction
+  | SetAutoRankRulesAction
+  | SetPriceHintRulesAction
+  | LinkSupplierPhoneAction
+  | LinkClientPhoneAction;
+
+export type ActionName = ActionPayload['action'];
+
+export type AuthActionName = 'auth_request_code' | 'auth_verify_code';
+
+// Действия, меняющие данные (попадают в журнал событий)
+export type MutationActionName = Exclude<ActionName, AuthActionName>;
+
+// Тело запроса без поля `action` — его подставляет адаптер бэкенда
+export type PayloadOf<A extends ActionName> = Omit<Extract<ActionPayload, { action: A }>, 'action'>;
+
+// --- RESPONSES ---
+
+export interface ActionResponse {
+  status?: string;
+  orderId?: string | number;
+  offerId?: string;
+  offerRevision?: number; // create оффера: номер редакции, если поставщик уже отвечал на этот заказ (1 — первый ответ)
+  createdIds?: string[]; // bulk_create
+  error?: string;
+  token?: string;   // auth_verify_code
+  devCode?: string; // auth_request_code — только у локальной заглушки CodeSender
+  revision?: number; // ревизия строк после запроса — только у бэкенда с push-каналом
+  currentVersion?: number; // при VERSION_CONFLICT_ERROR — актуальная версия
+}
+
+// Ключ идемпотентности для requestId: уникален в пределах устройства и времени
+export const newRequestId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// --- AUTH ---
+
+// Полезная нагрузка токена сессии. sub — телефон (только цифры)
+export interface SessionClaims {
+  sub: string;
+  name: string;
+  role: UserRole;
+  sellerId?: string; // только у роли supplier
+  exp: number; // unix ms
+}
+
+// Токен отсутствует, подделан или истёк — фронтенд сбрасывает сессию и показывает вход
+export const AUTH_REQUIRED_ERROR = 'Требуется авторизация';
+
+export const VERSION_CONFLICT_ERROR = 'Заказ уже изменён другим пользователем';
+
+export const USER_ROLES: UserRole[] = ['client', 'supplier', 'admin'];
+
+// Какая роль нужна для запроса. Бэкенд проверяет её по токену, фронтенд — выбирает нужный токен
+export const requiredRole = (payload: Exclude<ActionPayload, { action: AuthActionName }>): UserRole => {
+  switch (payload.action) {
+    case 'create':
+      return payload.order.type === 'OFFER' ? 'supplier' : 'client';
+    case 'confirm_purchase':
+      return 'client';
+    case 'withdraw_offer':
+      return 'supplier';
+    case 'refuse_order':
+      return payload.source === 'CLIENT' ? 'client' : 'admin';
+    default:
+      return 'admin';
+  }
+};
+
+export const normalizePhone = (phone: string): string => String(phone || '').replace(/\D/g, '');
+
+// Заказ принадлежит клиенту, чей номер записан в первой позиции (clientPhone). Имя для этого не годится — его может взять другой номер
+export const isOwnOrder = (row: SheetRow, session: SessionClaims): boolean => {
+  if (row.type !== 'ORDER') return false;
+  try {
+    const items = JSON.parse(row.json || '[]');
+    const phone = normalizePhone(Array.isArray(items) ? items[0]?.clientPhone : '');
+    return phone !== '' && phone === session.sub;
+  } catch (e) {
+    return false;
+  }
+};
+
+// --- EVENTS ---
+
+// Изменение одного поля строки листа. Для позиций JSON field = "<название позиции>.<ключ>"
+export interface EventChange {
+  rowId: string;
+  field: string;     // колонка строки или `<ID позиции>.<поле>` — у одноимённых позиций ID разные
+  itemName?: string; // название позиции — только для показа
+  before: string;
+  after: string;
+}
+
+// Запись журнала заказа (append-only). Порядок задаёт seq
+export interface OrderEvent {
+  seq: number;
+  orderId: string;
+  at: string; // ISO
+  actor: { role: UserRole; name: string; sellerId?: string };
+  action: MutationActionName;
+  changes: EventChange[];
+}
+
+// --- DECODING ---
+
+// Проблема в данных конкретной строки листа
+export interface DataIssue {
+  rowId: string;
+  rowType: string;
+  field: string;
+  message: string;
+}
+
+// value === null, если errors не пуст
+export interface Decoded<T> {
+  value: T | null;
+  errors: string[];
+}
+
+const RANKS: RankType[] = ['LEADER', 'RESERVE', 'ЛИДЕР', 'РЕЗЕРВ', ''];
+const CATEGORIES: PartCategory[] = ['Оригинал', 'Б/У', 'Аналог'];
+const CURRENCIES: Currency[] = ['RUB', 'USD', 'CNY'];
+const NUMERIC_ITEM_FIELDS = [
+  'sellerPrice', 'adminPrice', 'offeredQuantity', 'AdminQuantity', 'weight', 'deliveryWeeks', 'deliveryRate'
+] as const;
+
+const isObject = (v: unknown): v is Record<string, any> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+// GAS отдаёт ячейки как string | number | Date — приводим к строке
+const cellToString = (v: unknown): string => {
+  if (v === null || v === undefined) return '';
+  return String(v);
+};
+
+const toNumber = (v: unknown): number | null => {
+  if (typeof v === 'number') return isFinite(v) ? v : null;
+  if (typeof v === 'string' && v.trim() !== '') {
+    const n = Number(v.replace(',', '.'));
+    return isFinite(n) ? n : null;
+  }
+  return null;
+};
+
+export const decodeSheetRow = (raw: unknown, index: number): { row: SheetRow | null; issues: DataIssue[] } => {
+  const fallbackId = `#${index + 2}`; // Номер строки в листе (с учётом заголовка)
+  if (!isObject(raw)) {
+    return { row: null, issues: [{ rowId: fallbackId, rowType: '?', field: 'row', message: 'Строка не является объектом' }] };
+  }
+
+  const id = cellToString(raw.id).trim();
+  const type = cellToString(raw.type).trim();
+  const issues: DataIssue[] = [];
+  const push = (field: string, message: string) => issues.push({ rowId: id || fallbackId, rowType: type || '?', field, message });
+
+  if (!id) push('id', 'Пустой ID');
+  if (type !== 'ORDER' && type !== 'OFFER') push('type', `Неизвестный тип строки: "${type}"`);
+  if (type === 'OFFER' && !cellToString(raw.parentId).trim()) push('parentId', 'У оффера не указан родительский заказ');
+  if (issues.length > 0) return { row: null, issues };
+
+  const flag = (field: string) => {
+    const v = cellToString(raw[field]).trim();
+    if (v && v !== 'Y' && v !== 'N') push(field, `Ожидалось Y/N, получено "${v}"`);
+    return v === 'Y' ? 'Y' : 'N';
+  };
+
+  const row: SheetRow = {
+    id,
+    parentId: cellToString(raw.parentId).trim(),
+    type,
+    status: cellToString(raw.status),
+    vin: cellToString(raw.vin),
+    clientName: cellToString(raw.clientName),
+    summary: cellToString(raw.summary),
+    json: cellToString(raw.json),
+    rank: cellToString(raw.rank),
+    createdAt: cellToString(raw.createdAt),
+    processed: flag('processed'),
+    readyToBuy: flag('readyToBuy'),
+    refusal: flag('refusal'),
+    workflowStatus: cellToString(raw.workflowStatus) || undefined,
+    sellerId: cellToString(raw.sellerId).trim() || undefined,
+    version: toNumber(raw.version) ?? undefined
+  };
+  if (type === 'OFFER' && !row.sellerId) push('sellerId', 'Оффер не привязан к поставщику (нужна миграция реестра)');
+  return { row, issues };
+};
+
+/**
+ * Разбирает колонку JSON строки. Некорректные позиции попадают в issues;
+ * позиции, которые можно привести к OrderItem, сохраняются (лишние поля не трогаем).
+ */
+export const decodeItems = (row: SheetRow): { items: OrderItem[]; issues: DataIssue[] } => {
+  const issues: DataIssue[] = [];
+  const push = (field: string, message: string) => issues.push({ rowId: row.id, rowType: row.type, field, message });
+
+  if (!row.json.trim()) {
+    push('json', 'Пустая колонка JSON');
+    return { items: [], issues };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(row.json);
+  } catch (e: any) {
+    push('json', `Некорректный JSON: ${e?.message || e}`);
+    return { items: [], issues };
+  }
+  if (!Array.isArray(parsed)) {
+    push('json', 'JSON не является массивом позиций');
+    return { items: [], issues };
+  }
+
+  const items: OrderItem[] = [];
+  parsed.forEach((raw, idx) => {
+    const field = (name: string) => `items[${idx}].${name}`;
+    if (!isObject(raw)) {
+      push(`items[${idx}]`, 'Позиция не является объектом');
+      return;
+    }
+    if (!isNonEmptyString(raw.name)) {
+      push(field('name'), 'У позиции нет названия');
+      return;
+    }
+
+    const item: any = { ...raw };
+    const qty = toNumber(raw.quantity);
+    if (qty === null || qty < 0) {
+      push(field('quantity'), `Некорректное количество: ${JSON.stringify(raw.quantity)}`);
+      item.quantity = 0;
+    } else {
+      item.quantity = qty;
+    }
+
+    NUMERIC_ITEM_FIELDS.forEach(key => {
+      if (raw[key] === undefined || raw[key] === null || raw[key] === '') return;
+      const n = toNumber(raw[key]);
+      if (n === null) {
+        push(field(key), `Ожидалось число, получено ${JSON.stringify(raw[key])}`);
+        delete item[key];
+      } else {
+        item[key] = n;
+      }
+    });
+
+    if (raw.rank !== undefined && !RANKS.includes(raw.rank)) {
+      push(field('rank'), `Неизвестный ранг: ${JSON.stringify(raw.rank)}`);
+      delete item.rank;
+    }
+    if (raw.category !== undefined && raw.category !== '' && !CATEGORIES.includes(raw.category)) {
+      push(field('category'), `Неизвестная категория: ${JSON.stringify(raw.category)}`);
+    }
+    (['sellerCurrency', 'adminCurrency'] as const).forEach(key => {
+      if (raw[key] !== undefined && raw[key] !== '' && !CURRENCIES.includes(raw[key])) {
+        push(field(key), `Неизвестная валюта: ${JSON.stringify(raw[key])}`);
+        delete item[key];
+      }
+    });
+
+    if (raw.id !== undefined && raw.id !== null) item.id = cellToString(raw.id);
+    items.push(item as OrderItem);
+  });
+
+  return { items, issues };
+};
+
+const requireString = (body: Record<string, any>, key: string, errors: string[]) => {
+  if (!isNonEmptyString(body[key]) && typeof body[key] !== 'number') errors.push(`Поле "${key}" обязательно`);
+};
+
+// Проверка одной записи курса (ручной ввод, импорт файла, set_rates); null — запись корректна
+export const rateEntryError = (raw: unknown): string | null => {
+  if (!isObject(raw)) return 'запись не является объектом';
+  if (!CURRENCIES.includes(raw.currency) || raw.currency === 'RUB') return `неизвестная валюта "${raw.currency}"`;
+  if (typeof raw.rate !== 'number' || !(raw.rate > 0)) return `курс должен быть положительным числом, получено ${JSON.stringify(raw.rate)}`;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(String(raw.effectiveDate))) return `дата должна быть в формате ГГГГ-ММ-ДД, получено ${JSON.stringify(raw.effectiveDate)}`;
+  return null;
+};
+
+const isPercent = (v: unknown) => typeof v === 'number' && v >= 0 && v <= 1000;
+
+export const pricingRulesErrors = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['Поле "rules" обязательно'];
+  const errors: string[] = [];
+  if (!isPercent(raw.defaultMarkup)) errors.push('defaultMarkup: ожидался процент 0–1000');
+  if (!isPercent(raw.customsPercent)) errors.push('customsPercent: ожидался процент 0–1000');
+  if (typeof raw.feePerItem !== 'number' || raw.feePerItem < 0) errors.push('feePerItem: ожидалось неотрицательное число');
+  if (!Array.isArray(raw.markups)) return [...errors, 'markups должен быть массивом'];
+  raw.markups.forEach((m: unknown, i: number) => {
+    if (!isObject(m)) { errors.push(`markups[${i}]: запись не является объектом`); return; }
+    if (!isPercent(m.percent)) errors.push(`markups[${i}].percent: ожидался процент 0–1000`);
+    if (m.category !== undefined && !CATEGORIES.includes(m.category)) errors.push(`markups[${i}].category: неизвестная категория "${m.category}"`);
+    (['minPrice', 'maxPrice'] as const).forEach(key => {
+      if (m[key] !== undefined && (typeof m[key] !== 'number' || m[key] < 0)) errors.push(`markups[${i}].${key}: ожидалось неотрицательное число`);
+    });
+  });
+  return errors;
+};
+
+const isRating = (v: unknown) => typeof v === 'number' && Number.isInteger(v) && v >= 1 && v <= 5;
+
+export const autoRankRulesErrors = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['Поле "rules" обязательно'];
+  const errors: string[] = [];
+  if (raw.strategy !== 'landed' && raw.strategy !== 'fastest') errors.push(`strategy: неизвестная стратегия "${raw.strategy}"`);
+  if (raw.priceCeiling !== undefined && (typeof raw.priceCeiling !== 'number' || !(raw.priceCeiling > 0))) errors.push('priceCeiling: ожидалось положительное число');
+  if (raw.minRating !== undefined && !isRating(raw.minRating)) errors.push('minRating: ожидалась оценка 1–5');
+  if (!Array.isArray(raw.preferredSuppliers) || raw.preferredSuppliers.some((id: unknown) => !isNonEmptyString(id))) errors.push('preferredSuppliers должен быть массивом ID поставщиков');
+  if (!isObject(raw.supplierRatings)) errors.push('supplierRatings должен быть объектом');
+  else Object.entries(raw.supplierRatings).forEach(([id, rating]) => {
+    if (!isRating(rating)) errors.push(`supplierRatings.${id}: ожидалась оценка 1–5`);
+  });
+  return errors;
+};
+
+export const priceHintRulesErrors = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['Поле "rules" обязательно'];
+  const errors: string[] = [];
+  if (typeof raw.enabled !== 'boolean') errors.push('enabled: ожидалось true или false');
+  if (typeof raw.unrated !== 'boolean') errors.push('unrated: ожидалось true или false');
+  if (raw.minRating !== undefined && !isRating(raw.minRating)) errors.push('minRating: ожидалась оценка 1–5');
+  return errors;
+};
+
+const createOrderErrors = (o: unknown, path: string): string[] => {
+  if (!isObject(o)) return [`Поле "${path}" обязательно`];
+  const errors: string[] = [];
+  if (o.type !== 'ORDER' && o.type !== 'OFFER') errors.push(`${path}.type: неизвестный тип "${o.type}"`);
+  if (o.type === 'OFFER') requireString(o, 'parentId', errors);
+  requireString(o, 'clientName', errors);
+  if (!Array.isArray(o.items)) errors.push(`${path}.items должен быть массивом`);
+  return errors;
+};
+
+// Проверка входящего запроса на стороне бэкенда (локальный стенд)
+export const decodeActionPayload = (body: unknown): Decoded<ActionPayload> => {
+  if (!isObject(body)) return { value: null, errors: ['Тело запроса не является объектом'] };
+  const errors: string[] = [];
+
+  switch (body.action) {
+    case 'auth_request_code':
+    case 'auth_verify_code':
+      if (normalizePhone(body.phone).length < 10) errors.push('Некорректный номер телефона');
+      if (!USER_ROLES.includes(body.role)) errors.push(`Неизвестная роль "${body.role}"`);
+      if (body.action === 'auth_verify_code') requireString(body, 'code', errors);
+      break;
+    case 'create':
+      requireString(body, 'requestId', errors);
+      errors.push(...createOrderErrors(body.order, 'order'));
+      break;
+    case 'bulk_create':
+      requireString(body, 'requestId', errors);
+      if (!Array.isArray(body.orders) || body.orders.length === 0) { errors.push('orders должен быть непустым массивом'); break; }
+      body.orders.forEach((o: unknown, i: number) => {
+        errors.push(...createOrderErrors(o, `orders[${i}]`));
+        if (isObject(o) && o.type === 'OFFER' && !isNonEmptyString(o.sellerId)) errors.push(`orders[${i}]: Поле "sellerId" обязательно`);
+      });
+      break;
+    case 'update_rank':
+      requireString(body, 'itemId', errors);
+      if (body.detailName !== undefined && typeof body.detailName !== 'string') errors.push('detailName должен быть строкой');
+      requireString(body, 'leadOfferId', errors);
+      if (body.actionType !== undefined && body.actionType !== 'RESET') errors.push(`Неизвестный actionType "${body.actionType}"`);
+      if (body.adminPrice !== undefined && toNumber(body.adminPrice) === null) errors.push('adminPrice должен быть числом');
+      if (body.adminCurrency !== undefined && !CURRENCIES.includes(body.adminCurrency)) errors.push(`Неизвестная валюта "${body.adminCurrency}"`);
+      if (body.quantity !== undefined && !(Number.isInteger(body.quantity) && body.quantity > 0)) errors.push('quantity должен быть целым числом больше нуля');
+      break;
+    case 'form_cp':
+    case 'confirm_purchase':
+      requireString(body, 'orderId', errors);
+      break;
+    case 'withdraw_offer':
+      requireString(body, 'offerId', errors);
+      break;
+    case 'set_bidding_window':
+      requireString(body, 'orderId', errors);
+      if (typeof body.hours !== 'number' || !(body.hours >= 0 && body.hours <= 720)) errors.push('hours: ожидалось число часов 0–720');
+      if (body.round !== undefined && body.round !== 1 && body.round !== 2) errors.push(`Неизвестный раунд "${body.round}"`);
+      break;
+    case 'refuse_order':
+      requireString(body, 'orderId', errors);
+      if (body.source !== 'ADMIN' && body.source !== 'CLIENT') errors.push(`Неизвестный source "${body.source}"`);
+      break;
+    case 'update_json':
+      requireString(body, 'orderId', errors);
+      if (!Array.isArray(body.items)) errors.push('items должен быть массивом');
+      break;
+    case 'set_rates':
+      if (!Array.isArray(body.rates) || body.rates.length === 0) errors.push('rates должен быть непустым массивом');
+      else body.rates.forEach((r: unknown, i: number) => { const e = rateEntryError(r); if (e) errors.push(`rates[${i}]: ${e}`); });
+      if (body.source !== 'manual' && body.source !== 'import') errors.push(`Неизвестный source "${body.source}"`);
+      break;
+    case 'set_pricing_rules':
+      errors.push(...pricingRulesErrors(body.rules));
+      break;
+    case 'set_auto_rank_rules':
+      errors.push(...autoRankRulesErrors(body.rules));
+      break;
+    case 'set_price_hint_rules':
+      errors.push(...priceHintRulesErrors(body.rules));
+      break;
+    case 'link_supplier_phone':
+      requireString(body, 'supplierId', errors);
+      if (normalizePhone(body.phone).length < 10) errors.push('phone: ожидался номер телефона');
+      break;
+    case 'link_client_phone':
+      requireString(body, 'orderId', errors);
+      if (normalizePhone(body.phone).length < 10) errors.push('phone: ожидался номер телефона');
+      break;
+    case 'set_price_hints':
+      requireString(body, 'orderId', errors);
+      if (!['on', 'off', 'default'].includes(body.mode)) errors.push(`Неизвестный режим подсказки "${body.mode}"`);
+      break;
+    case 'update_workflow_status':
+      requireString(body, 'orderId', errors);
+      if (!isWorkflowStatus(body.status)) errors.push(`Неизвестный статус "${body.status}"`);
+      break;
+    default:
+      errors.push(`Неизвестное действие: ${JSON.stringify(body.action)}`);
+  }
+  if (body.expectedVersion !== undefined && !(Number.isInteger(body.expectedVersion) && body.expectedVersion >= 0)) {
+    errors.push('expectedVersion должен быть целым неотрицательным числом');
+  }
+  if (body.requestId !== undefined && !isNonEmptyString(body.requestId)) errors.push('requestId должен быть непустой строкой');
+
+  return { value: errors.length > 0 ? null : body as ActionPayload, errors };
+};
+
+// Реестр приходит целиком; записи без ID пропускаются
+export const decodeSuppliers = (raw: unknown): SupplierRecord[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isObject).filter(r => isNonEmptyString(cellToString(r.id))).map(r => ({
+    id: cellToString(r.id).trim(),
+    name: cellToString(r.name),
+    phone: normalizePhone(cellToString(r.phone)),
+    createdAt: cellToString(r.createdAt)
+  }));
+};
+
+// Некорректные записи курсов пропускаются — пересчёт по ним невозможен
+export const decodeRates = (raw: unknown): ExchangeRate[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isObject).map(r => ({
+    currency: r.currency as Currency,
+    rate: toNumber(r.rate) as number,
+    effectiveDate: cellToString(r.effectiveDate).slice(0, 10),
+    source: (r.source === 'import' ? 'import' : 'manual') as ExchangeRate['source'],
+    createdAt: cellToString(r.createdAt)
+  })).filter(r => rateEntryError(r) === null);
+};
+
+// Настройки с ошибками заменяются значениями по умолчанию целиком — частично применённая наценка опаснее
+export const decodePricingRules = (raw: unknown, fallback: PricingRules): PricingRules => {
+  if (pricingRulesErrors(raw).length > 0) return fallback;
+  const r = raw as PricingRules;
+  return {
+    defaultMarkup: r.defaultMarkup,
+    customsPercent: r.customsPercent,
+    feePerItem: r.feePerItem,
+    markups: r.markups.map((m, i) => ({
+      id: m.id ? cellToString(m.id) : `R${i + 1}`,
+      category: m.category || undefined,
+      brand: m.brand ? cellToString(m.brand).trim() : undefined,
+      minPrice: m.minPrice,
+      maxPrice: m.maxPrice,
+      percent: m.percent
+    })),
+    updatedAt: r.updatedAt ? cellToString(r.updatedAt) : undefined
+  };
+};
+
+// Как и наценки: при ошибке — правила по умолчанию целиком
+export const decodeAutoRankRules = (raw: unknown, fallback: AutoRankRules): AutoRankRules => {
+  if (autoRankRulesErrors(raw).length > 0) return fallback;
+  const r = raw as AutoRankRules;
+  return {
+    strategy: r.strategy,
+    priceCeiling: r.priceCeiling,
+    preferredSuppliers: r.preferredSuppliers.map(id => cellToString(id).trim()),
+    supplierRatings: { ...r.supplierRatings },
+    minRating: r.minRating,
+    updatedAt: r.updatedAt ? cellToString(r.updatedAt) : undefined
+  };
+};
+
+export const decodePriceHintRules = (raw: unknown, fallback: PriceHintRules): PriceHintRules => {
+  if (priceHintRulesErrors(raw).length > 0) return fallback;
+  const r = raw as PriceHintRules;
+  return {
+    enabled: r.enabled,
+    minRating: r.minRating,
+    unrated: r.unrated,
+    updatedAt: r.updatedAt ? cellToString(r.updatedAt) : undefined
+  };
+};
+
+export const decodeEvents = (raw: unknown): OrderEvent[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isObject).filter(e => typeof e.seq === 'number' && isObject(e.actor)).map(e => ({
+    seq: e.seq,
+    orderId: cellToString(e.orderId),
+    at: cellToString(e.at),
+    actor: {
+      role: USER_ROLES.includes(e.actor.role) ? e.actor.role : 'admin',
+      name: cellToString(e.actor.name),
+      sellerId: e.actor.sellerId ? cellToString(e.actor.sellerId) : undefined
+    },
+    action: e.action as MutationActionName,
+    changes: Array.isArray(e.changes) ? e.changes.filter(isObject).map(c => ({
+      rowId: cellToString(c.rowId),
+      field: cellToString(c.field),
+      itemName: c.itemName ? cellToString(c.itemName) : undefined,
+      before: cellToString(c.before),
+      after: cellToString(c.after)
+    })) : []
+  }));
+};
+
+// Строки порции проверяются как строки getData (decodeSheetRow); отказ бэкенда приходит объектом { error }
+export const decodeChangeBatch = (raw: unknown): { revision: number; rows: unknown[] } => {
+  if (!isObject(raw)) throw new Error('Invalid change batch: expected object');
+  if (isNonEmptyString(raw.error)) throw new Error(raw.error);
+  return { revision: toNumber(raw.revision) || 0, rows: Array.isArray(raw.rows) ? raw.rows : [] };
+};
+
+export const decodeActionResponse = (raw: unknown): ActionResponse => {
+  if (!isObject(raw)) return { error: 'Некорректный ответ сервера' };
+  const res: ActionResponse = {};
+  if (raw.status !== undefined) res.status = cellToString(raw.status);
+  if (raw.orderId !== undefined && raw.orderId !== null && raw.orderId !== '') res.orderId = cellToString(raw.orderId);
+  if (raw.offerId !== undefined && raw.offerId !== null) res.offerId = cellToString(raw.offerId);
+  if (Array.isArray(raw.createdIds)) res.createdIds = raw.createdIds.map(cellToString);
+  if (raw.error !== undefined) res.error = cellToString(raw.error);
+  if (isNonEmptyString(raw.token)) res.token = raw.token;
+  if (raw.devCode !== undefined && raw.devCode !== null) res.devCode = cellToString(raw.devCode);
+  const revision = toNumber(raw.revision);
+  if (revision !== null) res.revision = revision;
+  const currentVersion = toNumber(raw.currentVersion);
+  if (currentVersion !== null) res.currentVersion = currentVersion;
+  // Номер редакции — целое от 1; иное значение не выдаём за редакцию
+  const offerRevision = toNumber(raw.offerRevision);
+  if (offerRevision !== null && Number.isInteger(offerRevision) && offerRevision >= 1) res.offerRevision = offerRevision;
+  return res;
+};
@@ -0,0 +1,205 @@
+import type { CarDetails, CpDocument, CpDocumentItem, Currency, OrderItem, RateSnapshot } from '../types';
+import { convertAmount, roundMoney } from './exchangeRates';
+import { carBrand, carTitle } from './carCatalogue';
+import { isSameItem } from './itemIdentity';
+import { leaderQuantity, requiredQuantity } from './fulfilment';
+
+/**
+ * Документ коммерческого предложения. Бэкенд собирает снимок при каждом form_cp (новая версия),
+ * интерфейсы клиента и администратора только показывают его: HTML для скачивания и печать в PDF из браузера.
+ */
+
+export const CP_VALIDITY_DAYS = 5;
+
+const BRAND_NAME = 'autoparts market | china-nai';
+const BRAND_LOGO = 'https://i.vgy.me/0lR7Mt.png';
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = { RUB: '₽', USD: '$', CNY: '¥' };
+
+export interface CpSource {
+  orderId: string;
+  vin: string;
+  clientName: string;
+  items: OrderItem[];                     // позиции заказа; в первой — телефон клиента, авто и курсы
+  offers: { items: OrderItem[] }[];
+  previous: CpDocument[];                 // уже выданные версии
+}
+
+const isLeaderRank = (item: OrderItem) => item.rank === 'ЛИДЕР' || item.rank === 'LEADER';
+
+// Авто в документе — с правками администратора
+const effectiveCar = (car?: CarDetails): CarDetails | undefined => car && {
+  brand: carBrand(car),
+  model: carTitle(car),
+  generation: car.generation,
+  bodyType: car.AdminBodyType || car.bodyType,
+  year: car.AdminYear || car.year,
+  engine: car.AdminEngine || car.engine,
+  transmission: car.AdminTransmission || car.transmission
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export const buildCpDocument = (source: CpSource, now = new Date()): CpDocument => {
+  const meta = source.items[0] || ({} as OrderItem);
+  const rateSnapshot: RateSnapshot | undefined = meta.rateSnapshot;
+
+  // Доставка входит в цену, только если цена лидера посчитана движком (pricing)
+  let deliveryIncluded = true;
+  // Позиция, разделённая между поставщиками, — строка на каждую долю со своей ценой; непокрытый остаток — строкой без цены
+  const items: CpDocumentItem[] = source.items.flatMap(item => {
+    const leaders = source.offers.flatMap(o => o.items).filter(i => isLeaderRank(i) && isSameItem(i, item));
+    const required = requiredQuantity(item);
+    const base = { itemId: item.id, name: item.AdminName || item.name, category: item.category, quantity: required };
+    if (leaders.length === 0) return [base];
+    const isSplit = leaders.length > 1 || leaderQuantity(leaders[0]) < required;
+    const lines: CpDocumentItem[] = leaders.map(leader => {
+      if (!leader.pricing) deliveryIncluded = false;
+      return {
+        ...base,
+        quantity: leaderQuantity(leader),
+        // Цена поставщика в документ клиента не попадает: без цены администратора строка остаётся без цены
+        price: leader.adminPrice,
+        currency: leader.adminPrice === undefined ? undefined : leader.adminCurrency ?? 'RUB',
+        deliveryWeeks: leader.deliveryWeeks,
+        ...(isSplit ? { splitOf: required } : {})
+      };
+    });
+    const rest = required - lines.reduce((acc, l) => acc + l.quantity, 0);
+    return rest > 0 ? [...lines, { ...base, quantity: rest, splitOf: required }] : lines;
+  });
+
+  const totals: Partial<Record<Currency, number>> = {};
+  let totalRub: number | undefined = 0;
+  items.forEach(i => {
+    if (i.price === undefined || !i.currency) return;
+    const sum = roundMoney(i.price * i.quantity);
+    totals[i.currency] = roundMoney((totals[i.currency] || 0) + sum);
+    const rub = i.currency === 'RUB' ? sum : rateSnapshot ? convertAmount(sum, i.currency, 'RUB', rateSnapshot.rates) : null;
+    totalRub = rub === null || totalRub === undefined ? undefined : roundMoney(totalRub + rub);
+  });
+
+  const weeks = items.map(i => i.deliveryWeeks || 0);
+  const maxWeeks = Math.max(0, ...weeks);
+  const version = source.previous.reduce((acc, d) => Math.max(acc, d.version), 0) + 1;
+
+  return {
+    version,
+    number: `${source.orderId}-${version}`,
+    createdAt: now.toISOString(),
+    validUntil: addDays(now, CP_VALIDITY_DAYS),
+    clientName: source.clientName,
+    clientPhone: meta.clientPhone,
+    vin: source.vin,
+    car: effectiveCar(meta.car),
+    items,
+    totals,
+    totalRub,
+    deliveryTerms: [
+      maxWeeks > 0 ? `Срок поставки — до ${maxWeeks} нед. после оплаты.` : 'Срок поставки уточняется менеджером.',
+      deliveryIncluded ? 'Доставка до склада в России включена в цену.' : 'Доставка оплачивается отдельно по тарифу.'
+    ].join(' '),
+    rateSnapshot
+  };
+};
+
+const escapeHtml = (value: unknown) => String(value ?? '')
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const money = (amount: number, currency: Currency) => `${amount.toLocaleString('ru-RU')} ${CURRENCY_SYMBOLS[currency]}`;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('ru-RU');
+
+export const cpFileName = (doc: CpDocument) => `KP-${doc.number}.html`;
+
+// Самостоятельная HTML-страница: стили встроены, чтобы файл открывался без приложения и печатался в PDF
+export const renderCpHtml = (doc: CpDocument): string => {
+  const car = doc.car;
+  const carRows = car ? [
+    ['Марка / модель', car.model],
+    ['Год', car.year],
+    ['Кузов', car.bodyType],
+    ['Двигатель', car.engine],
+    ['КПП', car.transmission]
+  ].filter(([, v]) => v) : [];
+
+  const itemRows = doc.items.map((item, idx) => `
+      <tr>
+        <td>${idx + 1}</td>
+        <td><b>${escapeHtml(item.name)}</b>${item.category ? `<div class="muted">${escapeHtml(item.category)}</div>` : ''}${item.splitOf ? `<div class="muted">часть поставки: ${item.quantity} из ${item.splitOf} шт</div>` : ''}</td>
+        <td class="num">${item.quantity}</td>
+        ${item.price !== undefined && item.currency
+          ? `<td class="num">${money(item.price, item.currency)}</td><td class="num">${money(roundMoney(item.price * item.quantity), item.currency)}</td><td class="num">${item.deliveryWeeks ? `${item.deliveryWeeks} нед.` : '—'}</td>`
+          : `<td colspan="3" class="muted">Нет предложения</td>`}
+      </tr>`).join('');
+
+  const totals = (Object.entries(doc.totals) as [Currency, number][]).map(([c, v]) => money(v, c)).join(' + ') || '—';
+  const rates = doc.rateSnapshot
+    ? Object.entries(doc.rateSnapshot.rates).filter(([c]) => c !== 'RUB').map(([c, r]) => `1 ${c} = ${r} ₽`).join(', ')
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>КП № ${escapeHtml(doc.number)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #0f172a; margin: 32px; font-size: 12px; }
+  header { display: flex; align-items: center; justify-content: space-between; border-bottom: 3px solid #4f46e5; padding-bottom: 12px; }
+  header .brand { display: flex; align-items: center; gap: 8px; font-weight: 900; text-transform: uppercase; }
+  header .brand img { width: 32px; height: 32px; }
+  h1 { font-size: 18px; margin: 20px 0 4px; text-transform: uppercase; }
+  .muted { color: #64748b; font-size: 10px; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 16px; margin: 16px 0; }
+  .box { border: 1px solid #e2e8f0; border-radius: 8px; padding: 10px; }
+  .box h2 { font-size: 10px; text-transform: uppercase; color: #64748b; margin: 0 0 6px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; font-size: 9px; text-transform: uppercase; color: #64748b; border-bottom: 1px solid #cbd5e1; padding: 6px; }
+  td { border-bottom: 1px solid #f1f5f9; padding: 6px; vertical-align: top; }
+  .num { text-align: right; white-space: nowrap; }
+  .total { text-align: right; font-size: 14px; font-weight: 900; margin-top: 12px; }
+  .terms { margin-top: 16px; }
+  .print { position: fixed; top: 16px; right: 16px; padding: 8px 16px; background: #4f46e5; color: #fff; border: 0; border-radius: 8px; font-weight: 700; cursor: pointer; }
+  @media print { .print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Сохранить в PDF</button>
+<header>
+  <div class="brand"><img src="${BRAND_LOGO}" alt="">${escapeHtml(BRAND_NAME)}</div>
+  <div class="muted">от ${formatDate(doc.createdAt)}</div>
+</header>
+
+<h1>Коммерческое предложение № ${escapeHtml(doc.number)}</h1>
+<div class="muted">Версия ${doc.version} · действительно до ${formatDate(doc.validUntil)}</div>
+
+<div class="grid">
+  <div class="box">
+    <h2>Клиент</h2>
+    <div><b>${escapeHtml(doc.clientName)}</b></div>
+    ${doc.clientPhone ? `<div>${escapeHtml(doc.clientPhone)}</div>` : ''}
+  </div>
+  <div class="box">
+    <h2>Автомобиль</h2>
+    <div>VIN: <b>${escapeHtml(doc.vin)}</b></div>
+    ${carRows.map(([label, value]) => `<div>${label}: ${escapeHtml(value)}</div>`).join('')}
+  </div>
+</div>
+
+<table>
+  <thead><tr><th>№</th><th>Позиция</th><th class="num">Кол-во</th><th class="num">Цена</th><th class="num">Сумма</th><th class="num">Срок</th></tr></thead>
+  <tbody>${itemRows}
+  </tbody>
+</table>
+
+<div class="total">Итого: ${totals}${doc.totalRub !== undefined && Object.keys(doc.totals).some(c => c !== 'RUB') ? ` <span class="muted">(≈ ${money(doc.totalRub, 'RUB')})</span>` : ''}</div>
+
+<div class="terms box">
+  <h2>Условия</h2>
+  <div>${escapeHtml(doc.deliveryTerms)}</div>
+  <div>Предложение действительно до ${formatDate(doc.validUntil)}; после этой даты цены и сроки уточняются.</div>
+  ${rates ? `<div class="muted">Курсы на ${escapeHtml(doc.rateSnapshot!.date)}: ${rates}</div>` : ''}
+</div>
+</body>
+</html>`;
+};
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { toCsv, parseCsv } from './csv';
+
+describe('toCsv', () => {
+  it('текст, похожий на формулу, выгружается с апострофом', () => {
+    const csv = toCsv([['=HYPERLINK("http://x")', '+7 900', '-1', '@SUM(A1)', 'Фара']]);
+    expect(csv).toBe('\uFEFF"\'=HYPERLINK(""http://x"")";\'+7 900;\'-1;\'@SUM(A1);Фара');
+  });
+
+  it('числа остаются числами', () => {
+    expect(toCsv([[-5, 0, 1.5]])).toBe('\uFEFF-5;0;1.5');
+  });
+
+  it('разбор снимает апостроф, поставленный при выгрузке', () => {
+    const rows = [['=1+1', '-10', 'обычный текст', "'цитата"]];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it('разделитель определяется по первой строке', () => {
+    expect(parseCsv('a,b\n1,"2,5"')).toEqual([['a', 'b'], ['1', '2,5']]);
+  });
+});
@@ -0,0 +1,60 @@
+import type { CellValue } from './xlsx';
+
+/**
+ * CSV в формате, который открывает русский Excel: разделитель ";", BOM, кавычки по RFC 4180.
+ * Разбор понимает ";", "," и табуляцию — разделитель определяется по первой строке.
+ * Текст, который Excel принял бы за формулу (= + - @ в начале), выгружается с апострофом — и снимается при разборе.
+ */
+
+const FORMULA_START = /^[=+\-@]/;
+
+const quote = (value: CellValue): string => {
+  if (value === null || value === undefined) return '';
+  // Названия, комментарии и имена вводят клиенты и поставщики — формула из них не должна выполниться у администратора
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CellValue[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(quote).join(';')).join('\r\n');
+
+const detectDelimiter = (firstLine: string): string => {
+  const counts = [';', ',', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+// Строки таблицы; пустые строки пропускаются, переносы внутри кавычек сохраняются
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else cell += ch;
+    } else if (ch === '"' && cell === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell); cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell); cell = '';
+      if (row.some(c => c.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  if (row.some(c => c.trim() !== '')) rows.push(row);
+  return rows.map(r => r.map(c => {
+    const text = c.trim();
+    return text.startsWith("'") && FORMULA_START.test(text.slice(1)) ? text.slice(1) : text;
+  }));
+};
@@ -0,0 +1,71 @@
+import { GasBackend } from './gasBackend';
+import { LocalBackend } from './localBackend';
+import type { ActionResponse, PayloadOf } from './contract';
+
+/**
+ * Хранилище данных маркетплейса.
+ * Каждый метод соответствует одному `action` GAS-скрипта и принимает те же поля, что уходят в POST (см. contract.ts).
+ * get* возвращают сырые данные — их проверка выполняется в SheetService (decodeSheetRow, decodeSuppliers, decodeEvents, decodeRates, decodePricingRules, decodeAutoRankRules, decodePriceHintRules).
+ * subscribe — push-канал изменений строк (порции для decodeChangeBatch); бэкенд без канала сообщает об ошибке, и SheetService переходит на опрос.
+ * supportsAuth — бэкенд выдаёт и проверяет токены сессий (auth_request_code / auth_verify_code); без них вход упрощённый (AuthService.signInWithoutCode).
+ */
+export interface DataBackend {
+  readonly kind: BackendKind;
+  readonly supportsAuth: boolean;
+  getOrders(token?: string): Promise<unknown[]>;
+  getSuppliers(token?: string): Promise<unknown[]>;
+  getEvents(token?: string, orderId?: string): Promise<unknown[]>;
+  getRates(token?: string): Promise<unknown[]>;
+  getPricingRules(token?: string): Promise<unknown>;
+  getAutoRankRules(token?: string): Promise<unknown>;
+  getPriceHintRules(token?: string): Promise<unknown>;
+  subscribe(token: string | undefined, since: number, onChanges: (batch: unknown) => void, onError: (error: Error) => void): () => void;
+  requestCode(payload: PayloadOf<'auth_request_code'>): Promise<ActionResponse>;
+  verifyCode(payload: PayloadOf<'auth_verify_code'>): Promise<ActionResponse>;
+  create(payload: PayloadOf<'create'>): Promise<ActionResponse>;
+  bulkCreate(payload: PayloadOf<'bulk_create'>): Promise<ActionResponse>;
+  updateRank(payload: PayloadOf<'update_rank'>): Promise<ActionResponse>;
+  formCP(payload: PayloadOf<'form_cp'>): Promise<ActionResponse>;
+  confirmPurchase(payload: PayloadOf<'confirm_purchase'>): Promise<ActionResponse>;
+  refuseOrder(payload: PayloadOf<'refuse_order'>): Promise<ActionResponse>;
+  withdrawOffer(payload: PayloadOf<'withdraw_offer'>): Promise<ActionResponse>;
+  setBiddingWindow(payload: PayloadOf<'set_bidding_window'>): Promise<ActionResponse>;
+  setPriceHints(payload: PayloadOf<'set_price_hints'>): Promise<ActionResponse>;
+  updateJson(payload: PayloadOf<'update_json'>): Promise<ActionResponse>;
+  updateWorkflowStatus(payload: PayloadOf<'update_workflow_status'>): Promise<ActionResponse>;
+  setRates(payload: PayloadOf<'set_rates'>): Promise<ActionResponse>;
+  setPricingRules(payload: PayloadOf<'set_pricing_rules'>): Promise<ActionResponse>;
+  setAutoRankRules(payload: PayloadOf<'set_auto_rank_rules'>): Promise<ActionResponse>;
+  setPriceHintRules(payload: PayloadOf<'set_price_hint_rules'>): Promise<ActionResponse>;
+  linkSupplierPhone(payload: PayloadOf<'link_supplier_phone'>): Promise<ActionResponse>;
+  linkClientPhone(payload: PayloadOf<'link_client_phone'>): Promise<ActionResponse>;
+}
+
+export type BackendKind = 'gas' | 'local';
+
+const BACKEND_STORAGE_KEY = 'DATA_BACKEND';
+
+// ?backend=local | ?backend=gas — переключение хранилища до первого запроса данных
+const requestedKind = new URLSearchParams(window.location.search).get('backend');
+if (requestedKind === 'local' || requestedKind === 'gas') {
+  localStorage.setItem(BACKEND_STORAGE_KEY, requestedKind);
+}
+
+export const getBackendKind = (): BackendKind =>
+  localStorage.getItem(BACKEND_STORAGE_KEY) === 'local' ? 'local' : 'gas';
+
+export const setBackendKind = (kind: BackendKind) => {
+  localStorage.setItem(BACKEND_STORAGE_KEY, kind);
+  activeBackend = null;
+};
+
+let activeBackend: DataBackend | null = null;
+
+// Выбор адаптера: 'gas' (Google Apps Script, по умолчанию) или 'local' (in-memory, без сети)
+export const getBackend = (): DataBackend => {
+  const kind = getBackendKind();
+  if (!activeBackend || activeBackend.kind !== kind) {
+    activeBackend = kind === 'local' ? new LocalBackend() : new GasBackend();
+  }
+  return activeBackend;
+};
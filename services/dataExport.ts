@@ -0,0 +1,150 @@
+import type { Currency, Order, OrderItem, UserRole } from '../types';
+import type { CellValue, Sheet } from './xlsx';
+import { convertAmount, roundMoney } from './exchangeRates';
+import { carBrand, carModelLabel } from './carCatalogue';
+import { leaderQuantity } from './fulfilment';
+
+/**
+ * Выгрузка текущего (отфильтрованного) списка интерфейса в таблицы: заказы, офферы, лидеры, итоги.
+ * Состав колонок зависит от роли — клиент не видит поставщиков и закупочных цен, поставщик — клиентов и чужих офферов.
+ */
+
+export type ExportTableKey = 'orders' | 'offers' | 'leaders' | 'totals';
+
+export interface ExportTable extends Sheet {
+  key: ExportTableKey;
+}
+
+export interface ExportViewer {
+  role: UserRole;
+  sellerId?: string; // поставщик видит только свой оффер
+}
+
+interface LeaderLine {
+  order: Order;
+  offer: Order;
+  item: OrderItem;
+  quantity: number;
+  price?: number;
+  currency: Currency;
+}
+
+const isLeaderRank = (item: OrderItem) => item.rank === 'ЛИДЕР' || item.rank === 'LEADER';
+
+const visibleOffers = (order: Order, viewer: ExportViewer): Order[] => {
+  const offers = order.offers || [];
+  if (viewer.role === 'admin') return offers;
+  if (viewer.role === 'supplier') return offers.filter(o => o.sellerId && o.sellerId === viewer.sellerId);
+  return offers.filter(o => o.visibleToClient === 'Y');
+};
+
+// Клиенту — цена для клиента, поставщику — его закупочная цена
+const leaderLines = (order: Order, viewer: ExportViewer): LeaderLine[] =>
+  visibleOffers(order, viewer).flatMap(offer => offer.items.filter(isLeaderRank).map(item => {
+    const supplierView = viewer.role === 'supplier';
+    return {
+      order,
+      offer,
+      item,
+      quantity: leaderQuantity(item),
+      price: supplierView ? item.sellerPrice : item.adminPrice ?? item.sellerPrice,
+      currency: (supplierView ? item.sellerCurrency : item.adminCurrency ?? item.sellerCurrency) || 'RUB'
+    };
+  }));
+
+const sumByCurrency = (lines: LeaderLine[]): Partial<Record<Currency, number>> => {
+  const totals: Partial<Record<Currency, number>> = {};
+  lines.forEach(l => {
+    if (l.price === undefined) return;
+    totals[l.currency] = roundMoney((totals[l.currency] || 0) + l.price * l.quantity);
+  });
+  return totals;
+};
+
+const formatTotals = (totals: Partial<Record<Currency, number>>) =>
+  (Object.entries(totals) as [Currency, number][]).map(([c, v]) => `${v} ${c}`).join('; ');
+
+// Сумма в рублях по курсам КП; null — есть валюта без курса
+const totalRub = (order: Order, totals: Partial<Record<Currency, number>>): number | null => {
+  let sum = 0;
+  for (const [currency, amount] of Object.entries(totals) as [Currency, number][]) {
+    const rub = currency === 'RUB' ? amount : order.rateSnapshot ? convertAmount(amount, currency, 'RUB', order.rateSnapshot.rates) : null;
+    if (rub === null) return null;
+    sum += rub;
+  }
+  return roundMoney(sum);
+};
+
+export const buildExportTables = (orders: Order[], viewer: ExportViewer): ExportTable[] => {
+  const isAdmin = viewer.role === 'admin';
+  const isSupplier = viewer.role === 'supplier';
+  const lines = orders.map(order => ({ order, leaders: leaderLines(order, viewer) }));
+
+  const ordersTable: ExportTable = {
+    key: 'orders',
+    name: 'Заказы',
+    rows: [
+      ['ID', 'Дата', ...(isSupplier ? [] : ['Клиент']), ...(isAdmin ? ['Телефон'] : []), 'VIN', 'Марка', 'Модель', 'Год', 'Статус', 'Позиций', ...(isAdmin ? ['Офферов'] : []), 'Сумма по лидерам', 'Итого ₽'],
+      ...lines.map(({ order, leaders }) => {
+        const totals = sumByCurrency(leaders);
+        return [
+          order.id,
+          order.createdAt.split(/[\n,]/)[0],
+          ...(isSupplier ? [] : [order.clientName]),
+          ...(isAdmin ? [order.clientPhone || ''] : []),
+          order.vin,
+          carBrand(order.car),
+          carModelLabel(order.car),
+          order.car?.AdminYear || order.car?.year || '',
+          order.workflowStatus || 'В обработке',
+          order.items.length,
+          ...(isAdmin ? [(order.offers || []).length] : []),
+          formatTotals(totals),
+          leaders.length > 0 ? totalRub(order, totals) : ''
+        ] as CellValue[];
+      })
+    ]
+  };
+
+  const offersTable: ExportTable = {
+    key: 'offers',
+    name: 'Офферы',
+    rows: [
+      ['Заказ', 'Оффер', 'Поставщик', 'ID поставщика', 'Позиция', 'Артикул', 'Кол-во', 'Цена', 'Валюта', 'Вес, кг', 'Срок, нед.', 'Ранг'],
+      ...orders.flatMap(order => visibleOffers(order, viewer).flatMap(offer => offer.items.map(item => [
+        order.id, offer.id, offer.clientName, offer.sellerId || '', item.AdminName || item.name, item.article || '', item.offeredQuantity ?? '',
+        item.sellerPrice, item.sellerCurrency || '', item.weight, item.deliveryWeeks, item.rank || ''
+      ] as CellValue[])))
+    ]
+  };
+
+  const leadersTable: ExportTable = {
+    key: 'leaders',
+    name: 'Лидеры',
+    rows: [
+      ['Заказ', 'Позиция', 'Артикул', 'Категория', ...(isAdmin ? ['Поставщик'] : []), 'Кол-во', 'Цена', 'Валюта', 'Сумма', 'Срок, нед.'],
+      ...lines.flatMap(({ leaders }) => leaders.map(l => [
+        l.order.id, l.item.AdminName || l.item.name, l.item.article || '', l.item.category || '', ...(isAdmin ? [l.offer.clientName] : []), l.quantity,
+        l.price, l.currency, l.price !== undefined ? roundMoney(l.price * l.quantity) : '', l.item.deliveryWeeks
+      ] as CellValue[]))
+    ]
+  };
+
+  const allLeaders = lines.flatMap(l => l.leaders);
+  const grand = sumByCurrency(allLeaders);
+  const totalsTable: ExportTable = {
+    key: 'totals',
+    name: 'Итоги',
+    rows: [
+      ['Показатель', 'Значение'],
+      ['Заказов', orders.length],
+      ['Позиций', orders.reduce((acc, o) => acc + o.items.length, 0)],
+      ...(isSupplier ? [] : [['Офферов', orders.reduce((acc, o) => acc + visibleOffers(o, viewer).length, 0)]] as CellValue[][]),
+      ['Позиций с лидером', allLeaders.length],
+      ...(Object.entries(grand) as [Currency, number][]).map(([c, v]) => [`Сумма по лидерам, ${c}`, v] as CellValue[])
+    ]
+  };
+
+  // Клиент не видит офферы целиком — только согласованные позиции
+  return viewer.role === 'client' ? [ordersTable, leadersTable, totalsTable] : [ordersTable, offersTable, leadersTable, totalsTable];
+};
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { autoMap, planImport, parseNumber, ImportContext } from './dataImport';
+import { Order, OrderStatus, RowType } from '../types';
+
+const order = (id: string, workflowStatus: Order['workflowStatus'] = 'В обработке', offers: Order[] = []): Order => ({
+  id, type: RowType.ORDER, vin: 'VIN0000000000001', status: OrderStatus.OPEN, createdAt: '', clientName: 'Иван', workflowStatus, offers,
+  items: [{ id: `${id}-1`, name: 'Фара', quantity: 2, color: '', address: '' }, { id: `${id}-2`, name: 'Бампер', quantity: 1, color: '', address: '' }]
+});
+
+const CONTEXT: ImportContext = {
+  orders: [order('1'), order('2', 'Готов купить')],
+  suppliers: [{ id: 'S-0001', name: 'ООО ЗАПЧАСТЬ', phone: '79002222222', createdAt: '' }]
+};
+
+const plan = (kind: 'orders' | 'pricelist', table: string[][]) => planImport(kind, table, autoMap(kind, table[0]), CONTEXT);
+
+describe('parseNumber', () => {
+  it('понимает пробелы и запятую, пустое — undefined', () => {
+    expect(parseNumber('1 200,50')).toBe(1200.5);
+    expect(parseNumber('')).toBeUndefined();
+    expect(parseNumber('abc')).toBeNaN();
+  });
+});
+
+describe('импорт заказов', () => {
+  it('строки одного клиента и VIN собираются в один заказ, строки с ошибками не попадают в пакет', () => {
+    const result = plan('orders', [
+      ['Клиент', 'VIN', 'Позиция', 'Кол-во', 'Категория'],
+      ['Иван', 'VIN1', 'Фара', '2', 'Оригинал'],
+      ['иван', 'VIN1', 'Бампер', '', ''],
+      ['Пётр', 'VIN2', 'Капот', '1,5', ''],
+      ['Пётр', 'VIN2', 'Крыло', '1', 'Новая'],
+      ['', 'VIN3', '', '', '']
+    ]);
+    expect(result.rows.map(r => r.errors.length > 0)).toEqual([false, false, true, true, true]);
+    expect(result.rows[4].errors).toEqual(['«Клиент» не заполнено', '«Позиция» не заполнено']);
+    expect(result.orders).toHaveLength(1);
+    expect(result.orders[0].items.map(i => i.quantity)).toEqual([2, 1]);
+  });
+});
+
+describe('импорт прайс-листа', () => {
+  it('проверяет заказ, поставщика, позицию, числа и валюту', () => {
+    const result = plan('pricelist', [
+      ['Заказ', 'Поставщик', 'Позиция', 'Цена', 'Валюта'],
+      ['9', 'S-0001', 'Фара', '100', 'CNY'],
+      ['2', 'S-0001', 'Фара', '100', 'CNY'],
+      ['1', 'ООО Мотор', 'Фара', '100', 'CNY'],
+      ['1', 'S-0001', 'Руль', '100', 'CNY'],
+      ['1', 'S-0001', 'Фара', '0', 'CNY'],
+      ['1', 'S-0001', 'Фара', '100', 'EUR']
+    ]);
+    expect(result.rows.map(r => r.errors)).toEqual([
+      ['Заказ 9 не найден'],
+      ['Заказ 2 уже закрыт для офферов'],
+      ['Поставщик «ООО Мотор» не найден в реестре'],
+      ['В заказе 1 нет позиции «Руль»'],
+      ['«Цена»: некорректное число «0»'],
+      ['Валюта «EUR»: допустимо RUB, USD, CNY']
+    ]);
+    expect(result.orders).toEqual([]);
+  });
+
+  it('строки поставщика по заказу — один оффер; позиции без строки — не в наличии, повтор позиции — ошибка', () => {
+    const result = plan('pricelist', [
+      ['Заказ', 'Поставщик', 'Позиция', 'Цена'],
+      ['1', 'ооо запчасть', 'Фара', '120'],
+      ['1', 'S-0001', 'фара', '110']
+    ]);
+    expect(result.rows[1].errors).toEqual(['Позиция повторяется (строка 2)']);
+    expect(result.orders).toHaveLength(1);
+    const [offer] = result.orders;
+    expect(offer).toMatchObject({ parentId: '1', type: 'OFFER', sellerId: 'S-0001', clientName: 'ООО ЗАПЧАСТЬ' });
+    expect(offer.items.map(i => [i.name, i.sellerPrice, i.sellerCurrency, i.offeredQuantity])).toEqual([
+      ['Фара', 120, 'CNY', 2],
+      ['Бампер', undefined, undefined, 0]
+    ]);
+  });
+
+  it('второй оффер того же поставщика по заказу не принимается', () => {
+    const withOffer: ImportContext = { ...CONTEXT, orders: [order('1', 'В обработке', [{ ...order('5'), sellerId: 'S-0001' }])] };
+    const table = [['Заказ', 'Поставщик', 'Позиция', 'Цена'], ['1', 'S-0001', 'Фара', '120']];
+    const result = planImport('pricelist', table, autoMap('pricelist', table[0]), withOffer);
+    expect(result.rows[0].errors).toEqual(['У поставщика S-0001 уже есть оффер по заказу 1']);
+  });
+});
@@ -0,0 +1,206 @@
+import type { Currency, Order, OrderItem, PartCategory } from '../types';
+import type { PayloadOf, SupplierRecord } from './contract';
+import { isCpEditable } from './workflow';
+import { parseCsv } from './csv';
+import { readXlsx } from './xlsx';
+import { normalizeCar } from './carCatalogue';
+import { normalizePartName } from './partsCatalogue';
+
+/**
+ * Импорт CSV администратором: заказы клиентов и прайс-листы поставщиков.
+ * Файл разбирается в браузере: сопоставление колонок, проверка каждой строки, сборка пакета для bulk_create.
+ * В пакет попадают только строки без ошибок; окончательную проверку повторяет бэкенд.
+ */
+
+export type ImportKind = 'orders' | 'pricelist';
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  aliases: string[]; // варианты заголовка в файле, в нижнем регистре
+}
+
+export const IMPORT_SCHEMAS: Record<ImportKind, ImportField[]> = {
+  orders: [
+    { key: 'clientName', label: 'Клиент', required: true, aliases: ['клиент', 'client', 'имя', 'фио'] },
+    { key: 'phone', label: 'Телефон', required: false, aliases: ['телефон', 'phone', 'тел'] },
+    { key: 'vin', label: 'VIN', required: false, aliases: ['vin', 'вин', 'frame'] },
+    { key: 'brand', label: 'Марка', required: false, aliases: ['марка', 'brand', 'make'] },
+    { key: 'model', label: 'Модель', required: false, aliases: ['модель', 'model', 'авто'] },
+    { key: 'year', label: 'Год', required: false, aliases: ['год', 'year'] },
+    { key: 'item', label: 'Позиция', required: true, aliases: ['позиция', 'деталь', 'наименование', 'item', 'name'] },
+    { key: 'article', label: 'Артикул', required: false, aliases: ['артикул', 'oem', 'номер', 'part number'] },
+    { key: 'quantity', label: 'Кол-во', required: false, aliases: ['кол-во', 'количество', 'qty', 'quantity'] },
+    { key: 'category', label: 'Категория', required: false, aliases: ['категория', 'category', 'тип'] }
+  ],
+  pricelist: [
+    { key: 'orderId', label: 'Заказ', required: true, aliases: ['заказ', 'id заказа', 'order', 'order id'] },
+    { key: 'supplier', label: 'Поставщик (ID или название)', required: true, aliases: ['поставщик', 'id поставщика', 'supplier', 'seller'] },
+    { key: 'item', label: 'Позиция', required: true, aliases: ['позиция', 'деталь', 'наименование', 'item', 'name'] },
+    { key: 'article', label: 'Артикул', required: false, aliases: ['артикул', 'oem', 'номер', 'part number'] },
+    { key: 'price', label: 'Цена', required: true, aliases: ['цена', 'price'] },
+    { key: 'currency', label: 'Валюта', required: false, aliases: ['валюта', 'currency'] },
+    { key: 'quantity', label: 'Кол-во', required: false, aliases: ['кол-во', 'количество', 'qty', 'quantity'] },
+    { key: 'weight', label: 'Вес, кг', required: false, aliases: ['вес', 'вес, кг', 'weight'] },
+    { key: 'weeks', label: 'Срок, нед.', required: false, aliases: ['срок', 'срок, нед.', 'недель', 'weeks'] }
+  ]
+};
+
+// Поле → индекс колонки файла; -1 — колонка не выбрана
+export type ColumnMapping = Record<string, number>;
+
+export interface ImportRow {
+  line: number; // номер строки в файле (заголовок — 1)
+  values: Record<string, string>;
+  errors: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportRow[];
+  orders: PayloadOf<'bulk_create'>['orders'];
+}
+
+export interface ImportContext {
+  orders: Order[];
+  suppliers: SupplierRecord[];
+}
+
+const CATEGORIES: PartCategory[] = ['Оригинал', 'Б/У', 'Аналог'];
+const CURRENCIES: Currency[] = ['RUB', 'USD', 'CNY'];
+
+const key = (value: unknown) => String(value || '').trim().toLowerCase();
+
+// Таблица из файла: .xlsx — первый лист, остальное разбирается как CSV
+export const readTableFile = async (file: File): Promise<string[][]> =>
+  /\.xlsx$/i.test(file.name) ? readXlsx(new Uint8Array(await file.arrayBuffer())) : parseCsv(await file.text());
+
+export const mapColumns = (fields: ImportField[], headers: string[]): ColumnMapping => {
+  const normalized = headers.map(key);
+  return Object.fromEntries(fields.map(field => [field.key, normalized.findIndex(h => field.aliases.includes(h))]));
+};
+
+export const autoMap = (kind: ImportKind, headers: string[]): ColumnMapping => mapColumns(IMPORT_SCHEMAS[kind], headers);
+
+// «1 200,50» → 1200.5; пустая строка — undefined, мусор — NaN
+export const parseNumber = (value: string): number | undefined => {
+  const clean = value.replace(/\s/g, '').replace(',', '.');
+  return clean === '' ? undefined : Number(clean);
+};
+
+// Значения полей по сопоставлению колонок; незаполненные обязательные поля — сразу ошибка строки
+export const readMappedRows = (fields: ImportField[], table: string[][], mapping: ColumnMapping): ImportRow[] =>
+  table.slice(1).map((cells, idx) => {
+    const values: Record<string, string> = {};
+    const errors: string[] = [];
+    fields.forEach(field => {
+      const col = mapping[field.key] ?? -1;
+      values[field.key] = col >= 0 ? cells[col] || '' : '';
+      if (field.required && !values[field.key]) errors.push(`«${field.label}» не заполнено`);
+    });
+    return { line: idx + 2, values, errors };
+  });
+
+export const checkNumber = (row: ImportRow, field: string, label: string, opts: { integer?: boolean; positive?: boolean } = {}) => {
+  const n = parseNumber(row.values[field] || '');
+  if (n === undefined) return;
+  if (isNaN(n) || n < 0 || (opts.positive && n === 0) || (opts.integer && !Number.isInteger(n))) row.errors.push(`«${label}»: некорректное число «${row.values[field]}»`);
+};
+
+const planOrders = (rows: ImportRow[]): ImportPlan['orders'] => {
+  rows.forEach(row => {
+    checkNumber(row, 'quantity', 'Кол-во', { integer: true, positive: true });
+    const category = row.values.category;
+    if (category && !CATEGORIES.some(c => key(c) === key(category))) row.errors.push(`Категория «${category}»: допустимо ${CATEGORIES.join(', ')}`);
+  });
+
+  // Строки одного клиента и VIN — позиции одного заказа
+  const groups = new Map<string, ImportRow[]>();
+  rows.filter(r => r.errors.length === 0).forEach(row => {
+    const groupKey = [key(row.values.clientName), key(row.values.vin)].join('|');
+    groups.set(groupKey, [...(groups.get(groupKey) || []), row]);
+  });
+
+  const createdAt = new Date().toLocaleString('ru-RU');
+  return Array.from(groups.values()).map(group => {
+    const first = group[0].values;
+    const car = normalizeCar({ brand: first.brand, model: first.model, bodyType: '', year: first.year, engine: '', transmission: '' });
+    const items = group.map((row, idx) => ({
+      id: '',
+      name: normalizePartName(row.values.item),
+      article: row.values.article.trim(),
+      quantity: parseNumber(row.values.quantity) || 1,
+      color: '',
+      address: '',
+      category: CATEGORIES.find(c => key(c) === key(row.values.category)) || 'Оригинал',
+      refImage: '',
+      car,
+      ...(idx === 0 && first.phone ? { clientPhone: first.phone } : {})
+    }));
+    return { id: 'PENDING', type: 'ORDER' as const, status: 'ОТКРЫТ', vin: first.vin || 'N/A', clientName: first.clientName, createdAt, items, visibleToClient: 'N' };
+  });
+};
+
+const findItem = (order: Order, name: string) => order.items.find(i => key(i.name) === key(name) || key(i.AdminName) === key(name));
+
+const planPriceList = (rows: ImportRow[], context: ImportContext): ImportPlan['orders'] => {
+  const resolved = rows.map(row => {
+    const order = context.orders.find(o => String(o.id) === row.values.orderId.trim());
+    const supplier = context.suppliers.find(s => s.id === row.values.supplier.trim()) || context.suppliers.find(s => key(s.name) === key(row.values.supplier));
+    if (row.values.orderId && !order) row.errors.push(`Заказ ${row.values.orderId} не найден`);
+    else if (order && !isCpEditable(order.workflowStatus || 'В обработке')) row.errors.push(`Заказ ${order.id} уже закрыт для офферов`);
+    if (row.values.supplier && !supplier) row.errors.push(`Поставщик «${row.values.supplier}» не найден в реестре`);
+    if (order && supplier && (order.offers || []).some(o => o.sellerId === supplier.id)) row.errors.push(`У поставщика ${supplier.id} уже есть оффер по заказу ${order.id}`);
+    if (order && row.values.item && !findItem(order, row.values.item)) row.errors.push(`В заказе ${order.id} нет позиции «${row.values.item}»`);
+    checkNumber(row, 'price', 'Цена', { positive: true });
+    checkNumber(row, 'quantity', 'Кол-во', { integer: true });
+    checkNumber(row, 'weight', 'Вес, кг');
+    checkNumber(row, 'weeks', 'Срок, нед.', { integer: true });
+    const currency = row.values.currency.toUpperCase();
+    if (currency && !CURRENCIES.includes(currency as Currency)) row.errors.push(`Валюта «${row.values.currency}»: допустимо ${CURRENCIES.join(', ')}`);
+    return { row, order, supplier };
+  });
+
+  resolved.forEach(({ row }, idx) => {
+    if (row.errors.length > 0) return;
+    const duplicate = resolved.slice(0, idx).find(r => r.order === resolved[idx].order && r.supplier === resolved[idx].supplier && key(r.row.values.item) === key(row.values.item));
+    if (duplicate) row.errors.push(`Позиция повторяется (строка ${duplicate.row.line})`);
+  });
+
+  // Строки одного поставщика по одному заказу — один оффер; позиции без цены в файле — «нет в наличии»
+  const groups = new Map<string, { order: Order; supplier: SupplierRecord; rows: ImportRow[] }>();
+  resolved.forEach(({ row, order, supplier }) => {
+    if (row.errors.length > 0 || !order || !supplier) return;
+    const groupKey = `${order.id}|${supplier.id}`;
+    const group = groups.get(groupKey) || { order, supplier, rows: [] };
+    group.rows.push(row);
+    groups.set(groupKey, group);
+  });
+
+  const createdAt = new Date().toLocaleString('ru-RU');
+  return Array.from(groups.values()).map(({ order, supplier, rows: group }) => {
+    const items = order.items.map(item => {
+      const { clientPhone, rateSnapshot, cpDocuments, refusalReason, ...base } = item as OrderItem & { refusalReason?: string };
+      const row = group.find(r => findItem(order, r.values.item) === item);
+      if (!row) return { ...base, offeredQuantity: 0, available: false };
+      const offeredQuantity = parseNumber(row.values.quantity) ?? item.quantity;
+      return {
+        ...base,
+        sellerPrice: parseNumber(row.values.price),
+        sellerCurrency: (row.values.currency.toUpperCase() || 'CNY') as Currency,
+        article: row.values.article.trim() || base.article,
+        offeredQuantity,
+        weight: parseNumber(row.values.weight) || 0,
+        deliveryWeeks: parseNumber(row.values.weeks) || 0,
+        available: offeredQuantity > 0
+      };
+    });
+    return { id: 'PENDING', parentId: order.id, type: 'OFFER' as const, status: 'ОТКРЫТ', vin: order.vin, clientName: supplier.name, sellerId: supplier.id, createdAt, items, visibleToClient: 'N' };
+  });
+};
+
+export const planImport = (kind: ImportKind, table: string[][], mapping: ColumnMapping, context: ImportContext): ImportPlan => {
+  const rows = readMappedRows(IMPORT_SCHEMAS[kind], table, mapping);
+  const orders = kind === 'orders' ? planOrders(rows) : planPriceList(rows, context);
+  return { rows, orders };
+};
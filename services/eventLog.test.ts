@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { diffBlocks, EventLog } from './eventLog';
+import type { SheetRow, SessionClaims, OrderEvent } from './contract';
+
+const row = (id: string, items: any[], extra: Partial<SheetRow> = {}): SheetRow => ({
+  id, parentId: '', type: 'ORDER', status: 'ОТКРЫТ', vin: '', clientName: 'Иван', summary: '',
+  json: JSON.stringify(items), rank: '', createdAt: '', processed: 'N', ...extra
+});
+
+describe('diffBlocks', () => {
+  it('изменения позиций различаются по ID, даже если названия совпадают', () => {
+    const before = [row('1-1', [{ id: '1-1', name: 'Фара', sellerPrice: 100 }, { id: '1-2', name: 'Фара', sellerPrice: 200 }], { type: 'OFFER', parentId: '1' })];
+    const after = [row('1-1', [{ id: '1-1', name: 'Фара', sellerPrice: 100 }, { id: '1-2', name: 'Фара', sellerPrice: 150 }], { type: 'OFFER', parentId: '1' })];
+    expect(diffBlocks(before, after)).toEqual([{ rowId: '1-1', field: '1-2.sellerPrice', itemName: 'Фара', before: '200', after: '150' }]);
+  });
+
+  it('перестановка позиций не выглядит как изменение', () => {
+    const a = { id: '1-1', name: 'Фара', quantity: 1 };
+    const b = { id: '1-2', name: 'Бампер', quantity: 2 };
+    expect(diffBlocks([row('1', [a, b])], [row('1', [b, a])])).toEqual([]);
+  });
+
+  it('новая строка и изменённые колонки', () => {
+    const changes = diffBlocks([row('1', [])], [row('1', [], { processed: 'Y' }), row('1-1', [{ id: '1-1', name: 'Фара', quantity: 1 }], { type: 'OFFER', parentId: '1' })]);
+    expect(changes.map(c => c.field)).toEqual(['processed', 'created']);
+  });
+});
+
+describe('EventLog.visibleTo', () => {
+  const supplier: SessionClaims = { sub: '79002222222', name: 'ООО Запчасть', role: 'supplier', sellerId: 'S-0001', exp: Date.now() + 60_000 };
+  const rows = [row('1', [{ id: '1-1', name: 'Фара' }]), row('1-1', [], { type: 'OFFER', parentId: '1', sellerId: 'S-0002' })];
+  const event: OrderEvent = {
+    seq: 1, orderId: '1', at: '', action: 'form_cp',
+    actor: { role: 'admin', name: 'АДМИНИСТРАТОР' },
+    changes: [
+      { rowId: '1', field: 'workflowStatus', before: 'В обработке', after: 'КП отправлено' },
+      { rowId: '1', field: '1-1.cpDocuments', itemName: 'Фара', before: '', after: '[...]' },
+      { rowId: '1-1', field: '1-1.rank', itemName: 'Фара', before: '', after: 'ЛИДЕР' }
+    ]
+  };
+
+  it('поставщик не видит документы КП и чужие офферы, автор обезличен', () => {
+    const visible = EventLog.visibleTo(event, supplier, rows)!;
+    expect(visible.changes.map(c => c.field)).toEqual(['workflowStatus']);
+    expect(visible.actor.name).toBe('Менеджер');
+  });
+});
@@ -0,0 +1,125 @@
+import type { SheetRow, SessionClaims, OrderEvent, EventChange, MutationActionName } from './contract';
+import { isOwnOrder } from './contract';
+
+// Колонки, изменения которых попадают в журнал (json разбирается отдельно — по позициям)
+const TRACKED_COLUMNS: (keyof SheetRow)[] = ['status', 'workflowStatus', 'processed', 'readyToBuy', 'refusal'];
+
+const parseItems = (json: string): any[] => {
+  try {
+    const parsed = JSON.parse(json || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const toText = (v: unknown): string => {
+  if (v === undefined || v === null) return '';
+  return typeof v === 'object' ? JSON.stringify(v) : String(v);
+};
+
+const describeItems = (items: any[]) => items.map(i => `${i.AdminName || i.name} (${i.quantity} шт)`).join(', ');
+
+// Позиции сопоставляются по ID (itemIdentity.ts): по названию две «Фары» в одном заказе не различить. Без ID — по порядку
+const itemsByKey = (json: string): Map<string, any> =>
+  new Map(parseItems(json).map((item, i) => [item.id ? String(item.id) : `items[${i}]`, item]));
+
+// Копия строк блока заказа: сам заказ + его офферы
+export const snapshotBlock = (rows: SheetRow[], orderId: string): SheetRow[] =>
+  rows.filter(r => String(r.id) === orderId || String(r.parentId) === orderId).map(r => ({ ...r }));
+
+// Разница между двумя снимками блока: новые строки, изменённые колонки и поля позиций
+export const diffBlocks = (before: SheetRow[], after: SheetRow[]): EventChange[] => {
+  const changes: EventChange[] = [];
+  const prevById = new Map(before.map(r => [String(r.id), r]));
+
+  after.forEach(row => {
+    const rowId = String(row.id);
+    const prev = prevById.get(rowId);
+    if (!prev) {
+      changes.push({ rowId, field: 'created', before: '', after: describeItems(parseItems(row.json)) });
+      return;
+    }
+
+    TRACKED_COLUMNS.forEach(col => {
+      const a = toText(prev[col]);
+      const b = toText(row[col]);
+      if (a !== b) changes.push({ rowId, field: col, before: a, after: b });
+    });
+
+    if (prev.json === row.json) return;
+    const prevItems = itemsByKey(prev.json);
+    const nextItems = itemsByKey(row.json);
+    new Set([...prevItems.keys(), ...nextItems.keys()]).forEach(itemKey => {
+      const p = prevItems.get(itemKey) || {};
+      const n = nextItems.get(itemKey) || {};
+      const itemName = n.AdminName || n.name || p.AdminName || p.name || undefined;
+      new Set([...Object.keys(p), ...Object.keys(n)]).forEach(key => {
+        const a = toText(p[key]);
+        const b = toText(n[key]);
+        if (a !== b) changes.push({ rowId, field: `${itemKey}.${key}`, itemName, before: a, after: b });
+      });
+    });
+  });
+  return changes;
+};
+
+/**
+ * Append-only журнал событий по заказам. Записи не изменяются и не удаляются;
+ * что увидит пользователь, решает visibleTo в зависимости от роли.
+ */
+export class EventLog {
+  constructor(private events: OrderEvent[]) {}
+
+  append(orderId: string, action: MutationActionName, session: SessionClaims, changes: EventChange[]): OrderEvent {
+    const event: OrderEvent = {
+      seq: (this.events.length > 0 ? this.events[this.events.length - 1].seq : 0) + 1,
+      orderId,
+      at: new Date().toISOString(),
+      actor: { role: session.role, name: session.name, sellerId: session.sellerId },
+      action,
+      changes
+    };
+    this.events.push(event);
+    return event;
+  }
+
+  forOrder(orderId: string): OrderEvent[] {
+    return this.events.filter(e => e.orderId === orderId);
+  }
+
+  recent(limit: number): OrderEvent[] {
+    return this.events.slice(-limit).reverse();
+  }
+
+  /**
+   * Проекция события для роли:
+   *  - admin видит всё;
+   *  - client — только изменения строки своего заказа, без офферов;
+   *  - supplier — строку заказа без документов КП и свой оффер; чужие поставщики обезличены.
+   * null — если после фильтрации ничего не осталось.
+   */
+  static visibleTo(event: OrderEvent, session: SessionClaims, rows: SheetRow[]): OrderEvent | null {
+    if (session.role === 'admin') return event;
+
+    const order = rows.find(r => String(r.id) === event.orderId && r.type === 'ORDER');
+    if (session.role === 'client' && (!order || !isOwnOrder(order, session))) return null;
+
+    const ownOfferIds = new Set(rows
+      .filter(r => r.type === 'OFFER' && r.parentId === event.orderId && session.sellerId && r.sellerId === session.sellerId)
+      .map(r => String(r.id)));
+    const changes = event.changes
+      .filter(c => c.rowId === event.orderId || (session.role === 'supplier' && ownOfferIds.has(c.rowId)))
+      // Документы КП несут цены лидеров — поставщик их не видит ни в данных, ни в истории
+      .filter(c => session.role !== 'supplier' || !c.field.endsWith('.cpDocuments'));
+    if (changes.length === 0) return null;
+
+    const isSelf = event.actor.role === session.role && event.actor.name === session.name && event.actor.sellerId === session.sellerId;
+    const anonymous: Record<string, string> = { admin: 'Менеджер', client: 'Клиент', supplier: 'Поставщик' };
+    return {
+      ...event,
+      actor: isSelf ? event.actor : { role: event.actor.role, name: anonymous[event.actor.role] },
+      changes
+    };
+  }
+}
@@ -0,0 +1,105 @@
+import type { Currency, RateSnapshot } from '../types';
+import type { ExchangeRate, RateEntry } from './contract';
+import { rateEntryError } from './contract';
+
+// Все курсы хранятся к рублю: ₽ за 1 единицу валюты
+export const BASE_CURRENCY: Currency = 'RUB';
+
+export type RateMap = Partial<Record<Currency, number>>;
+
+export const todayIso = () => new Date().toISOString().slice(0, 10);
+
+export const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Курсы, действующие на дату: по каждой валюте — последняя запись с effectiveDate <= date
+export const ratesOn = (rates: ExchangeRate[], date = todayIso()): RateMap => {
+  const latest = new Map<Currency, ExchangeRate>();
+  rates.forEach(r => {
+    if (r.effectiveDate > date) return;
+    const prev = latest.get(r.currency);
+    // При равной дате побеждает более поздняя запись (исправление курса)
+    if (!prev || r.effectiveDate > prev.effectiveDate || (r.effectiveDate === prev.effectiveDate && r.createdAt >= prev.createdAt)) {
+      latest.set(r.currency, r);
+    }
+  });
+  const map: RateMap = { [BASE_CURRENCY]: 1 };
+  latest.forEach((r, currency) => { map[currency] = r.rate; });
+  return map;
+};
+
+// Пересчёт через рубль; null — для одной из валют нет курса
+export const convertAmount = (amount: number, from: Currency, to: Currency, rates: RateMap): number | null => {
+  if (from === to) return amount;
+  const fromRate = from === BASE_CURRENCY ? 1 : rates[from];
+  const toRate = to === BASE_CURRENCY ? 1 : rates[to];
+  if (!fromRate || !toRate) return null;
+  return roundMoney(amount * fromRate / toRate);
+};
+
+const parseDate = (value: string): string => {
+  const v = value.trim();
+  const ru = v.match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
+  return ru ? `${ru[3]}-${ru[2]}-${ru[1]}` : v;
+};
+
+/**
+ * Импорт курсов из локального файла.
+ * JSON: [{ "currency": "CNY", "rate": 12.5, "effectiveDate": "2024-05-01" }, ...]
+ * CSV:  дата;валюта;курс — по строке на запись, разделитель ";" или ",", дата ГГГГ-ММ-ДД или ДД.ММ.ГГГГ.
+ *       Строка заголовка и пустые строки пропускаются.
+ */
+export const parseRatesFile = (text: string): { entries: RateEntry[]; errors: string[] } => {
+  const entries: RateEntry[] = [];
+  const errors: string[] = [];
+  const push = (raw: any, where: string) => {
+    const entry = { currency: String(raw.currency || '').trim().toUpperCase(), rate: Number(String(raw.rate).replace(',', '.')), effectiveDate: parseDate(String(raw.effectiveDate || '')) };
+    const error = rateEntryError(entry);
+    if (error) errors.push(`${where}: ${error}`);
+    else entries.push(entry as RateEntry);
+  };
+
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) parsed.forEach((raw, i) => push(raw || {}, `[${i}]`));
+      else errors.push('Ожидался массив записей');
+    } catch (e) {
+      errors.push('Некорректный JSON');
+    }
+    return { entries, errors };
+  }
+
+  trimmed.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    const cells = line.split(line.includes(';') ? ';' : ',').map(c => c.trim());
+    if (i === 0 && !/\d/.test(cells[0] || '')) return; // заголовок
+    const [effectiveDate, currency, rate] = cells;
+    push({ effectiveDate, currency, rate }, `строка ${i + 1}`);
+  });
+  return { entries, errors };
+};
+
+/**
+ * Таблица курсов на бэкенде. Записи только добавляются: курс на прошлую дату остаётся в истории,
+ * поэтому пересчёт старых заказов не меняется.
+ */
+export class RateTable {
+  constructor(private records: ExchangeRate[]) {}
+
+  list(): ExchangeRate[] {
+    return this.records.map(r => ({ ...r }));
+  }
+
+  add(entries: RateEntry[], source: ExchangeRate['source']): number {
+    const createdAt = new Date().toISOString();
+    entries.forEach(e => this.records.push({ currency: e.currency, rate: e.rate, effectiveDate: e.effectiveDate, source, createdAt }));
+    return entries.length;
+  }
+
+  // Курсы на дату для фиксации на заказе; null — курсов ещё нет
+  snapshot(date = todayIso()): RateSnapshot | null {
+    const rates = ratesOn(this.records, date);
+    return Object.keys(rates).length > 1 ? { date, rates } : null;
+  }
+}
@@ -0,0 +1,46 @@
+import type { OrderItem } from '../types';
+import { isSameItem } from './itemIdentity';
+
+/**
+ * Распределение позиции между поставщиками. Лидеров по позиции может быть несколько:
+ * каждый поставляет свою долю (`allocatedQuantity` в позиции оффера), например 2 шт от A и 3 шт от B.
+ * Покрытие позиции — сумма долей лидеров против нужного количества; КП, выгрузка и интерфейсы
+ * берут количество лидера только отсюда.
+ */
+
+type QuantityItem = Pick<OrderItem, 'id' | 'quantity'> & Partial<Pick<OrderItem, 'name' | 'AdminName' | 'AdminQuantity' | 'offeredQuantity' | 'allocatedQuantity' | 'rank'>>;
+
+export interface ItemCoverage {
+  id: string;
+  name: string;
+  required: number;
+  allocated: number;
+  leaders: number;
+}
+
+const isLeaderRank = (item: Pick<OrderItem, 'rank'>) => item.rank === 'ЛИДЕР' || item.rank === 'LEADER';
+
+// Сколько нужно клиенту — с правкой администратора
+export const requiredQuantity = (item: QuantityItem) => item.AdminQuantity || item.quantity || 0;
+
+// Доля лидера; в позициях, выбранных до разделения, — всё, что предложил поставщик
+export const leaderQuantity = (item: QuantityItem) =>
+  item.allocatedQuantity || item.AdminQuantity || item.offeredQuantity || item.quantity || 0;
+
+export const itemCoverage = (item: QuantityItem, offers: { items: QuantityItem[] }[]): ItemCoverage => {
+  const leaders = offers.flatMap(o => o.items).filter(i => isLeaderRank(i) && isSameItem(i, item));
+  return {
+    id: item.id,
+    name: item.AdminName || item.name || '',
+    required: requiredQuantity(item),
+    allocated: leaders.reduce((acc, i) => acc + leaderQuantity(i), 0),
+    leaders: leaders.length
+  };
+};
+
+// Позиции, где доли лидеров не покрывают нужное количество: «Фильтр — 3 из 5 шт»
+export const describeShortfall = (items: QuantityItem[], offers: { items: QuantityItem[] }[]): string[] =>
+  items
+    .map(item => itemCoverage(item, offers))
+    .filter(c => c.allocated < c.required)
+    .map(c => c.allocated > 0 ? `${c.name} — ${c.allocated} из ${c.required} шт` : c.name);
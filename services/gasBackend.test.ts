@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GasBackend, DEFAULT_API_URL } from './gasBackend';
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => { storage.set(key, value); },
+  removeItem: (key: string) => { storage.delete(key); }
+});
+
+const fetchMock = vi.fn(async () => new Response(JSON.stringify({ status: 'ok' })));
+vi.stubGlobal('fetch', fetchMock);
+
+describe('GasBackend и опубликованный скрипт', () => {
+  beforeEach(() => {
+    storage.clear();
+    fetchMock.mockClear();
+  });
+
+  it('действия, которых скрипт не знает, не отправляются', async () => {
+    const backend = new GasBackend();
+    const res = await backend.setBiddingWindow({ orderId: '1', hours: 0 });
+    expect(res.error).toContain('set_bidding_window');
+    expect((await backend.withdrawOffer({ offerId: '1-1' })).error).toBeTruthy();
+    expect((await backend.bulkCreate({ requestId: 'r', orders: [] })).error).toBeTruthy();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('известные скрипту действия уходят как раньше', async () => {
+    const res = await new GasBackend().formCP({ orderId: '1' });
+    expect(res.status).toBe('ok');
+    expect(fetchMock).toHaveBeenCalledWith(DEFAULT_API_URL, expect.objectContaining({ method: 'POST' }));
+  });
+
+  it('чтения, которых скрипт не знает, пусты и без запроса', async () => {
+    const backend = new GasBackend();
+    expect(await backend.getRates()).toEqual([]);
+    expect(await backend.getSuppliers()).toEqual([]);
+    expect(await backend.getEvents(undefined, '1')).toEqual([]);
+    expect(await backend.getPricingRules()).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('локальный стенд и обновлённый скрипт получают всё', async () => {
+    storage.set('GAS_API_URL', '/local-api');
+    await new GasBackend().setBiddingWindow({ orderId: '1', hours: 0 });
+    storage.set('GAS_API_URL', DEFAULT_API_URL);
+    storage.set('GAS_AUTH', 'on');
+    await new GasBackend().setRates({ rates: [], source: 'manual' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,238 @@
+import type { DataBackend } from './dataBackend';
+import { ActionName, ActionPayload, ActionResponse, PayloadOf, decodeActionResponse } from './contract';
+
+// Default URL provided by configuration
+export const DEFAULT_API_URL = 'https://script.google.com/macros/s/AKfycbxooqVnUce3SIllt2RUtG-KJ5EzNswyHqrTpdsTGhc6XOKW6qaUdlr6ld77LR2KQz0-/exec';
+
+// Helper to handle API URL from localStorage or fallback to default
+const getApiUrl = () => localStorage.getItem('GAS_API_URL') || DEFAULT_API_URL;
+
+// Опубликованный Apps Script пока не знает auth_* и отвечает на них { status: 'ok' } без токена.
+// Вход по коду включается для локального стенда (/local-api) или явно — localStorage.GAS_AUTH = 'on' после обновления скрипта
+const isAppsScript = (url: string) => url.trim().startsWith('https://script.google.com/');
+
+// Что умеет опубликованный скрипт (перенос/TG_BLOCK_V2.js). Прочее ему не отправляется: на незнакомое действие он отвечает
+// «успехом», ничего не сделав, а на незнакомое чтение — объектом { status: 'alive' } вместо данных
+const APPS_SCRIPT_READS = ['getData'];
+const APPS_SCRIPT_ACTIONS: ActionName[] = ['create', 'update_rank', 'form_cp', 'confirm_purchase', 'refuse_order', 'update_json', 'update_workflow_status'];
+
+/**
+ * Адаптер Google Apps Script: GET ?action=getData и POST с JSON в text/plain (обход CORS preflight).
+ * Подходит и для локального стенда (/local-api), т.к. он говорит на том же протоколе.
+ * Со старым опубликованным скриптом (без входа по коду) действия, которых он не знает, отклоняются здесь же, а чтения возвращают пустые данные.
+ */
+export class GasBackend implements DataBackend {
+  readonly kind = 'gas' as const;
+
+  get supportsAuth(): boolean {
+    return !isAppsScript(getApiUrl()) || localStorage.getItem('GAS_AUTH') === 'on';
+  }
+
+  getOrders(token?: string): Promise<unknown[]> {
+    return this.getList('getData', token);
+  }
+
+  getSuppliers(token?: string): Promise<unknown[]> {
+    return this.getList('getSuppliers', token);
+  }
+
+  getEvents(token?: string, orderId?: string): Promise<unknown[]> {
+    return this.getList('getEvents', token, orderId ? `&orderId=${encodeURIComponent(orderId)}` : '');
+  }
+
+  getRates(token?: string): Promise<unknown[]> {
+    return this.getList('getRates', token);
+  }
+
+  getPricingRules(token?: string): Promise<unknown> {
+    return this.getObject('getPricingRules', token);
+  }
+
+  getAutoRankRules(token?: string): Promise<unknown> {
+    return this.getObject('getAutoRankRules', token);
+  }
+
+  getPriceHintRules(token?: string): Promise<unknown> {
+    return this.getObject('getPriceHintRules', token);
+  }
+
+  /**
+   * Push-канал: Server-Sent Events на GET ?action=subscribe&since=<ревизия>. Его отдаёт локальный стенд (/local-api);
+   * Apps Script так не умеет — EventSource падает с ошибкой, и SheetService переходит на опрос getData.
+   * Канал не переподключается сам: пропущенные за обрыв изменения подтянет опрос.
+   */
+  subscribe(token: string | undefined, since: number, onChanges: (batch: unknown) => void, onError: (error: Error) => void): () => void {
+    const rawUrl = getApiUrl();
+    if (!rawUrl || typeof EventSource === 'undefined') {
+      onError(new Error('Push-канал недоступен'));
+      return () => {};
+    }
+    const auth = token ? `&token=${encodeURIComponent(token)}` : '';
+    const source = new EventSource(`${rawUrl.trim()}?action=subscribe&since=${since}${auth}`);
+    let closed = false;
+    const close = () => {
+      closed = true;
+      source.close();
+    };
+    const fail = (error: Error) => {
+      if (closed) return;
+      close();
+      onError(error);
+    };
+    source.addEventListener('changes', e => {
+      try {
+        onChanges(JSON.parse((e as MessageEvent).data));
+      } catch (err) {
+        fail(new Error('Invalid change batch from server'));
+      }
+    });
+    // Отказ бэкенда (например, истекла сессия) приходит отдельным событием с { error }
+    source.addEventListener('failure', e => {
+      fail(new Error(decodeActionResponse(JSON.parse((e as MessageEvent).data)).error || 'Push-канал закрыт сервером'));
+    });
+    source.onerror = () => fail(new Error('Push-канал недоступен'));
+    return close;
+  }
+
+  // Настройки приходят объектом; отказ бэкенда — тоже объектом, но с полем error
+  private async getObject(action: string, token?: string): Promise<unknown> {
+    const data = await this.getJson(action, token);
+    if (data === null) return null;
+    const error = decodeActionResponse(data).error;
+    if (error) throw new Error(error);
+    return data;
+  }
+
+  private async getList(action: string, token?: string, query = ''): Promise<unknown[]> {
+    const rows = await this.getJson(action, token, query);
+    if (rows === null) return [];
+    if (!Array.isArray(rows)) {
+      // Отказ бэкенда (например, нет авторизации) приходит объектом { error }
+      throw new Error(decodeActionResponse(rows).error || "Invalid response format from server: expected array of rows");
+    }
+    return rows;
+  }
+
+  // null — адрес бэкенда не задан или скрипт такого чтения не знает
+  private async getJson(action: string, token?: string, query = ''): Promise<unknown> {
+    const rawUrl = getApiUrl();
+    if (!rawUrl || (!this.supportsAuth && !APPS_SCRIPT_READS.includes(action))) return null;
+    const url = rawUrl.trim();
+
+    const auth = token ? `&token=${encodeURIComponent(token)}` : '';
+    const response = await fetch(`${url}?action=${action}${query}${auth}&_t=${Date.now()}`, {
+      method: 'GET',
+      redirect: 'follow'
+    });
+
+    if (!response.ok) throw new Error(`Network error: ${response.status}`);
+
+    try {
+      return await response.json();
+    } catch (e) {
+      throw new Error("Invalid response format from server");
+    }
+  }
+
+  private async postData(payload: ActionPayload): Promise<ActionResponse> {
+    const rawUrl = getApiUrl();
+    if (!rawUrl) throw new Error("API URL not set");
+    const url = rawUrl.trim();
+    if (!this.supportsAuth && !APPS_SCRIPT_ACTIONS.includes(payload.action)) {
+      return { error: `Действие ${payload.action} не поддерживается GAS-скриптом — нужен обновлённый скрипт или локальный стенд` };
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      redirect: 'follow',
+      headers: {
+        "Content-Type": "text/plain;charset=utf-8", 
+      },
+      body: JSON.stringify(payload)
+    });
+
+    try {
+        return decodeActionResponse(await response.json());
+    } catch (e) {
+        // Исход неизвестен (таймаут Apps Script отдаёт HTML): запрос с ключом идемпотентности безопасно повторить тем же ключом
+        if ('requestId' in payload && payload.requestId) throw new Error("Invalid response format from server");
+        return { status: 'ok_no_content' };
+    }
+  }
+
+  requestCode(payload: PayloadOf<'auth_request_code'>) {
+    return this.postData({ action: 'auth_request_code', ...payload });
+  }
+
+  verifyCode(payload: PayloadOf<'auth_verify_code'>) {
+    return this.postData({ action: 'auth_verify_code', ...payload });
+  }
+
+  create(payload: PayloadOf<'create'>) {
+    return this.postData({ action: 'create', ...payload });
+  }
+
+  bulkCreate(payload: PayloadOf<'bulk_create'>) {
+    return this.postData({ action: 'bulk_create', ...payload });
+  }
+
+  updateRank(payload: PayloadOf<'update_rank'>) {
+    return this.postData({ action: 'update_rank', ...payload });
+  }
+
+  formCP(payload: PayloadOf<'form_cp'>) {
+    return this.postData({ action: 'form_cp', ...payload });
+  }
+
+  confirmPurchase(payload: PayloadOf<'confirm_purchase'>) {
+    return this.postData({ action: 'confirm_purchase', ...payload });
+  }
+
+  refuseOrder(payload: PayloadOf<'refuse_order'>) {
+    return this.postData({ action: 'refuse_order', ...payload });
+  }
+
+  withdrawOffer(payload: PayloadOf<'withdraw_offer'>) {
+    return this.postData({ action: 'withdraw_offer', ...payload });
+  }
+
+  setBiddingWindow(payload: PayloadOf<'set_bidding_window'>) {
+    return this.postData({ action: 'set_bidding_window', ...payload });
+  }
+
+  setPriceHints(payload: PayloadOf<'set_price_hints'>) {
+    return this.postData({ action: 'set_price_hints', ...payload });
+  }
+
+  updateJson(payload: PayloadOf<'update_json'>) {
+    return this.postData({ action: 'update_json', ...payload });
+  }
+
+  updateWorkflowStatus(payload: PayloadOf<'update_workflow_status'>) {
+    return this.postData({ action: 'update_workflow_status', ...payload });
+  }
+
+  setRates(payload: PayloadOf<'set_rates'>) {
+    return this.postData({ action: 'set_rates', ...payload });
+  }
+
+  setPricingRules(payload: PayloadOf<'set_pricing_rules'>) {
+    return this.postData({ action: 'set_pricing_rules', ...payload });
+  }
+
+  setAutoRankRules(payload: PayloadOf<'set_auto_rank_rules'>) {
+    return this.postData({ action: 'set_auto_rank_rules', ...payload });
+  }
+
+  setPriceHintRules(payload: PayloadOf<'set_price_hint_rules'>) {
+    return this.postData({ action: 'set_price_hint_rules', ...payload });
+  }
+
+  linkSupplierPhone(payload: PayloadOf<'link_supplier_phone'>) {
+    return this.postData({ action: 'link_supplier_phone', ...payload });
+  }
+
+  linkClientPhone(payload: PayloadOf<'link_client_phone'>) {
+    return this.postData({ action: 'link_client_phone', ...payload });
+  }
+}
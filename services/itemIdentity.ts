@@ -0,0 +1,109 @@
+import type { SheetRow } from './contract';
+
+/**
+ * Стабильные ID позиций заказа. ID выдаёт бэкенд при создании заказа («12.1», «12.2», …);
+ * позиция оффера несёт ID позиции заказа, на которую отвечает. Выбор лидеров, покрытие КП
+ * и документ КП сравнивают только ID, поэтому одинаковые названия и правка AdminName ничего не ломают.
+ *
+ * Строки, созданные до появления ID, получают их миграцией: позиции заказа — по порядку,
+ * позиции офферов — по названию, как сопоставлялись раньше, затем по порядку.
+ */
+
+interface ItemLike {
+  id?: string;
+  name?: string;
+  AdminName?: string;
+}
+
+export const itemIdFor = (orderId: string, n: number) => `${orderId}.${n}`;
+
+export const isSameItem = (a: ItemLike, b: ItemLike) => !!a.id && a.id === b.id;
+
+const nameKey = (value: unknown) => String(value || '').trim().toLowerCase();
+
+// Номер из ID этого заказа: «12.3» → 3
+const numberOf = (orderId: string, id: unknown): number => {
+  const prefix = `${orderId}.`;
+  const text = String(id || '');
+  const n = text.startsWith(prefix) ? parseInt(text.slice(prefix.length)) : NaN;
+  return isNaN(n) ? 0 : n;
+};
+
+// Позиции без ID (и повторы ID) получают следующий свободный номер; номера удалённых позиций не переиспользуются
+export const assignOrderItemIds = <T extends ItemLike>(orderId: string, items: T[]): T[] => {
+  let next = items.reduce((acc, i) => Math.max(acc, numberOf(orderId, i.id)), 0) + 1;
+  const seen = new Set<string>();
+  return items.map(item => {
+    const id = String(item.id || '');
+    if (id && !seen.has(id)) {
+      seen.add(id);
+      return item;
+    }
+    const fresh = itemIdFor(orderId, next++);
+    seen.add(fresh);
+    return { ...item, id: fresh };
+  });
+};
+
+/**
+ * Позиции оффера → ID позиций заказа. Явный ID сохраняется, если он есть в заказе;
+ * иначе ищется ещё не занятая позиция с тем же названием (name или AdminName), затем — с тем же индексом.
+ * Не нашлось — ID пустой: такая позиция не участвует в выборе лидеров.
+ */
+export const linkOfferItems = <T extends ItemLike>(orderItems: ItemLike[], offerItems: T[]): T[] => {
+  const ids = orderItems.map(i => String(i.id || ''));
+  const used = new Set<string>();
+  const explicit = offerItems.map(item => {
+    const id = String(item.id || '');
+    if (!id || !ids.includes(id) || used.has(id)) return '';
+    used.add(id);
+    return id;
+  });
+  return offerItems.map((item, idx) => {
+    if (explicit[idx]) return item;
+    const keys = [nameKey(item.name), nameKey(item.AdminName)].filter(Boolean);
+    const byName = orderItems.find(o => o.id && !used.has(o.id) && (keys.includes(nameKey(o.name)) || keys.includes(nameKey(o.AdminName))));
+    const byIndex = orderItems[idx]?.id && !used.has(orderItems[idx].id!) ? orderItems[idx] : undefined;
+    const id = (byName || byIndex)?.id || '';
+    if (id) used.add(id);
+    return id === item.id ? item : { ...item, id };
+  });
+};
+
+const parseItems = (json: string): any[] => {
+  try {
+    const parsed = JSON.parse(json || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+/**
+ * Миграция строк листа: позиции заказов и офферов без ID получают их. Меняется только колонка JSON;
+ * строки, где всё уже размечено, не трогаются. Возвращает число изменённых строк.
+ */
+export const migrateItemIds = (rows: SheetRow[]): number => {
+  let changed = 0;
+  const orderItems = new Map<string, any[]>();
+  // Размеченные позиции возвращаются теми же объектами — строка переписывается, только если появился новый ID
+  const update = (row: SheetRow, raw: any[], items: any[]) => {
+    if (items.every((item, idx) => item === raw[idx])) return;
+    row.json = JSON.stringify(items);
+    changed++;
+  };
+
+  rows.filter(r => r.type === 'ORDER').forEach(row => {
+    const raw = parseItems(row.json);
+    const items = assignOrderItemIds(String(row.id), raw);
+    orderItems.set(String(row.id), items);
+    update(row, raw, items);
+  });
+  rows.filter(r => r.type === 'OFFER').forEach(row => {
+    const parent = orderItems.get(String(row.parentId));
+    if (!parent) return;
+    const raw = parseItems(row.json);
+    update(row, raw, linkOfferItems(parent, raw));
+  });
+  return changed;
+};
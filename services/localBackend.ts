@@ -0,0 +1,185 @@
+import type { DataBackend } from './dataBackend';
+import type { SheetRow, SupplierRecord, OrderEvent, ExchangeRate, PricingRules, AutoRankRules, PriceHintRules, ActionPayload, ActionResponse, PayloadOf } from './contract';
+import { LocalStore, LocalStoreState, createLocalStoreState } from './localStore';
+
+const STORAGE_KEY = 'LOCAL_BACKEND_STATE';
+const LEGACY_ROWS_KEY = 'LOCAL_BACKEND_ROWS';
+
+// Подписчики этой вкладки: событие storage приходит только в другие вкладки
+const sameTabListeners = new Set<() => void>();
+
+/**
+ * Адаптер без сети: те же `action`-пейлоады, что и у GAS, обрабатываются LocalStore в памяти браузера.
+ * Состояние (строки листа, реестр поставщиков, журнал событий, курсы валют, правила наценки, автовыбора лидеров и подсказки цены, коды входа, секрет подписи) сохраняется в localStorage,
+ * поэтому Клиент/Поставщик/Админ в разных вкладках видят одни данные.
+ * Push-канал — событие storage из других вкладок и уведомление после запроса в этой.
+ */
+export class LocalBackend implements DataBackend {
+  readonly kind = 'local' as const;
+  readonly supportsAuth = true;
+
+  private load(): LocalStore {
+    const state = createLocalStoreState();
+    try {
+      const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+      if (saved && Array.isArray(saved.rows)) state.rows = saved.rows;
+      if (saved && saved.auth) state.auth = saved.auth;
+      if (saved && Array.isArray(saved.suppliers)) state.suppliers = saved.suppliers;
+      if (saved && Array.isArray(saved.events)) state.events = saved.events;
+      if (saved && Array.isArray(saved.rates)) state.rates = saved.rates;
+      if (saved && saved.pricingRules) state.pricingRules = saved.pricingRules;
+      if (saved && saved.autoRankRules) state.autoRankRules = saved.autoRankRules;
+      if (saved && saved.priceHintRules) state.priceHintRules = saved.priceHintRules;
+      if (saved && typeof saved.revision === 'number') state.revision = saved.revision;
+      if (saved && Array.isArray(saved.requests)) state.requests = saved.requests;
+      if (!saved) {
+        const legacyRows = JSON.parse(localStorage.getItem(LEGACY_ROWS_KEY) || '[]');
+        if (Array.isArray(legacyRows)) state.rows = legacyRows;
+      }
+    } catch (e) {}
+    return new LocalStore(state);
+  }
+
+  private save(state: LocalStoreState) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  }
+
+  private async dispatch(body: ActionPayload): Promise<ActionResponse> {
+    const store = this.load();
+    const revision = store.state.revision;
+    const result = await store.handle(body);
+    this.save(store.state);
+    if (store.state.revision !== revision) sameTabListeners.forEach(listener => listener());
+    return result;
+  }
+
+  subscribe(token: string | undefined, since: number, onChanges: (batch: unknown) => void, onError: (error: Error) => void): () => void {
+    let revision = since;
+    const push = () => this.load().changesSince(token, revision)
+      .then(batch => {
+        revision = Math.max(revision, batch.revision);
+        if (batch.rows.length > 0) onChanges(batch);
+      })
+      .catch(onError);
+    const onStorage = (e: StorageEvent) => { if (e.key === STORAGE_KEY) push(); };
+    window.addEventListener('storage', onStorage);
+    sameTabListeners.add(push);
+    push();
+    return () => {
+      window.removeEventListener('storage', onStorage);
+      sameTabListeners.delete(push);
+    };
+  }
+
+  async getOrders(token?: string): Promise<SheetRow[]> {
+    const store = this.load();
+    const rows = await store.getData(token);
+    this.save(store.state); // сохраняем секрет подписи и результат миграции реестра поставщиков
+    return rows;
+  }
+
+  async getSuppliers(token?: string): Promise<SupplierRecord[]> {
+    return this.load().getSuppliers(token);
+  }
+
+  async getEvents(token?: string, orderId?: string): Promise<OrderEvent[]> {
+    return this.load().getEvents(token, orderId);
+  }
+
+  async getRates(token?: string): Promise<ExchangeRate[]> {
+    return this.load().getRates(token);
+  }
+
+  async getPricingRules(token?: string): Promise<PricingRules> {
+    return this.load().getPricingRules(token);
+  }
+
+  async getAutoRankRules(token?: string): Promise<AutoRankRules> {
+    return this.load().getAutoRankRules(token);
+  }
+
+  async getPriceHintRules(token?: string): Promise<PriceHintRules> {
+    return this.load().getPriceHintRules(token);
+  }
+
+  static reset() {
+    localStorage.removeItem(STORAGE_KEY);
+    localStorage.removeItem(LEGACY_ROWS_KEY);
+  }
+
+  requestCode(payload: PayloadOf<'auth_request_code'>) {
+    return this.dispatch({ action: 'auth_request_code', ...payload });
+  }
+
+  verifyCode(payload: PayloadOf<'auth_verify_code'>) {
+    return this.dispatch({ action: 'auth_verify_code', ...payload });
+  }
+
+  create(payload: PayloadOf<'create'>) {
+    return this.dispatch({ action: 'create', ...payload });
+  }
+
+  bulkCreate(payload: PayloadOf<'bulk_create'>) {
+    return this.dispatch({ action: 'bulk_create', ...payload });
+  }
+
+  updateRank(payload: PayloadOf<'update_rank'>) {
+    return this.dispatch({ action: 'update_rank', ...payload });
+  }
+
+  formCP(payload: PayloadOf<'form_cp'>) {
+    return this.dispatch({ action: 'form_cp', ...payload });
+  }
+
+  confirmPurchase(payload: PayloadOf<'confirm_purchase'>) {
+    return this.dispatch({ action: 'confirm_purchase', ...payload });
+  }
+
+  refuseOrder(payload: PayloadOf<'refuse_order'>) {
+    return this.dispatch({ action: 'refuse_order', ...payload });
+  }
+
+  withdrawOffer(payload: PayloadOf<'withdraw_offer'>) {
+    return this.dispatch({ action: 'withdraw_offer', ...payload });
+  }
+
+  setBiddingWindow(payload: PayloadOf<'set_bidding_window'>) {
+    return this.dispatch({ action: 'set_bidding_window', ...payload });
+  }
+
+  setPriceHints(payload: PayloadOf<'set_price_hints'>) {
+    return this.dispatch({ action: 'set_price_hints', ...payload });
+  }
+
+  updateJson(payload: PayloadOf<'update_json'>) {
+    return this.dispatch({ action: 'update_json', ...payload });
+  }
+
+  updateWorkflowStatus(payload: PayloadOf<'update_workflow_status'>) {
+    return this.dispatch({ action: 'update_workflow_status', ...payload });
+  }
+
+  setRates(payload: PayloadOf<'set_rates'>) {
+    return this.dispatch({ action: 'set_rates', ...payload });
+  }
+
+  setPricingRules(payload: PayloadOf<'set_pricing_rules'>) {
+    return this.dispatch({ action: 'set_pricing_rules', ...payload });
+  }
+
+  setAutoRankRules(payload: PayloadOf<'set_auto_rank_rules'>) {
+    return this.dispatch({ action: 'set_auto_rank_rules', ...payload });
+  }
+
+  setPriceHintRules(payload: PayloadOf<'set_price_hint_rules'>) {
+    return this.dispatch({ action: 'set_price_hint_rules', ...payload });
+  }
+
+  linkSupplierPhone(payload: PayloadOf<'link_supplier_phone'>) {
+    return this.dispatch({ action: 'link_supplier_phone', ...payload });
+  }
+
+  linkClientPhone(payload: PayloadOf<'link_client_phone'>) {
+    return this.dispatch({ action: 'link_client_phone', ...payload });
+  }
+}
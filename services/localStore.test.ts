@@ -0,0 +1,246 @@
+import { describe, it, expect } from 'vitest';
+import type { LocalStore } from './localStore';
+import { blockVersion } from './orderConflict';
+import { VERSION_CONFLICT_ERROR } from './contract';
+import { isBiddingOpen } from './bidding';
+import { createTestStore, signIn, createOrder, createOffer, ADMIN_PHONE } from './testStore';
+
+const CLIENT_PHONE = '+7 900 111-11-11';
+const SUPPLIER_PHONE = '+7 900 222-22-22';
+
+const itemsOf = (store: LocalStore, id: string) => JSON.parse(store.rows.find(r => r.id === id)!.json);
+
+// Заказ клиента, оффер поставщика, лидер с ценой администратора и сформированное КП
+async function orderWithCp() {
+  const store = createTestStore();
+  const client = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+  const supplier = await signIn(store, SUPPLIER_PHONE, 'supplier', 'ООО Запчасть');
+  const admin = await signIn(store, ADMIN_PHONE, 'admin');
+  const orderId = String((await createOrder(store, client)).orderId);
+  const offerId = String((await createOffer(store, supplier, orderId, [
+    { name: 'Фара', quantity: 1, category: 'Оригинал', sellerPrice: 1000, sellerCurrency: 'RUB', weight: 3, deliveryWeeks: 2, photoUrl: 'https://example.com/1.jpg' }
+  ])).offerId);
+  const itemId = itemsOf(store, orderId)[0].id;
+  const ranked = await store.handle({
+    action: 'update_rank', token: admin, vin: '', itemId, detailName: 'Фара', leadOfferId: offerId,
+    adminPrice: 1500, adminCurrency: 'RUB', adminComment: 'взять у этого, второй тянет', priceOverrideReason: 'постоянный клиент'
+  });
+  expect(ranked.error).toBeUndefined();
+  expect((await store.handle({ action: 'form_cp', token: admin, orderId })).error).toBeUndefined();
+  return { store, client, supplier, admin, orderId, offerId };
+}
+
+describe('проекция строк для клиента', () => {
+  it('позиция-лидер несёт только поля для клиента', async () => {
+    const { store, client, offerId } = await orderWithCp();
+    const offer = (await store.getData(client)).find(r => r.id === offerId)!;
+    const [item] = JSON.parse(offer.json);
+    expect(Object.keys(item).sort()).toEqual(['adminCurrency', 'adminPrice', 'allocatedQuantity', 'category', 'deliveryWeeks', 'id', 'name', 'quantity', 'rank']);
+    expect(offer.sellerId).toBeUndefined();
+    expect(offer.clientName).toBe('');
+  });
+
+  it('документ КП не содержит цену поставщика, если цены администратора нет', async () => {
+    const { store, client, admin, orderId, offerId } = await orderWithCp();
+    const itemId = itemsOf(store, orderId)[0].id;
+    // Лидер без adminPrice: оффер, у которого администратор цену не задавал
+    const items = itemsOf(store, offerId).map(({ adminPrice, adminCurrency, ...i }: any) => i);
+    store.rows.find(r => r.id === offerId)!.json = JSON.stringify(items);
+    expect((await store.handle({ action: 'form_cp', token: admin, orderId })).error).toBeUndefined();
+    const order = (await store.getData(client)).find(r => r.id === orderId)!;
+    const doc = JSON.parse(order.json)[0].cpDocuments.at(-1);
+    const line = doc.items.find((i: any) => i.itemId === itemId);
+    expect(line.price).toBeUndefined();
+    expect(line.currency).toBeUndefined();
+  });
+});
+
+describe('заказы клиента привязаны к номеру', () => {
+  it('номер заказа берётся из токена, а не из тела запроса', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+    const orderId = String((await createOrder(store, client, [{ name: 'Фара', quantity: 1, clientPhone: '+7 900 999-99-99' }])).orderId);
+    expect(itemsOf(store, orderId)[0].clientPhone).toBe('+79001111111');
+    expect((await store.getData(client)).map(r => r.id)).toEqual([orderId]);
+  });
+
+  it('заказ без телефона не достаётся клиенту с тем же именем, пока администратор не укажет номер', async () => {
+    const store = createTestStore();
+    store.rows.push({
+      id: '50', parentId: '', type: 'ORDER', status: 'ОТКРЫТ', vin: '', clientName: 'ПЁТР', summary: '',
+      json: JSON.stringify([{ id: '50-1', name: 'Фара', quantity: 1 }]), rank: '', createdAt: '', processed: 'N'
+    });
+    const client = await signIn(store, CLIENT_PHONE, 'client', 'ПЁТР');
+    const admin = await signIn(store, ADMIN_PHONE, 'admin');
+    expect(await store.getData(client)).toEqual([]);
+    expect((await store.handle({ action: 'confirm_purchase', token: client, orderId: '50' })).error).toBe('Заказ принадлежит другому клиенту');
+
+    expect((await store.handle({ action: 'link_client_phone', token: admin, orderId: '50', phone: CLIENT_PHONE })).error).toBeUndefined();
+    expect((await store.getData(client)).map(r => r.id)).toEqual(['50']);
+    // Повторная привязка не переписывает владельца
+    expect((await store.handle({ action: 'link_client_phone', token: admin, orderId: '50', phone: '+7 900 333-33-33' })).error).toBeTruthy();
+  });
+
+  it('чужой заказ не виден и в журнале событий', async () => {
+    const store = createTestStore();
+    const owner = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+    const other = await signIn(store, '+7 900 333-33-33', 'client', 'Олег');
+    const orderId = String((await createOrder(store, owner)).orderId);
+    expect(await store.getData(other)).toEqual([]);
+    expect(await store.getEvents(other, orderId)).toEqual([]);
+    expect((await store.getEvents(owner, orderId)).length).toBeGreaterThan(0);
+  });
+});
+
+describe('update_rank и курсы', () => {
+  it('после КП цена лидера считается по курсам, зафиксированным в заказе', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+    const supplier = await signIn(store, SUPPLIER_PHONE, 'supplier', 'ООО Запчасть');
+    const admin = await signIn(store, ADMIN_PHONE, 'admin');
+    const today = new Date().toISOString().slice(0, 10);
+    await store.handle({ action: 'set_rates', token: admin, rates: [{ currency: 'CNY', rate: 10, effectiveDate: today }], source: 'manual' });
+
+    const orderId = String((await createOrder(store, client)).orderId);
+    const offerId = String((await createOffer(store, supplier, orderId, [{ name: 'Фара', quantity: 1, sellerPrice: 100, sellerCurrency: 'CNY' }])).offerId);
+    const itemId = itemsOf(store, orderId)[0].id;
+    const rank = () => store.handle({ action: 'update_rank', token: admin, vin: '', itemId, detailName: 'Фара', leadOfferId: offerId });
+    expect((await rank()).error).toBeUndefined();
+    expect((await store.handle({ action: 'form_cp', token: admin, orderId })).error).toBeUndefined();
+
+    // Курс вырос после КП: заказ продолжает считаться по курсу КП
+    await store.handle({ action: 'set_rates', token: admin, rates: [{ currency: 'CNY', rate: 20, effectiveDate: today }], source: 'manual' });
+    expect((await rank()).error).toBeUndefined();
+    expect(itemsOf(store, offerId)[0].pricing.rate).toBe(10);
+  });
+});
+
+describe('версия блока заказа', () => {
+  // Версия, которую отправляет админка: строка заказа и действующие офферы, как их собирает SheetService
+  const adminBlockVersion = async (store: LocalStore, admin: string, orderId: string) => {
+    const rows = await store.getData(admin);
+    const order = rows.find(r => r.id === orderId)!;
+    return blockVersion({ version: order.version, offers: rows.filter(r => r.parentId === orderId && r.refusal !== 'Y') as any });
+  };
+
+  it('после отзыва оффера update_rank и form_cp по версии админки проходят', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+    const first = await signIn(store, SUPPLIER_PHONE, 'supplier', 'ООО Запчасть');
+    const second = await signIn(store, '+7 900 444-44-44', 'supplier', 'ООО Деталь');
+    const admin = await signIn(store, ADMIN_PHONE, 'admin');
+    const orderId = String((await createOrder(store, client)).orderId);
+    const offerId = String((await createOffer(store, first, orderId, [{ name: 'Фара', quantity: 1, sellerPrice: 100, sellerCurrency: 'RUB' }])).offerId);
+    const withdrawn = String((await createOffer(store, second, orderId, [{ name: 'Фара', quantity: 1, sellerPrice: 90, sellerCurrency: 'RUB' }])).offerId);
+    expect((await store.handle({ action: 'withdraw_offer', token: second, offerId: withdrawn })).error).toBeUndefined();
+
+    const itemId = itemsOf(store, orderId)[0].id;
+    const ranked = await store.handle({
+      action: 'update_rank', token: admin, vin: '', itemId, detailName: 'Фара', leadOfferId: offerId,
+      expectedVersion: await adminBlockVersion(store, admin, orderId)
+    });
+    expect(ranked.error).toBeUndefined();
+    const formed = await store.handle({ action: 'form_cp', token: admin, orderId, expectedVersion: await adminBlockVersion(store, admin, orderId) });
+    expect(formed.error).toBeUndefined();
+  });
+
+  it('устаревшая версия отклоняется', async () => {
+    const { store, admin, orderId, offerId } = await orderWithCp();
+    const seen = await adminBlockVersion(store, admin, orderId);
+    // Заказ изменился после того, как админка его загрузила
+    await store.handle({ action: 'set_price_hints', token: admin, orderId, mode: 'off' });
+    const itemId = itemsOf(store, orderId)[0].id;
+    const res = await store.handle({ action: 'update_rank', token: admin, vin: '', itemId, detailName: 'Фара', leadOfferId: offerId, expectedVersion: seen });
+    expect(res.error).toBe(VERSION_CONFLICT_ERROR);
+    expect(res.currentVersion).toBeGreaterThan(seen);
+  });
+});
+
+describe('повтор запроса с тем же requestId', () => {
+  const orderPayload = (token: string, requestId: string) => ({
+    action: 'create', token, requestId,
+    order: { id: '', type: 'ORDER', status: 'Новый', vin: '', clientName: '-', createdAt: '', items: [{ name: 'Фара', quantity: 1 }], visibleToClient: 'Y' }
+  });
+
+  it('возвращает первый ответ и не создаёт второй заказ', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+    const first = await store.handle(orderPayload(client, 'same'));
+    const replay = await store.handle(orderPayload(client, 'same'));
+    expect(replay).toEqual(first);
+    expect(store.rows.filter(r => r.type === 'ORDER')).toHaveLength(1);
+  });
+
+  it('ключ другого пользователя не возвращает чужой ответ', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+    const other = await signIn(store, '+7 900 333-33-33', 'client', 'Олег');
+    const first = await store.handle(orderPayload(client, 'same'));
+    const second = await store.handle(orderPayload(other, 'same'));
+    expect(second.orderId).not.toBe(first.orderId);
+    expect(store.rows.filter(r => r.type === 'ORDER')).toHaveLength(2);
+  });
+
+  it('отклонённый запрос можно повторить с тем же ключом', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+    const rejected = await store.handle({ ...orderPayload(client, 'retry'), order: { ...orderPayload(client, 'retry').order, items: [] } });
+    expect(rejected.error).toBeTruthy();
+    expect((await store.handle(orderPayload(client, 'retry'))).orderId).toBeTruthy();
+  });
+});
+
+describe('create оффера', () => {
+  it('после формирования КП новый оффер не принимается', async () => {
+    const { store, orderId } = await orderWithCp();
+    const late = await signIn(store, '+7 900 444-44-44', 'supplier', 'ООО Деталь');
+    const res = await createOffer(store, late, orderId, [{ name: 'Фара', quantity: 1, sellerPrice: 50, sellerCurrency: 'RUB' }]);
+    expect(res.error).toContain('КП');
+    expect(store.rows.filter(r => r.parentId === orderId)).toHaveLength(1);
+  });
+
+  it('оффер без существующего заказа или на оффер отклоняется', async () => {
+    const { store, supplier, offerId } = await orderWithCp();
+    expect((await createOffer(store, supplier, '999', [{ name: 'Фара', quantity: 1 }])).error).toBe('Order 999 not found');
+    expect((await createOffer(store, supplier, offerId, [{ name: 'Фара', quantity: 1 }])).error).toBe(`Order ${offerId} not found`);
+    expect(store.rows.some(r => r.parentId === '999' || r.parentId === offerId)).toBe(false);
+  });
+
+  it('повторный ответ поставщика — новая редакция с номером', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+    const supplier = await signIn(store, SUPPLIER_PHONE, 'supplier', 'ООО Запчасть');
+    const orderId = String((await createOrder(store, client)).orderId);
+    const first = await createOffer(store, supplier, orderId, [{ name: 'Фара', quantity: 1, sellerPrice: 100, sellerCurrency: 'RUB' }]);
+    const second = await createOffer(store, supplier, orderId, [{ name: 'Фара', quantity: 1, sellerPrice: 90, sellerCurrency: 'RUB' }]);
+    expect(second.offerId).toBe(first.offerId);
+    expect(second.offerRevision).toBe(2);
+    expect(itemsOf(store, String(first.offerId))[0].offerHistory).toHaveLength(1);
+  });
+});
+
+describe('приём предложений', () => {
+  it('формирование КП закрывает окно', async () => {
+    const { store, orderId } = await orderWithCp();
+    const bidding = itemsOf(store, orderId)[0].bidding;
+    expect(bidding.round).toBe(1);
+    expect(isBiddingOpen(bidding)).toBe(false);
+  });
+
+  it('подсказку второго раунда получают только поставщики с оффером', async () => {
+    const store = createTestStore();
+    const client = await signIn(store, CLIENT_PHONE, 'client', 'Иван');
+    const supplier = await signIn(store, SUPPLIER_PHONE, 'supplier', 'ООО Запчасть');
+    const rival = await signIn(store, '+7 900 333-33-33', 'supplier', 'ООО Мотор');
+    const outsider = await signIn(store, '+7 900 444-44-44', 'supplier', 'ООО Деталь');
+    const admin = await signIn(store, ADMIN_PHONE, 'admin');
+    const orderId = String((await createOrder(store, client)).orderId);
+    await createOffer(store, supplier, orderId, [{ name: 'Фара', quantity: 1, sellerPrice: 100, sellerCurrency: 'CNY' }]);
+    await createOffer(store, rival, orderId, [{ name: 'Фара', quantity: 1, sellerPrice: 90, sellerCurrency: 'CNY' }]);
+    expect((await store.handle({ action: 'set_bidding_window', token: admin, orderId, hours: 24, round: 2 })).error).toBeUndefined();
+
+    const hintFor = async (token: string) => JSON.parse((await store.getData(token)).find(r => r.id === orderId)!.json)[0].bestPrice;
+    expect(await hintFor(supplier)).toMatchObject({ price: 90, offers: 1 });
+    expect(await hintFor(outsider)).toBeUndefined();
+  });
+});
@@ -0,0 +1,818 @@
+import { SheetRow, ChangeBatch, SupplierRecord, OrderEvent, ExchangeRate, PricingRules, AutoRankRules, PriceHintRules, ActionPayload, ActionResponse, AuthActionName, PayloadOf, SessionClaims, AUTH_REQUIRED_ERROR, VERSION_CONFLICT_ERROR, decodeActionPayload, requiredRole, isOwnOrder, normalizePhone } from './contract';
+import { OtpAuthority, OtpAuthorityOptions, AuthState, createAuthState } from './otpAuthority';
+import { FakeCodeSender } from './codeSender';
+import { SupplierRegistry } from './supplierRegistry';
+import { EventLog, snapshotBlock, diffBlocks } from './eventLog';
+import { WORKFLOW_EFFECTS, resolveWorkflowStatus, checkTransition, isCpEditable } from './workflow';
+import { RateTable, ratesOn } from './exchangeRates';
+import { DEFAULT_PRICING_RULES, calculatePrice, matchesCalculated } from './pricing';
+import { DEFAULT_AUTO_RANK_RULES } from './autoRank';
+import { buildCpDocument } from './cpDocument';
+import { carBrand, carTitle } from './carCatalogue';
+import { assignOrderItemIds, linkOfferItems, migrateItemIds } from './itemIdentity';
+import { leaderQuantity, requiredQuantity } from './fulfilment';
+import { OFFER_TERMS, revisionSnapshot } from './offerRevision';
+import { DEFAULT_BIDDING_HOURS, openBidding, isBiddingOpen, raisedPrices } from './bidding';
+import { DEFAULT_PRICE_HINT_RULES, hintsAllowed, withBestPrices, withoutHint } from './priceHints';
+import type { WorkflowStatus, UserRole, PriceBreakdown } from '../types';
+
+// Номер администратора по умолчанию (тот же, что в шапке сайта)
+export const DEFAULT_ADMIN_PHONES = ['+7 (999) 000-00-00'];
+
+// Всё, что бэкенд хранит между запросами
+export interface LocalStoreState {
+  rows: SheetRow[];
+  auth: AuthState;
+  suppliers: SupplierRecord[];
+  events: OrderEvent[];
+  rates: ExchangeRate[];
+  pricingRules: PricingRules;
+  autoRankRules: AutoRankRules;
+  priceHintRules: PriceHintRules;
+  revision: number; // последняя выданная ревизия строк
+  requests: ProcessedRequest[]; // ответы на запросы с requestId — для повторов из офлайн-очереди
+}
+
+interface ProcessedRequest {
+  key: string; // телефон автора + requestId: чужой ключ не вернёт чужой ответ
+  response: ActionResponse;
+}
+
+// Сколько последних ответов помнить для повторов
+const PROCESSED_REQUESTS_LIMIT = 500;
+
+export const createLocalStoreState = (): LocalStoreState => ({
+  rows: [],
+  auth: createAuthState(),
+  suppliers: [],
+  events: [],
+  rates: [],
+  pricingRules: { ...DEFAULT_PRICING_RULES, markups: [] },
+  autoRankRules: { ...DEFAULT_AUTO_RANK_RULES, preferredSuppliers: [], supplierRatings: {} },
+  priceHintRules: { ...DEFAULT_PRICE_HINT_RULES },
+  revision: 0,
+  requests: []
+});
+
+/**
+ * In-memory копия листа MarketData и логики doPost из GAS-скрипта (TG_BLOCK_V2.js).
+ * Не зависит от браузера: используется и LocalBackend (localStorage), и локальным dev-сервером (/local-api).
+ * Telegram/Bitrix24 уведомления не отправляются.
+ */
+export class LocalStore {
+  private auth: OtpAuthority;
+  private suppliers: SupplierRegistry;
+  private events: EventLog;
+  private rates: RateTable;
+  private listeners = new Set<(revision: number) => void>();
+
+  constructor(readonly state: LocalStoreState = createLocalStoreState(), options: Partial<OtpAuthorityOptions> = {}) {
+    this.suppliers = new SupplierRegistry(state.suppliers);
+    this.events = new EventLog(state.events);
+    this.rates = new RateTable(state.rates);
+    this.auth = new OtpAuthority(state.auth, {
+      sender: options.sender || new FakeCodeSender(),
+      adminPhones: options.adminPhones || DEFAULT_ADMIN_PHONES,
+      suppliers: this.suppliers
+    });
+    // Офферы, созданные до реестра, получают sellerId по названию + телефону
+    this.suppliers.migrateOffers(state.rows);
+    // Позиции, созданные до стабильных ID, получают их; офферы привязываются к позициям заказа по названию
+    migrateItemIds(state.rows);
+  }
+
+  get rows(): SheetRow[] {
+    return this.state.rows;
+  }
+
+  // GET ?action=getData&token=... — без валидной сессии данные не отдаются
+  async getData(token?: string): Promise<SheetRow[]> {
+    const session = await this.auth.authenticate(token);
+    if (!session) throw new Error(AUTH_REQUIRED_ERROR);
+    return this.rowsFor(session);
+  }
+
+  // GET ?action=subscribe&since=... — строки, изменённые после ревизии клиента (первая порция и каждое изменение)
+  async changesSince(token: string | undefined, since: number): Promise<ChangeBatch> {
+    const session = await this.auth.authenticate(token);
+    if (!session) throw new Error(AUTH_REQUIRED_ERROR);
+    return {
+      revision: this.state.revision,
+      rows: this.rowsFor(session).filter(r => (r.version || 0) > since)
+    };
+  }
+
+  /**
+   * Строки в проекции для роли: администратор видит всё, клиент — свои заказы (clientRows). Поставщик получает заказы и только свои офферы; вместо чужих — обезличенная
+   * подсказка лучшей цены в позициях заказа, если она ему положена (priceHints.ts), а документов КП нет вовсе.
+   * Версия заказа у поставщика — версия всего блока: новая цена конкурента доходит по push-каналу, хотя строки оффера он не видит.
+   */
+  private rowsFor(session: SessionClaims): SheetRow[] {
+    if (session.role === 'admin') return this.rows.map(r => ({ ...r }));
+    if (session.role === 'client') return this.clientRows(session);
+    const rates = ratesOn(this.rates.list());
+    const rating = session.sellerId ? this.state.autoRankRules.supplierRatings[session.sellerId] : undefined;
+    return this.rows.flatMap(r => {
+      if (r.type === 'OFFER') return session.sellerId && r.sellerId === session.sellerId ? [{ ...r }] : [];
+      const id = String(r.id);
+      const items = parseItems(r.json);
+      // Документы КП несут цены поставщиков-лидеров — поставщику они не отдаются
+      if (items[0]) delete items[0].cpDocuments;
+      const offers = this.activeOffers(id);
+      const isParticipant = offers.some(o => session.sellerId && o.sellerId === session.sellerId);
+      if (!hintsAllowed(items[0] || {}, rating, this.state.priceHintRules, isParticipant)) return [{ ...r, json: JSON.stringify(items), version: this.blockVersion(id) }];
+      const others = offers
+        .filter(o => o.sellerId !== session.sellerId)
+        .map(o => ({ items: parseItems(o.json) }));
+      return [{ ...r, json: JSON.stringify(withBestPrices(items, others, rates)), version: this.blockVersion(id) }];
+    });
+  }
+
+  /**
+   * Клиент получает только свои заказы — по номеру телефона в заказе (isOwnOrder). Офферы по ним — после формирования КП и лишь позиции-лидеры с полями из CLIENT_ITEM_FIELDS:
+   * без поставщика, его цены, веса, расчёта и комментариев администратора; до КП и у отозванных офферов список позиций пуст.
+   * Версия строк — версия блока: смена лидеров и формирование КП доходят по push-каналу вместе с заказом.
+   */
+  private clientRows(session: SessionClaims): SheetRow[] {
+    const own = new Set(this.rows.filter(r => isOwnOrder(r, session)).map(r => String(r.id)));
+    return this.rows.flatMap(r => {
+      const orderId = String(r.type === 'ORDER' ? r.id : r.parentId);
+      if (!own.has(orderId)) return [];
+      const version = this.blockVersion(orderId);
+      if (r.type === 'ORDER') return [{ ...r, version }];
+      const isVisible = this.findRow(orderId)?.processed === 'Y' && r.refusal !== 'Y';
+      const leaders = isVisible
+        ? parseItems(r.json)
+            .filter(i => i.rank === 'ЛИДЕР' || i.rank === 'LEADER')
+            .map(clientItem)
+        : [];
+      const { sellerId, ...row } = r;
+      return [{ ...row, clientName: '', summary: '', rank: '', json: JSON.stringify(leaders), version }];
+    });
+  }
+
+  // Подписка на изменения строк: слушатель получает новую ревизию после каждого изменившего данные запроса
+  onChange(listener: (revision: number) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // GET ?action=getSuppliers — реестр целиком, с телефонами, видит только администратор
+  async getSuppliers(token?: string): Promise<SupplierRecord[]> {
+    const session = await this.auth.authenticate(token);
+    if (!session) throw new Error(AUTH_REQUIRED_ERROR);
+    // Поставщик видит только свою запись: реестр раскрыл бы, с кем он соревнуется
+    if (session.role === 'supplier') return this.suppliers.list().filter(r => r.id === session.sellerId).map(r => ({ ...r, phone: '' }));
+    // Клиенту реестр не нужен: поставщиков в его данных нет
+    return session.role === 'admin' ? this.suppliers.list() : [];
+  }
+
+  // GET ?action=getEvents[&orderId=] — журнал заказа в проекции для роли; без orderId — лента для администратора
+  async getEvents(token?: string, orderId?: string): Promise<OrderEvent[]> {
+    const session = await this.auth.authenticate(token);
+    if (!session) throw new Error(AUTH_REQUIRED_ERROR);
+    if (!orderId) {
+      if (session.role !== 'admin') throw new Error('Недостаточно прав для этого действия');
+      return this.events.recent(100);
+    }
+    return this.events.forOrder(orderId)
+      .map(e => EventLog.visibleTo(e, session, this.rows))
+      .filter((e): e is OrderEvent => e !== null);
+  }
+
+  // GET ?action=getRates — таблица курсов нужна всем ролям для показа сумм в рублях
+  async getRates(token?: string): Promise<ExchangeRate[]> {
+    if (!await this.auth.authenticate(token)) throw new Error(AUTH_REQUIRED_ERROR);
+    return this.rates.list();
+  }
+
+  // GET ?action=getPricingRules — наценки видит только администратор
+  async getPricingRules(token?: string): Promise<PricingRules> {
+    const session = await this.auth.authenticate(token);
+    if (!session) throw new Error(AUTH_REQUIRED_ERROR);
+    if (session.role !== 'admin') throw new Error('Недостаточно прав для этого действия');
+    return this.state.pricingRules;
+  }
+
+  // GET ?action=getAutoRankRules — правила автовыбора и оценки поставщиков видит только администратор
+  async getAutoRankRules(token?: string): Promise<AutoRankRules> {
+    const session = await this.auth.authenticate(token);
+    if (!session) throw new Error(AUTH_REQUIRED_ERROR);
+    if (session.role !== 'admin') throw new Error('Недостаточно прав для этого действия');
+    return this.state.autoRankRules;
+  }
+
+  // GET ?action=getPriceHintRules — правила подсказки цены видит только администратор
+  async getPriceHintRules(token?: string): Promise<PriceHintRules> {
+    const session = await this.auth.authenticate(token);
+    if (!session) throw new Error(AUTH_REQUIRED_ERROR);
+    if (session.role !== 'admin') throw new Error('Недостаточно прав для этого действия');
+    return this.state.priceHintRules;
+  }
+
+  // POST body ({ action, token, ... }) — невалидный запрос отклоняется так же, как ошибка в GAS: { error }
+  async handle(raw: unknown): Promise<ActionResponse> {
+    const decoded = decodeActionPayload(raw);
+    if (!decoded.value) return { error: decoded.errors.join('; ') };
+    const body = decoded.value;
+    try {
+      if (body.action === 'auth_request_code') return await this.auth.requestCode(body);
+      if (body.action === 'auth_verify_code') return await this.auth.verifyCode(body);
+
+      const session = await this.auth.authenticate(body.token);
+      if (!session) return { error: AUTH_REQUIRED_ERROR };
+      if (session.role !== requiredRole(body)) return { error: 'Недостаточно прав для этого действия' };
+      // Повтор уже выполненного запроса (ответ потерялся в сети) — тот же ответ без повторного действия
+      const requestKey = body.requestId ? `${session.sub}:${body.requestId}` : '';
+      const processed = requestKey ? this.state.requests.find(r => r.key === requestKey) : undefined;
+      if (processed) return processed.response;
+      const conflict = this.checkVersion(body);
+      if (conflict) return conflict;
+
+      // Снимок блока заказа до и после — разница уходит в журнал
+      let orderId = this.affectedOrderId(body);
+      const before = orderId ? snapshotBlock(this.rows, orderId) : [];
+      const serialized = new Map(this.rows.map(r => [r, JSON.stringify(r)]));
+      const result = this.dispatch(body, session);
+      if (!result.error) {
+        orderId = orderId || String(result.orderId || '');
+        const changes = diffBlocks(before, snapshotBlock(this.rows, orderId));
+        if (orderId && changes.length > 0) this.events.append(orderId, body.action, session, changes);
+        if (this.stampVersions(serialized)) result.revision = this.state.revision;
+        if (requestKey) this.state.requests = [...this.state.requests, { key: requestKey, response: result }].slice(-PROCESSED_REQUESTS_LIMIT);
+      }
+      return result;
+    } catch (err: any) {
+      return { error: String(err?.message || err) };
+    }
+  }
+
+  /**
+   * Оптимистичная блокировка: запись, сделанная по устаревшей версии, отклоняется.
+   * Выбор лидера и формирование КП зависят от всех офферов заказа — для них версия блока, для остального — строки заказа.
+   * Запрос без expectedVersion (старый клиент, импорт) не проверяется.
+   */
+  private checkVersion(body: MutationPayload): ActionResponse | null {
+    if (body.expectedVersion === undefined) return null;
+    let currentVersion: number;
+    switch (body.action) {
+      case 'update_rank':
+        currentVersion = this.activeBlockVersion(String(this.findRow(body.leadOfferId)?.parentId || ''));
+        break;
+      case 'form_cp':
+        currentVersion = this.activeBlockVersion(body.orderId);
+        break;
+      case 'update_json':
+      case 'update_workflow_status':
+      case 'refuse_order':
+      case 'confirm_purchase':
+      case 'set_bidding_window':
+      case 'set_price_hints':
+        currentVersion = this.findRow(body.orderId)?.version || 0;
+        break;
+      default:
+        return null;
+    }
+    return currentVersion === body.expectedVersion ? null : { error: VERSION_CONFLICT_ERROR, currentVersion };
+  }
+
+  // Версия, с которой сверяются update_rank и form_cp: заказ и действующие офферы — ровно то, из чего фронтенд
+  // собирает заказ (blockVersion в orderConflict.ts). Отозванные строки он не видит, и их версия давала бы вечный конфликт
+  private activeBlockVersion(orderId: string): number {
+    return [this.findRow(orderId), ...this.activeOffers(orderId)]
+      .reduce((acc, r) => Math.max(acc, r?.version || 0), 0);
+  }
+
+  // Версия всего блока, включая отозванные офферы, — для push-канала: отзыв меняет подсказки и должен дойти до всех
+  private blockVersion(orderId: string): number {
+    return this.rows
+      .filter(r => String(r.id) === orderId || String(r.parentId) === orderId)
+      .reduce((acc, r) => Math.max(acc, r.version || 0), 0);
+  }
+
+  // Новые и изменённые строки получают следующую ревизию — по ней клиенты push-канала сливают изменения
+  private stampVersions(before: Map<SheetRow, string>): boolean {
+    const changed = this.rows.filter(r => before.get(r) !== JSON.stringify(r));
+    if (changed.length === 0) return false;
+    const revision = ++this.state.revision;
+    changed.forEach(r => { r.version = revision; });
+    this.listeners.forEach(listener => listener(revision));
+    return true;
+  }
+
+  private dispatch(body: MutationPayload, session: SessionClaims): ActionResponse {
+    // Клиент может действовать только со своими заказами
+    if (session.role === 'client' && 'orderId' in body) {
+      const order = this.findRow(body.orderId);
+      if (order && !isOwnOrder(order, session)) return { error: 'Заказ принадлежит другому клиенту' };
+    }
+
+    switch (body.action) {
+      case 'create': {
+        // Автора берём из токена, а не из тела запроса
+        const order = { ...body.order, clientName: session.name, sellerId: session.sellerId };
+        if (order.type !== 'OFFER') {
+          if (!order.items?.length) return { error: 'В заказе нет позиций' };
+          // Заказ закрепляется за номером из токена: по нему клиент и видит свои заказы
+          const [first, ...rest] = order.items;
+          const clientPhone = normalizePhone(first.clientPhone) === session.sub ? first.clientPhone : `+${session.sub}`;
+          return this.createOrder({ ...order, items: [{ ...first, clientPhone }, ...rest] });
+        }
+        // Оффер — только на существующий заказ, пока по нему не сформировано КП и не подтверждена покупка
+        const parent = this.findRow(String(order.parentId));
+        if (!parent || parent.type !== 'ORDER') return { error: `Order ${order.parentId} not found` };
+        order.items = (order.items || []).map(withoutHint); // подсказка — не условие поставщика
+        return this.offerLockedError(String(parent.id), 'отправить') || this.biddingError(order) || this.createOffer(order);
+      }
+      case 'bulk_create':
+        return this.bulkCreate(body.orders, session);
+      case 'form_cp':
+        return this.formCp(body.orderId, session.role);
+      case 'confirm_purchase':
+        return this.transition(body.orderId, 'Готов купить', session.role);
+      case 'update_workflow_status':
+        return this.transition(body.orderId, body.status, session.role);
+      case 'refuse_order':
+        return this.refuseOrder(body, session.role);
+      case 'withdraw_offer':
+        return this.withdrawOffer(body.offerId, session);
+      case 'set_bidding_window':
+        return this.setBiddingWindow(body);
+      case 'set_price_hints':
+        return this.setPriceHints(body);
+      case 'update_json':
+        return this.updateJson(body);
+      case 'update_rank':
+        return this.updateRank(body);
+      case 'set_rates':
+        this.rates.add(body.rates, body.source);
+        return { status: 'ok' };
+      case 'set_pricing_rules':
+        this.state.pricingRules = { ...body.rules, updatedAt: new Date().toISOString() };
+        return { status: 'ok' };
+      case 'set_auto_rank_rules':
+        this.state.autoRankRules = { ...body.rules, updatedAt: new Date().toISOString() };
+        return { status: 'ok' };
+      case 'set_price_hint_rules':
+        this.state.priceHintRules = { ...body.rules, updatedAt: new Date().toISOString() };
+        return { status: 'ok' };
+      case 'link_supplier_phone': {
+        const error = this.suppliers.linkPhone(body.supplierId, body.phone);
+        return error ? { error } : { status: 'ok' };
+      }
+      case 'link_client_phone':
+        return this.linkClientPhone(body);
+    }
+    return { error: `Unknown action: ${(body as { action: string }).action}` };
+  }
+
+  private affectedOrderId(body: MutationPayload): string {
+    switch (body.action) {
+      case 'create':
+        return body.order.type === 'OFFER' ? String(body.order.parentId) : ''; // ID нового заказа известен после создания
+      case 'update_rank':
+        return String(this.findRow(body.leadOfferId)?.parentId || '');
+      case 'withdraw_offer':
+        return String(this.findRow(body.offerId)?.parentId || '');
+      case 'bulk_create':
+        return ''; // затрагивает несколько заказов — журнал пишет bulkCreate
+      case 'set_rates':
+      case 'set_pricing_rules':
+      case 'set_auto_rank_rules':
+      case 'set_price_hint_rules':
+      case 'link_supplier_phone':
+        return ''; // не относится к заказу — в журнал не попадает
+      default:
+        return String(body.orderId);
+    }
+  }
+
+  private findRow(id: string) {
+    return this.rows.find(r => String(r.id) === String(id));
+  }
+
+  // Действующие офферы заказа: отозванные (refusal = 'Y') не участвуют ни в выборе лидеров, ни в КП
+  private activeOffers(orderId: string) {
+    return this.rows.filter(r => r.type === 'OFFER' && String(r.parentId).trim() === String(orderId).trim() && r.refusal !== 'Y');
+  }
+
+  // Отправлять, править и отзывать оффер можно, пока по заказу не сформировано КП
+  private offerLockedError(orderId: string, verb: string): ActionResponse | null {
+    const parent = this.findRow(orderId);
+    return parent && resolveWorkflowStatus(parent) !== 'В обработке'
+      ? { error: `По заказу ${orderId} уже сформировано КП — предложение ${verb} нельзя` }
+      : null;
+  }
+
+  // Окно приёма офферов заказа; у заказов, созданных до окон, его нет
+  private biddingOf(orderId: string) {
+    return parseItems(this.findRow(orderId)?.json || '')[0]?.bidding;
+  }
+
+  // Оффер поставщика принимается, пока открыто окно; во втором раунде — только от участников и без повышения цен.
+  // Импорт администратора (bulk_create) окно не проверяет
+  private biddingError(o: NewRow): ActionResponse | null {
+    const parentId = String(o.parentId);
+    const bidding = this.biddingOf(parentId);
+    if (!bidding) return null;
+    if (!isBiddingOpen(bidding)) return { error: `Приём предложений по заказу ${parentId} закрыт` };
+    if (bidding.round !== 2) return null;
+    const current = this.activeOffers(parentId).find(r => r.sellerId === String(o.sellerId || ''));
+    if (!current) return { error: `По заказу ${parentId} идёт второй раунд — в нём участвуют только поставщики, уже приславшие предложение` };
+    const raised = raisedPrices(parseItems(current.json), linkOfferItems(parseItems(this.findRow(parentId)?.json || ''), o.items || []), ratesOn(this.rates.list()));
+    return raised.length > 0 ? { error: `Во втором раунде цену можно только снизить: ${raised.join(', ')}` } : null;
+  }
+
+  // hours > 0 — окно от текущего момента (открыть, продлить, начать раунд); 0 — закрыть сейчас
+  private setBiddingWindow(body: PayloadOf<'set_bidding_window'>): ActionResponse {
+    const row = this.findRow(body.orderId);
+    if (!row || row.type !== 'ORDER') return { error: `Order ${body.orderId} not found` };
+    if (resolveWorkflowStatus(row) !== 'В обработке') return { error: `По заказу ${row.id} уже сформировано КП — приём предложений закрыт` };
+    const items = parseItems(row.json);
+    if (items.length === 0) return { error: `В заказе ${row.id} нет позиций` };
+    const current = items[0].bidding;
+    const round = body.round ?? current?.round ?? 1;
+    if (round === 2 && this.activeOffers(String(row.id)).length === 0) return { error: `По заказу ${row.id} нет предложений — второй раунд не для кого` };
+    items[0].bidding = body.hours > 0 || !current
+      ? openBidding(body.hours, round)
+      : { ...current, round, deadline: new Date().toISOString() };
+    row.json = JSON.stringify(items);
+    return { status: 'ok' };
+  }
+
+  // Своя настройка подсказки цены на заказе; 'default' снимает её — снова действуют правила
+  private setPriceHints(body: PayloadOf<'set_price_hints'>): ActionResponse {
+    const row = this.findRow(body.orderId);
+    if (!row || row.type !== 'ORDER') return { error: `Order ${body.orderId} not found` };
+    const items = parseItems(row.json);
+    if (items.length === 0) return { error: `В заказе ${row.id} нет позиций` };
+    if (body.mode === 'default') delete items[0].priceHints;
+    else items[0].priceHints = body.mode;
+    row.json = JSON.stringify(items);
+    return { status: 'ok' };
+  }
+
+  // Заказ без телефона клиента (до привязки по номеру) не видит никто из клиентов — номер указывает администратор
+  private linkClientPhone(body: PayloadOf<'link_client_phone'>): ActionResponse {
+    const row = this.findRow(body.orderId);
+    if (!row || row.type !== 'ORDER') return { error: `Order ${body.orderId} not found` };
+    const items = parseItems(row.json);
+    if (items.length === 0) return { error: `В заказе ${row.id} нет позиций` };
+    if (normalizePhone(items[0].clientPhone)) return { error: `У заказа ${row.id} уже есть телефон клиента` };
+    items[0].clientPhone = body.phone;
+    row.json = JSON.stringify(items);
+    return { status: 'ok' };
+  }
+
+  // Все смены workflowStatus идут через машину состояний: недопустимый переход не меняет строку
+  private transition(orderId: string, target: WorkflowStatus, role: UserRole): ActionResponse {
+    const row = this.findRow(orderId);
+    if (!row || row.type !== 'ORDER') return { error: `Order ${orderId} not found` };
+    const offers = this.activeOffers(String(row.id)).map(r => ({ items: parseItems(r.json) }));
+    const error = checkTransition(resolveWorkflowStatus(row), target, role, { items: parseItems(row.json), offers });
+    if (error) return { error };
+    Object.assign(row, WORKFLOW_EFFECTS[target], { workflowStatus: target });
+    if (target === 'КП отправлено') this.stampRates(row);
+    return { status: 'ok' };
+  }
+
+  // Первое формирование переводит заказ в «КП отправлено»; повторное (после правок лидеров) — только выдаёт новую версию документа
+  private formCp(orderId: string, role: UserRole): ActionResponse {
+    const row = this.findRow(orderId);
+    if (!row || row.type !== 'ORDER') return { error: `Order ${orderId} not found` };
+    if (resolveWorkflowStatus(row) === 'КП отправлено') {
+      this.stampRates(row);
+    } else {
+      const result = this.transition(orderId, 'КП отправлено', role);
+      if (result.error) return result;
+    }
+
+    const items = parseItems(row.json);
+    if (items.length === 0) return { status: 'ok' };
+    const offers = this.activeOffers(String(row.id)).map(r => ({ items: parseItems(r.json) }));
+    const previous = Array.isArray(items[0].cpDocuments) ? items[0].cpDocuments : [];
+    const doc = buildCpDocument({ orderId: String(row.id), vin: row.vin, clientName: row.clientName, items, offers, previous });
+    items[0].cpDocuments = [...previous, doc];
+    // КП сформировано по текущим лидерам — приём предложений закрывается, раунд сохраняется для истории
+    const bidding = items[0].bidding;
+    if (bidding && isBiddingOpen(bidding)) items[0].bidding = { ...bidding, deadline: new Date().toISOString() };
+    row.json = JSON.stringify(items);
+    return { status: 'ok' };
+  }
+
+  // Курсы на дату КП фиксируются в первой позиции заказа — последующие изменения таблицы на заказ не влияют
+  private stampRates(row: SheetRow) {
+    const snapshot = this.rates.snapshot();
+    const items = parseItems(row.json);
+    if (!snapshot || items.length === 0) return;
+    items[0].rateSnapshot = snapshot;
+    row.json = JSON.stringify(items);
+  }
+
+  private getNextId(): number {
+    let max = 0;
+    this.rows.forEach(r => {
+      const val = parseInt(r.id);
+      if (!isNaN(val) && val > max) max = val;
+    });
+    return max + 1;
+  }
+
+  private createOrder(o: NewRow): ActionResponse {
+    const newId = String(this.getNextId());
+    // ID позиций выдаёт бэкенд: присланные клиентом не принимаются
+    const items: any[] = assignOrderItemIds(newId, (o.items || []).map((i: any) => ({ ...i, id: '' })));
+    // Приём офферов открывается вместе с заказом; срок меняет администратор
+    if (items.length > 0) items[0].bidding = openBidding(DEFAULT_BIDDING_HOURS);
+    this.rows.unshift({
+      id: newId,
+      parentId: '',
+      type: 'ORDER',
+      status: o.status,
+      vin: o.vin,
+      clientName: o.clientName,
+      summary: items.map((i: any) => `${i.name} (${i.quantity} шт)`).join(', '),
+      json: JSON.stringify(items),
+      rank: generateOrderSummary(items),
+      createdAt: (o.createdAt || '').replace(', ', '\n'),
+      processed: 'N',
+      readyToBuy: 'N',
+      refusal: 'N',
+      workflowStatus: 'В обработке'
+    });
+    return { status: 'ok', orderId: newId };
+  }
+
+  private createOffer(o: NewRow): ActionResponse {
+    const parentId = String(o.parentId);
+    // Один действующий оффер поставщика на заказ: повторный ответ — новая редакция того же оффера
+    const current = o.sellerId ? this.activeOffers(parentId).find(r => r.sellerId === String(o.sellerId)) : undefined;
+    if (current) return this.reviseOffer(current, o);
+
+    const offerNum = this.rows.filter(r => String(r.parentId) === parentId && r.type === 'OFFER').length + 1;
+    const newOfferId = `${parentId}-${offerNum}`;
+    const items = linkOfferItems(parseItems(this.findRow(parentId)?.json || ''), o.items || []);
+
+    // Вставляем в конец блока заказа, как findBlockEndIndex в GAS
+    let insertAt = this.rows.length;
+    const orderIdx = this.rows.findIndex(r => String(r.id) === parentId);
+    if (orderIdx !== -1) {
+      insertAt = orderIdx + 1;
+      while (insertAt < this.rows.length && String(this.rows[insertAt].parentId) === parentId) insertAt++;
+    }
+
+    this.rows.splice(insertAt, 0, {
+      id: newOfferId,
+      parentId,
+      type: 'OFFER',
+      status: o.status,
+      vin: o.vin,
+      clientName: o.clientName,
+      summary: 'Предложение',
+      json: JSON.stringify(items),
+      rank: generateOfferSummary(items),
+      createdAt: (o.createdAt || '').replace(', ', '\n'),
+      processed: 'N',
+      readyToBuy: 'N',
+      refusal: 'N',
+      workflowStatus: '',
+      sellerId: o.sellerId || ''
+    });
+    return { status: 'ok', offerId: newOfferId };
+  }
+
+  // Новая редакция: условия прежней уходят в offerHistory, номер редакции растёт
+  private reviseOffer(row: SheetRow, o: NewRow): ActionResponse {
+    const locked = this.offerLockedError(String(row.parentId), 'изменить');
+    if (locked) return locked;
+    const parent = this.findRow(String(row.parentId));
+    const previous = parseItems(row.json);
+    const prevRevision = Number(previous[0]?.offerRevision) || 1;
+    const history = [...(Array.isArray(previous[0]?.offerHistory) ? previous[0].offerHistory : []), revisionSnapshot(previous, prevRevision, new Date().toISOString())];
+    const revision = prevRevision + 1;
+    const items = linkOfferItems(parseItems(parent?.json || ''), o.items || []).map((item: any) => {
+      const old = previous.find(p => p.id && p.id === item.id);
+      return old ? keepAdminDecision(old, item) : item;
+    });
+    if (items.length > 0) items[0] = { ...items[0], offerRevision: revision, offerHistory: history };
+    row.json = JSON.stringify(items);
+    row.rank = generateOfferSummary(items);
+    row.clientName = o.clientName;
+    return { status: 'ok', offerId: String(row.id), offerRevision: revision };
+  }
+
+  // Отзыв: строка остаётся (push-канал доносит изменение до всех), но из заказа и выбора лидеров выпадает
+  private withdrawOffer(offerId: string, session: SessionClaims): ActionResponse {
+    const row = this.findRow(offerId);
+    if (!row || row.type !== 'OFFER' || row.refusal === 'Y') return { error: `Offer ${offerId} not found` };
+    if (row.sellerId !== session.sellerId) return { error: 'Предложение принадлежит другому поставщику' };
+    const locked = this.offerLockedError(String(row.parentId), 'отозвать');
+    if (locked) return locked;
+    if (!isBiddingOpen(this.biddingOf(String(row.parentId)))) return { error: `Приём предложений по заказу ${row.parentId} закрыт — предложение отозвать нельзя` };
+    const items = parseItems(row.json).map(({ rank, allocatedQuantity, ...item }: any) => item);
+    row.json = JSON.stringify(items);
+    row.rank = generateOfferSummary(items);
+    row.refusal = 'Y';
+    return { status: 'ok', offerId: String(row.id) };
+  }
+
+  // Импорт администратора: сначала проверяются все строки, затем создаются — частичного импорта не бывает
+  private bulkCreate(orders: NewRow[], session: SessionClaims): ActionResponse {
+    const errors: string[] = [];
+    const prepared = orders.map((o, idx) => {
+      if (o.type !== 'OFFER') return o;
+      const supplier = this.suppliers.findById(String(o.sellerId));
+      const parent = this.findRow(o.parentId);
+      if (!supplier) errors.push(`#${idx + 1}: поставщик ${o.sellerId} не найден`);
+      if (!parent || parent.type !== 'ORDER') errors.push(`#${idx + 1}: заказ ${o.parentId} не найден`);
+      else if (!isCpEditable(resolveWorkflowStatus(parent))) errors.push(`#${idx + 1}: заказ ${o.parentId} уже закрыт для офферов`);
+      // Оффер поставщика уже есть — строка станет его новой редакцией, а после КП редакции запрещены
+      else if (this.activeOffers(String(o.parentId)).some(r => r.sellerId === String(o.sellerId)) && this.offerLockedError(String(o.parentId), 'изменить')) {
+        errors.push(`#${idx + 1}: по заказу ${o.parentId} уже сформировано КП — оффер поставщика ${o.sellerId} изменить нельзя`);
+      }
+      return { ...o, clientName: supplier?.name || o.clientName, vin: o.vin || parent?.vin || '' };
+    });
+    if (errors.length > 0) return { error: errors.join('; ') };
+
+    const parentIds = Array.from(new Set(prepared.filter(o => o.type === 'OFFER').map(o => String(o.parentId))));
+    const before = new Map(parentIds.map(id => [id, snapshotBlock(this.rows, id)]));
+    const createdIds = prepared.map(o => {
+      const result = o.type === 'OFFER' ? this.createOffer(o) : this.createOrder(o);
+      return String(result.offerId || result.orderId);
+    });
+
+    prepared.forEach((o, idx) => {
+      if (o.type === 'OFFER') return;
+      const changes = diffBlocks([], snapshotBlock(this.rows, createdIds[idx]));
+      if (changes.length > 0) this.events.append(createdIds[idx], 'bulk_create', session, changes);
+    });
+    parentIds.forEach(id => {
+      const changes = diffBlocks(before.get(id) || [], snapshotBlock(this.rows, id));
+      if (changes.length > 0) this.events.append(id, 'bulk_create', session, changes);
+    });
+    return { status: 'ok', createdIds };
+  }
+
+  private refuseOrder(body: PayloadOf<'refuse_order'>, role: UserRole): ActionResponse {
+    const result = this.transition(body.orderId, body.source === 'ADMIN' ? 'Аннулирован' : 'Отказ', role);
+    if (result.error) return result;
+
+    const row = this.findRow(body.orderId);
+    if (row && body.reason) {
+      const items = parseItems(row.json);
+      if (items.length > 0) {
+        items[0].refusalReason = body.reason;
+        row.json = JSON.stringify(items);
+      }
+    }
+    return { status: 'ok' };
+  }
+
+  private updateJson(body: PayloadOf<'update_json'>): ActionResponse {
+    const row = this.findRow(body.orderId);
+    if (!row) return { error: `Order ${body.orderId} not found` };
+    // Правка сохраняет ID позиций; новые позиции заказа получают следующий номер
+    const items = row.type === 'ORDER'
+      ? assignOrderItemIds(String(row.id), body.items || [])
+      : linkOfferItems(parseItems(this.findRow(row.parentId)?.json || ''), body.items || []);
+    row.json = JSON.stringify(items);
+    row.summary = items.map((i: any) => `${i.AdminName || i.name} (${i.quantity} шт)`).join(', ');
+    return { status: 'ok' };
+  }
+
+  private updateRank(body: PayloadOf<'update_rank'>): ActionResponse {
+    const { itemId, leadOfferId, adminPrice, adminCurrency, adminComment, deliveryRate, priceOverrideReason, quantity } = body;
+    const targetOfferId = String(leadOfferId).trim();
+    const targetItemId = String(itemId).trim();
+    const isReset = body.actionType === 'RESET';
+    const isShare = !isReset && quantity !== undefined;
+
+    const leadRow = this.findRow(targetOfferId);
+    if (!leadRow || leadRow.refusal === 'Y') return { error: `Offer ${targetOfferId} not found` };
+    const parentId = String(leadRow.parentId).trim();
+    const parentRow = this.findRow(parentId);
+    if (parentRow && !isCpEditable(resolveWorkflowStatus(parentRow))) return { error: 'Лидеров нельзя менять после подтверждения покупки' };
+    const isTarget = (item: any) => String(item.id || '') === targetItemId;
+
+    // Расчётная цена лидера проверяется до изменения строк: ручная цена без причины не принимается
+    let pricing: PriceBreakdown | null = null;
+    let overrideReason: string | undefined;
+    const leadItem = isReset ? undefined : parseItems(leadRow.json).find(isTarget);
+    if (!isReset && !leadItem) return { error: `В оффере ${targetOfferId} нет позиции ${targetItemId}` };
+    if (leadItem) {
+      // После КП цена считается по курсам, зафиксированным в заказе, — как её видит администратор
+      const meta = parseItems(parentRow?.json || '')[0];
+      const rates = meta?.rateSnapshot?.rates || ratesOn(this.rates.list());
+      const brand = carBrand(meta?.car);
+      pricing = calculatePrice({ ...leadItem, deliveryRate: deliveryRate ?? leadItem.deliveryRate }, brand, this.state.pricingRules, rates);
+      const price = adminPrice ?? leadItem.adminPrice;
+      if (pricing && price !== undefined && !matchesCalculated(price, adminCurrency ?? leadItem.adminCurrency ?? 'RUB', pricing, rates)) {
+        overrideReason = String(priceOverrideReason || '').trim();
+        if (!overrideReason) return { error: `Цена ${price} отличается от расчётной ${pricing.total} ₽ — укажите причину` };
+      }
+    }
+
+    // Доля лидера: не больше предложенного и вместе с долями других лидеров — не больше нужного
+    const orderItem = parseItems(parentRow?.json || '').find(isTarget);
+    const required = orderItem ? requiredQuantity(orderItem) : 0;
+    let allocated = 0;
+    if (leadItem) {
+      const offered = leadItem.offeredQuantity || required || leadItem.quantity;
+      allocated = isShare ? quantity : Math.min(offered, required || offered);
+      if (isShare && offered && quantity > offered) return { error: `Поставщик предложил только ${offered} шт` };
+      if (isShare && required) {
+        const others = this.activeOffers(parentId)
+          .filter(r => String(r.id).trim() !== targetOfferId)
+          .flatMap(r => parseItems(r.json))
+          .filter(i => isTarget(i) && i.rank === 'ЛИДЕР')
+          .reduce((acc, i) => acc + leaderQuantity(i), 0);
+        if (others + quantity > required) return { error: `Доли лидеров превышают нужное количество: ${others + quantity} из ${required} шт` };
+      }
+    }
+
+    this.activeOffers(parentId).forEach(row => {
+      let changed = false;
+      const items = parseItems(row.json).map(item => {
+        if (!isTarget(item)) return item;
+
+        // Сброс снимает только выбранного лидера: доли остальных поставщиков сохраняются
+        if (isReset) {
+          if (item.rank === 'ЛИДЕР' && String(row.id).trim() === targetOfferId) {
+            item.rank = 'РЕЗЕРВ';
+            delete item.allocatedQuantity;
+            if (adminComment !== undefined) item.adminComment = adminComment;
+            changed = true;
+          }
+        } else if (String(row.id).trim() === targetOfferId) {
+          item.rank = 'ЛИДЕР';
+          item.allocatedQuantity = allocated;
+          if (adminPrice !== undefined) item.adminPrice = adminPrice;
+          if (adminCurrency !== undefined) item.adminCurrency = adminCurrency;
+          if (deliveryRate !== undefined) item.deliveryRate = deliveryRate;
+          item.adminComment = adminComment || '';
+          item.pricing = pricing || undefined;
+          item.priceOverrideReason = overrideReason;
+          changed = true;
+        } else if (item.rank === 'ЛИДЕР' && !isShare) {
+          item.rank = 'РЕЗЕРВ';
+          delete item.allocatedQuantity;
+          changed = true;
+        }
+        return item;
+      });
+
+      if (changed) {
+        row.json = JSON.stringify(items);
+        row.rank = generateOfferSummary(items);
+      }
+    });
+    return { status: 'ok' };
+  }
+}
+
+// Запрос, меняющий данные, — после decodeActionPayload, без auth_*
+type MutationPayload = Exclude<ActionPayload, { action: AuthActionName }>;
+
+// Новая строка заказа или оффера: из create (автор — из токена) или из импорта (bulk_create, sellerId из реестра)
+type NewRow = PayloadOf<'bulk_create'>['orders'][number];
+
+const parseItems = (json: string): any[] => {
+  try {
+    const parsed = JSON.parse(json || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+// Решение администратора по позиции оффера — переносится в новую редакцию, только если условия поставщика не изменились
+const ADMIN_DECISION = ['rank', 'allocatedQuantity', 'adminPrice', 'adminCurrency', 'adminComment', 'deliveryRate', 'pricing', 'priceOverrideReason'];
+
+const keepAdminDecision = (old: any, item: any) => {
+  if (OFFER_TERMS.some(key => old[key] !== item[key])) return item;
+  const kept = { ...item };
+  ADMIN_DECISION.forEach(key => { if (old[key] !== undefined) kept[key] = old[key]; });
+  return kept;
+};
+
+// Поля позиции-лидера, которые видит клиент: всё остальное — условия поставщика и внутренняя кухня администратора
+const CLIENT_ITEM_FIELDS = ['id', 'name', 'article', 'category', 'quantity', 'allocatedQuantity', 'rank', 'adminPrice', 'adminCurrency', 'deliveryWeeks'];
+
+const clientItem = (item: any) => {
+  const visible: any = {};
+  CLIENT_ITEM_FIELDS.forEach(key => { if (item[key] !== undefined) visible[key] = item[key]; });
+  return visible;
+};
+
+const getCarHeader = (car: any) => {
+  if (!car) return 'Авто не указано';
+  return [carTitle(car), car.AdminYear || car.year].filter(Boolean).join(' | ');
+};
+
+const generateOrderSummary = (items: any[]) => {
+  const lines = items.map(i => `⬜ | ${i.AdminName || i.name} | ${i.quantity} шт`);
+  return `${getCarHeader(items[0]?.car)}\n${lines.join('\n')}`;
+};
+
+const generateOfferSummary = (items: any[]) =>
+  items.map(i => `${i.rank === 'ЛИДЕР' ? '✅' : '⬜'} | ${i.name} | ${i.quantity} шт`).join('\n');
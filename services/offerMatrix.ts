@@ -0,0 +1,84 @@
+import type { Order, OrderItem, PriceBreakdown } from '../types';
+import { isSameItem } from './itemIdentity';
+
+/**
+ * Матрица сравнения офферов по заказу: строки — позиции заказа, колонки — офферы поставщиков.
+ * Лучшие предложения считаются здесь, чтобы подсветка в таблице и массовый выбор лидеров совпадали.
+ */
+
+export interface ItemOffer {
+  offerId: string;
+  sellerId?: string;
+  clientName: string;
+  item: OrderItem;
+}
+
+export type BestCriterion = 'price' | 'delivery' | 'landed';
+
+export interface MatrixRow {
+  item: OrderItem;
+  cells: Record<string, ItemOffer>; // offerId → предложение по позиции
+  best: Record<BestCriterion, string | null>; // offerId лучшего предложения
+  leaderOfferIds: string[]; // несколько — позиция разделена между поставщиками
+}
+
+export interface OfferMatrix {
+  columns: { offerId: string; sellerId?: string; clientName: string }[];
+  rows: MatrixRow[];
+}
+
+const isLeaderRank = (item: OrderItem) => item.rank === 'ЛИДЕР' || item.rank === 'LEADER';
+
+// Предложения по позиции заказа: оффер содержит позицию с тем же ID и ненулевым количеством
+export const offersForItem = (order: Order, item: OrderItem): ItemOffer[] => {
+  const result: ItemOffer[] = [];
+  order.offers?.forEach(off => {
+    const matchingItem = off.items.find(i => isSameItem(i, item));
+    if (matchingItem && (matchingItem.offeredQuantity || 0) > 0) {
+      result.push({ offerId: off.id, sellerId: off.sellerId, clientName: off.clientName, item: matchingItem });
+    }
+  });
+  return result;
+};
+
+// offerId с минимальным значением; предложения без значения не участвуют
+const minBy = (offers: ItemOffer[], value: (o: ItemOffer) => number | null | undefined): string | null => {
+  let best: { offerId: string; value: number } | null = null;
+  offers.forEach(o => {
+    const v = value(o);
+    if (v === null || v === undefined || !isFinite(v) || v <= 0) return;
+    if (!best || v < best.value) best = { offerId: o.offerId, value: v };
+  });
+  return best ? (best as { offerId: string }).offerId : null;
+};
+
+/**
+ * priceOf — расчёт цены предложения (см. pricing.ts); без него сравнение по цене идёт только среди рублёвых цен.
+ */
+export const buildOfferMatrix = (order: Order, priceOf: (item: OrderItem) => PriceBreakdown | undefined): OfferMatrix => {
+  const columns: OfferMatrix['columns'] = [];
+  const rows = order.items.map(item => {
+    const offers = offersForItem(order, item);
+    offers.forEach(o => {
+      if (!columns.some(c => c.offerId === o.offerId)) columns.push({ offerId: o.offerId, sellerId: o.sellerId, clientName: o.clientName });
+    });
+    const breakdowns = new Map(offers.map(o => [o.offerId, priceOf(o.item)]));
+    return {
+      item,
+      cells: Object.fromEntries(offers.map(o => [o.offerId, o])),
+      best: {
+        price: minBy(offers, o => breakdowns.get(o.offerId)?.supplierRub ?? (o.item.sellerCurrency === 'RUB' ? o.item.sellerPrice : null)),
+        delivery: minBy(offers, o => o.item.deliveryWeeks),
+        landed: minBy(offers, o => breakdowns.get(o.offerId)?.total)
+      },
+      leaderOfferIds: offers.filter(o => isLeaderRank(o.item)).map(o => o.offerId)
+    };
+  });
+  return { columns, rows };
+};
+
+// Какие позиции нужно перевести на другого лидера, чтобы выбрать лучшие по критерию; разделённые позиции переходят к одному
+export const pickBest = (matrix: OfferMatrix, criterion: BestCriterion): { item: OrderItem; offer: ItemOffer }[] =>
+  matrix.rows
+    .filter(row => row.best[criterion] && !(row.leaderOfferIds.length === 1 && row.leaderOfferIds[0] === row.best[criterion]))
+    .map(row => ({ item: row.item, offer: row.cells[row.best[criterion]!] }));
@@ -0,0 +1,42 @@
+import type { Order, OrderItem, OfferRevision } from '../types';
+
+/**
+ * Редакции оффера. Поставщик правит или отзывает свой оффер, пока по заказу не сформировано КП.
+ * Правка не создаёт новую строку: оффер получает следующий номер редакции (`offerRevision` в первой позиции),
+ * а условия прежней редакции сохраняются в `offerHistory` — по ним администратор видит историю цен.
+ * Отозванный оффер остаётся строкой листа с `refusal: 'Y'` и в заказ не попадает.
+ */
+
+// Условия поставщика по позиции: изменилось хоть одно — решение администратора по позиции сбрасывается
+export const OFFER_TERMS = ['sellerPrice', 'sellerCurrency', 'offeredQuantity', 'weight', 'deliveryWeeks'] as const;
+
+export const revisionSnapshot = (items: Partial<OrderItem>[], revision: number, revisedAt: string): OfferRevision => ({
+  revision,
+  revisedAt,
+  items: items.map(item => {
+    const terms: OfferRevision['items'][number] = { id: String(item.id || '') };
+    OFFER_TERMS.forEach(key => { if (item[key] !== undefined) (terms as any)[key] = item[key]; });
+    return terms;
+  })
+});
+
+export const isRevised = (offer: Pick<Order, 'offerRevision'>) => (offer.offerRevision || 1) > 1;
+
+export interface PricePoint {
+  revision: number;
+  price?: number;
+  currency?: string;
+}
+
+// Цены поставщика по позиции от первой редакции к текущей; редакции без изменения цены пропускаются
+export const priceHistory = (offer: Pick<Order, 'offerRevision' | 'offerHistory' | 'items'>, itemId: string): PricePoint[] => {
+  const current = offer.items.find(i => i.id === itemId);
+  const points: PricePoint[] = [
+    ...(offer.offerHistory || []).map(r => {
+      const item = r.items.find(i => i.id === itemId);
+      return { revision: r.revision, price: item?.sellerPrice, currency: item?.sellerCurrency };
+    }),
+    { revision: offer.offerRevision || 1, price: current?.sellerPrice, currency: current?.sellerCurrency }
+  ];
+  return points.filter((p, idx) => idx === 0 || p.price !== points[idx - 1].price || p.currency !== points[idx - 1].currency);
+};
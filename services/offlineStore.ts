@@ -0,0 +1,60 @@
+/**
+ * Локальная копия данных в IndexedDB: последний снимок строк листа (чтобы открыть кабинет без сети)
+ * и очередь неотправленных действий (см. outbox.ts). Без IndexedDB (приватный режим, старый браузер)
+ * всё работает как раньше, только без офлайн-режима.
+ */
+
+const DB_NAME = 'autoparts-offline';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const OUTBOX = 'outbox';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS);
+        if (!db.objectStoreNames.contains(OUTBOX)) db.createObjectStore(OUTBOX, { keyPath: 'requestId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error(request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(store: string, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const readSnapshot = async <T>(key: string): Promise<T | undefined> =>
+  run<T>(SNAPSHOTS, 'readonly', s => s.get(key));
+
+export const writeSnapshot = async (key: string, value: unknown): Promise<void> => {
+  await run(SNAPSHOTS, 'readwrite', s => s.put(value, key));
+};
+
+export const readOutbox = async <T>(): Promise<T[]> =>
+  (await run<T[]>(OUTBOX, 'readonly', s => s.getAll())) || [];
+
+export const writeOutboxEntry = async (entry: { requestId: string }): Promise<void> => {
+  await run(OUTBOX, 'readwrite', s => s.put(entry));
+};
+
+export const deleteOutboxEntry = async (requestId: string): Promise<void> => {
+  await run(OUTBOX, 'readwrite', s => s.delete(requestId));
+};
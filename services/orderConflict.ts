@@ -0,0 +1,108 @@
+import type { Order, OrderItem } from '../types';
+import { carTitle } from './carCatalogue';
+import { isSameItem } from './itemIdentity';
+
+/**
+ * Конфликты одновременной правки. Запись уходит с версией, которую видел администратор; бэкенд отклоняет
+ * устаревшую (VERSION_CONFLICT_ERROR), а здесь собирается, что успел изменить другой пользователь:
+ * поля формы правки заказа (база → моё / их) и изменения офферов для выбора лидеров.
+ */
+
+// Поля формы правки заказа: car_model, car_year, car_body, item_<ID позиции>_name, item_<ID позиции>_qty
+export type EditForm = Record<string, string>;
+
+export interface EditFieldDiff {
+  key: string;
+  label: string;
+  base: string;
+  mine: string;
+  theirs: string;
+  collision: boolean; // поле изменили оба и по-разному — нужен выбор
+}
+
+export type EditChoice = 'mine' | 'theirs';
+
+const CAR_FIELDS: Record<string, string> = { car_model: 'Марка/Модель', car_year: 'Год', car_body: 'Кузов' };
+
+// Версия блока заказа: строка заказа и все его офферы (для выбора лидеров и КП)
+export const blockVersion = (order: Pick<Order, 'version' | 'offers'>): number =>
+  (order.offers || []).reduce((acc, o) => Math.max(acc, o.version || 0), order.version || 0);
+
+export const editFormFor = (order: Order): EditForm => {
+  const form: EditForm = {
+    car_model: carTitle(order.car),
+    car_year: order.car?.AdminYear || order.car?.year || '',
+    car_body: order.car?.AdminBodyType || order.car?.bodyType || ''
+  };
+  order.items.forEach(item => {
+    form[`item_${item.id}_name`] = item.AdminName || item.name;
+    form[`item_${item.id}_qty`] = String(item.AdminQuantity || item.quantity);
+  });
+  return form;
+};
+
+const fieldLabel = (order: Order, key: string): string => {
+  if (CAR_FIELDS[key]) return CAR_FIELDS[key];
+  const item = order.items.find(i => key === `item_${i.id}_name` || key === `item_${i.id}_qty`);
+  const name = item ? item.name : key; // исходное название: правленое может само быть предметом конфликта
+  return key.endsWith('_qty') ? `${name}: кол-во` : `${name}: название`;
+};
+
+// Поля, которые изменил хотя бы один из двоих; order — свежая версия заказа с бэкенда
+export const diffEdits = (order: Order, base: EditForm, mine: EditForm): EditFieldDiff[] => {
+  const theirs = editFormFor(order);
+  const keys = Array.from(new Set([...Object.keys(base), ...Object.keys(mine), ...Object.keys(theirs)]));
+  return keys
+    .map(key => {
+      const b = base[key] ?? '';
+      const m = mine[key] ?? b;
+      const t = theirs[key] ?? '';
+      return { key, label: fieldLabel(order, key), base: b, mine: m, theirs: t, collision: m !== b && t !== b && m !== t };
+    })
+    .filter(d => d.mine !== d.base || d.theirs !== d.base);
+};
+
+// Слияние: поле, изменённое одним из двоих, берётся у него; при коллизии — по выбору (по умолчанию моё)
+export const mergeEdits = (diffs: EditFieldDiff[], mine: EditForm, choices: Record<string, EditChoice>): EditForm => {
+  const merged = { ...mine };
+  diffs.forEach(d => {
+    if (d.collision) merged[d.key] = choices[d.key] === 'theirs' ? d.theirs : d.mine;
+    else merged[d.key] = d.mine !== d.base ? d.mine : d.theirs;
+  });
+  return merged;
+};
+
+const OFFER_FIELDS: [keyof OrderItem, string][] = [
+  ['sellerPrice', 'цена поставщика'],
+  ['rank', 'статус'],
+  ['allocatedQuantity', 'доля'],
+  ['adminPrice', 'цена'],
+  ['adminComment', 'комментарий']
+];
+
+const text = (v: unknown) => v === undefined || v === null || v === '' ? '—' : String(v);
+
+// Что изменилось в офферах заказа с тех пор, как администратор их видел: «Фильтр · Поставщик: статус ЛИДЕР → РЕЗЕРВ»
+export const describeOfferChanges = (seen: Order, fresh: Order): string[] => {
+  const lines: string[] = [];
+  if (seen.workflowStatus !== fresh.workflowStatus) lines.push(`Статус заказа: ${text(seen.workflowStatus)} → ${text(fresh.workflowStatus)}`);
+  const before = new Map((seen.offers || []).map(o => [o.id, o]));
+  const freshIds = new Set((fresh.offers || []).map(o => o.id));
+  (seen.offers || []).filter(o => !freshIds.has(o.id)).forEach(o => lines.push(`Предложение отозвано: ${o.clientName}`));
+  (fresh.offers || []).forEach(offer => {
+    const prev = before.get(offer.id);
+    if (!prev) {
+      lines.push(`Новое предложение: ${offer.clientName}`);
+      return;
+    }
+    offer.items.forEach(item => {
+      const old = prev.items.find(i => isSameItem(i, item));
+      OFFER_FIELDS.forEach(([field, label]) => {
+        const a = text(old?.[field]);
+        const b = text(item[field]);
+        if (a !== b) lines.push(`${item.AdminName || item.name} · ${offer.clientName}: ${label} ${a} → ${b}`);
+      });
+    });
+  });
+  return lines;
+};
@@ -0,0 +1,112 @@
+import type { ActionResponse, AuthRequestCodeAction, AuthVerifyCodeAction, SessionClaims } from './contract';
+import { normalizePhone } from './contract';
+import type { CodeSender } from './codeSender';
+import type { SupplierRegistry } from './supplierRegistry';
+import { signSession, verifySession, generateSecret } from './sessionToken';
+
+const CODE_TTL = 5 * 60 * 1000;
+const RESEND_INTERVAL = 30 * 1000;
+const MAX_ATTEMPTS = 5;
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+const ADMIN_NAME = 'АДМИНИСТРАТОР';
+
+// Сериализуемое состояние — хранится вместе со строками листа (localStorage / память dev-сервера)
+export interface AuthState {
+  secret: string;
+  // `${role}:${phone}` → выданный код
+  pending: Record<string, { code: string; issuedAt: number; attempts: number }>;
+  // `${role}:${phone}` → имя/компания, закреплённые за номером при первом входе
+  accounts: Record<string, string>;
+}
+
+export interface OtpAuthorityOptions {
+  sender: CodeSender;
+  adminPhones: string[]; // номера, которым разрешена роль admin
+  suppliers?: SupplierRegistry; // если задан, поставщики получают sellerId из реестра
+}
+
+export const createAuthState = (): AuthState => ({ secret: generateSecret(), pending: {}, accounts: {} });
+
+/**
+ * Серверная часть входа по телефону: выдаёт одноразовые коды, проверяет их и подписывает токены сессии.
+ * Имя клиента закрепляется за номером, поэтому занять чужое имя нельзя; сами заказы привязаны к номеру (isOwnOrder в contract.ts).
+ * Поставщики идентифицируются по sellerId из SupplierRegistry.
+ */
+export class OtpAuthority {
+  constructor(private state: AuthState, private options: OtpAuthorityOptions) {}
+
+  async requestCode(body: AuthRequestCodeAction): Promise<ActionResponse> {
+    const phone = normalizePhone(body.phone);
+    if (body.role === 'admin' && !this.isAdminPhone(phone)) {
+      return { error: 'У номера нет прав администратора' };
+    }
+
+    const key = `${body.role}:${phone}`;
+    const previous = this.state.pending[key];
+    if (previous && Date.now() - previous.issuedAt < RESEND_INTERVAL) {
+      return { error: 'Код уже отправлен, повторите через 30 секунд' };
+    }
+
+    const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0');
+    await this.options.sender.send(phone, code);
+    this.state.pending[key] = { code, issuedAt: Date.now(), attempts: 0 };
+
+    return this.options.sender.channel === 'fake' ? { status: 'ok', devCode: code } : { status: 'ok' };
+  }
+
+  async verifyCode(body: AuthVerifyCodeAction): Promise<ActionResponse> {
+    const phone = normalizePhone(body.phone);
+    const key = `${body.role}:${phone}`;
+    const pending = this.state.pending[key];
+
+    if (!pending || Date.now() - pending.issuedAt > CODE_TTL) {
+      delete this.state.pending[key];
+      return { error: 'Код истёк, запросите новый' };
+    }
+    if (pending.code !== String(body.code).trim()) {
+      pending.attempts++;
+      if (pending.attempts >= MAX_ATTEMPTS) delete this.state.pending[key];
+      return { error: 'Неверный код' };
+    }
+
+    const identity = this.resolveIdentity(body, phone);
+    if ('error' in identity) return identity;
+    delete this.state.pending[key];
+
+    const claims: SessionClaims = { sub: phone, role: body.role, ...identity, exp: Date.now() + SESSION_TTL };
+    return { status: 'ok', token: await signSession(claims, this.state.secret) };
+  }
+
+  authenticate(token: string | undefined): Promise<SessionClaims | null> {
+    return verifySession(token, this.state.secret);
+  }
+
+  private resolveIdentity(body: AuthVerifyCodeAction, phone: string): { name: string; sellerId?: string } | { error: string } {
+    const requestedName = String(body.name || '').trim().toUpperCase();
+    const suppliers = this.options.suppliers;
+
+    // Поставщик идентифицируется по ID реестра — одинаковые названия допустимы, новое название переименовывает
+    if (body.role === 'supplier' && suppliers) {
+      const known = suppliers.list().some(r => r.phone === phone);
+      if (!known && !requestedName) return { error: 'Укажите название компании' };
+      const record = suppliers.register(phone, requestedName);
+      return { name: record.name, sellerId: record.id };
+    }
+
+    const key = `${body.role}:${phone}`;
+    let name = this.state.accounts[key];
+    if (!name) {
+      name = body.role === 'admin' ? ADMIN_NAME : requestedName;
+      if (!name) return { error: 'Укажите имя' };
+      const taken = Object.keys(this.state.accounts)
+        .some(k => k.startsWith(`${body.role}:`) && k !== key && this.state.accounts[k] === name);
+      if (taken) return { error: `Имя «${name}» уже закреплено за другим номером` };
+      this.state.accounts[key] = name;
+    }
+    return { name };
+  }
+
+  private isAdminPhone(phone: string) {
+    return this.options.adminPhones.some(p => normalizePhone(p) === phone);
+  }
+}
@@ -0,0 +1,206 @@
+import { Order, OrderStatus, RowType, UserRole } from '../types';
+import { getBackend } from './dataBackend';
+import { AuthService } from './authService';
+import { ActionResponse, AUTH_REQUIRED_ERROR, PayloadOf, newRequestId } from './contract';
+import { readOutbox, writeOutboxEntry, deleteOutboxEntry } from './offlineStore';
+
+// Действия, которые клиент и поставщик могут совершить без сети
+export type QueuedAction =
+  | ({ action: 'create' } & Omit<PayloadOf<'create'>, 'token' | 'requestId'>)
+  | ({ action: 'confirm_purchase' } & Omit<PayloadOf<'confirm_purchase'>, 'token' | 'requestId'>)
+  | ({ action: 'refuse_order' } & Omit<PayloadOf<'refuse_order'>, 'token' | 'requestId'>);
+
+export interface OutboxEntry {
+  requestId: string;   // ключ идемпотентности: повтор после обрыва бэкенд не выполнит второй раз
+  role: UserRole;
+  payload: QueuedAction;
+  orderId: string;     // заказ, к которому относится действие; у нового заказа — временный ID (temp-...)
+  createdAt: string;   // ISO
+  attempts: number;
+  error?: string;      // бэкенд отклонил действие при фоновой отправке — решает пользователь
+}
+
+// Повторы без сети: 5 сек, 10, 20 ... не реже раза в 5 минут; событие online отправляет сразу
+const RETRY_BASE = 5000;
+const RETRY_MAX = 300000;
+
+const send = (entry: OutboxEntry): Promise<ActionResponse> => {
+  const backend = getBackend();
+  const auth = { token: AuthService.getToken(entry.role), requestId: entry.requestId };
+  const { action, ...payload } = entry.payload;
+  switch (action) {
+    case 'create':
+      return backend.create({ ...(payload as PayloadOf<'create'>), ...auth });
+    case 'confirm_purchase':
+      return backend.confirmPurchase({ ...(payload as PayloadOf<'confirm_purchase'>), ...auth });
+    case 'refuse_order':
+      return backend.refuseOrder({ ...(payload as PayloadOf<'refuse_order'>), ...auth });
+  }
+};
+
+/**
+ * Очередь действий клиента и поставщика (IndexedDB). Действие сначала записывается в очередь, затем отправляется;
+ * без сети оно остаётся в очереди и уходит повторно — при появлении сети и по таймеру с растущим интервалом.
+ * Каждый повтор несёт тот же requestId, поэтому бэкенд не создаст второй заказ или оффер.
+ */
+export class Outbox {
+  private static entries: OutboxEntry[] = [];
+  private static loaded: Promise<void> | null = null;
+  private static listeners = new Set<(entries: OutboxEntry[]) => void>();
+  private static delivered = new Set<() => void>();
+  private static retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private static retryDelay = RETRY_BASE;
+  private static flushing = false;
+  private static inFlight = new Map<string, Promise<ActionResponse | null>>();
+
+  private static load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = readOutbox<OutboxEntry>()
+        .then(saved => {
+          const known = new Set(this.entries.map(e => e.requestId));
+          this.entries = [...saved.filter(e => !known.has(e.requestId)), ...this.entries]
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+          this.notify();
+        })
+        .catch(console.error);
+      window.addEventListener('online', () => { this.flush(); });
+      this.loaded.then(() => this.flush());
+    }
+    return this.loaded;
+  }
+
+  static list(): OutboxEntry[] {
+    this.load();
+    return this.entries;
+  }
+
+  static subscribe(listener: (entries: OutboxEntry[]) => void): () => void {
+    this.listeners.add(listener);
+    this.load();
+    listener(this.entries);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Отправленные из очереди действия меняют данные — SheetService перечитывает заказы
+  static onDelivered(listener: () => void): () => void {
+    this.delivered.add(listener);
+    return () => { this.delivered.delete(listener); };
+  }
+
+  /**
+   * Записать действие в очередь и сразу попробовать отправить.
+   * Ответ бэкенда (в том числе отказ { error }) возвращается как есть и убирает действие из очереди;
+   * null — сети нет, действие осталось в очереди и уйдёт само.
+   */
+  static async submit(role: UserRole, payload: QueuedAction, orderId: string): Promise<ActionResponse | null> {
+    await this.load();
+    const entry: OutboxEntry = { requestId: newRequestId(), role, payload, orderId, createdAt: new Date().toISOString(), attempts: 0 };
+    await this.save(entry);
+    const response = await this.attempt(entry);
+    if (response === null) this.scheduleRetry();
+    else if (response.error) await this.discard(entry.requestId); // отказ сразу видит тот, кто отправлял
+    return response;
+  }
+
+  // Убрать действие, которое бэкенд отклонил (или которое пользователь передумал отправлять)
+  static async discard(requestId: string): Promise<void> {
+    this.entries = this.entries.filter(e => e.requestId !== requestId);
+    this.notify();
+    await deleteOutboxEntry(requestId).catch(console.error);
+  }
+
+  static async flush(): Promise<void> {
+    await this.load();
+    if (this.flushing) return;
+    this.flushing = true;
+    let delivered = 0;
+    try {
+      for (const queued of this.entries.filter(e => !e.error)) {
+        // Пока очередь шла, действие могло уйти через submit или получить отказ — берём его текущее состояние
+        const entry = this.entries.find(e => e.requestId === queued.requestId);
+        if (!entry || entry.error) continue;
+        const response = await this.attempt(entry);
+        if (response === null) {
+          this.scheduleRetry();
+          return;
+        }
+        if (response.error === AUTH_REQUIRED_ERROR) return; // после входа очередь уйдёт при следующем повторе
+        if (response.error) await this.update({ ...entry, error: response.error });
+        else delivered++;
+      }
+      this.retryDelay = RETRY_BASE;
+    } finally {
+      this.flushing = false;
+      if (delivered > 0) this.delivered.forEach(listener => listener());
+    }
+  }
+
+  // Одна отправка на действие: submit и flush, пришедшие за тем же requestId во время запроса, ждут его ответ
+  private static attempt(entry: OutboxEntry): Promise<ActionResponse | null> {
+    const running = this.inFlight.get(entry.requestId);
+    if (running) return running;
+    const request = this.sendOnce(entry).finally(() => this.inFlight.delete(entry.requestId));
+    this.inFlight.set(entry.requestId, request);
+    return request;
+  }
+
+  // null — транспорт не доставил запрос (нет сети, таймаут); ответ бэкенда удаляет действие из очереди
+  private static async sendOnce(entry: OutboxEntry): Promise<ActionResponse | null> {
+    if (!AuthService.getSession(entry.role)) return { error: AUTH_REQUIRED_ERROR };
+    try {
+      const response = await send(entry);
+      if (!response.error) await this.discard(entry.requestId);
+      return response;
+    } catch (e) {
+      console.error(e);
+      await this.update({ ...entry, attempts: entry.attempts + 1 });
+      return null;
+    }
+  }
+
+  private static scheduleRetry() {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, RETRY_MAX);
+  }
+
+  private static async save(entry: OutboxEntry) {
+    const exists = this.entries.some(e => e.requestId === entry.requestId);
+    this.entries = exists ? this.entries.map(e => e.requestId === entry.requestId ? entry : e) : [...this.entries, entry];
+    this.notify();
+    await writeOutboxEntry(entry).catch(console.error);
+  }
+
+  // Обновить действие, если оно ещё в очереди: параллельная попытка могла его уже доставить
+  private static async update(entry: OutboxEntry) {
+    if (!this.entries.some(e => e.requestId === entry.requestId)) return;
+    await this.save(entry);
+  }
+
+  private static notify() {
+    const entries = this.entries;
+    this.listeners.forEach(listener => listener(entries));
+  }
+}
+
+// Новый заказ из очереди в виде заказа для списка клиента — до отправки у него временный ID
+export const queuedOrder = (entry: OutboxEntry): Order | null => {
+  if (entry.payload.action !== 'create' || entry.payload.order.type !== 'ORDER') return null;
+  const order = entry.payload.order;
+  return {
+    id: entry.orderId,
+    type: RowType.ORDER,
+    vin: order.vin,
+    clientName: order.clientName,
+    clientPhone: order.items[0]?.clientPhone,
+    car: order.items[0]?.car,
+    items: order.items,
+    status: OrderStatus.OPEN,
+    createdAt: order.createdAt,
+    offers: [],
+    readyToBuy: false
+  };
+};
@@ -0,0 +1,111 @@
+import type { CataloguePart, OrderItem, PartNumber } from '../types';
+import { PARTS_CATALOGUE, CROSS_REFERENCES } from '../constants/parts';
+
+/**
+ * Справочник запчастей: нормализация названий, поиск по названию и артикулу, кросс-номера.
+ * Позиции сравниваются по артикулу с учётом аналогов, без артикула — по нормализованному названию.
+ */
+
+export interface PartSuggestion {
+  key: string;
+  part: CataloguePart;
+  number?: PartNumber; // оригинальный номер для марки авто из заказа
+}
+
+export interface ArticleInfo {
+  number: PartNumber;
+  original: boolean;
+  part?: CataloguePart;
+  originals: PartNumber[]; // для аналога — оригиналы, которые он заменяет
+}
+
+const key = (value: unknown) => String(value || '').trim().toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ');
+
+// Артикул сравнивается без пробелов, дефисов, точек и слешей: «04152-YZZA1» = «04152YZZA1», «W 68/3» = «W683»
+export const articleKey = (value: unknown) => String(value || '').toUpperCase().replace(/[^0-9A-ZА-Я]/g, '');
+
+const ORIGINALS = PARTS_CATALOGUE.flatMap(part => part.originals.map(number => ({ part, number })));
+
+const ANALOGS = Object.entries(CROSS_REFERENCES).flatMap(([original, analogs]) =>
+  analogs.map(number => ({ original: articleKey(original), number })));
+
+export const findPart = (name: string | undefined): CataloguePart | undefined => {
+  const k = key(name);
+  return k ? PARTS_CATALOGUE.find(part => key(part.name) === k || part.aliases.some(a => key(a) === k)) : undefined;
+};
+
+// Название в написании справочника; незнакомое — как ввёл клиент
+export const normalizePartName = (name: string) => findPart(name)?.name || name.trim();
+
+export const findArticle = (article: string | undefined): ArticleInfo | undefined => {
+  const k = articleKey(article);
+  if (!k) return undefined;
+  const original = ORIGINALS.find(o => articleKey(o.number.number) === k);
+  if (original) return { number: original.number, original: true, part: original.part, originals: [] };
+  const analog = ANALOGS.filter(a => articleKey(a.number.number) === k);
+  if (analog.length === 0) return undefined;
+  const originals = ORIGINALS.filter(o => analog.some(a => a.original === articleKey(o.number.number)));
+  return { number: analog[0].number, original: false, part: originals[0]?.part, originals: originals.map(o => o.number) };
+};
+
+// Взаимозаменяемые номера: для оригинала — его аналоги, для аналога — оригиналы и их остальные аналоги
+export const crossReferences = (article: string | undefined): PartNumber[] => {
+  const k = articleKey(article);
+  const info = findArticle(article);
+  if (!info) return [];
+  const originalKeys = info.original ? [k] : info.originals.map(o => articleKey(o.number));
+  const originals = info.original ? [] : info.originals;
+  const analogs = ANALOGS.filter(a => originalKeys.includes(a.original) && articleKey(a.number.number) !== k).map(a => a.number);
+  return [...originals, ...analogs];
+};
+
+export const isSameArticle = (a: string | undefined, b: string | undefined): boolean => {
+  const ka = articleKey(a);
+  const kb = articleKey(b);
+  if (!ka || !kb) return false;
+  return ka === kb || crossReferences(a).some(n => articleKey(n.number) === kb);
+};
+
+export const describeArticle = (article: string | undefined): string => {
+  const info = findArticle(article);
+  if (!info) return '';
+  if (info.original) return `Оригинал ${info.number.maker}${info.part ? ` · ${info.part.name}` : ''}`;
+  return `Аналог ${info.number.maker} → ${info.originals.map(o => `${o.maker} ${o.number}`).join(', ')}`;
+};
+
+/**
+ * Подсказки для поля позиции: совпадения по названию, синонимам и артикулу.
+ * Для марки авто из заказа каждая подходящая деталь предлагается со своим оригинальным номером.
+ */
+export const searchParts = (query: string, carBrand?: string, limit = 8): PartSuggestion[] => {
+  const q = key(query);
+  const qa = articleKey(query);
+  if (q.length < 2) return [];
+  const byArticle = qa.length >= 4 ? findArticle(query) : undefined;
+  const parts = PARTS_CATALOGUE.filter(part =>
+    key(part.name).includes(q) || part.aliases.some(a => key(a).includes(q)) || part === byArticle?.part);
+  const starts = (part: CataloguePart) => key(part.name).startsWith(q) || part.aliases.some(a => key(a).startsWith(q)) ? 0 : 1;
+  return parts.sort((a, b) => starts(a) - starts(b)).flatMap(part => {
+    const numbers = byArticle?.part === part && byArticle.original
+      ? [byArticle.number]
+      : part.originals.filter(n => carBrand && n.carBrands?.includes(carBrand));
+    return numbers.length > 0
+      ? numbers.map(number => ({ key: `${part.id}-${number.number}`, part, number }))
+      : [{ key: part.id, part }];
+  }).slice(0, limit);
+};
+
+// Номера для оффера по позиции клиента: артикул из заказа и его кросс-номера, иначе оригиналы детали для марки
+export const articleOptions = (item: Pick<OrderItem, 'name' | 'article'>, carBrand?: string): PartNumber[] => {
+  const requested = findArticle(item.article);
+  if (requested) return [requested.number, ...crossReferences(item.article)];
+  const part = findPart(item.name);
+  const originals = part ? part.originals.filter(n => !carBrand || n.carBrands?.includes(carBrand)) : [];
+  return [...originals, ...originals.flatMap(o => crossReferences(o.number))];
+};
+
+// Одна и та же деталь: совпал артикул (с учётом аналогов) или, если артикула нет, нормализованное название
+export const isSamePart = (a: Pick<OrderItem, 'name' | 'article'>, b: Pick<OrderItem, 'name' | 'article'>): boolean => {
+  if (a.article && b.article) return isSameArticle(a.article, b.article);
+  return !!key(a.name) && key(normalizePartName(a.name)) === key(normalizePartName(b.name));
+};
@@ -0,0 +1,47 @@
+import type { BiddingWindow, OrderItem, PriceHintMode } from '../types';
+import type { PriceHintRules } from './contract';
+import { isSameItem } from './itemIdentity';
+import { RateMap, convertAmount } from './exchangeRates';
+import { isBiddingOpen } from './bidding';
+
+/**
+ * Подсказка лучшей цены для поставщиков. Её считает бэкенд при выдаче заказа поставщику: по каждой позиции —
+ * минимальная цена действующих офферов других поставщиков в юанях и число таких офферов. Сами офферы конкурентов
+ * поставщику не отдаются, поэтому ни названий, ни ID, ни остальных условий он не видит.
+ * Кому показывать: во втором раунде (bidding.ts) — только участникам, то есть поставщикам с действующим оффером по заказу;
+ * иначе решает настройка заказа, а без неё — правила по оценке поставщика (PriceHintRules).
+ */
+
+export const DEFAULT_PRICE_HINT_RULES: PriceHintRules = { enabled: false, unrated: false };
+
+// Валюта подсказки — та же, в которой поставщик вводит цену
+const HINT_CURRENCY = 'CNY' as const;
+
+export const hintsAllowed = (
+  order: { priceHints?: PriceHintMode; bidding?: BiddingWindow },
+  rating: number | undefined,
+  rules: PriceHintRules,
+  isParticipant = false,
+  now = Date.now()
+): boolean => {
+  if (order.bidding?.round === 2 && isBiddingOpen(order.bidding, now)) return isParticipant;
+  if (order.priceHints) return order.priceHints === 'on';
+  if (!rules.enabled) return false;
+  if (rating === undefined) return rules.unrated;
+  return rating >= (rules.minRating || 1);
+};
+
+// Позиции заказа с bestPrice по офферам конкурентов; позиции без их цены остаются как есть
+export const withBestPrices = <T extends OrderItem>(items: T[], otherOffers: { items: Partial<OrderItem>[] }[], rates: RateMap): T[] =>
+  items.map(item => {
+    const prices = otherOffers
+      .flatMap(o => o.items)
+      .filter(i => isSameItem(i, item) && (i.sellerPrice || 0) > 0 && i.offeredQuantity !== 0)
+      .map(i => convertAmount(i.sellerPrice!, i.sellerCurrency || HINT_CURRENCY, HINT_CURRENCY, rates))
+      .filter((p): p is number => p !== null);
+    if (prices.length === 0) return item;
+    return { ...item, bestPrice: { price: Math.min(...prices), currency: HINT_CURRENCY, offers: prices.length } };
+  });
+
+// Подсказку получает только поставщик в данных с бэкенда — в оффер она не копируется
+export const withoutHint = <T extends Partial<OrderItem>>({ bestPrice, ...item }: T): Omit<T, 'bestPrice'> => item;
@@ -0,0 +1,96 @@
+import type { Order, OrderItem } from '../types';
+import { ImportField, ImportRow, ColumnMapping, readMappedRows, checkNumber, parseNumber } from './dataImport';
+import { articleKey, isSameArticle, normalizePartName } from './partsCatalogue';
+
+/**
+ * Прайс-лист поставщика: строки файла сопоставляются с позициями открытых заказов
+ * по OEM-номеру (артикул позиции с учётом кросс-номеров или номер в названии) или по названию из справочника.
+ * Результат — значения для формы оффера; отправка идёт обычным createOffer по каждому заказу.
+ */
+
+export const PRICE_LIST_FIELDS: ImportField[] = [
+  { key: 'name', label: 'Название', required: false, aliases: ['название', 'наименование', 'деталь', 'позиция', 'name', 'item'] },
+  { key: 'oem', label: 'OEM номер', required: false, aliases: ['oem', 'артикул', 'номер', 'oem номер', 'part number', 'part no'] },
+  { key: 'price', label: 'Цена, ¥', required: true, aliases: ['цена', 'цена, ¥', 'цена cny', 'price', 'price cny'] },
+  { key: 'weight', label: 'Вес, кг', required: false, aliases: ['вес', 'вес, кг', 'weight'] },
+  { key: 'weeks', label: 'Срок, нед.', required: false, aliases: ['срок', 'срок, нед.', 'недель', 'weeks'] },
+  { key: 'stock', label: 'Остаток', required: false, aliases: ['остаток', 'наличие', 'склад', 'stock', 'qty'] }
+];
+
+// Значения одной позиции — те же поля, что редактирует форма поставщика
+export interface PriceListValues {
+  price: number;
+  offeredQty: number;
+  weight: number;
+  deliveryWeeks: number;
+  article: string;
+}
+
+export interface PriceListMatch {
+  order: Order;
+  item: OrderItem;
+  row?: ImportRow;                // нет — позиции нет в прайсе, по ней уходит отказ
+  values: PriceListValues;
+  matchedBy?: 'oem' | 'name';
+}
+
+export interface PriceListPlan {
+  rows: ImportRow[];
+  matches: PriceListMatch[];      // по всем позициям заказов, где нашлась хотя бы одна строка
+  unusedRows: ImportRow[];        // строки без ошибок, не подошедшие ни к одной позиции
+}
+
+const nameKey = (value: unknown) => normalizePartName(String(value || '')).toLowerCase();
+
+const MIN_OEM_LENGTH = 4;
+
+const findRow = (item: OrderItem, rows: ImportRow[]): { row: ImportRow; matchedBy: 'oem' | 'name' } | undefined => {
+  const texts = [item.name, item.AdminName].filter(Boolean);
+  const byOem = rows.find(r => {
+    const oem = articleKey(r.values.oem);
+    if (oem.length < MIN_OEM_LENGTH) return false;
+    return isSameArticle(item.article, r.values.oem) || texts.some(t => articleKey(t).includes(oem));
+  });
+  if (byOem) return { row: byOem, matchedBy: 'oem' };
+  const byName = rows.find(r => r.values.name && texts.some(t => nameKey(t) === nameKey(r.values.name)));
+  return byName && { row: byName, matchedBy: 'name' };
+};
+
+export const matchPriceList = (table: string[][], mapping: ColumnMapping, orders: Order[]): PriceListPlan => {
+  const rows = readMappedRows(PRICE_LIST_FIELDS, table, mapping);
+  rows.forEach(row => {
+    if (!row.values.name && !row.values.oem) row.errors.push('Нужно название или OEM номер');
+    checkNumber(row, 'price', 'Цена, ¥', { positive: true });
+    checkNumber(row, 'weight', 'Вес, кг');
+    checkNumber(row, 'weeks', 'Срок, нед.', { integer: true });
+    checkNumber(row, 'stock', 'Остаток', { integer: true });
+  });
+  const valid = rows.filter(r => r.errors.length === 0);
+
+  const used = new Set<ImportRow>();
+  const matches = orders.flatMap(order => {
+    const found = order.items.map(item => ({ item, hit: findRow(item, valid) }));
+    if (!found.some(f => f.hit)) return [];
+    return found.map(({ item, hit }): PriceListMatch => {
+      const wanted = item.AdminQuantity || item.quantity;
+      if (!hit) return { order, item, values: { price: 0, offeredQty: 0, weight: 0, deliveryWeeks: 0, article: item.article || '' } };
+      used.add(hit.row);
+      const stock = parseNumber(hit.row.values.stock);
+      return {
+        order,
+        item,
+        row: hit.row,
+        matchedBy: hit.matchedBy,
+        values: {
+          price: parseNumber(hit.row.values.price) || 0,
+          offeredQty: stock === undefined ? wanted : Math.min(stock, wanted),
+          weight: parseNumber(hit.row.values.weight) || 0,
+          deliveryWeeks: parseNumber(hit.row.values.weeks) || 0,
+          article: (hit.row.values.oem || item.article || '').trim()
+        }
+      };
+    });
+  });
+
+  return { rows, matches, unusedRows: valid.filter(r => !used.has(r)) };
+};
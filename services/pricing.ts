@@ -0,0 +1,95 @@
+import type { Currency, PartCategory, PriceBreakdown } from '../types';
+import type { MarkupRule, PricingRules } from './contract';
+import { RateMap, convertAmount, roundMoney } from './exchangeRates';
+
+/**
+ * Расчёт цены для клиента (landed cost) по позиции лидера:
+ *   закупка в ₽ + вес × тариф доставки + пошлина % + сбор за штуку, затем наценка по правилам.
+ * Один модуль для админки (показ расчёта) и бэкенда (проверка введённой цены).
+ */
+
+export const DEFAULT_PRICING_RULES: PricingRules = {
+  defaultMarkup: 20,
+  customsPercent: 15,
+  feePerItem: 0,
+  markups: []
+};
+
+// Расхождение меньше копейки считаем совпадением
+const PRICE_TOLERANCE = 0.01;
+
+export interface PricingInput {
+  sellerPrice?: number;
+  sellerCurrency?: Currency;
+  weight?: number;
+  deliveryRate?: number;
+  category?: PartCategory;
+}
+
+const ruleMatches = (rule: MarkupRule, category: PartCategory | undefined, brand: string, supplierRub: number) =>
+  (!rule.category || rule.category === category) &&
+  (!rule.brand || rule.brand.trim().toLowerCase() === brand) &&
+  (rule.minPrice === undefined || supplierRub >= rule.minPrice) &&
+  (rule.maxPrice === undefined || supplierRub <= rule.maxPrice);
+
+// Чем больше условий у правила, тем оно конкретнее; при равенстве — первое в списке
+const specificity = (rule: MarkupRule) =>
+  [rule.category, rule.brand, rule.minPrice, rule.maxPrice].filter(v => v !== undefined && v !== '').length;
+
+export const describeRule = (rule: MarkupRule): string => {
+  const parts: string[] = [];
+  if (rule.category) parts.push(rule.category);
+  if (rule.brand) parts.push(rule.brand.toUpperCase());
+  if (rule.minPrice !== undefined || rule.maxPrice !== undefined) parts.push(`${rule.minPrice ?? 0}–${rule.maxPrice ?? '∞'} ₽`);
+  return parts.length > 0 ? parts.join(', ') : 'Все позиции';
+};
+
+export const pickMarkupRule = (rules: PricingRules, category: PartCategory | undefined, brand: string | undefined, supplierRub: number): MarkupRule | null => {
+  const normalizedBrand = String(brand || '').trim().toLowerCase();
+  let best: MarkupRule | null = null;
+  rules.markups.forEach(rule => {
+    if (!ruleMatches(rule, category, normalizedBrand, supplierRub)) return;
+    if (!best || specificity(rule) > specificity(best)) best = rule;
+  });
+  return best;
+};
+
+/**
+ * Цена за 1 шт в рублях. null — нет цены поставщика или курса его валюты.
+ * Итог округляется вверх до рубля.
+ */
+export const calculatePrice = (item: PricingInput, brand: string | undefined, rules: PricingRules, rates: RateMap): PriceBreakdown | null => {
+  if (item.sellerPrice === undefined || item.sellerPrice === null) return null;
+  const supplierCurrency = item.sellerCurrency || 'CNY';
+  const supplierRub = convertAmount(item.sellerPrice, supplierCurrency, 'RUB', rates);
+  if (supplierRub === null) return null;
+
+  const delivery = roundMoney((item.weight || 0) * (item.deliveryRate || 0));
+  const customs = roundMoney((supplierRub + delivery) * rules.customsPercent / 100);
+  const fee = rules.feePerItem;
+  const base = supplierRub + delivery + customs + fee;
+
+  const rule = pickMarkupRule(rules, item.category, brand, supplierRub);
+  const markupPercent = rule ? rule.percent : rules.defaultMarkup;
+  const markup = roundMoney(base * markupPercent / 100);
+
+  return {
+    supplierPrice: item.sellerPrice,
+    supplierCurrency,
+    rate: supplierCurrency === 'RUB' ? 1 : rates[supplierCurrency] || 0,
+    supplierRub,
+    delivery,
+    customs,
+    fee,
+    markupPercent,
+    markupRule: rule ? describeRule(rule) : 'По умолчанию',
+    markup,
+    total: Math.ceil(roundMoney(base + markup))
+  };
+};
+
+// Введённая цена совпадает с расчётной (с учётом валюты, в которой её видит клиент)
+export const matchesCalculated = (price: number, currency: Currency, breakdown: PriceBreakdown, rates: RateMap): boolean => {
+  const expected = convertAmount(breakdown.total, 'RUB', currency, rates);
+  return expected !== null && Math.abs(expected - price) < PRICE_TOLERANCE;
+};
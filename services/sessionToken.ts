@@ -0,0 +1,59 @@
+import type { SessionClaims } from './contract';
+
+/**
+ * Токен сессии: base64url(JSON claims) + '.' + base64url(HMAC-SHA256).
+ * WebCrypto есть и в браузере, и в Node 20 — поэтому подпись работает одинаково в LocalBackend и на /local-api.
+ */
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const hmac = async (secret: string, data: string): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, encoder.encode(data)));
+};
+
+export const signSession = async (claims: SessionClaims, secret: string): Promise<string> => {
+  const body = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  return `${body}.${toBase64Url(await hmac(secret, body))}`;
+};
+
+// Разбор без проверки подписи — фронтенду нужны только имя/роль/срок, проверяет бэкенд
+export const readSession = (token: string): SessionClaims | null => {
+  try {
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(token.split('.')[0])));
+    if (!claims || typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+    return claims as SessionClaims;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const verifySession = async (token: string | undefined, secret: string): Promise<SessionClaims | null> => {
+  if (!token) return null;
+  const [body, signature] = token.split('.');
+  if (!body || !signature) return null;
+
+  const expected = toBase64Url(await hmac(secret, body));
+  if (expected.length !== signature.length) return null;
+  // Сравнение без раннего выхода
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  if (diff !== 0) return null;
+
+  const claims = readSession(token);
+  return claims && claims.exp > Date.now() ? claims : null;
+};
+
+export const generateSecret = (): string => toBase64Url(crypto.getRandomValues(new Uint8Array(32)));
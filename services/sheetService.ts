@@ -1,42 +1,68 @@
 
-import { Order, OrderStatus, OrderItem, RowType, Currency } from '../types';
-
-// Default URL provided by configuration
-const DEFAULT_API_URL = 'https://script.google.com/macros/s/AKfycbxooqVnUce3SIllt2RUtG-KJ5EzNswyHqrTpdsTGhc6XOKW6qaUdlr6ld77LR2KQz0-/exec';
-
-// Helper to handle API URL from localStorage or fallback to default
-const getApiUrl = () => localStorage.getItem('GAS_API_URL') || DEFAULT_API_URL;
-
-// New JSON-oriented structure matching Version 3.0 Backend
-interface SheetRow {
-  id: string;      // Col A (0)
-  parentId: string;// Col B (1)
-  type: string;    // Col C (2)
-  status: string;  // Col D (3)
-  vin: string;     // Col E (4)
-  clientName: string; // Col F (5)
-  summary: string; // Col G (6)
-  json: string;    // Col H (7) - The source of truth for app logic
-  rank: string;    // Col I (8) - Now "Readable Status" string (e.g. "✅ Item | 5000")
-  createdAt: string; // Col J (9)
-  processed: string; // Col K (10) (Y/N)
-  readyToBuy?: string; // Col L (11) (Y/N)
-  refusal?: string; // Col M (12) (Y/N) - Cancellation flag
-  workflowStatus?: string; // Col N (13) - Status String
-}
+import { Order, OrderStatus, OrderItem, RowType, Currency, UserRole, WorkflowStatus, PriceHintMode } from '../types';
+import { getBackend } from './dataBackend';
+import { AuthService } from './authService';
+import { SheetRow, SupplierRecord, OrderEvent, ExchangeRate, RateEntry, PricingRules, AutoRankRules, PriceHintRules, PayloadOf, ActionResponse, DataIssue, AUTH_REQUIRED_ERROR, VERSION_CONFLICT_ERROR, decodeSheetRow, decodeItems, decodeSuppliers, decodeEvents, decodeRates, decodePricingRules, decodeAutoRankRules, decodePriceHintRules, decodeChangeBatch } from './contract';
+import { resolveWorkflowStatus } from './workflow';
+import { assignOrderItemIds, linkOfferItems } from './itemIdentity';
+import { blockVersion } from './orderConflict';
+import { Outbox } from './outbox';
+import { readSnapshot, writeSnapshot } from './offlineStore';
+import { DEFAULT_PRICING_RULES } from './pricing';
+import { DEFAULT_AUTO_RANK_RULES } from './autoRank';
+import { DEFAULT_PRICE_HINT_RULES } from './priceHints';
+
+// Опрос вместо push-канала, когда бэкенд его не поддерживает
+const POLL_INTERVAL = 20000;
+// Сколько ждать push-порцию со своим изменением, прежде чем снять оптимистичную правку
+const CATCH_UP_TIMEOUT = 5000;
 
 export class SheetService {
   private static cache: Order[] = [];
   private static lastFetch = 0;
-  private static isMutationLocked = false;
+  private static loading: Promise<Order[]> | null = null;
+  private static dataIssues: DataIssue[] = [];
+  private static suppliers: SupplierRecord[] = [];
+  // Строки листа с последней загрузки и push-порций; revision — последняя известная ревизия бэкенда
+  private static rawRows: unknown[] = [];
+  private static revision = 0;
+  private static signatures = new Map<string, string>();
+  // Оптимистичные правки: заказ и его версия на момент правки
+  private static pending = new Map<string, { order: Order; version: number }>();
+  private static listeners = new Set<(orders: Order[]) => void>();
+  private static closeStream: (() => void) | null = null;
+  private static pollTimer: ReturnType<typeof setInterval> | null = null;
+  private static offDelivered: (() => void) | null = null;
+  // Данные взяты из снимка IndexedDB: бэкенд недоступен, список может быть устаревшим
+  private static fromSnapshot = false;
+  // Ревизия после последнего своего запроса и ожидающие, пока push-канал её догонит
+  private static mutationRevision = 0;
+  private static waiters = new Set<() => void>();
+
+  // Проблемы, найденные при последней загрузке (битый JSON, неизвестные поля, офферы без заказа)
+  static getDataIssues(): DataIssue[] {
+    return this.dataIssues;
+  }
+
+  // Реестр поставщиков с последней загрузки (телефоны заполнены только для администратора)
+  static getSuppliers(): SupplierRecord[] {
+    return this.suppliers;
+  }
 
-  static isLocked() {
-    return this.isMutationLocked;
+  static isFromSnapshot(): boolean {
+    return this.fromSnapshot;
   }
 
-  static setMutationLock() {
-    this.isMutationLocked = true;
-    setTimeout(() => { this.isMutationLocked = false; }, 5000); // Auto unlock after 5s safety
+  // Ошибка бэкенда приходит как { error } с HTTP 200 — превращаем её в исключение.
+  // Отклонённый токен сбрасывает сессию роли — гард в App.tsx покажет окно входа
+  private static assertOk(response: ActionResponse, role: UserRole): ActionResponse {
+    if (response && response.error) {
+      if (response.error === AUTH_REQUIRED_ERROR) AuthService.logout(role);
+      if (response.error === VERSION_CONFLICT_ERROR) this.lastFetch = 0;
+      throw new Error(response.error);
+    }
+    if (response?.revision) this.mutationRevision = Math.max(this.mutationRevision, response.revision);
+    return response;
   }
 
   // Reliable date parser for sorting and logic
@@ -56,135 +82,439 @@ export class SheetService {
 
   static async getOrders(force = false): Promise<Order[]> {
     if (!force && this.cache.length > 0 && (Date.now() - this.lastFetch < 10000)) {
-      return this.cache;
+      return this.view();
+    }
+    // Параллельные загрузки (подписка и кнопка обновления) идут одним запросом
+    if (!this.loading) {
+      this.loading = this.load().finally(() => { this.loading = null; });
+    }
+    return this.loading;
+  }
+
+  private static async load(): Promise<Order[]> {
+    const session = AuthService.getAnySession();
+    try {
+      const backend = getBackend();
+      const [rawRows, rawSuppliers] = await Promise.all([
+        backend.getOrders(session?.token),
+        // Бэкенд без реестра не должен ломать загрузку заказов
+        backend.getSuppliers(session?.token).catch(() => [])
+      ]);
+      this.suppliers = decodeSuppliers(rawSuppliers);
+      this.rawRows = rawRows;
+      this.revision = rawRows.reduce<number>((acc, raw, index) => Math.max(acc, decodeSheetRow(raw, index).row?.version || 0), 0);
+      this.lastFetch = Date.now();
+      this.fromSnapshot = false;
+      // Снимок для запуска без сети — у каждого пользователя свой, бэкенд фильтрует строки по роли
+      if (session) writeSnapshot(this.snapshotKey(session), { rawRows, rawSuppliers }).catch(console.error);
+      return this.rebuild();
+
+    } catch (error: any) {
+      if (session && error?.message === AUTH_REQUIRED_ERROR) AuthService.logout(session.role);
+      if (this.cache.length > 0) return this.view();
+      // Бэкенд недоступен при первом открытии — показываем последний снимок; lastFetch не трогаем, следующий вызов снова пойдёт в сеть
+      const snapshot = session && error?.message !== AUTH_REQUIRED_ERROR
+        ? await readSnapshot<{ rawRows: unknown[]; rawSuppliers: unknown }>(this.snapshotKey(session)).catch(() => undefined)
+        : undefined;
+      if (!snapshot) throw error;
+      this.suppliers = decodeSuppliers(snapshot.rawSuppliers);
+      this.rawRows = snapshot.rawRows;
+      this.fromSnapshot = true;
+      return this.rebuild();
     }
+  }
+
+  private static snapshotKey(session: { role: UserRole; phone: string }) {
+    return `${session.role}:${session.phone.replace(/\D/g, '')}`;
+  }
+
+  // Сборка заказов из строк листа: офферы прикрепляются к заказам, проблемы данных копятся в dataIssues
+  private static buildOrders(rawRows: unknown[], suppliers: SupplierRecord[]): { orders: Order[]; rowsByOrder: Map<string, SheetRow[]>; issues: DataIssue[] } {
+    const supplierNames = new Map(suppliers.map(s => [s.id, s.name]));
+    const issues: DataIssue[] = [];
+
+    const ordersMap = new Map<string, Order>();
+    const rowsByOrder = new Map<string, SheetRow[]>();
+    const offersList: { row: SheetRow, items: OrderItem[] }[] = [];
+
+    rawRows.forEach((raw, index) => {
+      const decodedRow = decodeSheetRow(raw, index);
+      issues.push(...decodedRow.issues);
+      const row = decodedRow.row;
+      if (!row) return;
+
+      const decodedItems = decodeItems(row);
+      issues.push(...decodedItems.issues);
+      const parsedItems = decodedItems.items;
+
+      let clientPhone = undefined;
+      let refusalReason = undefined;
+      let rateSnapshot = undefined;
+      let cpDocuments = undefined;
+      let bidding = undefined;
+      let priceHints = undefined;
+      if (parsedItems.length > 0) {
+         const meta = parsedItems[0] as any;
+         if (meta.clientPhone) clientPhone = meta.clientPhone;
+         if (meta.refusalReason) refusalReason = meta.refusalReason;
+         if (meta.rateSnapshot) rateSnapshot = meta.rateSnapshot;
+         if (Array.isArray(meta.cpDocuments)) cpDocuments = meta.cpDocuments;
+         if (meta.bidding?.deadline) bidding = meta.bidding;
+         if (meta.priceHints === 'on' || meta.priceHints === 'off') priceHints = meta.priceHints;
+      }
 
-    const rawUrl = getApiUrl();
-    if (!rawUrl) return [];
-    const url = rawUrl.trim();
+      if (row.type === 'ORDER') {
+        const isProcessed = row.processed === 'Y';
+        const carDetails = parsedItems.length > 0 ? (parsedItems[0] as any).car : undefined;
+
+        rowsByOrder.set(String(row.id), [row]);
+        ordersMap.set(String(row.id), {
+          id: String(row.id),
+          type: RowType.ORDER,
+          vin: row.vin,
+          status: row.status as OrderStatus,
+          clientName: row.clientName,
+          clientPhone: clientPhone, 
+          refusalReason: refusalReason,
+          createdAt: row.createdAt,
+          visibleToClient: isProcessed ? 'Y' : 'N',
+          // Бэкенд без миграции отдаёт старые строки без ID — размечаем так же, как migrateItemIds
+          items: assignOrderItemIds(String(row.id), parsedItems),
+          offers: [],
+          car: carDetails,
+          isProcessed: isProcessed,
+          readyToBuy: row.readyToBuy === 'Y',
+          isRefused: row.refusal === 'Y',
+          workflowStatus: resolveWorkflowStatus(row),
+          rateSnapshot,
+          cpDocuments,
+          bidding,
+          priceHints,
+          version: row.version
+        });
+      } else if (row.type === 'OFFER') {
+        offersList.push({ row, items: parsedItems });
+      }
+    });
+
+    // Действующий оффер поставщика на заказ один (повторный ответ бэкенд записывает редакцией) — дубли остались от старых данных
+    const supplierOffers = new Set<string>();
+    offersList.forEach(({ row, items }) => {
+      const parentOrder = ordersMap.get(row.parentId);
+      // Отозванный оффер в заказ не попадает; строка остаётся в блоке, чтобы заказ пересобрался
+      if (parentOrder && row.refusal === 'Y') {
+        rowsByOrder.get(row.parentId)!.push(row);
+        return;
+      }
+      if (parentOrder && row.sellerId) {
+        const key = `${row.parentId}:${row.sellerId}`;
+        if (supplierOffers.has(key)) issues.push({ rowId: row.id, rowType: row.type, field: 'sellerId', message: `Второй оффер поставщика ${row.sellerId} на заказ ${row.parentId}` });
+        supplierOffers.add(key);
+      }
+      if (parentOrder) {
+        parentOrder.offers = parentOrder.offers || [];
+        parentOrder.offers.push({
+          id: row.id,
+          parentId: row.parentId,
+          type: RowType.OFFER,
+          vin: row.vin,
+          status: row.status as OrderStatus,
+          // Актуальное название из реестра — переименование не теряет историю
+          clientName: (row.sellerId && supplierNames.get(row.sellerId)) || row.clientName,
+          sellerId: row.sellerId,
+          createdAt: row.createdAt,
+          visibleToClient: parentOrder.isProcessed ? 'Y' : 'N',
+          items: linkOfferItems(parentOrder.items, items),
+          isProcessed: true,
+          version: row.version,
+          offerRevision: Number((items[0] as any)?.offerRevision) || 1,
+          offerHistory: Array.isArray((items[0] as any)?.offerHistory) ? (items[0] as any).offerHistory : undefined
+        });
+        rowsByOrder.get(row.parentId)!.push(row);
+      } else {
+        issues.push({ rowId: row.id, rowType: row.type, field: 'parentId', message: `Заказ ${row.parentId} не найден` });
+      }
+    });
+
+    return { orders: Array.from(ordersMap.values()), rowsByOrder, issues };
+  }
+
+  /**
+   * Пересборка кэша из строк. Заказ, строки которого не менялись, остаётся тем же объектом —
+   * черновики администратора в нём и ссылки в интерфейсе переживают обновление соседних заказов.
+   */
+  private static rebuild(): Order[] {
+    const { orders: built, rowsByOrder, issues } = this.buildOrders(this.rawRows, this.suppliers);
+    const previous = new Map(this.cache.map(o => [o.id, o]));
+    const signatures = new Map<string, string>();
+
+    const orders = built.map(order => {
+      const signature = JSON.stringify(rowsByOrder.get(order.id));
+      signatures.set(order.id, signature);
+      const prev = previous.get(order.id);
+      return prev && this.signatures.get(order.id) === signature ? prev : order;
+    });
+
+    // СОРТИРОВКА
+    orders.sort((a, b) => {
+        if (a.isProcessed && !b.isProcessed) return -1;
+        if (!a.isProcessed && b.isProcessed) return 1;
+        return this.safeParseDate(b.createdAt) - this.safeParseDate(a.createdAt);
+    });
+
+    // Оптимистичная правка снимается, как только пришла версия заказа новее той, что её породила
+    this.pending.forEach((entry, orderId) => {
+      const fresh = orders.find(o => o.id === orderId);
+      if (fresh && blockVersion(fresh) > entry.version) this.pending.delete(orderId);
+    });
 
+    this.cache = orders;
+    this.signatures = signatures;
+    this.dataIssues = issues;
+    const view = this.view();
+    this.listeners.forEach(listener => listener(view));
+    return view;
+  }
+
+  // Кэш с оптимистичными правками поверх
+  private static view(): Order[] {
+    if (this.pending.size === 0) return this.cache;
+    return this.cache.map(o => this.pending.get(o.id)?.order || o);
+  }
+
+  // Порция push-канала: строка заменяется, только если её ревизия новее той, что уже есть
+  private static applyChanges(raw: unknown) {
+    const batch = decodeChangeBatch(raw);
+    const index = new Map(this.rawRows.map((r, i) => [decodeSheetRow(r, i).row?.id, i]));
+    let changed = false;
+    batch.rows.forEach((raw, i) => {
+      const row = decodeSheetRow(raw, i).row;
+      if (!row) return;
+      const at = index.get(row.id);
+      if (at === undefined) {
+        index.set(row.id, this.rawRows.length);
+        this.rawRows = [...this.rawRows, raw];
+        changed = true;
+      } else if ((row.version || 0) > (decodeSheetRow(this.rawRows[at], at).row?.version || 0)) {
+        this.rawRows = this.rawRows.map((r, j) => j === at ? raw : r);
+        changed = true;
+      }
+    });
+    this.revision = Math.max(this.revision, batch.revision);
+    if (changed) this.rebuild();
+    this.waiters.forEach(check => check());
+  }
+
+  // Данные догоняют свой последний запрос: по push-каналу — ожидание его ревизии, без канала — перечитывание
+  private static async catchUp() {
+    if (!this.closeStream) {
+      await this.getOrders(true).catch(console.error);
+      return;
+    }
+    const target = this.mutationRevision;
+    if (this.revision >= target) return;
+    await new Promise<void>(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        this.waiters.delete(check);
+        resolve();
+      };
+      const check = () => { if (this.revision >= target) done(); };
+      const timer = setTimeout(done, CATCH_UP_TIMEOUT);
+      this.waiters.add(check);
+    });
+  }
+
+  /**
+   * Подписка на список заказов вместо таймеров в интерфейсах. Первый подписчик загружает данные
+   * и открывает push-канал бэкенда; если канала нет (Apps Script) или он оборвался — опрос раз в 20 сек.
+   * Возвращает отписку; последний отписавшийся закрывает канал.
+   */
+  static subscribe(listener: (orders: Order[]) => void): () => void {
+    this.listeners.add(listener);
+    // Действия, ушедшие из офлайн-очереди, меняют заказы — перечитываем сразу, не дожидаясь push
+    if (!this.offDelivered) this.offDelivered = Outbox.onDelivered(() => { this.getOrders(true).catch(console.error); });
+    if (this.listeners.size === 1) this.openChannel();
+    else if (this.cache.length > 0) listener(this.view());
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.closeChannel();
+    };
+  }
+
+  private static async openChannel() {
     try {
-      const response = await fetch(`${url}?action=getData&_t=${Date.now()}`, {
-        method: 'GET',
-        redirect: 'follow'
-      });
-      
-      if (!response.ok) throw new Error(`Network error: ${response.status}`);
-      
-      let rows: SheetRow[];
+      await this.getOrders(true);
+    } catch (e) {
+      console.error(e);
+    }
+    if (this.listeners.size === 0 || this.closeStream || this.pollTimer) return;
+    const session = AuthService.getAnySession();
+    this.closeStream = getBackend().subscribe(session?.token, this.revision, batch => {
       try {
-        rows = await response.json();
+        this.applyChanges(batch);
       } catch (e) {
-        throw new Error("Invalid response format from server");
+        console.error(e);
       }
-      
-      if (!Array.isArray(rows)) return [];
-
-      const ordersMap = new Map<string, Order>();
-      const offersList: { row: SheetRow, items: OrderItem[] }[] = [];
-
-      rows.forEach(row => {
-        let parsedItems: OrderItem[] = [];
-        let clientPhone = undefined;
-        let refusalReason = undefined;
-
-        try {
-          const parsed = row.json ? JSON.parse(row.json) : [];
-          parsedItems = parsed;
-          if (parsedItems.length > 0) {
-             const meta = parsedItems[0] as any;
-             if (meta.clientPhone) clientPhone = meta.clientPhone;
-             if (meta.refusalReason) refusalReason = meta.refusalReason;
-          }
-        } catch (e) {}
-
-        if (row.type === 'ORDER') {
-          const isProcessed = row.processed === 'Y';
-          const carDetails = parsedItems.length > 0 ? (parsedItems[0] as any).car : undefined;
-
-          ordersMap.set(String(row.id), {
-            id: String(row.id),
-            type: RowType.ORDER,
-            vin: row.vin,
-            status: row.status as OrderStatus,
-            clientName: row.clientName,
-            clientPhone: clientPhone, 
-            refusalReason: refusalReason,
-            createdAt: row.createdAt,
-            visibleToClient: isProcessed ? 'Y' : 'N',
-            items: parsedItems,
-            offers: [],
-            car: carDetails,
-            isProcessed: isProcessed,
-            readyToBuy: row.readyToBuy === 'Y',
-            isRefused: row.refusal === 'Y',
-            workflowStatus: row.workflowStatus as any // New Field
-          });
-        } else if (row.type === 'OFFER') {
-          offersList.push({ row: {...row, id: String(row.id), parentId: String(row.parentId)}, items: parsedItems });
-        }
-      });
-
-      offersList.forEach(({ row, items }) => {
-        const parentOrder = ordersMap.get(row.parentId);
-        if (parentOrder) {
-          parentOrder.offers = parentOrder.offers || [];
-          parentOrder.offers.push({
-            id: row.id,
-            parentId: row.parentId,
-            type: RowType.OFFER,
-            vin: row.vin,
-            status: row.status as OrderStatus,
-            clientName: row.clientName,
-            createdAt: row.createdAt,
-            visibleToClient: parentOrder.isProcessed ? 'Y' : 'N',
-            items: items,
-            isProcessed: true
-          });
-        }
-      });
-
-      const orders = Array.from(ordersMap.values());
-      
-      // СОРТИРОВКА
-      orders.sort((a, b) => {
-          if (a.isProcessed && !b.isProcessed) return -1;
-          if (!a.isProcessed && b.isProcessed) return 1;
-          return this.safeParseDate(b.createdAt) - this.safeParseDate(a.createdAt);
-      });
-
-      this.cache = orders;
-      this.lastFetch = Date.now();
-      return orders;
+    }, error => {
+      if (session && error.message === AUTH_REQUIRED_ERROR) AuthService.logout(session.role);
+      this.closeStream = null;
+      if (this.listeners.size > 0 && !this.pollTimer) {
+        this.pollTimer = setInterval(() => this.getOrders(true).catch(console.error), POLL_INTERVAL);
+      }
+    });
+  }
 
-    } catch (error) {
-      if (this.cache.length > 0) return this.cache;
-      throw error;
+  private static closeChannel() {
+    if (this.closeStream) this.closeStream();
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    if (this.offDelivered) this.offDelivered();
+    this.closeStream = null;
+    this.pollTimer = null;
+    this.offDelivered = null;
+  }
+
+  /**
+   * Оптимистичная правка заказа на время запроса: подписчики сразу видят change(order),
+   * и ни push, ни опрос не перетирают его старыми данными. Правка снимается, когда пришла версия
+   * заказа новее исходной, либо когда данные догнали завершившийся запрос (при ошибке — сразу).
+   */
+  static async withOptimistic<T>(orderId: string, change: (order: Order) => Order, request: () => Promise<T>): Promise<T> {
+    const current = this.view().find(o => o.id === orderId);
+    if (!current) return request();
+    const entry = { order: change(current), version: blockVersion(current) };
+    this.pending.set(orderId, entry);
+    this.notify();
+    try {
+      const result = await request();
+      await this.catchUp();
+      return result;
+    } finally {
+      if (this.pending.get(orderId) === entry) {
+        this.pending.delete(orderId);
+        this.notify();
+      }
     }
   }
 
-  private static async postData(payload: any): Promise<any> {
-    const rawUrl = getApiUrl();
-    if (!rawUrl) throw new Error("API URL not set");
-    const url = rawUrl.trim();
+  /**
+   * Версия, с которой уходит запись: то, что сейчас видит пользователь (кэш обновляется push-каналом).
+   * Сначала кэш догоняет собственные запросы — иначе серия правок одного заказа конфликтовала бы сама с собой.
+   * Без версий (Apps Script) — undefined, запись не проверяется.
+   */
+  private static async seenVersion(orderId: string | undefined, scope: 'row' | 'block'): Promise<number | undefined> {
+    if (this.closeStream) await this.catchUp();
+    const order = this.cache.find(o => o.id === orderId);
+    if (!order || order.version === undefined) return undefined;
+    return scope === 'block' ? blockVersion(order) : order.version;
+  }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      redirect: 'follow',
-      headers: {
-        "Content-Type": "text/plain;charset=utf-8", 
-      },
-      body: JSON.stringify(payload)
-    });
+  private static notify() {
+    const view = this.view();
+    this.listeners.forEach(listener => listener(view));
+  }
 
+  // Журнал заказа в проекции для роли (клиент не видит офферы, поставщик — чужие офферы)
+  static async getOrderEvents(orderId: string, role: UserRole): Promise<OrderEvent[]> {
+    return decodeEvents(await getBackend().getEvents(AuthService.getToken(role), orderId));
+  }
+
+  // Последние события по всем заказам — только для администратора
+  static async getRecentEvents(): Promise<OrderEvent[]> {
+    return decodeEvents(await getBackend().getEvents(AuthService.getToken('admin')));
+  }
+
+  // Таблица курсов. Бэкенд без поддержки курсов не должен ломать интерфейс — пересчёт просто не показывается
+  static async getRates(role: UserRole = 'admin'): Promise<ExchangeRate[]> {
+    try {
+      return decodeRates(await getBackend().getRates(AuthService.getToken(role)));
+    } catch (e) {
+      console.error(e);
+      return [];
+    }
+  }
+
+  static async setRates(rates: RateEntry[], source: ExchangeRate['source']): Promise<void> {
+    this.assertOk(await getBackend().setRates({
+      token: AuthService.getToken('admin'),
+      rates,
+      source
+    }), 'admin');
+  }
+
+  // Правила наценки; бэкенд без их поддержки — значения по умолчанию
+  static async getPricingRules(): Promise<PricingRules> {
     try {
-        return await response.json();
+      return decodePricingRules(await getBackend().getPricingRules(AuthService.getToken('admin')), DEFAULT_PRICING_RULES);
     } catch (e) {
-        return { status: 'ok_no_content' };
+      console.error(e);
+      return DEFAULT_PRICING_RULES;
     }
   }
 
-  static async createOrder(vin: string, items: any[], clientName: string, car: any, clientPhone?: string): Promise<string> {
+  static async setPricingRules(rules: PricingRules): Promise<void> {
+    this.assertOk(await getBackend().setPricingRules({
+      token: AuthService.getToken('admin'),
+      rules
+    }), 'admin');
+  }
+
+  // Правила автовыбора лидеров; бэкенд без их поддержки — значения по умолчанию
+  static async getAutoRankRules(): Promise<AutoRankRules> {
+    try {
+      return decodeAutoRankRules(await getBackend().getAutoRankRules(AuthService.getToken('admin')), DEFAULT_AUTO_RANK_RULES);
+    } catch (e) {
+      console.error(e);
+      return DEFAULT_AUTO_RANK_RULES;
+    }
+  }
+
+  static async setAutoRankRules(rules: AutoRankRules): Promise<void> {
+    this.assertOk(await getBackend().setAutoRankRules({
+      token: AuthService.getToken('admin'),
+      rules
+    }), 'admin');
+  }
+
+  // Правила подсказки цены; бэкенд без их поддержки — подсказки выключены
+  static async getPriceHintRules(): Promise<PriceHintRules> {
+    try {
+      return decodePriceHintRules(await getBackend().getPriceHintRules(AuthService.getToken('admin')), DEFAULT_PRICE_HINT_RULES);
+    } catch (e) {
+      console.error(e);
+      return DEFAULT_PRICE_HINT_RULES;
+    }
+  }
+
+  static async setPriceHintRules(rules: PriceHintRules): Promise<void> {
+    this.assertOk(await getBackend().setPriceHintRules({
+      token: AuthService.getToken('admin'),
+      rules
+    }), 'admin');
+  }
+
+  // Телефон для поставщика из старых офферов; реестр перечитывается со следующей загрузкой
+  static async linkSupplierPhone(supplierId: string, phone: string): Promise<void> {
+    this.assertOk(await getBackend().linkSupplierPhone({
+      token: AuthService.getToken('admin'),
+      supplierId,
+      phone
+    }), 'admin');
+    this.lastFetch = 0;
+  }
+
+  // Телефон клиента для заказа без него — после этого заказ появится у владельца номера
+  static async linkClientPhone(orderId: string, phone: string): Promise<void> {
+    this.assertOk(await getBackend().linkClientPhone({
+      token: AuthService.getToken('admin'),
+      orderId,
+      phone
+    }), 'admin');
+    this.lastFetch = 0;
+  }
+
+  // localId — временный ID заказа в списке клиента. null — сети нет, заказ в офлайн-очереди и уйдёт сам
+  static async createOrder(vin: string, items: any[], clientName: string, car: any, clientPhone?: string, localId = `temp-${Date.now()}`): Promise<string | null> {
     // ID generates on Server Side now
     const itemsWithPhone = items.map((item, idx) => {
         if (idx === 0) {
@@ -193,21 +523,20 @@ export class SheetService {
         return { ...item, car };
     });
 
-    const payload = {
-      action: 'create',
-      order: {
-        id: "PENDING", // Server will ignore this and generate new ID
-        type: 'ORDER',
-        status: 'ОТКРЫТ',
-        vin,
-        clientName,
-        createdAt: new Date().toLocaleString('ru-RU'),
-        items: itemsWithPhone,
-        visibleToClient: 'N'
-      }
+    const order: PayloadOf<'create'>['order'] = {
+      id: "PENDING", // Server will ignore this and generate new ID
+      type: 'ORDER',
+      status: 'ОТКРЫТ',
+      vin,
+      clientName,
+      createdAt: new Date().toLocaleString('ru-RU'),
+      items: itemsWithPhone,
+      visibleToClient: 'N'
     };
 
-    const response = await this.postData(payload);
+    const sent = await Outbox.submit('client', { action: 'create', order }, localId);
+    if (!sent) return null;
+    const response = this.assertOk(sent, 'client');
     this.lastFetch = 0;
     
     if (response && response.orderId) {
@@ -216,7 +545,8 @@ export class SheetService {
     throw new Error("Server did not return Order ID");
   }
 
-  static async createOffer(orderId: string, sellerName: string, items: any[], vin: string, sellerPhone?: string): Promise<void> {
+  // Номер редакции оффера (1 — первый ответ); null — сети нет, оффер в офлайн-очереди и уйдёт сам
+  static async createOffer(orderId: string, sellerName: string, items: any[], vin: string, sellerPhone?: string): Promise<number | null> {
     // ID generates on Server Side: OrderID-N
     
     // Привязываем телефон поставщика к первому элементу JSON для истории
@@ -225,81 +555,149 @@ export class SheetService {
         return item;
     });
 
-    const payload = {
-      action: 'create',
-      order: {
-        id: "PENDING", // Server will generate format: OrderID-1
-        parentId: orderId,
-        type: 'OFFER',
-        status: 'ОТКРЫТ',
-        vin,
-        clientName: sellerName,
-        createdAt: new Date().toLocaleString('ru-RU'),
-        items: itemsWithPhone,
-        visibleToClient: 'N'
-      }
+    const order: PayloadOf<'create'>['order'] = {
+      id: "PENDING", // Server will generate format: OrderID-1
+      parentId: orderId,
+      type: 'OFFER',
+      status: 'ОТКРЫТ',
+      vin,
+      clientName: sellerName,
+      createdAt: new Date().toLocaleString('ru-RU'),
+      items: itemsWithPhone,
+      visibleToClient: 'N'
     };
 
-    await this.postData(payload);
+    const sent = await Outbox.submit('supplier', { action: 'create', order }, orderId);
+    if (!sent) return null;
+    this.assertOk(sent, 'supplier');
     this.lastFetch = 0;
+    return sent.offerRevision || 1;
   }
 
-  static async updateRank(vin: string, itemName: string, offerId: string, adminPrice?: number, adminCurrency?: Currency, actionType?: 'RESET', adminComment?: string, deliveryRate?: number): Promise<void> {
-    await this.postData({
-      action: 'update_rank',
+  // Импорт CSV: заказы и офферы создаются одним запросом, бэкенд отклоняет весь пакет при любой ошибке.
+  // requestId — один на загруженный файл: повтор импорта после таймаута не создаст строки второй раз
+  static async bulkCreate(orders: PayloadOf<'bulk_create'>['orders'], requestId: string): Promise<string[]> {
+    const response = this.assertOk(await getBackend().bulkCreate({
+      token: AuthService.getToken('admin'),
+      requestId,
+      orders
+    }), 'admin');
+    this.lastFetch = 0;
+    return response.createdIds || [];
+  }
+
+  static async updateRank(vin: string, itemId: string, offerId: string, adminPrice?: number, adminCurrency?: Currency, actionType?: 'RESET', adminComment?: string, deliveryRate?: number, priceOverrideReason?: string, quantity?: number): Promise<void> {
+    const order = this.cache.find(o => o.offers?.some(off => off.id === offerId));
+    const item = order?.items.find(i => i.id === itemId);
+    this.assertOk(await getBackend().updateRank({
+      token: AuthService.getToken('admin'),
+      expectedVersion: await this.seenVersion(order?.id, 'block'),
       vin,
-      detailName: itemName,
+      itemId,
+      detailName: item ? (item.AdminName || item.name) : '',
       leadOfferId: offerId,
       adminPrice,
       adminCurrency,
       actionType, // New parameter to support unselecting leader
       adminComment, // New: Comment why not selected or additional info
-      deliveryRate // New: Selected delivery tariff
-    });
+      deliveryRate, // New: Selected delivery tariff
+      priceOverrideReason, // Причина ручной цены (если она отличается от расчётной)
+      quantity // Доля поставщика при разделении позиции; без неё лидер единственный
+    }), 'admin');
     this.lastFetch = 0;
   }
 
   static async formCP(orderId: string): Promise<void> {
-    await this.postData({
-      action: 'form_cp',
+    this.assertOk(await getBackend().formCP({
+      token: AuthService.getToken('admin'),
+      expectedVersion: await this.seenVersion(orderId, 'block'),
       orderId
-    });
+    }), 'admin');
     this.lastFetch = 0;
   }
 
-  static async confirmPurchase(orderId: string): Promise<void> {
-    await this.postData({
+  // false — сети нет, подтверждение в офлайн-очереди и уйдёт само
+  static async confirmPurchase(orderId: string): Promise<boolean> {
+    const sent = await Outbox.submit('client', {
       action: 'confirm_purchase',
+      expectedVersion: await this.seenVersion(orderId, 'row'),
       orderId
-    });
+    }, orderId);
+    if (!sent) return false;
+    this.assertOk(sent, 'client');
     this.lastFetch = 0;
+    return true;
   }
 
-  static async refuseOrder(orderId: string, reason?: string, source: 'ADMIN' | 'CLIENT' = 'ADMIN'): Promise<void> {
-    await this.postData({
-      action: 'refuse_order',
+  // Отказ клиента может уйти через офлайн-очередь (false — ждёт сети); отказ администратора — только напрямую
+  static async refuseOrder(orderId: string, reason?: string, source: 'ADMIN' | 'CLIENT' = 'ADMIN'): Promise<boolean> {
+    const payload = {
+      expectedVersion: await this.seenVersion(orderId, 'row'),
       orderId,
       reason,
       source // 'ADMIN' or 'CLIENT'
-    });
+    };
+    if (source === 'CLIENT') {
+      const sent = await Outbox.submit('client', { action: 'refuse_order', ...payload }, orderId);
+      if (!sent) return false;
+      this.assertOk(sent, 'client');
+    } else {
+      this.assertOk(await getBackend().refuseOrder({ token: AuthService.getToken('admin'), ...payload }), 'admin');
+    }
+    this.lastFetch = 0;
+    return true;
+  }
+
+  // Отзыв своего оффера поставщиком — до формирования КП
+  static async withdrawOffer(offerId: string): Promise<void> {
+    this.assertOk(await getBackend().withdrawOffer({
+      token: AuthService.getToken('supplier'),
+      offerId
+    }), 'supplier');
     this.lastFetch = 0;
   }
 
-  static async updateOrderJson(orderId: string, newItems: any[]): Promise<void> {
-    await this.postData({
-      action: 'update_json',
+  // Окно приёма офферов: hours = 0 закрывает приём сейчас, round = 2 открывает переторжку
+  static async setBiddingWindow(orderId: string, hours: number, round?: 1 | 2): Promise<void> {
+    this.assertOk(await getBackend().setBiddingWindow({
+      token: AuthService.getToken('admin'),
+      expectedVersion: await this.seenVersion(orderId, 'row'),
+      orderId,
+      hours,
+      round
+    }), 'admin');
+    this.lastFetch = 0;
+  }
+
+  // Подсказка цены на заказе: 'default' — снова по правилам
+  static async setPriceHints(orderId: string, mode: PriceHintMode | 'default'): Promise<void> {
+    this.assertOk(await getBackend().setPriceHints({
+      token: AuthService.getToken('admin'),
+      expectedVersion: await this.seenVersion(orderId, 'row'),
+      orderId,
+      mode
+    }), 'admin');
+    this.lastFetch = 0;
+  }
+
+  // expectedVersion — версия заказа на момент начала правки; без неё — та, что видна сейчас
+  static async updateOrderJson(orderId: string, newItems: any[], expectedVersion?: number): Promise<void> {
+    this.assertOk(await getBackend().updateJson({
+      token: AuthService.getToken('admin'),
+      expectedVersion: expectedVersion ?? await this.seenVersion(orderId, 'row'),
       orderId,
       items: newItems
-    });
+    }), 'admin');
     this.lastFetch = 0;
   }
 
-  static async updateWorkflowStatus(orderId: string, status: string): Promise<void> {
-    await this.postData({
-      action: 'update_workflow_status',
+  static async updateWorkflowStatus(orderId: string, status: WorkflowStatus): Promise<void> {
+    this.assertOk(await getBackend().updateWorkflowStatus({
+      token: AuthService.getToken('admin'),
+      expectedVersion: await this.seenVersion(orderId, 'row'),
       orderId,
       status
-    });
+    }), 'admin');
     this.lastFetch = 0;
   }
 }
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { SupplierRegistry } from './supplierRegistry';
+import type { SheetRow } from './contract';
+
+const offerRow = (clientName: string, sellerPhone: string, sellerId?: string): SheetRow => ({
+  id: '2', parentId: '1', type: 'OFFER', status: 'ОТКРЫТ', vin: '', clientName,
+  summary: '', json: JSON.stringify([{ name: 'Фара', quantity: 1, sellerPhone }]), rank: '', createdAt: '', processed: 'N',
+  ...(sellerId ? { sellerId } : {})
+});
+
+describe('SupplierRegistry', () => {
+  it('повторный вход с тем же телефоном — та же запись, новое название — переименование', () => {
+    const registry = new SupplierRegistry([]);
+    const first = registry.register('+7 900 222-22-22', 'ООО Запчасть');
+    const again = registry.register('7 (900) 222-22-22', 'ООО Запчасть Плюс');
+    expect(again.id).toBe(first.id);
+    expect(again.name).toBe('ООО ЗАПЧАСТЬ ПЛЮС');
+    expect(registry.list()).toHaveLength(1);
+  });
+
+  it('запись без телефона по совпадению названия не выдаётся', () => {
+    const registry = new SupplierRegistry([{ id: 'S-0001', name: 'ООО ЗАПЧАСТЬ', phone: '', createdAt: '' }]);
+    const record = registry.register('+7 900 222-22-22', 'ООО Запчасть');
+    expect(record.id).toBe('S-0002');
+    expect(registry.findById('S-0001')!.phone).toBe('');
+  });
+
+  it('linkPhone привязывает номер только к записи без телефона и только свободный', () => {
+    const registry = new SupplierRegistry([
+      { id: 'S-0001', name: 'ООО ЗАПЧАСТЬ', phone: '', createdAt: '' },
+      { id: 'S-0002', name: 'ООО МОТОР', phone: '79003333333', createdAt: '' }
+    ]);
+    expect(registry.linkPhone('S-0009', '+7 900 222-22-22')).toBe('Поставщик S-0009 не найден');
+    expect(registry.linkPhone('S-0002', '+7 900 222-22-22')).toContain('уже есть телефон');
+    expect(registry.linkPhone('S-0001', '+7 900 333-33-33')).toContain('S-0002');
+    expect(registry.linkPhone('S-0001', '+7 900 222-22-22')).toBeNull();
+    expect(registry.register('+7 900 222-22-22', '').id).toBe('S-0001');
+  });
+
+  it('migrateOffers проставляет sellerId по названию и телефону', () => {
+    const registry = new SupplierRegistry([{ id: 'S-0001', name: 'ООО ЗАПЧАСТЬ', phone: '79002222222', createdAt: '' }]);
+    const rows = [
+      offerRow('ООО Запчасть', '+7 900 222-22-22'),
+      offerRow('ООО Запчасть', ''),
+      offerRow('ООО Мотор', '', 'S-0005')
+    ];
+    expect(registry.migrateOffers(rows)).toBe(2);
+    expect(rows.map(r => r.sellerId)).toEqual(['S-0001', 'S-0002', 'S-0005']);
+  });
+});
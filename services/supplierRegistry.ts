@@ -0,0 +1,81 @@
+import type { SheetRow, SupplierRecord } from './contract';
+import { normalizePhone } from './contract';
+
+/**
+ * Реестр поставщиков: постоянный ID (S-0001) закрепляется за номером телефона.
+ * Офферы ссылаются на поставщика по sellerId, поэтому одинаковые названия компаний не конфликтуют,
+ * а смена названия не отрывает поставщика от истории.
+ */
+export class SupplierRegistry {
+  constructor(private records: SupplierRecord[]) {}
+
+  list(): SupplierRecord[] {
+    return this.records.map(r => ({ ...r }));
+  }
+
+  findById(id: string): SupplierRecord | undefined {
+    return this.records.find(r => r.id === id);
+  }
+
+  // Вход поставщика: находит запись по подтверждённому телефону или создаёт новую; новое название = переименование
+  register(phone: string, name: string): SupplierRecord {
+    const digits = normalizePhone(phone);
+    const cleanName = name.trim().toUpperCase();
+
+    // Записи миграции без телефона по названию не выдаются: его может ввести кто угодно — их привязывает администратор (linkPhone)
+    let record = this.records.find(r => r.phone === digits);
+
+    if (!record) {
+      record = { id: this.nextId(), name: cleanName, phone: digits, createdAt: new Date().toISOString() };
+      this.records.push(record);
+    }
+    record.phone = digits;
+    if (cleanName) record.name = cleanName;
+    return record;
+  }
+
+  // Привязка телефона к записи без телефона (офферы до реестра). Ошибка — текст для ответа бэкенда
+  linkPhone(id: string, phone: string): string | null {
+    const digits = normalizePhone(phone);
+    const record = this.findById(id);
+    if (!record) return `Поставщик ${id} не найден`;
+    if (record.phone) return `У поставщика ${id} уже есть телефон`;
+    const owner = this.records.find(r => r.phone === digits);
+    if (owner) return `Телефон уже закреплён за поставщиком ${owner.id}`;
+    record.phone = digits;
+    return null;
+  }
+
+  /**
+   * Проставляет sellerId офферам, созданным до появления реестра.
+   * Поставщик определяется по паре название + телефон (sellerPhone в первой позиции JSON).
+   * Возвращает число обновлённых строк.
+   */
+  migrateOffers(rows: SheetRow[]): number {
+    let migrated = 0;
+    rows.forEach(row => {
+      if (row.type !== 'OFFER' || row.sellerId) return;
+
+      let phone = '';
+      try {
+        const items = JSON.parse(row.json || '[]');
+        if (Array.isArray(items) && items[0]) phone = normalizePhone(items[0].sellerPhone || '');
+      } catch (e) {}
+      const name = String(row.clientName || '').trim().toUpperCase();
+
+      let record = this.records.find(r => r.name === name && r.phone === phone);
+      if (!record) {
+        record = { id: this.nextId(), name, phone, createdAt: new Date().toISOString() };
+        this.records.push(record);
+      }
+      row.sellerId = record.id;
+      migrated++;
+    });
+    return migrated;
+  }
+
+  private nextId(): string {
+    const max = this.records.reduce((acc, r) => Math.max(acc, parseInt(r.id.replace(/\D/g, '')) || 0), 0);
+    return `S-${String(max + 1).padStart(4, '0')}`;
+  }
+}
@@ -0,0 +1,39 @@
+import { LocalStore, createLocalStoreState, DEFAULT_ADMIN_PHONES } from './localStore';
+import type { CodeSender } from './codeSender';
+import type { ActionResponse } from './contract';
+import type { UserRole } from '../types';
+
+/**
+ * Стенд для тестов: LocalStore в памяти и вход по коду без консоли.
+ * Код приходит в ответе auth_request_code (devCode), как у локальной заглушки.
+ */
+
+export const ADMIN_PHONE = DEFAULT_ADMIN_PHONES[0];
+
+const silentSender: CodeSender = { channel: 'fake', send: async () => {} };
+
+export const createTestStore = () => new LocalStore(createLocalStoreState(), { sender: silentSender });
+
+export async function signIn(store: LocalStore, phone: string, role: UserRole, name = ''): Promise<string> {
+  const requested = await store.handle({ action: 'auth_request_code', phone, role });
+  if (!requested.devCode) throw new Error(requested.error || 'Код не выдан');
+  const verified = await store.handle({ action: 'auth_verify_code', phone, role, code: requested.devCode, name });
+  if (!verified.token) throw new Error(verified.error || 'Токен не выдан');
+  return verified.token;
+}
+
+let requestSeq = 0;
+
+// Заказ клиента с одной позицией; ответ create — orderId
+export const createOrder = (store: LocalStore, token: string, items: any[] = [{ name: 'Фара', quantity: 1, category: 'Оригинал' }]): Promise<ActionResponse> =>
+  store.handle({
+    action: 'create', token, requestId: `order-${++requestSeq}`,
+    order: { id: '', type: 'ORDER', status: 'Новый', vin: 'VIN0000000000001', clientName: '-', createdAt: '', items, visibleToClient: 'Y' }
+  });
+
+// Оффер поставщика; позиции привязываются к позициям заказа по названию
+export const createOffer = (store: LocalStore, token: string, parentId: string, items: any[]): Promise<ActionResponse> =>
+  store.handle({
+    action: 'create', token, requestId: `offer-${++requestSeq}`,
+    order: { id: '', parentId, type: 'OFFER', status: 'Новый', vin: '', clientName: '-', createdAt: '', items, visibleToClient: 'N' }
+  });
@@ -0,0 +1,301 @@
+import type { CarDetails } from '../types';
+import { normalizeCar } from './carCatalogue';
+
+/**
+ * Офлайн-расшифровка VIN (ISO 3779): производитель по WMI, модельный год по 10-му символу,
+ * контрольная цифра (обязательна для Северной Америки) и модель по VDS для части популярных марок.
+ * Номер кузова японских авто (GRX130-6012345) — не VIN: расшифровке не подлежит, ошибкой не считается.
+ */
+
+export interface VinDecoded {
+  vin: string;                      // без пробелов и дефисов, в верхнем регистре
+  kind: 'vin' | 'frame' | 'invalid';
+  errors: string[];                 // VIN с ошибкой — подсказка клиенту, отправку не блокирует
+  warnings: string[];
+  region?: string;
+  manufacturer?: string;
+  brands: string[];                 // марки из списка формы, которые выпускает этот завод
+  yearCandidates: number[];         // 10-й символ повторяется раз в 30 лет — свежий год первым
+  details: Partial<CarDetails>;     // что удалось определить по VDS
+}
+
+const VIN_CHARS = /^[A-HJ-NPR-Z0-9]{17}$/;
+const FRAME_PATTERN = /^[A-Z]{1,5}\d{1,4}[A-Z]?-\d{5,8}$/; // GRX130-6012345, GD1-1234567
+
+// Европейские заводы Mercedes-Benz не кодируют модельный год в 10-м символе
+const NO_YEAR_WMI = ['WDB', 'WDD', 'WDC', 'W1K', 'W1N'];
+
+// Марки — в написании справочника constants/cars.ts
+const WMI: Record<string, { manufacturer: string; brands: string[] }> = {
+  XTA: { manufacturer: 'АвтоВАЗ', brands: ['Lada (ВАЗ)'] },
+  X9L: { manufacturer: 'GM-АвтоВАЗ', brands: ['Chevrolet'] },
+  WAU: { manufacturer: 'Audi AG', brands: ['Audi'] },
+  WA1: { manufacturer: 'Audi AG (SUV)', brands: ['Audi'] },
+  TRU: { manufacturer: 'Audi Hungaria', brands: ['Audi'] },
+  WBA: { manufacturer: 'BMW AG', brands: ['BMW'] },
+  WBS: { manufacturer: 'BMW M GmbH', brands: ['BMW'] },
+  WBX: { manufacturer: 'BMW AG (X)', brands: ['BMW'] },
+  '5UX': { manufacturer: 'BMW US (X)', brands: ['BMW'] },
+  X4X: { manufacturer: 'Автотор (BMW)', brands: ['BMW'] },
+  LS5: { manufacturer: 'Chongqing Changan', brands: ['Changan'] },
+  LVV: { manufacturer: 'Chery Automobile', brands: ['Chery', 'Omoda', 'Jaecoo', 'JETOUR', 'TENET'] },
+  LVT: { manufacturer: 'Chery Automobile', brands: ['Chery', 'Omoda', 'Jaecoo', 'JETOUR', 'TENET'] },
+  '1G1': { manufacturer: 'General Motors', brands: ['Chevrolet'] },
+  '1GN': { manufacturer: 'General Motors (SUV)', brands: ['Chevrolet'] },
+  KL1: { manufacturer: 'GM Korea', brands: ['Chevrolet', 'Daewoo'] },
+  KLA: { manufacturer: 'Daewoo Motor', brands: ['Daewoo', 'Chevrolet'] },
+  XWB: { manufacturer: 'UzDaewoo', brands: ['Daewoo', 'Chevrolet'] },
+  WF0: { manufacturer: 'Ford Germany', brands: ['Ford'] },
+  '1FA': { manufacturer: 'Ford USA', brands: ['Ford'] },
+  '1FM': { manufacturer: 'Ford USA (SUV)', brands: ['Ford'] },
+  X9F: { manufacturer: 'Ford Sollers', brands: ['Ford'] },
+  L6T: { manufacturer: 'Geely Automobile', brands: ['Geely'] },
+  Y4K: { manufacturer: 'БелДжи', brands: ['Geely'] },
+  LGW: { manufacturer: 'Great Wall Motor', brands: ['Haval'] },
+  JHM: { manufacturer: 'Honda Japan', brands: ['Honda'] },
+  SHH: { manufacturer: 'Honda UK', brands: ['Honda'] },
+  '1HG': { manufacturer: 'Honda USA', brands: ['Honda'] },
+  '5FN': { manufacturer: 'Honda USA (SUV)', brands: ['Honda'] },
+  KMH: { manufacturer: 'Hyundai Motor', brands: ['Hyundai'] },
+  TMA: { manufacturer: 'Hyundai Czech', brands: ['Hyundai'] },
+  '5NP': { manufacturer: 'Hyundai USA', brands: ['Hyundai'] },
+  Z94: { manufacturer: 'Hyundai Motor Manufacturing Rus', brands: ['Hyundai', 'Kia'] },
+  KNA: { manufacturer: 'Kia Motors', brands: ['Kia'] },
+  KND: { manufacturer: 'Kia Motors (SUV)', brands: ['Kia'] },
+  U5Y: { manufacturer: 'Kia Slovakia', brands: ['Kia'] },
+  XWE: { manufacturer: 'Автотор (Kia)', brands: ['Kia'] },
+  SAL: { manufacturer: 'Land Rover', brands: ['Land Rover'] },
+  JTH: { manufacturer: 'Lexus', brands: ['Lexus'] },
+  JTJ: { manufacturer: 'Lexus (SUV)', brands: ['Lexus'] },
+  '2T2': { manufacturer: 'Lexus Canada', brands: ['Lexus'] },
+  JM1: { manufacturer: 'Mazda Japan', brands: ['Mazda'] },
+  JMZ: { manufacturer: 'Mazda Europe', brands: ['Mazda'] },
+  WDB: { manufacturer: 'Mercedes-Benz', brands: ['Mercedes-Benz'] },
+  WDD: { manufacturer: 'Mercedes-Benz', brands: ['Mercedes-Benz'] },
+  WDC: { manufacturer: 'Mercedes-Benz (SUV)', brands: ['Mercedes-Benz'] },
+  W1K: { manufacturer: 'Mercedes-Benz', brands: ['Mercedes-Benz'] },
+  W1N: { manufacturer: 'Mercedes-Benz (SUV)', brands: ['Mercedes-Benz'] },
+  '4JG': { manufacturer: 'Mercedes-Benz USA', brands: ['Mercedes-Benz'] },
+  JMB: { manufacturer: 'Mitsubishi Japan', brands: ['Mitsubishi'] },
+  JA4: { manufacturer: 'Mitsubishi Japan (SUV)', brands: ['Mitsubishi'] },
+  Z8T: { manufacturer: 'ПСМА Рус (Mitsubishi)', brands: ['Mitsubishi', 'Peugeot'] },
+  JN1: { manufacturer: 'Nissan Japan', brands: ['Nissan'] },
+  JN8: { manufacturer: 'Nissan Japan (SUV)', brands: ['Nissan'] },
+  SJN: { manufacturer: 'Nissan UK', brands: ['Nissan'] },
+  Z8N: { manufacturer: 'Ниссан Мэнуфэкчуринг Рус', brands: ['Nissan'] },
+  '1N4': { manufacturer: 'Nissan USA', brands: ['Nissan'] },
+  W0L: { manufacturer: 'Opel', brands: ['Opel'] },
+  W0V: { manufacturer: 'Opel', brands: ['Opel'] },
+  VF3: { manufacturer: 'Peugeot', brands: ['Peugeot'] },
+  VR3: { manufacturer: 'Peugeot', brands: ['Peugeot'] },
+  VF1: { manufacturer: 'Renault', brands: ['Renault'] },
+  X7L: { manufacturer: 'Рено Россия', brands: ['Renault'] },
+  TMB: { manufacturer: 'Škoda Auto', brands: ['Skoda'] },
+  JF1: { manufacturer: 'Subaru', brands: ['Subaru'] },
+  JF2: { manufacturer: 'Subaru (SUV)', brands: ['Subaru'] },
+  '4S4': { manufacturer: 'Subaru USA', brands: ['Subaru'] },
+  JTD: { manufacturer: 'Toyota Japan', brands: ['Toyota'] },
+  JTE: { manufacturer: 'Toyota Japan (SUV)', brands: ['Toyota'] },
+  JTM: { manufacturer: 'Toyota Japan (SUV)', brands: ['Toyota'] },
+  JTN: { manufacturer: 'Toyota Japan', brands: ['Toyota'] },
+  '4T1': { manufacturer: 'Toyota USA', brands: ['Toyota'] },
+  '5TD': { manufacturer: 'Toyota USA (SUV)', brands: ['Toyota'] },
+  XW7: { manufacturer: 'Тойота Мотор Мануфэкчуринг Россия', brands: ['Toyota'] },
+  SB1: { manufacturer: 'Toyota UK', brands: ['Toyota'] },
+  NMT: { manufacturer: 'Toyota Turkey', brands: ['Toyota'] },
+  WVW: { manufacturer: 'Volkswagen AG', brands: ['Volkswagen'] },
+  WVG: { manufacturer: 'Volkswagen AG (SUV)', brands: ['Volkswagen'] },
+  WV1: { manufacturer: 'Volkswagen Commercial', brands: ['Volkswagen'] },
+  WV2: { manufacturer: 'Volkswagen Commercial', brands: ['Volkswagen'] },
+  '3VW': { manufacturer: 'Volkswagen Mexico', brands: ['Volkswagen'] },
+  XW8: { manufacturer: 'Фольксваген Груп Рус', brands: ['Volkswagen', 'Skoda', 'Audi'] }
+};
+
+// Если трёхсимвольного WMI нет в таблице — производитель по первым двум символам
+const WMI_PREFIX: Record<string, { manufacturer: string; brands: string[] }> = {
+  JT: { manufacturer: 'Toyota', brands: ['Toyota', 'Lexus'] },
+  KM: { manufacturer: 'Hyundai', brands: ['Hyundai'] },
+  KN: { manufacturer: 'Kia', brands: ['Kia'] }
+};
+
+const regionOf = (ch: string): string | undefined => {
+  if (/[A-H]/.test(ch)) return 'Африка';
+  if (/[J-R]/.test(ch)) return 'Азия';
+  if (/[S-Z]/.test(ch)) return 'Европа';
+  if (/[1-5]/.test(ch)) return 'Северная Америка';
+  if (/[6-7]/.test(ch)) return 'Океания';
+  if (/[8-9]/.test(ch)) return 'Южная Америка';
+  return undefined;
+};
+
+const isNorthAmerican = (vin: string) => /^[1-5]/.test(vin);
+
+// --- Модельный год ---
+
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789'; // 1980 (A) … 2009 (9), затем цикл с 2010
+
+export const vinYearCode = (year: number): string => YEAR_CODES[((year - 1980) % 30 + 30) % 30];
+
+const yearCandidates = (vin: string, now: Date): number[] => {
+  const index = YEAR_CODES.indexOf(vin[9]);
+  if (index === -1) return [];
+  const maxYear = now.getFullYear() + 1; // модельный год опережает календарный
+  // В Северной Америке буква на 7-й позиции означает цикл 2010–2039, цифра — 1980–2009
+  if (isNorthAmerican(vin)) {
+    const year = 1980 + index + (/[A-Z]/.test(vin[6]) ? 30 : 0);
+    return year <= maxYear ? [year] : [];
+  }
+  const years: number[] = [];
+  for (let year = 1980 + index; year <= maxYear; year += 30) years.unshift(year);
+  return years;
+};
+
+// --- Контрольная цифра ---
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8, J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9
+};
+const WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+export const vinCheckDigit = (vin: string): string => {
+  const sum = vin.split('').reduce((acc, ch, i) => acc + (/\d/.test(ch) ? Number(ch) : TRANSLITERATION[ch] || 0) * WEIGHTS[i], 0);
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : String(remainder);
+};
+
+// --- VDS: модель по описательной части ---
+
+// Группа VAG: позиции 7–8 — код платформы (WVWZZZ1KZ… → Golf V); на заводе в Калуге (XW8) собирают несколько марок
+const vag = (brand: string, models: Record<string, string>) =>
+  Object.fromEntries(Object.entries(models).map(([code, model]) => [code, { brand, model }]));
+const VAG_MODELS: Record<string, { brand: string; model: string }> = {
+  ...vag('Volkswagen', {
+    '1K': 'Golf V / Jetta', '5K': 'Golf VI', AU: 'Golf VII', CD: 'Golf VIII', '3C': 'Passat B6/B7', '3G': 'Passat B8',
+    '5N': 'Tiguan I', AD: 'Tiguan II', '7L': 'Touareg I', '7P': 'Touareg II', CR: 'Touareg III', '6R': 'Polo V', '2K': 'Caddy'
+  }),
+  ...vag('Skoda', {
+    '1Z': 'Octavia A5', '5E': 'Octavia A7', NX: 'Octavia A8', '3T': 'Superb II', '3V': 'Superb III', '5L': 'Yeti',
+    NS: 'Kodiaq', NU: 'Karoq', NH: 'Rapid', '5J': 'Fabia II', NJ: 'Fabia III'
+  }),
+  ...vag('Audi', {
+    '8E': 'A4 B6/B7', '8K': 'A4 B8', '8W': 'A4 B9', '4F': 'A6 C6', '4G': 'A6 C7', '4A': 'A6 C8', '8P': 'A3 8P', '8V': 'A3 8V',
+    '4L': 'Q7 I', '4M': 'Q7 II', '8R': 'Q5 I', FY: 'Q5 II', '8U': 'Q3 I', F3: 'Q3 II'
+  })
+};
+
+// Mercedes-Benz: позиции 4–6 — кузов (WDD213… → W213)
+const MERCEDES_MODELS: Record<string, string> = {
+  '203': 'C-Class W203', '204': 'C-Class W204 / GLK X204', '205': 'C-Class W205', '206': 'C-Class W206',
+  '211': 'E-Class W211', '212': 'E-Class W212', '213': 'E-Class W213', '214': 'E-Class W214',
+  '220': 'S-Class W220', '221': 'S-Class W221', '222': 'S-Class W222', '223': 'S-Class W223',
+  '164': 'ML W164', '166': 'ML/GLE W166', '167': 'GLE W167', '463': 'G-Class W463', '156': 'GLA X156',
+  '253': 'GLC X253', '254': 'GLC X254', '247': 'GLA/GLB H247', '177': 'A-Class W177', '176': 'A-Class W176'
+};
+
+// Lada: позиции 4–7 — модель (XTA2190… → Granta)
+const LADA_MODELS: Record<string, Partial<CarDetails>> = {
+  '2190': { model: 'Granta', bodyType: 'Седан' }, '2191': { model: 'Granta', bodyType: 'Лифтбек' },
+  '2192': { model: 'Granta', bodyType: 'Хэтчбек' }, '2194': { model: 'Granta', bodyType: 'Универсал' },
+  '2170': { model: 'Priora', bodyType: 'Седан' }, '2171': { model: 'Priora', bodyType: 'Универсал' },
+  '2172': { model: 'Priora', bodyType: 'Хэтчбек' }, '2180': { model: 'Vesta', bodyType: 'Седан' },
+  GFL0: { model: 'Vesta', bodyType: 'Седан' }, GFK1: { model: 'Vesta SW', bodyType: 'Универсал' },
+  GAB1: { model: 'XRAY', bodyType: 'Хэтчбек' }, KS01: { model: 'Largus', bodyType: 'Универсал' },
+  '2121': { model: 'Niva Legend', bodyType: 'Внедорожник' }, '2131': { model: 'Niva Legend 5 дв.', bodyType: 'Внедорожник' }
+};
+
+// Renault: позиции 4–5 — модель (X7LLSR… → Logan)
+const RENAULT_MODELS: Record<string, string> = { LS: 'Logan', BS: 'Sandero', HS: 'Duster', HM: 'Duster II', AS: 'Kaptur' };
+
+const decodeVds = (vin: string, wmi: string): Partial<CarDetails> => {
+  if (['WVW', 'WVG', 'WV1', 'WV2', 'TMB', 'WAU', 'WA1', 'TRU', 'XW8'].includes(wmi)) {
+    return VAG_MODELS[vin.slice(6, 8)] || {};
+  }
+  if (['WDB', 'WDD', 'WDC', 'W1K', 'W1N', '4JG'].includes(wmi)) {
+    const model = MERCEDES_MODELS[vin.slice(3, 6)];
+    return model ? { model } : {};
+  }
+  if (wmi === 'XTA') return LADA_MODELS[vin.slice(3, 7)] || {};
+  if (wmi === 'VF1' || wmi === 'X7L') {
+    const model = RENAULT_MODELS[vin.slice(3, 5)];
+    return model ? { model } : {};
+  }
+  return {};
+};
+
+export const normalizeVin = (raw: string) => String(raw || '').toUpperCase().replace(/[\s-]/g, '');
+
+export const decodeVin = (raw: string, now = new Date()): VinDecoded => {
+  const vin = normalizeVin(raw);
+  const result: VinDecoded = { vin, kind: 'invalid', errors: [], warnings: [], brands: [], yearCandidates: [], details: {} };
+
+  if (vin.length !== 17) {
+    if (FRAME_PATTERN.test(String(raw || '').toUpperCase().trim())) {
+      result.kind = 'frame';
+      result.warnings.push('Похоже на номер кузова, а не VIN — марку и модель укажите вручную');
+    } else {
+      result.errors.push(`VIN должен содержать 17 символов, сейчас ${vin.length}. Номер кузова вводите через дефис: GRX130-6012345`);
+    }
+    return result;
+  }
+  if (!VIN_CHARS.test(vin)) {
+    result.errors.push(/[IOQ]/.test(vin) ? 'Буквы I, O и Q в VIN не используются — проверьте 1/0' : 'VIN содержит недопустимые символы');
+    return result;
+  }
+
+  result.kind = 'vin';
+  const wmi = vin.slice(0, 3);
+  const maker = WMI[wmi] || WMI_PREFIX[vin.slice(0, 2)];
+  result.region = regionOf(vin[0]);
+  if (maker) {
+    result.manufacturer = maker.manufacturer;
+    result.brands = maker.brands;
+  }
+
+  const checkDigit = vinCheckDigit(vin);
+  if (isNorthAmerican(vin) && vin[8] !== checkDigit) {
+    result.errors.push(`Контрольная цифра не совпадает (9-й символ ${vin[8]}, ожидается ${checkDigit}) — VIN введён с ошибкой`);
+  }
+
+  result.yearCandidates = NO_YEAR_WMI.includes(wmi) ? [] : yearCandidates(vin, now);
+  if (!NO_YEAR_WMI.includes(wmi) && (vin[9] === '0' || (YEAR_CODES.indexOf(vin[9]) !== -1 && result.yearCandidates.length === 0))) {
+    result.warnings.push(`10-й символ «${vin[9]}» не соответствует модельному году`);
+  }
+
+  result.details = decodeVds(vin, wmi);
+  if (result.details.brand) result.brands = [result.details.brand, ...result.brands.filter(b => b !== result.details.brand)];
+  return result;
+};
+
+// Расхождение VIN и выбранной марки; null — совпадает или марку по VIN определить нельзя
+export const brandMismatch = (decoded: VinDecoded, brand: string): string | null => {
+  if (decoded.kind !== 'vin' || decoded.brands.length === 0 || !brand) return null;
+  if (decoded.brands.some(b => b.toLowerCase() === brand.trim().toLowerCase())) return null;
+  const brands = decoded.brands.join(' / ');
+  const maker = decoded.manufacturer && decoded.manufacturer !== brands ? ` (${decoded.manufacturer})` : '';
+  return `По VIN это ${brands}${maker}, а выбрана марка ${brand}`;
+};
+
+// Все расхождения VIN с данными формы: марка и модельный год
+export const vinMismatches = (decoded: VinDecoded, car: CarDetails): string[] => {
+  const issues: string[] = [];
+  const brand = brandMismatch(decoded, car.brand || '');
+  if (brand) issues.push(brand);
+  const year = parseInt(car.year);
+  if (decoded.kind === 'vin' && !isNaN(year) && decoded.yearCandidates.length > 0 && !decoded.yearCandidates.includes(year)) {
+    issues.push(`По VIN модельный год ${decoded.yearCandidates.join(' или ')}, указан ${car.year}`);
+  }
+  return issues;
+};
+
+// Заполняет только пустые поля — то, что клиент ввёл сам, не перезаписывается
+export const fillCarFromVin = <T extends CarDetails>(car: T, decoded: VinDecoded): T => {
+  if (decoded.kind !== 'vin') return car;
+  const next = { ...car };
+  if (!next.brand && decoded.brands.length > 0) next.brand = decoded.brands[0];
+  if (!next.model && decoded.details.model) next.model = decoded.details.model;
+  if (!next.bodyType && decoded.details.bodyType) next.bodyType = decoded.details.bodyType;
+  if (!next.year && decoded.yearCandidates.length > 0) next.year = String(decoded.yearCandidates[0]);
+  // «Golf VII», «E-Class W213» из VDS → модель и поколение справочника
+  return normalizeCar(next);
+};
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { WORKFLOW_STATUSES, canTransition, checkTransition, resolveWorkflowStatus } from './workflow';
+import type { WorkflowStatus } from '../types';
+
+const statusesWhere = (test: (from: WorkflowStatus) => boolean) => WORKFLOW_STATUSES.filter(test);
+
+describe('машина состояний заказа', () => {
+  it('администратор аннулирует заказ на любом статусе до отправки товара', () => {
+    expect(statusesWhere(from => canTransition(from, 'Аннулирован', 'admin')))
+      .toEqual(['В обработке', 'КП отправлено', 'Готов купить', 'Подтверждение от поставщика', 'Ожидает оплаты']);
+    expect(canTransition('Ожидает оплаты', 'Аннулирован', 'client')).toBe(false);
+  });
+
+  it('клиент отказывается только до подтверждения покупки', () => {
+    expect(statusesWhere(from => canTransition(from, 'Отказ', 'client'))).toEqual(['В обработке', 'КП отправлено']);
+  });
+
+  it('КП без единого лидера не отправляется', () => {
+    const ctx = { items: [{ id: '1-1', name: 'Фара' }], offers: [{ items: [{ id: '1-1', rank: 'РЕЗЕРВ' }] }] };
+    expect(checkTransition('В обработке', 'КП отправлено', 'admin', ctx)).toBeTruthy();
+    ctx.offers[0].items[0].rank = 'ЛИДЕР';
+    expect(checkTransition('В обработке', 'КП отправлено', 'admin', ctx)).toBeNull();
+  });
+
+  it('старые строки без колонки восстанавливаются по флагам', () => {
+    expect(resolveWorkflowStatus({ refusal: 'Y', processed: 'Y' })).toBe('Аннулирован');
+    expect(resolveWorkflowStatus({ workflowStatus: 'КП готово' })).toBe('КП отправлено');
+  });
+});
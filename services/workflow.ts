@@ -0,0 +1,126 @@
+import type { WorkflowStatus, UserRole } from '../types';
+import type { SheetRow } from './contract';
+
+/**
+ * Машина состояний заказа (колонка workflowStatus).
+ * Один модуль для UI и бэкенда: интерфейс предлагает только допустимые переходы,
+ * LocalStore отклоняет остальные и сам выставляет флаги processed / readyToBuy / refusal.
+ */
+
+export const WORKFLOW_STATUSES: WorkflowStatus[] = [
+  'В обработке',
+  'КП отправлено',
+  'Готов купить',
+  'Подтверждение от поставщика',
+  'Ожидает оплаты',
+  'В пути',
+  'Выполнен',
+  'Аннулирован',
+  'Отказ'
+];
+
+// Допустимые переходы. Назад не ходим: флаги только накапливаются и не расходятся со статусом.
+// Аннулировать можно, пока товар не отправлен (до «В пути»); отказаться клиент может до подтверждения покупки
+export const WORKFLOW_TRANSITIONS: Record<WorkflowStatus, WorkflowStatus[]> = {
+  'В обработке': ['КП отправлено', 'Аннулирован', 'Отказ'],
+  'КП отправлено': ['Готов купить', 'Аннулирован', 'Отказ'],
+  'Готов купить': ['Подтверждение от поставщика', 'Аннулирован'],
+  'Подтверждение от поставщика': ['Ожидает оплаты', 'Аннулирован'],
+  'Ожидает оплаты': ['В пути', 'Аннулирован'],
+  'В пути': ['Выполнен'],
+  'Выполнен': [],
+  'Аннулирован': [],
+  'Отказ': []
+};
+
+// Кто может перевести заказ в состояние
+const ENTRY_ROLES: Record<WorkflowStatus, UserRole[]> = {
+  'В обработке': [],
+  'КП отправлено': ['admin'],
+  'Готов купить': ['client', 'admin'], // админ — если клиент подтвердил по телефону
+  'Подтверждение от поставщика': ['admin'],
+  'Ожидает оплаты': ['admin'],
+  'В пути': ['admin'],
+  'Выполнен': ['admin'],
+  'Аннулирован': ['admin'],
+  'Отказ': ['client']
+};
+
+export type WorkflowFlags = Partial<Pick<SheetRow, 'processed' | 'readyToBuy' | 'refusal' | 'status'>>;
+
+// Побочные эффекты: колонки строки заказа, которые выставляются при входе в состояние (как в doPost GAS)
+export const WORKFLOW_EFFECTS: Record<WorkflowStatus, WorkflowFlags> = {
+  'В обработке': {},
+  'КП отправлено': { processed: 'Y' },
+  'Готов купить': { readyToBuy: 'Y' },
+  'Подтверждение от поставщика': {},
+  'Ожидает оплаты': {},
+  'В пути': {},
+  'Выполнен': { status: 'ЗАКРЫТ' },
+  'Аннулирован': { refusal: 'Y', status: 'ЗАКРЫТ' },
+  'Отказ': { refusal: 'Y', status: 'ЗАКРЫТ' }
+};
+
+// Позиции заказа и офферов — всё, что нужно условиям переходов
+export interface WorkflowContext {
+  items: { id: string; name: string; AdminName?: string }[];
+  offers: { items: { id: string; rank?: string }[] }[];
+}
+
+// Позиции заказа (названия для показа), для которых ни в одном оффере не выбран лидер; сопоставление — по ID позиции
+export const findItemsWithoutLeader = (ctx: WorkflowContext): string[] => {
+  const covered = new Set<string>();
+  ctx.offers.forEach(off => off.items.forEach(i => {
+    if ((i.rank === 'ЛИДЕР' || i.rank === 'LEADER') && i.id) covered.add(String(i.id));
+  }));
+  return ctx.items
+    .filter(i => !i.id || !covered.has(String(i.id)))
+    .map(i => i.AdminName || i.name);
+};
+
+// Условия входа в состояние сверх графа переходов; возвращают текст ошибки.
+// Неполное КП допустимо (админка предупреждает о позициях без лидера), пустое — нет
+const GUARDS: Partial<Record<WorkflowStatus, (ctx: WorkflowContext) => string | null>> = {
+  'КП отправлено': ctx =>
+    ctx.items.length > 0 && findItemsWithoutLeader(ctx).length === ctx.items.length ? 'Не выбран лидер ни по одной позиции' : null
+};
+
+// Значения, которые встречаются в старых строках листа
+const LEGACY_STATUSES: Record<string, WorkflowStatus> = { 'КП готово': 'КП отправлено' };
+
+export const isWorkflowStatus = (value: unknown): value is WorkflowStatus =>
+  WORKFLOW_STATUSES.includes(value as WorkflowStatus);
+
+/**
+ * Текущее состояние строки заказа. Пустой или неизвестный workflowStatus (строки до появления колонки)
+ * восстанавливается по флагам.
+ */
+export const resolveWorkflowStatus = (row: { workflowStatus?: string; processed?: string; readyToBuy?: string; refusal?: string }): WorkflowStatus => {
+  const raw = String(row.workflowStatus || '').trim();
+  if (isWorkflowStatus(raw)) return raw;
+  if (LEGACY_STATUSES[raw]) return LEGACY_STATUSES[raw];
+  if (row.refusal === 'Y') return 'Аннулирован';
+  if (row.readyToBuy === 'Y') return 'Готов купить';
+  if (row.processed === 'Y') return 'КП отправлено';
+  return 'В обработке';
+};
+
+// Лидеров и цены можно менять до подтверждения покупки клиентом; после отправки КП — с переформированием
+export const isCpEditable = (status: WorkflowStatus): boolean =>
+  status === 'В обработке' || status === 'КП отправлено';
+
+// Переход разрешён графом и ролью (без условий, зависящих от позиций)
+export const canTransition = (from: WorkflowStatus, to: WorkflowStatus, role: UserRole): boolean =>
+  WORKFLOW_TRANSITIONS[from].includes(to) && ENTRY_ROLES[to].includes(role);
+
+export const nextStatuses = (from: WorkflowStatus, role: UserRole): WorkflowStatus[] =>
+  WORKFLOW_TRANSITIONS[from].filter(to => ENTRY_ROLES[to].includes(role));
+
+// Полная проверка перехода; null — переход допустим
+export const checkTransition = (from: WorkflowStatus, to: WorkflowStatus, role: UserRole, ctx: WorkflowContext): string | null => {
+  if (from === to) return `Заказ уже в статусе «${to}»`;
+  if (!WORKFLOW_TRANSITIONS[from].includes(to)) return `Переход «${from}» → «${to}» недопустим`;
+  if (!ENTRY_ROLES[to].includes(role)) return `Недостаточно прав для перевода заказа в статус «${to}»`;
+  const guard = GUARDS[to];
+  return guard ? guard(ctx) : null;
+};
@@ -0,0 +1,202 @@
+/**
+ * Минимальный писатель и читатель XLSX без зависимостей: книга из нескольких листов, строки и числа.
+ * XLSX — zip с XML-частями; при записи сжатие не используется (метод store), поэтому хватает CRC32 и заголовков zip.
+ * При чтении deflate распаковывает браузерный DecompressionStream.
+ */
+
+export type CellValue = string | number | null | undefined;
+
+export interface Sheet {
+  name: string;
+  rows: CellValue[][]; // первая строка — заголовки
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Архив без сжатия; имена файлов в UTF-8 (флаг 0x0800)
+const zip = (files: { name: string; data: Uint8Array }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, file.data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, file.data.length, true);
+    entry.setUint32(24, file.data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + file.data.length;
+  });
+
+  const centralSize = central.reduce((acc, c) => acc + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const result = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let pos = 0;
+  parts.forEach(p => { result.set(p, pos); pos += p.length; });
+  return result;
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  // Управляющие символы недопустимы в XML
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+// Excel ограничивает имя листа 31 символом и запрещает []:*?/\
+const sheetName = (name: string, idx: number) => (name.replace(/[\[\]:*?/\\]/g, ' ').trim() || `Лист${idx + 1}`).slice(0, 31);
+
+const sheetXml = (sheet: Sheet): string => {
+  const rows = sheet.rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      if (value === null || value === undefined || value === '') return '';
+      const ref = `${columnName(c)}${r + 1}`;
+      if (typeof value === 'number' && isFinite(value)) return `<c r="${ref}"><v>${value}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows}</sheetData></worksheet>`;
+};
+
+export const buildXlsx = (sheets: Sheet[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const file = (name: string, content: string) => ({ name, data: encoder.encode(content) });
+
+  return zip([
+    file('[Content_Types].xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')}</Types>`),
+    file('_rels/.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`),
+    file('xl/workbook.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheets.map((s, i) => `<sheet name="${escapeXml(sheetName(s.name, i))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets></workbook>`),
+    file('xl/_rels/workbook.xml.rels', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')}</Relationships>`),
+    ...sheets.map((s, i) => file(`xl/worksheets/sheet${i + 1}.xml`, sheetXml(s)))
+  ]);
+};
+
+// --- Чтение ---
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Файлы архива по центральному каталогу (zip64 и шифрование не поддерживаются)
+const unzip = async (data: Uint8Array): Promise<Map<string, Uint8Array>> => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let end = data.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new Error('Файл не похож на XLSX');
+
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+  let pos = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    const method = view.getUint16(pos + 10, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLength = view.getUint16(pos + 28, true);
+    const name = decoder.decode(data.subarray(pos + 46, pos + 46 + nameLength));
+    const local = view.getUint32(pos + 42, true);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const raw = data.subarray(start, start + size);
+    if (method === 0) files.set(name, raw);
+    else if (method === 8) files.set(name, await inflate(raw));
+    pos += 46 + nameLength + view.getUint16(pos + 30, true) + view.getUint16(pos + 32, true);
+  }
+  return files;
+};
+
+const unescapeXml = (value: string) => value
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&amp;/g, '&');
+
+// Текст строки: все <t> подряд (форматированные фрагменты)
+const richText = (xml: string) => Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(m => unescapeXml(m[1])).join('');
+
+const columnIndex = (ref: string) => {
+  const letters = ref.replace(/\d+$/, '');
+  let index = 0;
+  for (const ch of letters) index = index * 26 + ch.charCodeAt(0) - 64;
+  return index - 1;
+};
+
+// Первый лист книги как таблица строк; пустые строки пропускаются, как в parseCsv
+export const readXlsx = async (data: Uint8Array): Promise<string[][]> => {
+  const files = await unzip(data);
+  const decoder = new TextDecoder();
+  const text = (name: string) => files.has(name) ? decoder.decode(files.get(name)) : '';
+
+  const shared = Array.from(text('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)).map(m => richText(m[1]));
+  const sheetFile = Array.from(files.keys())
+    .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => parseInt(a.replace(/\D/g, '')) - parseInt(b.replace(/\D/g, '')))[0];
+  if (!sheetFile) throw new Error('В книге нет листов');
+
+  const rows: string[][] = [];
+  for (const rowMatch of text(sheetFile).matchAll(/<row[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    for (const cell of rowMatch[1].matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1];
+      const ref = /r="([A-Z]+\d+)"/.exec(attrs)?.[1];
+      const type = /t="(\w+)"/.exec(attrs)?.[1];
+      const body = cell[2] || '';
+      const value = unescapeXml(/<v>([\s\S]*?)<\/v>/.exec(body)?.[1] || '');
+      const content = type === 's' ? shared[Number(value)] ?? '' : type === 'inlineStr' ? richText(body) : value;
+      const index = ref ? columnIndex(ref) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = content.trim();
+    }
+    if (row.some(c => c !== '')) rows.push(row);
+  }
+  return rows;
+};
@@ -12,10 +12,11 @@ export enum RowType {
 export type RankType = 'LEADER' | 'RESERVE' | 'ЛИДЕР' | 'РЕЗЕРВ' | '';
 export type PartCategory = 'Оригинал' | 'Б/У' | 'Аналог';
 export type Currency = 'RUB' | 'USD' | 'CNY';
+export type UserRole = 'client' | 'supplier' | 'admin';
 
 export type WorkflowStatus = 
   | 'В обработке' 
-  | 'КП готово' 
+  | 'КП отправлено' 
   | 'Готов купить' 
   | 'Подтверждение от поставщика' 
   | 'Ожидает оплаты' 
@@ -24,8 +25,85 @@ export type WorkflowStatus =
   | 'Аннулирован' 
   | 'Отказ';
 
+// Курсы к рублю (₽ за 1 единицу валюты), зафиксированные на заказе в момент отправки КП
+export interface RateSnapshot {
+  date: string; // YYYY-MM-DD — на какую дату взяты курсы
+  rates: Partial<Record<Currency, number>>;
+}
+
+// Расчёт цены для клиента (₽ за 1 шт): закупка + доставка + пошлина + сбор + наценка
+export interface PriceBreakdown {
+  supplierPrice: number;
+  supplierCurrency: Currency;
+  rate: number;        // ₽ за 1 единицу валюты поставщика
+  supplierRub: number;
+  delivery: number;    // вес × тариф доставки
+  customs: number;
+  fee: number;
+  markupPercent: number;
+  markupRule: string;  // какое правило наценки сработало
+  markup: number;
+  total: number;
+}
+
+// Позиция документа КП — то, что видит клиент
+export interface CpDocumentItem {
+  itemId?: string;     // ID позиции заказа; в документах до появления ID нет
+  name: string;
+  splitOf?: number;    // позиция разделена между поставщиками: строка — доля из этого количества
+  category?: PartCategory;
+  quantity: number;
+  price?: number;      // за 1 шт; нет — по позиции нет предложения
+  currency?: Currency;
+  deliveryWeeks?: number;
+}
+
+// Прежняя редакция оффера: условия поставщика по позициям до правки
+export interface OfferRevision {
+  revision: number;
+  revisedAt: string;   // ISO — когда её сменила следующая редакция
+  items: Pick<OrderItem, 'id' | 'sellerPrice' | 'sellerCurrency' | 'offeredQuantity' | 'weight' | 'deliveryWeeks'>[];
+}
+
+// Окно приёма офферов по заказу (см. services/bidding.ts). Второй раунд — переторжка среди уже ответивших поставщиков
+export interface BiddingWindow {
+  round: 1 | 2;
+  hours: number;
+  openedAt: string;  // ISO
+  deadline: string;  // ISO — после него офферы не принимаются
+}
+
+// Подсказка лучшей цены для поставщика (см. services/priceHints.ts): без названий и условий конкурентов
+export interface PriceHint {
+  price: number;       // лучшая цена других поставщиков за 1 шт
+  currency: Currency;
+  offers: number;      // сколько других предложений с ценой по позиции
+}
+
+// Подсказка на заказе: 'on' / 'off' — для всех поставщиков заказа; нет — по правилам подсказок
+export type PriceHintMode = 'on' | 'off';
+
+// Версия коммерческого предложения: снимок заказа на момент формирования КП
+export interface CpDocument {
+  version: number;
+  number: string;      // <id заказа>-<версия>
+  createdAt: string;   // ISO
+  validUntil: string;  // YYYY-MM-DD
+  clientName: string;
+  clientPhone?: string;
+  vin: string;
+  car?: CarDetails;    // с учётом правок администратора
+  items: CpDocumentItem[];
+  totals: Partial<Record<Currency, number>>;
+  totalRub?: number;   // по курсам rateSnapshot; нет — не все валюты пересчитываются
+  deliveryTerms: string;
+  rateSnapshot?: RateSnapshot;
+}
+
 export interface CarDetails {
-  model: string;
+  brand?: string;
+  model: string;       // модель по справочнику, без марки; в старых заказах — «Марка Модель»
+  generation?: string; // поколение по справочнику (XV70, W213...)
   bodyType: string;
   year: string;
   engine: string;
@@ -39,9 +117,45 @@ export interface CarDetails {
   AdminTransmission?: string;
 }
 
+// Справочник авто: марка → модель → поколение → двигатели
+export interface CarGeneration {
+  name: string;
+  from: number;        // годы выпуска; to нет — выпускается
+  to?: number;
+  bodyTypes: string[];
+  engines: string[];
+}
+
+export interface CarModelEntry {
+  name: string;
+  generations: CarGeneration[];
+}
+
+export interface CarBrandEntry {
+  name: string;
+  aliases?: string[];      // другие написания: ВАЗ, VW, Mercedes...
+  models: CarModelEntry[]; // пусто — модели вводятся вручную
+}
+
+// Справочник запчастей: нормализованное название, группа, оригинальные номера по маркам авто
+export interface PartNumber {
+  number: string;       // в написании производителя: 04152-YZZA1, W 68/3
+  maker: string;        // Toyota, Mann, Bosch...
+  carBrands?: string[]; // для оригинальных номеров — марки из справочника авто
+}
+
+export interface CataloguePart {
+  id: string;
+  name: string;         // нормализованное название — его пишем в позицию
+  group: string;
+  aliases: string[];    // как клиенты пишут ту же деталь
+  originals: PartNumber[];
+}
+
 export interface OrderItem {
   id: string;
   name: string;
+  article?: string;  // артикул / OEM-номер: в заказе — что нужно клиенту, в оффере — что предлагает поставщик
   quantity: number; 
   color: string;
   address: string;
@@ -64,6 +178,7 @@ export interface OrderItem {
   adminCurrency?: Currency; // Валюта для клиента
   
   offeredQuantity?: number;
+  allocatedQuantity?: number; // Доля лидера: сколько штук позиции поставляет этот поставщик (см. fulfilment.ts)
   available?: boolean;
   rank?: RankType;
   comment?: string; // Комментарий поставщика (старое поле)
@@ -74,6 +189,13 @@ export interface OrderItem {
   photoUrl?: string; // НОВОЕ: Ссылка на фото
   clientPhone?: string; // Телефон клиента (из заказа)
   sellerPhone?: string; // Телефон поставщика (из оффера)
+  rateSnapshot?: RateSnapshot; // Курсы на дату КП (хранится в первой позиции заказа)
+  pricing?: PriceBreakdown; // Расчёт цены лидера (доставка входит в adminPrice)
+  priceOverrideReason?: string; // Причина, если adminPrice отличается от расчётной
+  cpDocuments?: CpDocument[]; // Версии КП (хранятся в первой позиции заказа)
+  bidding?: BiddingWindow; // Окно приёма офферов (хранится в первой позиции заказа)
+  priceHints?: PriceHintMode; // Настройка подсказки цены на заказе (хранится в первой позиции заказа)
+  bestPrice?: PriceHint; // Только в данных поставщика: бэкенд добавляет при выдаче заказа
 }
 
 export interface Order {
@@ -101,4 +223,19 @@ export interface Order {
   refusalReason?: string;
   // НОВОЕ: Единый статус процесса (Колонка O?)
   workflowStatus?: WorkflowStatus;
+  // OFFER: постоянный ID поставщика из реестра (clientName — его текущее название)
+  sellerId?: string;
+  // ORDER: курсы валют на момент отправки КП
+  rateSnapshot?: RateSnapshot;
+  // ORDER: документы КП, по версии на каждое формирование
+  cpDocuments?: CpDocument[];
+  // Ревизия строки (нет у бэкенда без push-канала); версия всего заказа с офферами — blockVersion()
+  version?: number;
+  // OFFER: номер редакции (1 — первый ответ поставщика) и прежние редакции, старые первыми
+  offerRevision?: number;
+  offerHistory?: OfferRevision[];
+  // ORDER: окно приёма офферов; нет — заказ создан до окон, приём не ограничен по времени
+  bidding?: BiddingWindow;
+  // ORDER: подсказка лучшей цены поставщикам — своя настройка заказа; нет — по правилам
+  priceHints?: PriceHintMode;
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import path from 'path';
 import { fileURLToPath } from 'url';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { localApiPlugin } from './server/localApiPlugin';
 
 // Добавляем фикс для __dirname в ESM среде, так как Vite использует ESM по умолчанию
 const __filename = fileURLToPath(import.meta.url);
@@ -14,7 +15,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), localApiPlugin(env)],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Тесты логики бэкенда и сервисов: без плагинов vite.config.ts (локальный API, React) и без браузера
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['services/**/*.test.ts']
+  }
+});